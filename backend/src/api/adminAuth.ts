@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { ErrorResponse } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Restrict admin endpoints to requests carrying ADMIN_API_KEY as a bearer token
+ * Without a configured key, admin endpoints are closed unless ADMIN_AUTH_DISABLED=true opens them
+ * for local development; that opt-out is ignored in production.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const apiKey = process.env.ADMIN_API_KEY;
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  const authDisabled = process.env.ADMIN_AUTH_DISABLED === 'true' && process.env.NODE_ENV !== 'production';
+
+  if (apiKey ? token === apiKey : authDisabled) {
+    next();
+    return;
+  }
+
+  const error: ErrorResponse = {
+    error: 'UNAUTHORIZED',
+    message: apiKey ? 'A valid admin API key is required' : 'Admin API is disabled: ADMIN_API_KEY is not configured',
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(apiKey ? 401 : 403).json(error);
+}
+
+/**
+ * Moderator named in the X-Moderator-Id header, for the audit trail
+ */
+export function getModeratorId(req: Request): string {
+  const header = req.headers['x-moderator-id'];
+  return typeof header === 'string' && header.trim() ? header.trim() : 'admin';
+}
@@ -0,0 +1,111 @@
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { LocationService } from '../services/locationService';
+import { AlertSubscription, alertStreamService, parseAlertSubscription } from '../services/alertStreamService';
+
+/**
+ * WebSocket alternative to GET /api/safety/alerts/stream
+ * Subscribe with the same query parameters on connect, or send
+ * { "type": "subscribe", "location": "lat,lng", "radius": 5000, "minSeverity": "warning", "lastEventId": 42 }
+ * to replace the subscription. Each alert change arrives as one JSON AlertStreamEvent message.
+ */
+export const ALERT_SOCKET_PATH = '/api/safety/alerts/ws';
+
+const PING_INTERVAL = 25000; // ms
+
+const locationService = new LocationService();
+
+export function attachAlertSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: ALERT_SOCKET_PATH });
+
+  wss.on('connection', (socket, req) => {
+    let subscription: AlertSubscription | undefined;
+    let closed = false;
+    let subscribing: Promise<void> = Promise.resolve();
+
+    const subscribe = async (params: Record<string, unknown>) => {
+      if (closed) return;
+
+      const parsed = parseAlertSubscription(params);
+      if ('error' in parsed) {
+        sendError(socket, 'INVALID_SUBSCRIPTION', parsed.error);
+        return;
+      }
+
+      const { location } = parsed.filter;
+      if (location && !locationService.isWithinCapeTownBounds(location.latitude, location.longitude)) {
+        sendError(socket, 'INVALID_LOCATION', 'Location is outside Cape Town metropolitan area');
+        return;
+      }
+
+      const lastEventId = Number(params.lastEventId);
+      subscription?.unsubscribe();
+      subscription = await alertStreamService.subscribe(parsed.filter, event => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify(event));
+        }
+      }, Number.isInteger(lastEventId) ? lastEventId : undefined);
+
+      if (closed) {
+        subscription.unsubscribe();
+      }
+    };
+
+    // Subscriptions are replaced one at a time, so a quick second subscribe can't leave the first one running
+    const enqueueSubscribe = (params: Record<string, unknown>) => {
+      subscribing = subscribing
+        .then(() => subscribe(params))
+        .catch(error => handleFailure(socket, error));
+    };
+
+    const query = new URL(req.url || '', 'http://localhost').searchParams;
+    if (query.has('location') || query.has('radius') || query.has('minSeverity')) {
+      enqueueSubscribe(Object.fromEntries(query));
+    }
+
+    socket.on('message', data => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        sendError(socket, 'INVALID_MESSAGE', 'Messages must be JSON');
+        return;
+      }
+
+      if (!isMessageObject(message)) {
+        sendError(socket, 'INVALID_MESSAGE', 'Messages must be JSON objects');
+        return;
+      }
+
+      if (message.type !== 'subscribe') {
+        sendError(socket, 'INVALID_MESSAGE', 'Unknown message type; expected "subscribe"');
+        return;
+      }
+      enqueueSubscribe(message);
+    });
+
+    const ping = setInterval(() => socket.ping(), PING_INTERVAL);
+    socket.on('close', () => {
+      closed = true;
+      clearInterval(ping);
+      subscription?.unsubscribe();
+    });
+  });
+
+  return wss;
+}
+
+function isMessageObject(message: unknown): message is Record<string, unknown> {
+  return typeof message === 'object' && message !== null && !Array.isArray(message);
+}
+
+function sendError(socket: WebSocket, error: string, message: string): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ type: 'error', error, message, timestamp: new Date() }));
+  }
+}
+
+function handleFailure(socket: WebSocket, error: unknown): void {
+  console.error('Alert socket error:', error);
+  sendError(socket, 'ALERT_STREAM_FAILED', 'Failed to subscribe to safety alerts');
+}
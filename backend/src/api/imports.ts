@@ -0,0 +1,128 @@
+import express, { Router, Request, Response } from 'express';
+import { ErrorResponse } from '../types';
+import { CrimeImportError, crimeImportService, IMPORT_FORMATS, ImportFormat } from '../services/crimeImportService';
+import { requireAdmin } from './adminAuth';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+// Datasets are usually posted as raw CSV or GeoJSON, larger than the default JSON body limit
+router.use(express.text({ type: ['text/*', 'application/geo+json'], limit: process.env.IMPORT_MAX_SIZE || '20mb' }));
+
+const ERROR_STATUS: Record<CrimeImportError['code'], number> = {
+  INVALID_FORMAT: 400,
+  INVALID_FILE: 422,
+  RECORD_NOT_FOUND: 404
+};
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * POST /api/imports
+ * Import a crime dataset; rows that can't be imported are listed in errors
+ * Body: the file as text/csv or application/geo+json, or JSON { format?, content } or a GeoJSON FeatureCollection
+ * Query: format (csv, geojson or saps; detected when omitted), dryRun=true to validate without storing
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    let content: string | undefined;
+    let format = req.query.format as ImportFormat | undefined;
+
+    if (typeof req.body === 'string') {
+      content = req.body;
+    } else if (req.body?.type === 'FeatureCollection') {
+      content = JSON.stringify(req.body);
+      format = format || 'geojson';
+    } else if (typeof req.body?.content === 'string') {
+      content = req.body.content;
+      format = format || req.body.format;
+    }
+
+    if (!content || !content.trim()) {
+      return sendBadRequest(req, res, 'MISSING_CONTENT', 'Request body must contain the dataset to import');
+    }
+    if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+      return sendBadRequest(req, res, 'INVALID_FORMAT', `format must be one of: ${IMPORT_FORMATS.join(', ')}`);
+    }
+
+    const result = await crimeImportService.importData(
+      content,
+      format || crimeImportService.detectFormat(content),
+      { dryRun: req.query.dryRun === 'true' }
+    );
+    res.status(200).json(result);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to import crime data');
+  }
+});
+
+/**
+ * GET /api/imports/records
+ * Imported crime data records, most recently imported first
+ */
+router.get('/records', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const records = await crimeImportService.listRecords({ limit, offset });
+    res.status(200).json({ records, pagination: { limit, offset } });
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve imported crime data');
+  }
+});
+
+/**
+ * DELETE /api/imports/records/:id
+ * Remove an imported record
+ */
+router.delete('/records/:id', async (req: Request, res: Response) => {
+  try {
+    await crimeImportService.deleteRecord(req.params.id);
+    res.status(204).send();
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to delete imported crime data');
+  }
+});
+
+// Helper functions
+
+function sendBadRequest(req: Request, res: Response, code: string, message: string): void {
+  const error: ErrorResponse = {
+    error: code,
+    message,
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(400).json(error);
+}
+
+function handleError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof CrimeImportError) {
+    const errorResponse: ErrorResponse = {
+      error: error.code,
+      message: error.message,
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(ERROR_STATUS[error.code]).json(errorResponse);
+    return;
+  }
+
+  console.error('Crime data import error:', error);
+  const errorResponse: ErrorResponse = {
+    error: 'IMPORT_OPERATION_FAILED',
+    message,
+    details: { error: error instanceof Error ? error.message : 'Unknown error' },
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(500).json(errorResponse);
+}
+
+export default router;
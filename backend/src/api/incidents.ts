@@ -0,0 +1,109 @@
+import { Router, Request, Response } from 'express';
+import { ErrorResponse, IncidentReport, Location } from '../types';
+import { LocationService } from '../services/locationService';
+import { IncidentError, incidentService } from '../services/incidentService';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = Router();
+
+const locationService = new LocationService();
+
+const ERROR_STATUS: Record<IncidentError['code'], number> = {
+  RATE_LIMITED: 429,
+  INCIDENT_NOT_FOUND: 404
+};
+
+/**
+ * POST /api/incidents
+ * Report a safety incident; the session comes from the body or the X-Session-Id header
+ * Reports are rate limited per session and per client address.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+    const parsed = incidentService.parseSubmission({
+      ...body,
+      sessionId: body.sessionId ?? req.headers['x-session-id']
+    });
+    if ('error' in parsed) {
+      const error: ErrorResponse = {
+        error: 'INVALID_INCIDENT',
+        message: parsed.error,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const validation = locationService.validateLocation(body.location || {});
+    if (!validation.isValid || !validation.enrichedLocation) {
+      const error: ErrorResponse = {
+        error: 'INVALID_LOCATION',
+        message: 'Incident location is invalid or outside the Cape Town metropolitan area',
+        details: { errors: validation.errors, suggestions: validation.suggestions },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const { latitude, longitude, address, neighborhood } = validation.enrichedLocation;
+    const location: Location = { latitude, longitude, address, neighborhood };
+
+    const report = await incidentService.submitReport({ ...parsed.submission, clientIp: req.ip, location });
+    res.status(201).json(toPublicReport(report));
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to submit incident report');
+  }
+});
+
+/**
+ * GET /api/incidents/:id
+ * Get a submitted incident report and its moderation status
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const report = await incidentService.getReport(req.params.id);
+    res.status(200).json(toPublicReport(report));
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve incident report');
+  }
+});
+
+// Helper functions
+
+// Reports are shown without the reporting session, its address or its reputation
+function toPublicReport(report: IncidentReport): Omit<IncidentReport, 'sessionId' | 'clientIp' | 'weight' | 'suspectedSpam'> {
+  const { sessionId: _sessionId, clientIp: _clientIp, weight: _weight, suspectedSpam: _suspectedSpam, ...publicReport } = report;
+  return publicReport;
+}
+
+function handleError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof IncidentError) {
+    if (error.retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+    }
+    const errorResponse: ErrorResponse = {
+      error: error.code,
+      message: error.message,
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(ERROR_STATUS[error.code]).json(errorResponse);
+    return;
+  }
+
+  console.error('Incident report error:', error);
+  const errorResponse: ErrorResponse = {
+    error: 'INCIDENT_OPERATION_FAILED',
+    message,
+    details: { error: error instanceof Error ? error.message : 'Unknown error' },
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(500).json(errorResponse);
+}
+
+export default router;
@@ -0,0 +1,198 @@
+import { Router, Request, Response } from 'express';
+import { ErrorResponse, IncidentStatus } from '../types';
+import { ModerationError, moderationService } from '../services/moderationService';
+import { getModeratorId, requireAdmin } from './adminAuth';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+const ERROR_STATUS: Record<ModerationError['code'], number> = {
+  INCIDENT_NOT_FOUND: 404,
+  INVALID_DECISION: 409,
+  NOT_DUPLICATE: 409
+};
+
+const STATUSES: IncidentStatus[] = ['pending', 'approved', 'rejected', 'merged', 'spam'];
+const MAX_PAGE_SIZE = 100;
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * GET /api/moderation/incidents
+ * Moderation queue: reports with a status (default pending), oldest first
+ */
+router.get('/incidents', async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as IncidentStatus | undefined) || 'pending';
+    if (!STATUSES.includes(status)) {
+      return sendBadRequest(req, res, 'INVALID_STATUS', `status must be one of: ${STATUSES.join(', ')}`);
+    }
+
+    const suspectedSpam = req.query.suspectedSpam === undefined ? undefined : req.query.suspectedSpam === 'true';
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const items = await moderationService.getQueue(status, { limit, offset, suspectedSpam });
+    res.status(200).json({ items, pagination: { limit, offset } });
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve moderation queue');
+  }
+});
+
+/**
+ * POST /api/moderation/incidents/:id/approve
+ * Approve a report so it counts towards crime data
+ */
+router.post('/incidents/:id/approve', async (req: Request, res: Response) => {
+  try {
+    const reason = parseReason(req.body?.reason);
+    if (reason === null) {
+      return sendBadRequest(req, res, 'INVALID_REASON', `reason must be a string of at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const report = await moderationService.approve(req.params.id, getModeratorId(req), reason);
+    res.status(200).json(report);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to approve incident report');
+  }
+});
+
+/**
+ * POST /api/moderation/incidents/:id/reject
+ * Reject a report; a reason is required
+ */
+router.post('/incidents/:id/reject', async (req: Request, res: Response) => {
+  try {
+    const reason = parseReason(req.body?.reason);
+    if (!reason) {
+      return sendBadRequest(req, res, 'INVALID_REASON', `reason is required, at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const report = await moderationService.reject(req.params.id, getModeratorId(req), reason);
+    res.status(200).json(report);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to reject incident report');
+  }
+});
+
+/**
+ * POST /api/moderation/incidents/:id/spam
+ * Flag a report as spam, lowering its reporter's reputation
+ */
+router.post('/incidents/:id/spam', async (req: Request, res: Response) => {
+  try {
+    const reason = parseReason(req.body?.reason);
+    if (reason === null) {
+      return sendBadRequest(req, res, 'INVALID_REASON', `reason must be a string of at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const report = await moderationService.flagSpam(req.params.id, getModeratorId(req), reason);
+    res.status(200).json(report);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to flag incident report');
+  }
+});
+
+/**
+ * POST /api/moderation/incidents/:id/merge
+ * Merge duplicate reports (duplicateIds) into this one
+ */
+router.post('/incidents/:id/merge', async (req: Request, res: Response) => {
+  try {
+    const { duplicateIds } = req.body || {};
+    if (!Array.isArray(duplicateIds) || duplicateIds.length === 0 || !duplicateIds.every(id => typeof id === 'string')) {
+      return sendBadRequest(req, res, 'INVALID_DUPLICATES', 'duplicateIds must be a non-empty array of report IDs');
+    }
+
+    const reason = parseReason(req.body.reason);
+    if (reason === null) {
+      return sendBadRequest(req, res, 'INVALID_REASON', `reason must be a string of at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const report = await moderationService.merge(req.params.id, duplicateIds, getModeratorId(req), reason);
+    res.status(200).json(report);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to merge incident reports');
+  }
+});
+
+/**
+ * GET /api/moderation/incidents/:id/audit
+ * Moderation decisions on a report, oldest first
+ */
+router.get('/incidents/:id/audit', async (req: Request, res: Response) => {
+  try {
+    const decisions = await moderationService.getAuditTrail(req.params.id);
+    res.status(200).json({ reportId: req.params.id, decisions });
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve audit trail');
+  }
+});
+
+/**
+ * GET /api/moderation/decisions
+ * Audit log of all moderation decisions, newest first, optionally by one moderator
+ */
+router.get('/decisions', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const decisions = await moderationService.getDecisions(req.query.moderatorId as string | undefined, { limit, offset });
+    res.status(200).json({ decisions, pagination: { limit, offset } });
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve moderation decisions');
+  }
+});
+
+// Helper functions
+
+// Optional trimmed reason; null when invalid
+function parseReason(reason: unknown): string | undefined | null {
+  if (reason === undefined) return undefined;
+  if (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH) return null;
+  return reason.trim() || undefined;
+}
+
+function sendBadRequest(req: Request, res: Response, code: string, message: string): void {
+  const error: ErrorResponse = {
+    error: code,
+    message,
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(400).json(error);
+}
+
+function handleError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof ModerationError) {
+    const errorResponse: ErrorResponse = {
+      error: error.code,
+      message: error.message,
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(ERROR_STATUS[error.code]).json(errorResponse);
+    return;
+  }
+
+  console.error('Moderation error:', error);
+  const errorResponse: ErrorResponse = {
+    error: 'MODERATION_OPERATION_FAILED',
+    message,
+    details: { error: error instanceof Error ? error.message : 'Unknown error' },
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(500).json(errorResponse);
+}
+
+export default router;
@@ -2,24 +2,32 @@ import { Router, Request, Response } from 'express';
 import {
   RouteRequest,
   RouteResponse,
+  DepartureTimeRequest,
+  DepartureTimeResponse,
   Route,
-  Location,
-  SafetyScore,
-  RouteSegment,
-  ResponseMetadata,
+  RouteOptimization,
+  TimeContext,
+  TravelMode,
   ErrorResponse
 } from '../types';
 import { SafetyScoringService } from '../services/safetyScoringService';
 import { LocationService } from '../services/locationService';
+import { routingService } from '../services/routingService';
+import { departureTimeService, MAX_DEPARTURE_SAMPLES } from '../services/departureTimeService';
+import { scoringModelService } from '../services/scoringModelService';
+import { storage } from '../storage';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 
-// In-memory storage for calculated routes (for demo purposes)
-const routeCache = new Map<string, Route>();
 const safetyScoringService = new SafetyScoringService();
 const locationService = new LocationService();
 
+const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'cycling', 'transit'];
+const MAX_WAYPOINTS = 10;
+const MAX_DEPARTURE_WINDOW_HOURS = 24;
+const MIN_DEPARTURE_INTERVAL_MINUTES = 5;
+
 /**
  * POST /api/routes/calculate
  * Calculate safe routes between two locations
@@ -66,16 +74,86 @@ router.post('/calculate', async (req: Request, res: Response) => {
       return res.status(400).json(error);
     }
 
-    // Generate multiple route alternatives (simulating Google Routes API)
-    const routes = await generateRouteAlternatives(routeRequest);
+    const waypoints = routeRequest.waypoints || [];
+    if (!Array.isArray(waypoints) || waypoints.length > MAX_WAYPOINTS) {
+      const error: ErrorResponse = {
+        error: 'TOO_MANY_WAYPOINTS',
+        message: `At most ${MAX_WAYPOINTS} waypoints are supported`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const invalidWaypoint = waypoints.findIndex(waypoint =>
+      !locationService.isWithinCapeTownBounds(waypoint?.latitude, waypoint?.longitude)
+    );
+    if (invalidWaypoint >= 0) {
+      const error: ErrorResponse = {
+        error: 'INVALID_LOCATION',
+        message: `Waypoint ${invalidWaypoint + 1} is outside Cape Town metropolitan area`,
+        details: { location: `waypoints[${invalidWaypoint}]`, bounds: 'Cape Town: lat(-34.5, -33.5), lng(18.0, 19.0)' },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const travelMode = routeRequest.options?.travelMode;
+    if (travelMode && !TRAVEL_MODES.includes(travelMode)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TRAVEL_MODE',
+        message: `Travel mode must be one of: ${TRAVEL_MODES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const departureTime = routeRequest.options?.departureTime;
+    if (departureTime && isNaN(new Date(departureTime).getTime())) {
+      const error: ErrorResponse = {
+        error: 'INVALID_DEPARTURE_TIME',
+        message: 'Departure time must be an ISO 8601 timestamp',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (isUnknownModelVersion(routeRequest.options?.modelVersion)) {
+      const error: ErrorResponse = {
+        error: 'UNKNOWN_SCORING_MODEL',
+        message: `Unknown scoring model version: ${routeRequest.options?.modelVersion}`,
+        details: { availableVersions: scoringModelService.listModels().map(model => model.version) },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const timeContext: TimeContext | undefined = departureTime ? { currentTime: departureTime } : undefined;
+
+    // Generate multiple route alternatives over the road network
+    const { routes, avoidAreas, relaxedOptions } = await routingService.generateRouteAlternatives(routeRequest, timeContext);
+
+    if (routes.length === 0) {
+      const error: ErrorResponse = {
+        error: 'NO_ROUTE_FOUND',
+        message: 'No road connection found between origin and destination',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(422).json(error);
+    }
 
     // Calculate safety scores for each route
     for (let i = 0; i < routes.length; i++) {
-      routes[i] = await safetyScoringService.calculateRouteSafety(routes[i]);
+      routes[i] = await safetyScoringService.calculateRouteSafety(routes[i], timeContext, routeRequest.options?.modelVersion);
     }
 
     // Rank routes
-    const rankedRoutes = rankRoutes(routes, routeRequest.preferences?.safetyPriority || 50);
+    const rankedRoutes = rankRoutes(routes, routeRequest.preferences?.safetyPriority || 50, routeRequest.options?.optimizeFor);
 
     const processingTime = Date.now() - startTime;
 
@@ -83,10 +161,12 @@ router.post('/calculate', async (req: Request, res: Response) => {
     const response: RouteResponse = {
       routes: rankedRoutes,
       alternatives: {
-        fastest: rankedRoutes.find(r => r.alternativeRank === 1)?.id,
-        safest: rankedRoutes.find(r => r.safetyScore.overall === Math.max(...rankedRoutes.map(r => r.safetyScore.overall)))?.id,
-        balanced: rankedRoutes.find(r => r.alternativeRank === 2)?.id
+        fastest: rankedRoutes.find(r => r.optimizedFor?.includes('time'))?.id,
+        safest: rankedRoutes.find(r => r.optimizedFor?.includes('safety'))?.id,
+        balanced: rankedRoutes.find(r => r.optimizedFor?.includes('balanced'))?.id
       },
+      avoidAreas: avoidAreas.length > 0 ? avoidAreas : undefined,
+      relaxedOptions: relaxedOptions.length > 0 ? relaxedOptions : undefined,
       metadata: {
         calculatedAt: new Date(),
         processingTime,
@@ -95,8 +175,8 @@ router.post('/calculate', async (req: Request, res: Response) => {
       }
     };
 
-    // Cache routes for later retrieval
-    rankedRoutes.forEach(route => routeCache.set(route.id, route));
+    // Store routes for later retrieval
+    await Promise.all(rankedRoutes.map(route => storage.routes.put(route.id, route)));
 
     res.status(200).json(response);
 
@@ -113,6 +193,126 @@ router.post('/calculate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/routes/departure-times
+ * Rank departure times across a window by expected safety and journey duration
+ */
+router.post('/departure-times', async (req: Request, res: Response) => {
+  try {
+    const startTime = Date.now();
+    const departureRequest: DepartureTimeRequest = req.body;
+
+    if (!departureRequest.origin || !departureRequest.destination || !departureRequest.window) {
+      const error: ErrorResponse = {
+        error: 'MISSING_REQUIRED_FIELDS',
+        message: 'Origin, destination and departure window are required',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const waypoints = departureRequest.waypoints || [];
+    if (!Array.isArray(waypoints) || waypoints.length > MAX_WAYPOINTS) {
+      const error: ErrorResponse = {
+        error: 'TOO_MANY_WAYPOINTS',
+        message: `At most ${MAX_WAYPOINTS} waypoints are supported`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const invalidLocation = [
+      { name: 'origin', location: departureRequest.origin },
+      { name: 'destination', location: departureRequest.destination },
+      ...waypoints.map((location, index) => ({ name: `waypoints[${index}]`, location }))
+    ].find(({ location }) => !locationService.isWithinCapeTownBounds(location?.latitude, location?.longitude));
+    if (invalidLocation) {
+      const error: ErrorResponse = {
+        error: 'INVALID_LOCATION',
+        message: `Location ${invalidLocation.name} is outside Cape Town metropolitan area`,
+        details: { location: invalidLocation.name, bounds: 'Cape Town: lat(-34.5, -33.5), lng(18.0, 19.0)' },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const travelMode = departureRequest.options?.travelMode;
+    if (travelMode && !TRAVEL_MODES.includes(travelMode)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TRAVEL_MODE',
+        message: `Travel mode must be one of: ${TRAVEL_MODES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (isUnknownModelVersion(departureRequest.options?.modelVersion)) {
+      const error: ErrorResponse = {
+        error: 'UNKNOWN_SCORING_MODEL',
+        message: `Unknown scoring model version: ${departureRequest.options?.modelVersion}`,
+        details: { availableVersions: scoringModelService.listModels().map(model => model.version) },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const windowError = validateDepartureWindow(departureRequest);
+    if (windowError) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TIME_WINDOW',
+        message: windowError,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const { departures, routes, recommendation } = await departureTimeService.optimizeDepartureTime(departureRequest);
+
+    if (departures.length === 0) {
+      const error: ErrorResponse = {
+        error: 'NO_ROUTE_FOUND',
+        message: 'No road connection found between origin and destination',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(422).json(error);
+    }
+
+    // Store routes so each departure's route can be retrieved
+    await Promise.all(routes.map(route => storage.routes.put(route.id, route)));
+
+    const response: DepartureTimeResponse = {
+      departures,
+      recommendation,
+      metadata: {
+        calculatedAt: new Date(),
+        processingTime: Date.now() - startTime,
+        dataConfidence: 85,
+        apiVersion: '1.0.0'
+      }
+    };
+
+    res.status(200).json(response);
+
+  } catch (error) {
+    console.error('Departure time optimisation error:', error);
+    const errorResponse: ErrorResponse = {
+      error: 'CALCULATION_FAILED',
+      message: 'Failed to optimise departure time',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
 /**
  * GET /api/routes/:routeId
  * Get route details by ID
@@ -121,7 +321,7 @@ router.get('/:routeId', async (req: Request, res: Response) => {
   try {
     const { routeId } = req.params;
 
-    const route = routeCache.get(routeId);
+    const route = await storage.routes.get(routeId);
     if (!route) {
       const error: ErrorResponse = {
         error: 'ROUTE_NOT_FOUND',
@@ -155,8 +355,20 @@ router.get('/:routeId/safety', async (req: Request, res: Response) => {
   try {
     const { routeId } = req.params;
     const currentTime = req.query.currentTime as string;
+    const modelVersion = req.query.modelVersion as string | undefined;
 
-    const route = routeCache.get(routeId);
+    if (isUnknownModelVersion(modelVersion)) {
+      const error: ErrorResponse = {
+        error: 'UNKNOWN_SCORING_MODEL',
+        message: `Unknown scoring model version: ${modelVersion}`,
+        details: { availableVersions: scoringModelService.listModels().map(model => model.version) },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const route = await storage.routes.get(routeId);
     if (!route) {
       const error: ErrorResponse = {
         error: 'ROUTE_NOT_FOUND',
@@ -167,11 +379,11 @@ router.get('/:routeId/safety', async (req: Request, res: Response) => {
       return res.status(404).json(error);
     }
 
-    // Recalculate safety score with current time context if provided
+    // Recalculate safety score with the current time context or another scoring model if provided
     let safetyScore = route.safetyScore;
-    if (currentTime) {
-      const timeContextDate = new Date(currentTime);
-      const updatedRoute = await safetyScoringService.calculateRouteSafety(route, { currentTime: timeContextDate.toISOString() });
+    if (currentTime || modelVersion) {
+      const timeContext: TimeContext | undefined = currentTime ? { currentTime: new Date(currentTime).toISOString() } : undefined;
+      const updatedRoute = await safetyScoringService.calculateRouteSafety(route, timeContext, modelVersion);
       safetyScore = updatedRoute.safetyScore;
     }
 
@@ -192,116 +404,42 @@ router.get('/:routeId/safety', async (req: Request, res: Response) => {
 
 // Helper functions
 
-async function generateRouteAlternatives(request: RouteRequest): Promise<Route[]> {
-  const maxRoutes = request.options?.maxRoutes || 3;
-  const routes: Route[] = [];
-
-  // For demo purposes, we'll generate synthetic routes
-  // In a real implementation, this would call Google Routes API
-
-  const baseDistance = calculateDistance(request.origin, request.destination);
-  const baseDuration = Math.round(baseDistance * 0.06); // ~60 seconds per km
-
-  for (let i = 0; i < maxRoutes; i++) {
-    const routeId = `route_${i === 0 ? 'fastest' : i === 1 ? 'safest' : 'balanced'}_${uuidv4().slice(0, 8)}`;
-
-    // Generate variations for different route types
-    const distanceMultiplier = i === 0 ? 1.0 : i === 1 ? 1.15 : 1.08; // Fastest, safest, balanced
-    const durationMultiplier = i === 0 ? 1.0 : i === 1 ? 1.2 : 1.1;
-
-    const route: Route = {
-      id: routeId,
-      origin: request.origin,
-      destination: request.destination,
-      waypoints: request.waypoints || [],
-      totalDistance: Math.round(baseDistance * distanceMultiplier),
-      estimatedDuration: Math.round(baseDuration * durationMultiplier),
-      safetyScore: {
-        overall: 0, // Will be calculated later
-        crimeRisk: 0,
-        timeFactor: 0,
-        populationDensity: 0,
-        lightingLevel: 0,
-        historicalIncidents: 0,
-        confidenceLevel: 0,
-        explanation: '',
-        lastCalculated: new Date(),
-        factors: []
-      },
-      segments: await generateRouteSegments(request.origin, request.destination, i),
-      alternativeRank: i + 1,
-      createdAt: new Date(),
-      lastUpdated: new Date()
-    };
-
-    routes.push(route);
-  }
-
-  return routes;
+function isUnknownModelVersion(version: unknown): boolean {
+  return version !== undefined && (typeof version !== 'string' || !scoringModelService.hasModel(version));
 }
 
-async function generateRouteSegments(origin: Location, destination: Location, routeIndex: number): Promise<RouteSegment[]> {
-  const segments: RouteSegment[] = [];
-  const numSegments = 3 + routeIndex; // Different routes have different segment counts
-
-  for (let i = 0; i < numSegments; i++) {
-    const progress = (i + 1) / numSegments;
-    const startLat = origin.latitude + (destination.latitude - origin.latitude) * (i / numSegments);
-    const startLng = origin.longitude + (destination.longitude - origin.longitude) * (i / numSegments);
-    const endLat = origin.latitude + (destination.latitude - origin.latitude) * progress;
-    const endLng = origin.longitude + (destination.longitude - origin.longitude) * progress;
-
-    const segment: RouteSegment = {
-      id: `segment_${i + 1}_${uuidv4().slice(0, 6)}`,
-      startLocation: {
-        latitude: startLat,
-        longitude: startLng,
-        address: i === 0 ? origin.address : undefined
-      },
-      endLocation: {
-        latitude: endLat,
-        longitude: endLng,
-        address: i === numSegments - 1 ? destination.address : undefined
-      },
-      distance: Math.round(calculateDistance({ latitude: startLat, longitude: startLng }, { latitude: endLat, longitude: endLng })),
-      duration: Math.round(calculateDistance({ latitude: startLat, longitude: startLng }, { latitude: endLat, longitude: endLng }) * 0.06),
-      safetyScore: {
-        overall: 0, // Will be calculated
-        crimeRisk: 0,
-        timeFactor: 0,
-        populationDensity: 0,
-        lightingLevel: 0,
-        historicalIncidents: 0,
-        confidenceLevel: 0,
-        explanation: '',
-        lastCalculated: new Date(),
-        factors: []
-      },
-      roadType: i === 0 ? 'arterial' : routeIndex === 0 ? 'highway' : 'local',
-      lightingLevel: routeIndex === 1 ? 'high' : 'medium'
-    };
+function validateDepartureWindow(request: DepartureTimeRequest): string | undefined {
+  const start = new Date(request.window.start).getTime();
+  const end = new Date(request.window.end).getTime();
+
+  if (isNaN(start) || isNaN(end)) {
+    return 'Window start and end must be ISO 8601 timestamps';
+  }
+  if (end < start) {
+    return 'Window end must not be before its start';
+  }
+  if (end - start > MAX_DEPARTURE_WINDOW_HOURS * 3600 * 1000) {
+    return `Window must not span more than ${MAX_DEPARTURE_WINDOW_HOURS} hours`;
+  }
 
-    segments.push(segment);
+  const interval = request.intervalMinutes;
+  if (interval !== undefined && (typeof interval !== 'number' || interval < MIN_DEPARTURE_INTERVAL_MINUTES)) {
+    return `Interval must be at least ${MIN_DEPARTURE_INTERVAL_MINUTES} minutes`;
+  }
+  if (interval !== undefined && (end - start) / (interval * 60 * 1000) + 1 > MAX_DEPARTURE_SAMPLES) {
+    return `Window and interval must give at most ${MAX_DEPARTURE_SAMPLES} departure times`;
   }
 
-  return segments;
-}
+  if (request.preferredDepartureTime && isNaN(new Date(request.preferredDepartureTime).getTime())) {
+    return 'Preferred departure time must be an ISO 8601 timestamp';
+  }
 
-function calculateDistance(point1: Location, point2: Location): number {
-  // Haversine formula for calculating distance between two points
-  const R = 6371000; // Earth's radius in meters
-  const dLat = (point2.latitude - point1.latitude) * Math.PI / 180;
-  const dLng = (point2.longitude - point1.longitude) * Math.PI / 180;
-  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(point1.latitude * Math.PI / 180) * Math.cos(point2.latitude * Math.PI / 180) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+  return undefined;
 }
 
-function rankRoutes(routes: Route[], safetyPriority: number): Route[] {
+function rankRoutes(routes: Route[], safetyPriority: number, optimizeFor?: RouteOptimization): Route[] {
   // Sort routes based on safety priority vs time efficiency
-  return routes.sort((a, b) => {
+  const sorted = routes.sort((a, b) => {
     const safetyWeight = safetyPriority / 100;
     const timeWeight = 1 - safetyWeight;
 
@@ -311,6 +449,14 @@ function rankRoutes(routes: Route[], safetyPriority: number): Route[] {
 
     return bScore - aScore; // Higher score is better
   });
+
+  // The route optimised for the requested profile always ranks first
+  const preferred = optimizeFor ? sorted.findIndex(route => route.optimizedFor?.includes(optimizeFor)) : -1;
+  if (preferred > 0) {
+    sorted.unshift(...sorted.splice(preferred, 1));
+  }
+
+  return sorted.map((route, index) => ({ ...route, alternativeRank: index + 1 }));
 }
 
 export default router;
\ No newline at end of file
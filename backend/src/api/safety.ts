@@ -3,19 +3,45 @@ import {
   SafetyScoreRequest,
   SafetyScoreResponse,
   SafetyScore,
-  SafetyAlert,
   CrimeData,
   Location,
   ErrorResponse,
+  IncidentSeriesGranularity,
   ScoringMetadata
 } from '../types';
 import { SafetyScoringService } from '../services/safetyScoringService';
 import { CrimeDataService } from '../services/crimeDataService';
+import {
+  CrimeTimeframe,
+  CrimeType,
+  crimeDataGenerator,
+  DEFAULT_CRIME_TIMEFRAME,
+  SUPPORTED_CRIME_TIMEFRAMES
+} from '../data/crime-generator';
 import { LocationService } from '../services/locationService';
+import { gridService, MAX_GRID_RESOLUTION, MIN_GRID_RESOLUTION } from '../services/gridService';
+import { alertService } from '../services/alertService';
+import { riskSurfaceService } from '../services/riskSurfaceService';
+import { heatmapTileService, HeatmapTileError, TILE_CACHE_SECONDS } from '../services/heatmapTileService';
+import { AlertSubscription, alertStreamService, parseAlertSubscription } from '../services/alertStreamService';
+import { ANOMALY_SIGNIFICANCE, anomalyService, MIN_ANOMALY_INCIDENTS } from '../services/anomalyService';
+import { scoringModelService } from '../services/scoringModelService';
+import { ScoringThresholds } from '../data/scoring-models';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 
+const STREAM_HEARTBEAT_INTERVAL = 25000; // ms, keeps proxies from closing idle streams
+const STREAM_RETRY_DELAY = 5000; // ms, reconnect delay suggested to EventSource clients
+const MAX_ACTION_LENGTH = 500;
+const CRIME_TYPES: CrimeType[] = ['violent', 'property', 'petty', 'vehicular'];
+const MAX_PAGE_SIZE = 100;
+const SERIES_GRANULARITIES: IncidentSeriesGranularity[] = ['day', 'week'];
+const RISK_TOLERANCES = ['low', 'medium', 'high'];
+// Days of incident trend per area time range; the incident series is daily, so shorter ranges use the last day
+const AREA_TIME_RANGE_DAYS: Record<string, number> = { '1h': 1, '6h': 1, '12h': 1, '24h': 1, '7d': 7, '30d': 30 };
+const DEFAULT_AREA_TIME_RANGE = '24h';
+
 const safetyScoringService = new SafetyScoringService();
 const crimeDataService = new CrimeDataService();
 const locationService = new LocationService();
@@ -52,29 +78,63 @@ router.post('/score', async (req: Request, res: Response) => {
       return res.status(400).json(error);
     }
 
+    if (scoreRequest.modelVersion !== undefined &&
+      (typeof scoreRequest.modelVersion !== 'string' || !scoringModelService.hasModel(scoreRequest.modelVersion))) {
+      const error: ErrorResponse = {
+        error: 'UNKNOWN_SCORING_MODEL',
+        message: `Unknown scoring model version: ${scoreRequest.modelVersion}`,
+        details: { availableVersions: scoringModelService.listModels().map(model => model.version) },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const userContext = scoreRequest.userContext;
+    const factors = userContext?.vulnerabilityFactors;
+    if ((userContext?.riskTolerance !== undefined && !RISK_TOLERANCES.includes(userContext.riskTolerance)) ||
+      (factors !== undefined && (!Array.isArray(factors) || !factors.every(factor => typeof factor === 'string')))) {
+      const error: ErrorResponse = {
+        error: 'INVALID_USER_CONTEXT',
+        message: 'riskTolerance must be low, medium or high and vulnerabilityFactors an array of strings',
+        details: {
+          riskTolerances: RISK_TOLERANCES,
+          vulnerabilityFactors: Object.keys(scoringModelService.getModel(scoreRequest.modelVersion).vulnerabilities)
+        },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
     // Calculate safety score
     const timeContext = scoreRequest.timeContext?.currentTime ?
       new Date(scoreRequest.timeContext.currentTime) : new Date();
 
     const response = await safetyScoringService.calculateLocationSafety(scoreRequest);
+    const model = scoringModelService.getModel(response.metadata.aiModelVersion);
+    const thresholds = safetyScoringService.getThresholds(model, userContext?.riskTolerance);
 
     // Generate recommendations based on safety score
-    const recommendations = generateSafetyRecommendations(response.safetyScore);
+    const recommendations = generateSafetyRecommendations(response.safetyScore, thresholds);
 
     // Generate alerts if necessary
-    const alerts = generateSafetyAlerts(response.safetyScore, scoreRequest.location);
+    const alerts = await alertService.track(
+      alertService.generateScoreAlerts(response.safetyScore, scoreRequest.location, new Date(), thresholds)
+    );
 
     const processingTime = Date.now() - startTime;
 
     const metadata: ScoringMetadata = {
       calculationTime: processingTime,
       dataSourcesUsed: ['synthetic_crime_data', 'time_patterns', 'location_analysis'],
-      aiModelVersion: '1.0.0',
+      aiModelVersion: model.version,
       confidenceFactors: {
         crimeData: response.safetyScore.confidenceLevel,
         timeContext: scoreRequest.timeContext ? 95 : 80,
         locationAccuracy: 90
-      }
+      },
+      personalization: response.metadata.personalization
     };
 
     const finalResponse: SafetyScoreResponse = {
@@ -99,21 +159,66 @@ router.post('/score', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/safety/models
+ * Scoring models that can be selected with modelVersion in POST /api/safety/score
+ */
+router.get('/models', (req: Request, res: Response) => {
+  try {
+    res.status(200).json({
+      defaultVersion: scoringModelService.getDefaultVersion(),
+      models: scoringModelService.listModels()
+    });
+
+  } catch (error) {
+    console.error('Scoring model error:', error);
+    const errorResponse: ErrorResponse = {
+      error: 'MODELS_FETCH_FAILED',
+      message: 'Failed to load scoring models',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
 /**
  * GET /api/safety/area/:gridId
  * Get safety data for grid area
+ * Query: timeRange (1h, 6h, 12h, 24h, 7d or 30d, default 24h) over which the incident trend is compared
+ * with the period before it, or a longer timeframe instead
  */
 router.get('/area/:gridId', async (req: Request, res: Response) => {
   try {
     const { gridId } = req.params;
-    const timeRange = req.query.timeRange as string || '24h';
+    const timeRange = req.query.timeRange as string || DEFAULT_AREA_TIME_RANGE;
+    const timeframe = req.query.timeframe as CrimeTimeframe | undefined;
 
-    // Validate grid ID format (CT_lat_lng_cell)
-    const gridIdPattern = /^CT_\d+_\d+_\d+$/;
-    if (!gridIdPattern.test(gridId)) {
+    if (!gridService.isValidCell(gridId)) {
       const error: ErrorResponse = {
         error: 'INVALID_GRID_ID',
-        message: 'Grid ID must follow format: CT_lat_lng_cell (e.g., CT_33_18_001)',
+        message: `Grid ID must follow format: HX{resolution}_{q}_{r} with resolution ${MIN_GRID_RESOLUTION}-${MAX_GRID_RESOLUTION} (e.g., HX6_1_-11)`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!Object.keys(AREA_TIME_RANGE_DAYS).includes(timeRange)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TIME_RANGE',
+        message: `timeRange must be one of: ${Object.keys(AREA_TIME_RANGE_DAYS).join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (timeframe !== undefined && !SUPPORTED_CRIME_TIMEFRAMES.includes(timeframe)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TIMEFRAME',
+        message: `timeframe must be one of: ${SUPPORTED_CRIME_TIMEFRAMES.join(', ')}`,
         timestamp: new Date(),
         requestId: req.headers['x-request-id'] as string || uuidv4()
       };
@@ -144,17 +249,23 @@ router.get('/area/:gridId', async (req: Request, res: Response) => {
 
     const safetyResponse = await safetyScoringService.calculateLocationSafety({ location: centerLocation });
     const safetyScore = safetyResponse.safetyScore;
+    const trend = await crimeDataService.calculateAreaTrend(gridId, timeframe ?? AREA_TIME_RANGE_DAYS[timeRange]);
 
     const areaSafetyData = {
       gridId,
+      boundary: gridService.cellToPolygon(gridId),
       location: crimeData.location,
       timeRange,
+      timeframe,
       safetyScore,
       crimeStatistics: crimeData.crimeStats,
       riskLevel: crimeData.riskLevel,
       populationDensity: crimeData.populationDensity,
       economicIndicators: crimeData.economicIndicators,
-      trends: analyzeTrends(crimeData, timeRange),
+      trends: {
+        ...trend,
+        mostCommonCrime: findMostCommonCrime(crimeData)
+      },
       lastUpdated: crimeData.lastUpdated,
       dataConfidence: safetyScore.confidenceLevel
     };
@@ -174,6 +285,349 @@ router.get('/area/:gridId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/safety/area/:gridId/series
+ * Daily or weekly incident counts for a grid area over a timeframe, oldest first
+ * Query: granularity (day or week, default day), timeframe, crimeType
+ */
+router.get('/area/:gridId/series', async (req: Request, res: Response) => {
+  try {
+    const { gridId } = req.params;
+    const granularity = (req.query.granularity as IncidentSeriesGranularity | undefined) || 'day';
+    const timeframe = (req.query.timeframe as CrimeTimeframe | undefined) || DEFAULT_CRIME_TIMEFRAME;
+    const crimeType = req.query.crimeType as CrimeType | undefined;
+
+    if (!gridService.isValidCell(gridId)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_GRID_ID',
+        message: `Grid ID must follow format: HX{resolution}_{q}_{r} with resolution ${MIN_GRID_RESOLUTION}-${MAX_GRID_RESOLUTION} (e.g., HX6_1_-11)`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!SERIES_GRANULARITIES.includes(granularity)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_GRANULARITY',
+        message: `granularity must be one of: ${SERIES_GRANULARITIES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!SUPPORTED_CRIME_TIMEFRAMES.includes(timeframe)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TIMEFRAME',
+        message: `timeframe must be one of: ${SUPPORTED_CRIME_TIMEFRAMES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (crimeType !== undefined && !CRIME_TYPES.includes(crimeType)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_CRIME_TYPE',
+        message: `crimeType must be one of: ${CRIME_TYPES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if ((await crimeDataService.getCrimeDataByGridCell(gridId)).length === 0) {
+      const error: ErrorResponse = {
+        error: 'GRID_NOT_FOUND',
+        message: `No data available for grid cell ${gridId}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(404).json(error);
+    }
+
+    const period = crimeDataGenerator.createTimeframeRange(timeframe, new Date());
+    const buckets = await crimeDataService.getIncidentSeries(gridId, period, granularity, crimeType);
+
+    res.status(200).json({
+      gridId,
+      granularity,
+      timeframe,
+      period,
+      crimeType,
+      buckets,
+      totalIncidents: parseFloat(buckets.reduce((sum, bucket) => sum + bucket.incidentCount, 0).toFixed(2))
+    });
+
+  } catch (error) {
+    console.error('Incident series error:', error);
+    const errorResponse: ErrorResponse = {
+      error: 'SERIES_FAILED',
+      message: 'Failed to retrieve incident series',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
+/**
+ * GET /api/safety/risk
+ * Interpolated crime risk and its uncertainty at any point in the metro
+ * Query: location=lat,lng
+ */
+router.get('/risk', async (req: Request, res: Response) => {
+  try {
+    const [lat, lng] = (req.query.location as string || '').split(',').map(value => parseFloat(value));
+    if (isNaN(lat) || isNaN(lng)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_LOCATION_FORMAT',
+        message: 'Location must be in format: latitude,longitude',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (!locationService.isWithinCapeTownBounds(lat, lng)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_LOCATION',
+        message: 'Location is outside Cape Town metropolitan area',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const estimate = await riskSurfaceService.getRiskEstimate({ latitude: lat, longitude: lng });
+
+    res.status(200).json({
+      location: { latitude: lat, longitude: lng },
+      gridCell: estimate.profile.gridCell,
+      risk: estimate.risk,
+      uncertainty: estimate.uncertainty,
+      riskLevel: estimate.profile.riskLevel,
+      support: estimate.support,
+      dataSources: estimate.sources,
+      generatedAt: new Date()
+    });
+
+  } catch (error) {
+    console.error('Risk estimate error:', error);
+    const errorResponse: ErrorResponse = {
+      error: 'RISK_ESTIMATE_FAILED',
+      message: 'Failed to estimate crime risk',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
+/**
+ * GET /api/safety/tiles/:z/:x/:y
+ * Crime risk heatmap as a 256×256 PNG map tile (Web Mercator)
+ * Query: hour (0-23, all day by default), crimeType
+ */
+router.get('/tiles/:z/:x/:y', async (req: Request, res: Response) => {
+  try {
+    const [z, x, y] = [req.params.z, req.params.x, req.params.y.replace(/\.png$/, '')].map(Number);
+    const hour = req.query.hour !== undefined && req.query.hour !== '' ? Number(req.query.hour) : undefined;
+    const crimeType = req.query.crimeType as CrimeType | undefined;
+
+    if (crimeType !== undefined && !CRIME_TYPES.includes(crimeType)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_CRIME_TYPE',
+        message: `crimeType must be one of: ${CRIME_TYPES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const tile = await heatmapTileService.getTile(z, x, y, { hour, crimeType });
+    const maxAge = Math.max(0, TILE_CACHE_SECONDS - Math.floor((Date.now() - tile.generatedAt.getTime()) / 1000));
+
+    res.set({
+      'Content-Type': 'image/png',
+      'Cache-Control': `public, max-age=${maxAge}`,
+      'ETag': tile.etag,
+      'Last-Modified': tile.generatedAt.toUTCString()
+    });
+
+    if (req.headers['if-none-match'] === tile.etag) {
+      return res.status(304).end();
+    }
+    res.status(200).send(tile.png);
+
+  } catch (error) {
+    if (error instanceof HeatmapTileError) {
+      const errorResponse: ErrorResponse = {
+        error: error.code,
+        message: error.message,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(errorResponse);
+    }
+
+    console.error('Heatmap tile error:', error);
+    const errorResponse: ErrorResponse = {
+      error: 'TILE_RENDER_FAILED',
+      message: 'Failed to render heatmap tile',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
+/**
+ * GET /api/safety/alerts/stream
+ * Server-sent event stream of new, updated and expired alerts near a location
+ * Query: location=lat,lng (optional, city-wide otherwise), radius (meters), minSeverity
+ * Reconnecting clients resume after the Last-Event-ID header (or lastEventId query parameter)
+ */
+router.get('/alerts/stream', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseAlertSubscription({
+      location: req.query.location,
+      radius: req.query.radius,
+      minSeverity: req.query.minSeverity
+    });
+
+    if ('error' in parsed) {
+      const error: ErrorResponse = {
+        error: 'INVALID_SUBSCRIPTION',
+        message: parsed.error,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const { location } = parsed.filter;
+    if (location && !locationService.isWithinCapeTownBounds(location.latitude, location.longitude)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_LOCATION',
+        message: 'Location is outside Cape Town metropolitan area',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const lastEventHeader = req.headers['last-event-id'] as string || req.query.lastEventId as string;
+    const lastEventId = lastEventHeader !== undefined && /^\d+$/.test(lastEventHeader) ? Number(lastEventHeader) : undefined;
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(`retry: ${STREAM_RETRY_DELAY}\n\n`);
+
+    // The client may disconnect while the subscription is still being set up
+    let subscription: AlertSubscription | undefined;
+    let closed = false;
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_INTERVAL);
+    req.on('close', () => {
+      closed = true;
+      clearInterval(heartbeat);
+      subscription?.unsubscribe();
+    });
+
+    subscription = await alertStreamService.subscribe(parsed.filter, event => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }, lastEventId);
+    if (closed) {
+      subscription.unsubscribe();
+    }
+
+  } catch (error) {
+    console.error('Alert stream error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const errorResponse: ErrorResponse = {
+      error: 'ALERT_STREAM_FAILED',
+      message: 'Failed to open safety alert stream',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
+/**
+ * GET /api/safety/anomalies
+ * Unusual spikes in verified incident reports, most recent first
+ * Query: location=lat,lng and radius (meters) to limit to an area, minSeverity, includeExpired=true for
+ * anomalies whose alerts have ended, limit, offset
+ */
+router.get('/anomalies', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseAlertSubscription({
+      location: req.query.location,
+      radius: req.query.radius,
+      minSeverity: req.query.minSeverity
+    });
+
+    if ('error' in parsed) {
+      const error: ErrorResponse = {
+        error: 'INVALID_ANOMALY_QUERY',
+        message: parsed.error,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const { location, radius, minSeverity } = parsed.filter;
+    const includeExpired = req.query.includeExpired === 'true';
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const anomalies = await anomalyService.getAnomalies({
+      location,
+      radius: location ? radius : undefined,
+      minSeverity,
+      includeExpired
+    });
+
+    res.status(200).json({
+      anomalies: anomalies.slice(offset, offset + limit),
+      pagination: { limit, offset, total: anomalies.length },
+      metadata: {
+        generatedAt: new Date(),
+        location: location || null,
+        radius: location ? radius : null,
+        significanceLevel: ANOMALY_SIGNIFICANCE,
+        minIncidents: MIN_ANOMALY_INCIDENTS
+      }
+    });
+
+  } catch (error) {
+    console.error('Crime anomalies error:', error);
+    const errorResponse: ErrorResponse = {
+      error: 'ANOMALIES_FAILED',
+      message: 'Failed to retrieve crime anomalies',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
 /**
  * GET /api/safety/alerts
  * Get current safety alerts for Cape Town
@@ -184,9 +638,8 @@ router.get('/alerts', async (req: Request, res: Response) => {
     const radius = parseInt(req.query.radius as string) || 5000; // Default 5km radius
     const severity = req.query.severity as string;
 
-    let alerts: SafetyAlert[] = [];
+    let queryLocation: Location | undefined;
 
-    // Generate sample alerts based on current conditions
     if (location) {
       const [lat, lng] = location.split(',').map(Number);
       if (isNaN(lat) || isNaN(lng)) {
@@ -200,7 +653,7 @@ router.get('/alerts', async (req: Request, res: Response) => {
       }
 
       // Validate Cape Town bounds
-      const queryLocation: Location = { latitude: lat, longitude: lng };
+      queryLocation = { latitude: lat, longitude: lng };
       if (!locationService.isWithinCapeTownBounds(queryLocation.latitude, queryLocation.longitude)) {
         const error: ErrorResponse = {
           error: 'INVALID_LOCATION',
@@ -210,12 +663,11 @@ router.get('/alerts', async (req: Request, res: Response) => {
         };
         return res.status(400).json(error);
       }
-
-      alerts = await generateLocationBasedAlerts(queryLocation, radius);
-    } else {
-      alerts = await generateCityWideAlerts();
     }
 
+    // Location alerts plus any city-wide alerts they don't duplicate
+    let alerts = await alertService.getActiveAlerts(queryLocation, radius);
+
     // Filter by severity if specified
     if (severity && ['info', 'warning', 'critical'].includes(severity)) {
       alerts = alerts.filter(alert => alert.severity === severity);
@@ -247,54 +699,119 @@ router.get('/alerts', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/safety/alerts/:id/acknowledge
+ * Acknowledge an active alert, optionally recording the action taken
+ */
+router.post('/alerts/:id/acknowledge', async (req: Request, res: Response) => {
+  try {
+    const { actionTaken } = req.body || {};
+
+    if (actionTaken !== undefined && (typeof actionTaken !== 'string' || actionTaken.length > MAX_ACTION_LENGTH)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_ACTION_TAKEN',
+        message: `actionTaken must be a string of at most ${MAX_ACTION_LENGTH} characters`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const alert = await alertService.acknowledge(req.params.id, actionTaken);
+    if (!alert) {
+      const error: ErrorResponse = {
+        error: 'ALERT_NOT_FOUND',
+        message: 'Alert not found or no longer active',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(404).json(error);
+    }
+
+    res.status(200).json(alert);
+
+  } catch (error) {
+    console.error('Alert acknowledgement error:', error);
+    const errorResponse: ErrorResponse = {
+      error: 'ACKNOWLEDGE_FAILED',
+      message: 'Failed to acknowledge safety alert',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(500).json(errorResponse);
+  }
+});
+
 /**
  * GET /api/safety/crime-data
- * Get Cape Town crime statistics
+ * Get Cape Town crime statistics by area, crime type and timeframe, most incidents first
  */
 router.get('/crime-data', async (req: Request, res: Response) => {
   try {
-    const area = req.query.area as string;
-    const timeframe = req.query.timeframe as string || '30d';
+    const area = (req.query.area as string | undefined)?.trim() || undefined;
+    const crimeType = req.query.crimeType as CrimeType | undefined;
+    const timeframe = (req.query.timeframe as CrimeTimeframe | undefined) || DEFAULT_CRIME_TIMEFRAME;
     const includeStats = req.query.includeStats !== 'false';
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
 
-    let crimeData: CrimeData[] = [];
+    if (crimeType !== undefined && !CRIME_TYPES.includes(crimeType)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_CRIME_TYPE',
+        message: `crimeType must be one of: ${CRIME_TYPES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
 
-    if (area) {
-      // Get crime data for specific area by searching grid cells
-      // For now, we'll get all areas and filter - this should be improved
-      const allAreas = await crimeDataService.getAllAreasWithRiskLevels();
-      const matchingArea = allAreas.find(a => a.area.toLowerCase().includes(area.toLowerCase()));
-      if (matchingArea) {
-        // This is a simplified approach - in production, we'd need better area-to-grid mapping
-        crimeData = [];
-      }
-    } else {
-      // Get all Cape Town crime data - for now returning empty array
-      // This endpoint should be refactored to use a proper aggregation approach
-      crimeData = [];
+    if (!SUPPORTED_CRIME_TIMEFRAMES.includes(timeframe)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TIMEFRAME',
+        message: `timeframe must be one of: ${SUPPORTED_CRIME_TIMEFRAMES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
     }
 
-    // Process and aggregate statistics if requested
+    const now = new Date();
+    const crimeData = (await crimeDataService.queryCrimeData({ area, crimeType, timeframe }, now))
+      .sort((a, b) => countIncidents(b) - countIncidents(a) || a.id.localeCompare(b.id));
+    const page = crimeData.slice(offset, offset + limit);
+
+    const trends = includeStats
+      ? await Promise.all(page.map(data => crimeDataService.calculateTrend(data, timeframe, now, crimeType)))
+      : [];
+
     const response = {
-      crimeData: includeStats ? crimeData : crimeData.map(data => ({
+      crimeData: page.map((data, index) => includeStats ? {
+        ...data,
+        trend: trends[index]
+      } : {
         id: data.id,
         location: data.location,
         gridCell: data.gridCell,
         riskLevel: data.riskLevel,
         lastUpdated: data.lastUpdated
-      })),
+      }),
       summary: {
         totalAreas: crimeData.length,
+        totalIncidents: Math.round(crimeData.reduce((sum, data) => sum + countIncidents(data), 0)),
+        incidentsByType: countIncidentsByType(crimeData),
         riskDistribution: calculateRiskDistribution(crimeData),
-        mostRecentUpdate: crimeData.reduce((latest, data) =>
+        mostRecentUpdate: crimeData.length ? crimeData.reduce((latest, data) =>
           data.lastUpdated > latest ? data.lastUpdated : latest, new Date(0)
-        ),
-        dataSource: 'synthetic',
+        ) : null,
+        dataSources: Array.from(new Set(crimeData.map(data => data.dataSource))),
         coverageArea: 'Cape Town Metropolitan Area'
       },
+      pagination: { limit, offset, total: crimeData.length },
       metadata: {
-        generatedAt: new Date(),
-        timeframe,
+        ...crimeDataGenerator.buildMetadata(crimeData, timeframe, now),
+        generatedAt: now,
+        filters: { area, crimeType },
         includeStatistics: includeStats,
         apiVersion: '1.0.0'
       }
@@ -317,10 +834,10 @@ router.get('/crime-data', async (req: Request, res: Response) => {
 
 // Helper functions
 
-function generateSafetyRecommendations(safetyScore: SafetyScore) {
+function generateSafetyRecommendations(safetyScore: SafetyScore, thresholds: ScoringThresholds) {
   const recommendations = [];
 
-  if (safetyScore.overall < 50) {
+  if (safetyScore.overall < thresholds.routeChange) {
     recommendations.push({
       type: 'route_change' as const,
       priority: 'high' as const,
@@ -330,7 +847,7 @@ function generateSafetyRecommendations(safetyScore: SafetyScore) {
     });
   }
 
-  if (safetyScore.timeFactor < 60) {
+  if (safetyScore.timeFactor < thresholds.timeChange) {
     recommendations.push({
       type: 'time_change' as const,
       priority: 'medium' as const,
@@ -340,7 +857,7 @@ function generateSafetyRecommendations(safetyScore: SafetyScore) {
     });
   }
 
-  if (safetyScore.lightingLevel < 40) {
+  if (safetyScore.lightingLevel < thresholds.poorLighting) {
     recommendations.push({
       type: 'precaution' as const,
       priority: 'medium' as const,
@@ -353,104 +870,29 @@ function generateSafetyRecommendations(safetyScore: SafetyScore) {
   return recommendations;
 }
 
-function generateSafetyAlerts(safetyScore: SafetyScore, location: Location): SafetyAlert[] {
-  const alerts: SafetyAlert[] = [];
-
-  if (safetyScore.overall < 30) {
-    alerts.push({
-      id: uuidv4(),
-      type: 'high_crime_area',
-      severity: 'critical',
-      message: 'High crime area detected - exercise extreme caution',
-      location,
-      timestamp: new Date(),
-      acknowledged: false
-    });
-  }
-
-  if (safetyScore.lightingLevel < 30) {
-    alerts.push({
-      id: uuidv4(),
-      type: 'poor_lighting',
-      severity: 'warning',
-      message: 'Poor lighting conditions in this area',
-      location,
-      timestamp: new Date(),
-      acknowledged: false
-    });
-  }
-
-  return alerts;
+function findMostCommonCrime(crimeData: CrimeData): CrimeType | 'unknown' {
+  return crimeData.crimeStats.reduce((max, stat) =>
+    stat.incidentCount > max.incidentCount ? stat : max, crimeData.crimeStats[0]
+  )?.type || 'unknown';
 }
 
-async function generateLocationBasedAlerts(location: Location, radius: number): Promise<SafetyAlert[]> {
-  const alerts: SafetyAlert[] = [];
-  const currentHour = new Date().getHours();
-
-  // Generate contextual alerts based on time and location
-  if (currentHour >= 20 || currentHour <= 6) {
-    alerts.push({
-      id: uuidv4(),
-      type: 'poor_lighting',
-      severity: 'warning',
-      message: 'Reduced visibility during nighttime hours - stay in well-lit areas',
-      location,
-      timestamp: new Date(),
-      acknowledged: false
-    });
-  }
-
-  // Get area crime data and generate alerts using CrimeDataService
-  const nearbyRiskyAreas = await crimeDataService.getNearbyRiskyAreas(location, radius);
-  for (const crimeData of nearbyRiskyAreas.slice(0, 3)) { // Limit to first 3 nearby areas
-    if (crimeData.riskLevel === 'high') {
-      alerts.push({
-        id: uuidv4(),
-        type: 'high_crime_area',
-        severity: 'warning',
-        message: `Elevated crime activity reported in ${crimeData.location.neighborhood || 'nearby area'}`,
-        location: crimeData.location,
-        timestamp: new Date(),
-        acknowledged: false
-      });
-    }
-  }
-
-  return alerts;
+function countIncidents(crimeData: CrimeData): number {
+  return crimeData.crimeStats.reduce((sum, stat) => sum + stat.incidentCount, 0);
 }
 
-async function generateCityWideAlerts(): Promise<SafetyAlert[]> {
-  const alerts: SafetyAlert[] = [];
-  const currentHour = new Date().getHours();
-
-  // General city-wide alerts
-  if (currentHour >= 22 || currentHour <= 5) {
-    alerts.push({
-      id: uuidv4(),
-      type: 'poor_lighting',
-      severity: 'info',
-      message: 'Late night hours - exercise additional caution when traveling',
-      location: { latitude: -33.9249, longitude: 18.4241, address: 'Cape Town City Center' },
-      timestamp: new Date(),
-      acknowledged: false
-    });
-  }
-
-  return alerts;
-}
+function countIncidentsByType(crimeData: CrimeData[]): Record<CrimeType, number> {
+  const counts: Record<CrimeType, number> = { violent: 0, property: 0, petty: 0, vehicular: 0 };
 
-function analyzeTrends(crimeData: CrimeData, timeRange: string) {
-  // Simple trend analysis based on crime statistics
-  const totalIncidents = crimeData.crimeStats.reduce((sum, stat) => sum + stat.incidentCount, 0);
+  crimeData.forEach(data => {
+    data.crimeStats.forEach(stat => {
+      counts[stat.type] += stat.incidentCount;
+    });
+  });
 
-  return {
-    trend: totalIncidents > 20 ? 'increasing' : totalIncidents > 10 ? 'stable' : 'decreasing',
-    riskChange: totalIncidents > 20 ? '+15%' : totalIncidents > 10 ? '0%' : '-10%',
-    timeframe: timeRange,
-    mostCommonCrime: crimeData.crimeStats.reduce((max, stat) =>
-      stat.incidentCount > max.incidentCount ? stat : max, crimeData.crimeStats[0]
-    )?.type || 'unknown'
-  };
+  CRIME_TYPES.forEach(type => {
+    counts[type] = Math.round(counts[type]);
+  });
+  return counts;
 }
 
 function calculateRiskDistribution(crimeData: CrimeData[]) {
@@ -460,7 +902,8 @@ function calculateRiskDistribution(crimeData: CrimeData[]) {
     distribution[data.riskLevel]++;
   });
 
-  const total = crimeData.length;
+  // An empty result has no distribution rather than NaN percentages
+  const total = Math.max(1, crimeData.length);
   return {
     low: `${Math.round(distribution.low / total * 100)}%`,
     medium: `${Math.round(distribution.medium / total * 100)}%`,
@@ -0,0 +1,343 @@
+import { Router, Request, Response } from 'express';
+import { ErrorResponse, Location, RouteOptimization, SessionFeedback, TravelMode } from '../types';
+import { LocationService } from '../services/locationService';
+import { NavigationError, SessionAction, navigationService } from '../services/navigationService';
+import { scoringModelService } from '../services/scoringModelService';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = Router();
+
+const locationService = new LocationService();
+
+const ERROR_STATUS: Record<NavigationError['code'], number> = {
+  SESSION_NOT_FOUND: 404,
+  ROUTE_NOT_FOUND: 404,
+  INVALID_STATUS_TRANSITION: 409,
+  SESSION_NOT_ACTIVE: 409,
+  NO_REROUTE_OFFER: 409,
+  USER_NOT_FOUND: 404,
+  USER_SESSION_REQUIRED: 401,
+  FORBIDDEN: 403
+};
+
+const SESSION_ACTIONS: SessionAction[] = ['start', 'pause', 'resume', 'complete', 'cancel'];
+const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'cycling', 'transit'];
+const ROUTE_OPTIMIZATIONS: RouteOptimization[] = ['time', 'safety', 'balanced'];
+const RISK_TOLERANCES = ['low', 'medium', 'high'];
+
+/**
+ * POST /api/sessions
+ * Start navigation on a previously calculated route
+ * A userId needs that user's session in the X-Session-Id header, as on the user routes.
+ * routeOptions and preferences are validated as on /api/routes/calculate; re-routes reuse them.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { routeId, userId, currentLocation, startNavigation, routeOptions, preferences, deviationThreshold } = req.body;
+
+    if (!routeId) {
+      const error: ErrorResponse = {
+        error: 'MISSING_REQUIRED_FIELDS',
+        message: 'routeId is required',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (userId !== undefined && (typeof userId !== 'string' || !userId.trim())) {
+      const error: ErrorResponse = {
+        error: 'INVALID_USER_ID',
+        message: 'userId must be a non-empty string',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (currentLocation && !isValidLocation(currentLocation)) {
+      return res.status(400).json(invalidLocationError(req));
+    }
+
+    const travelMode = isObject(routeOptions) ? routeOptions.travelMode : undefined;
+    if (travelMode !== undefined && !TRAVEL_MODES.includes(travelMode as TravelMode)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TRAVEL_MODE',
+        message: `Travel mode must be one of: ${TRAVEL_MODES.join(', ')}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const routeOptionsError = validateRouteOptions(routeOptions);
+    if (routeOptionsError) {
+      const error: ErrorResponse = {
+        error: 'INVALID_ROUTE_OPTIONS',
+        message: routeOptionsError,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const preferencesError = validatePreferences(preferences);
+    if (preferencesError) {
+      const error: ErrorResponse = {
+        error: 'INVALID_PREFERENCES',
+        message: preferencesError,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    if (deviationThreshold !== undefined && (typeof deviationThreshold !== 'number' || deviationThreshold <= 0)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_DEVIATION_THRESHOLD',
+        message: 'deviationThreshold must be a positive number of meters',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const session = await navigationService.startSession({
+      routeId, userId, userSessionId: getUserSessionId(req), currentLocation, startNavigation, routeOptions, preferences, deviationThreshold
+    });
+    res.status(201).json(session);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to start navigation session');
+  }
+});
+
+/**
+ * GET /api/sessions/:sessionId
+ * Get session status, progress and ETA
+ */
+router.get('/:sessionId', async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await navigationService.getSession(req.params.sessionId));
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve navigation session');
+  }
+});
+
+/**
+ * POST /api/sessions/:sessionId/location
+ * Report the traveller's current location
+ */
+router.post('/:sessionId/location', async (req: Request, res: Response) => {
+  try {
+    const location: Location = req.body.location;
+    const timestamp = req.body.timestamp ? new Date(req.body.timestamp) : new Date();
+
+    if (!location || !isValidLocation(location)) {
+      return res.status(400).json(invalidLocationError(req));
+    }
+
+    if (isNaN(timestamp.getTime())) {
+      const error: ErrorResponse = {
+        error: 'INVALID_TIMESTAMP',
+        message: 'Timestamp must be an ISO 8601 timestamp',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const session = await navigationService.updateLocation(req.params.sessionId, location, timestamp);
+    res.status(200).json({
+      sessionId: session.id,
+      status: session.status,
+      progress: session.progress,
+      estimatedArrival: session.estimatedArrival,
+      rerouteOffer: session.rerouteOffer,
+      alerts: session.alerts.filter(alert => !alert.acknowledged)
+    });
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to update session location');
+  }
+});
+
+/**
+ * GET /api/sessions/:sessionId/alerts
+ * Get the session's alert log
+ */
+router.get('/:sessionId/alerts', async (req: Request, res: Response) => {
+  try {
+    const alerts = await navigationService.getAlerts(req.params.sessionId);
+    res.status(200).json({ alerts, count: alerts.length });
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve session alerts');
+  }
+});
+
+/**
+ * GET /api/sessions/:sessionId/deviations
+ * Get the session's recorded route deviations
+ */
+router.get('/:sessionId/deviations', async (req: Request, res: Response) => {
+  try {
+    const session = await navigationService.getSession(req.params.sessionId);
+    res.status(200).json({ deviations: session.routeDeviations, count: session.routeDeviations.length, rerouteOffer: session.rerouteOffer });
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve session deviations');
+  }
+});
+
+/**
+ * POST /api/sessions/:sessionId/reroute
+ * Accept the re-route offered after a persistent deviation
+ */
+router.post('/:sessionId/reroute', async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await navigationService.acceptReroute(req.params.sessionId));
+  } catch (error) {
+    handleError(req, res, error, 'Failed to accept re-route');
+  }
+});
+
+/**
+ * POST /api/sessions/:sessionId/:action
+ * Start, pause, resume, complete or cancel a session
+ */
+router.post('/:sessionId/:action', async (req: Request, res: Response) => {
+  try {
+    const action = req.params.action as SessionAction;
+
+    if (!SESSION_ACTIONS.includes(action)) {
+      const error: ErrorResponse = {
+        error: 'NOT_FOUND',
+        message: `Unknown session action: ${req.params.action}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(404).json(error);
+    }
+
+    const feedback: SessionFeedback | undefined = action === 'complete' ? req.body?.feedback : undefined;
+    if (feedback && !isValidFeedback(feedback)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_FEEDBACK',
+        message: 'Feedback ratings must be between 1 and 5',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const session = await navigationService.transition(req.params.sessionId, action, feedback, req.body?.reason);
+    res.status(200).json(session);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to update navigation session');
+  }
+});
+
+// Helper functions
+
+function isValidLocation(location: Location): boolean {
+  return typeof location.latitude === 'number' &&
+    typeof location.longitude === 'number' &&
+    locationService.isWithinCapeTownBounds(location.latitude, location.longitude);
+}
+
+function isValidFeedback(feedback: SessionFeedback): boolean {
+  const isRating = (value: unknown) => typeof value === 'number' && value >= 1 && value <= 5;
+  return isRating(feedback.safetyRating) && isRating(feedback.routeQuality);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Route options are stored on the session and only used when re-routing, so they are checked up front
+function validateRouteOptions(options: unknown): string | undefined {
+  if (options === undefined) return undefined;
+  if (!isObject(options)) return 'routeOptions must be an object';
+
+  if (options.optimizeFor !== undefined && !ROUTE_OPTIMIZATIONS.includes(options.optimizeFor as RouteOptimization)) {
+    return `routeOptions.optimizeFor must be one of: ${ROUTE_OPTIMIZATIONS.join(', ')}`;
+  }
+  if (options.departureTime !== undefined &&
+    (typeof options.departureTime !== 'string' || isNaN(new Date(options.departureTime).getTime()))) {
+    return 'routeOptions.departureTime must be an ISO 8601 timestamp';
+  }
+  if (options.maxRoutes !== undefined && (!Number.isInteger(options.maxRoutes) || (options.maxRoutes as number) < 1)) {
+    return 'routeOptions.maxRoutes must be a positive integer';
+  }
+  for (const flag of ['avoidTolls', 'avoidHighways', 'optimizeWaypointOrder']) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+      return `routeOptions.${flag} must be a boolean`;
+    }
+  }
+  if (options.modelVersion !== undefined &&
+    (typeof options.modelVersion !== 'string' || !scoringModelService.hasModel(options.modelVersion))) {
+    return `routeOptions.modelVersion must be one of: ${scoringModelService.listModels().map(model => model.version).join(', ')}`;
+  }
+  return undefined;
+}
+
+function validatePreferences(preferences: unknown): string | undefined {
+  if (preferences === undefined) return undefined;
+  if (!isObject(preferences)) return 'preferences must be an object';
+
+  const { safetyPriority, riskTolerance, preferredTravelModes, avoidAreas } = preferences;
+  if (safetyPriority !== undefined && (typeof safetyPriority !== 'number' || safetyPriority < 0 || safetyPriority > 100)) {
+    return 'preferences.safetyPriority must be a number between 0 and 100';
+  }
+  if (riskTolerance !== undefined && !RISK_TOLERANCES.includes(riskTolerance as string)) {
+    return `preferences.riskTolerance must be one of: ${RISK_TOLERANCES.join(', ')}`;
+  }
+  if (preferredTravelModes !== undefined &&
+    (!Array.isArray(preferredTravelModes) || !preferredTravelModes.every(mode => TRAVEL_MODES.includes(mode)))) {
+    return `preferences.preferredTravelModes must only contain: ${TRAVEL_MODES.join(', ')}`;
+  }
+  if (avoidAreas !== undefined && !Array.isArray(avoidAreas)) {
+    return 'preferences.avoidAreas must be an array';
+  }
+  return undefined;
+}
+
+function getUserSessionId(req: Request): string | undefined {
+  const sessionId = req.headers['x-session-id'];
+  return typeof sessionId === 'string' && sessionId.trim() ? sessionId.trim() : undefined;
+}
+
+function invalidLocationError(req: Request): ErrorResponse {
+  return {
+    error: 'INVALID_LOCATION',
+    message: 'Location is missing or outside Cape Town metropolitan area',
+    details: { bounds: 'Cape Town: lat(-34.5, -33.5), lng(18.0, 19.0)' },
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+}
+
+function handleError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof NavigationError) {
+    const errorResponse: ErrorResponse = {
+      error: error.code,
+      message: error.message,
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(ERROR_STATUS[error.code]).json(errorResponse);
+    return;
+  }
+
+  console.error('Navigation session error:', error);
+  const errorResponse: ErrorResponse = {
+    error: 'SESSION_OPERATION_FAILED',
+    message,
+    details: { error: error instanceof Error ? error.message : 'Unknown error' },
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(500).json(errorResponse);
+}
+
+export default router;
@@ -0,0 +1,134 @@
+import { Router, Request, Response } from 'express';
+import { ErrorResponse } from '../types';
+import { LocationService } from '../services/locationService';
+import { GeofenceError, geofenceService } from '../services/geofenceService';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = Router();
+
+const locationService = new LocationService();
+
+const ERROR_STATUS: Record<GeofenceError['code'], number> = {
+  USER_NOT_FOUND: 404,
+  PLACE_NOT_FOUND: 404,
+  TOO_MANY_PLACES: 409,
+  SESSION_REQUIRED: 401,
+  FORBIDDEN: 403
+};
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/users/:userId/places
+ * List a user's saved places; every route needs the user's session in the X-Session-Id header
+ */
+router.get('/:userId/places', async (req: Request, res: Response) => {
+  try {
+    const places = await geofenceService.getPlaces(req.params.userId, getSessionId(req));
+    res.status(200).json({ places });
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve saved places');
+  }
+});
+
+/**
+ * POST /api/users/:userId/places
+ * Save a place with a circle or polygon geofence to receive its safety alerts
+ * A user's first place creates the user, and their session is returned in the X-Session-Id header.
+ */
+router.post('/:userId/places', async (req: Request, res: Response) => {
+  try {
+    const parsed = geofenceService.parsePlace(req.body || {});
+    if ('error' in parsed) {
+      const error: ErrorResponse = {
+        error: 'INVALID_PLACE',
+        message: parsed.error,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const { center } = geofenceService.getBoundingCircle(parsed.place.geofence);
+    if (!locationService.isWithinCapeTownBounds(center.latitude, center.longitude)) {
+      const error: ErrorResponse = {
+        error: 'INVALID_LOCATION',
+        message: 'Saved places must be within the Cape Town metropolitan area',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string || uuidv4()
+      };
+      return res.status(400).json(error);
+    }
+
+    const { place, sessionId } = await geofenceService.savePlace(req.params.userId, parsed.place, getSessionId(req));
+    res.setHeader('X-Session-Id', sessionId);
+    res.status(201).json(place);
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to save place');
+  }
+});
+
+/**
+ * DELETE /api/users/:userId/places/:placeId
+ * Remove a saved place and stop its alerts
+ */
+router.delete('/:userId/places/:placeId', async (req: Request, res: Response) => {
+  try {
+    await geofenceService.removePlace(req.params.userId, req.params.placeId, getSessionId(req));
+    res.status(204).send();
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to remove saved place');
+  }
+});
+
+/**
+ * GET /api/users/:userId/notifications
+ * Alert notifications delivered for a user's saved places, newest first
+ */
+router.get('/:userId/notifications', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const notifications = await geofenceService.getNotifications(req.params.userId, getSessionId(req), limit, offset);
+    res.status(200).json({ notifications, pagination: { limit, offset } });
+
+  } catch (error) {
+    handleError(req, res, error, 'Failed to retrieve notifications');
+  }
+});
+
+// Helper functions
+
+function getSessionId(req: Request): string | undefined {
+  const sessionId = req.headers['x-session-id'];
+  return typeof sessionId === 'string' && sessionId.trim() ? sessionId.trim() : undefined;
+}
+
+function handleError(req: Request, res: Response, error: unknown, message: string): void {
+  if (error instanceof GeofenceError) {
+    const errorResponse: ErrorResponse = {
+      error: error.code,
+      message: error.message,
+      timestamp: new Date(),
+      requestId: req.headers['x-request-id'] as string || uuidv4()
+    };
+    res.status(ERROR_STATUS[error.code]).json(errorResponse);
+    return;
+  }
+
+  console.error('User places error:', error);
+  const errorResponse: ErrorResponse = {
+    error: 'USER_OPERATION_FAILED',
+    message,
+    details: { error: error instanceof Error ? error.message : 'Unknown error' },
+    timestamp: new Date(),
+    requestId: req.headers['x-request-id'] as string || uuidv4()
+  };
+  res.status(500).json(errorResponse);
+}
+
+export default router;
@@ -8,8 +8,11 @@ import {
   EconomicData,
   HourlyPattern,
   DateRange,
+  IncidentBucket,
+  IncidentSeriesGranularity,
   LocationType
 } from '../types';
+import { gridService } from '../services/gridService';
 
 export type CrimeRiskLevel = 'low' | 'medium' | 'high' | 'critical';
 export type CrimeType = CrimeStatistic['type'];
@@ -22,10 +25,20 @@ interface CrimeAreaConfig {
   landUse: LocationType;
   riskLevel: CrimeRiskLevel;
   populationDensity: number;
-  baseIncidentRates: Record<CrimeType, number>; // totals per six-month timeframe
+  baseIncidentRates: Record<CrimeType, number>; // average totals per six months, before seasonality and trend
   economic: EconomicData;
 }
 
+interface AreaSeriesModel {
+  config: CrimeAreaConfig;
+  id: string;
+  gridCell: string;
+  seed: number;
+  statistics: CrimeStatistic[]; // incident counts are six-month averages, replaced per window
+  dailyRates: number[]; // average incidents per day of each statistic
+  trendPerYear: number;
+}
+
 interface CrimeTypePattern {
   subtypes: string[];
   severityRange: [number, number];
@@ -40,11 +53,6 @@ export interface CrimeDatasetMetadata {
   timeframe?: CrimeTimeframe;
 }
 
-export interface CrimeDataTrend {
-  overall: 'improving' | 'stable' | 'worsening';
-  changePercent: number;
-}
-
 export const SUPPORTED_CRIME_TIMEFRAMES: readonly CrimeTimeframe[] = [
   '1month',
   '3months',
@@ -57,13 +65,6 @@ export const DEFAULT_CRIME_TIMEFRAME = DEFAULT_TIMEFRAME;
 
 const DEFAULT_METADATA_SOURCE = 'SafeRoute AI synthetic dataset (hackathon)';
 
-const TIMEFRAME_MULTIPLIERS: Record<CrimeTimeframe, number> = {
-  '1month': 1 / 6,
-  '3months': 0.5,
-  '6months': 1,
-  '1year': 2
-};
-
 const TIMEFRAME_DAYS: Record<CrimeTimeframe, number> = {
   '1month': 30,
   '3months': 90,
@@ -71,6 +72,20 @@ const TIMEFRAME_DAYS: Record<CrimeTimeframe, number> = {
   '1year': 365
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BASE_RATE_DAYS = 180;
+
+// Seasonality: the December holidays, month-end paydays (the 25th to the 1st) and weekend nights
+const FESTIVE_SEASON_FACTORS: Record<CrimeType, number> = { violent: 1.35, property: 1.3, petty: 1.4, vehicular: 1.25 };
+const PAYDAY_FACTORS: Record<CrimeType, number> = { violent: 1.2, property: 1.1, petty: 1.25, vehicular: 1.1 };
+const WEEKEND_FACTORS: Record<CrimeType, number> = { violent: 1.3, property: 0.95, petty: 1.1, vehicular: 1.15 };
+const PAYDAY_FIRST_DAY = 25;
+
+// Each area drifts from its base rates by up to this share a year, either way, from the dataset version date
+const MAX_TREND_PER_YEAR = 0.12;
+const TREND_ANCHOR = new Date(2025, 8, 25);
+const MAX_TREND_YEARS = 3;
+
 const RISK_CONFIDENCE_BASE: Record<CrimeRiskLevel, number> = {
   low: 94,
   medium: 88,
@@ -224,38 +239,52 @@ const CAPE_TOWN_AREA_CONFIG: CrimeAreaConfig[] = [
   }
 ];
 
-const RISK_TREND_BASELINE: Record<CrimeRiskLevel, number> = (() => {
-  const accumulator: Record<CrimeRiskLevel, { total: number; count: number }> = {
-    low: { total: 0, count: 0 },
-    medium: { total: 0, count: 0 },
-    high: { total: 0, count: 0 },
-    critical: { total: 0, count: 0 }
-  };
-
-  CAPE_TOWN_AREA_CONFIG.forEach(area => {
-    const areaTotal = Object.values(area.baseIncidentRates).reduce((sum, value) => sum + value, 0);
-    accumulator[area.riskLevel].total += areaTotal;
-    accumulator[area.riskLevel].count += 1;
+function seasonalFactor(date: Date, crimeType: CrimeType): number {
+  const month = date.getMonth();
+  const day = date.getDate();
+  const weekday = date.getDay();
+  let factor = 1;
+
+  if ((month === 11 && day >= 15) || (month === 0 && day <= 6)) {
+    factor *= FESTIVE_SEASON_FACTORS[crimeType];
+  }
+  if (day >= PAYDAY_FIRST_DAY || day === 1) {
+    factor *= PAYDAY_FACTORS[crimeType];
+  }
+  if (weekday === 5 || weekday === 6) {
+    factor *= WEEKEND_FACTORS[crimeType];
+  }
+
+  return factor;
+}
+
+// Average seasonal factor over a year, so base rates stay six-month averages
+const SEASONAL_MEAN: Record<CrimeType, number> = (() => {
+  const means = {} as Record<CrimeType, number>;
+
+  (Object.keys(CRIME_TYPE_PATTERNS) as CrimeType[]).forEach(crimeType => {
+    let total = 0;
+    for (let day = 0; day < 365; day++) {
+      total += seasonalFactor(new Date(2025, 0, 1 + day), crimeType);
+    }
+    means[crimeType] = total / 365;
   });
 
-  return {
-    low: Math.round(accumulator.low.total / Math.max(1, accumulator.low.count)),
-    medium: Math.round(accumulator.medium.total / Math.max(1, accumulator.medium.count)),
-    high: Math.round(accumulator.high.total / Math.max(1, accumulator.high.count)),
-    critical: Math.round(accumulator.critical.total / Math.max(1, accumulator.critical.count))
-  };
+  return means;
 })();
 
 export class CrimeDataGenerator {
+  private areaModels: AreaSeriesModel[] | null = null;
+  private dailyCounts: Map<string, number[]> = new Map();
+
+  /**
+   * Dataset areas with the incidents counted over the timeframe's whole days up to the reference day
+   */
   public generateCrimeData(
     referenceDate: Date = new Date(),
     timeframe: CrimeTimeframe = DEFAULT_TIMEFRAME
   ): CrimeData[] {
-    const baseline = this.buildDataset(referenceDate);
-    if (timeframe === DEFAULT_TIMEFRAME) {
-      return baseline;
-    }
-    return this.applyTimeframe(baseline, timeframe, referenceDate);
+    return this.buildDataset(referenceDate, timeframe);
   }
 
   public getCrimeDataByArea(
@@ -329,53 +358,81 @@ export class CrimeDataGenerator {
     return closest;
   }
 
-  public applyTimeframe(
-    dataset: CrimeData[],
-    timeframe: CrimeTimeframe,
-    referenceDate: Date = new Date()
-  ): CrimeData[] {
-    const multiplier = TIMEFRAME_MULTIPLIERS[timeframe] ?? 1;
-    const range = this.createTimeframeRange(timeframe, referenceDate);
+  /**
+   * Daily or weekly incident counts of dataset areas, oldest first
+   * Buckets cover whole days from the day the range starts up to the day it ends; weekly buckets run
+   * from the start of the range and the last one is cut short at its end.
+   */
+  public getIncidentSeries(
+    crimeDataIds: string[],
+    range: DateRange,
+    granularity: IncidentSeriesGranularity = 'day',
+    crimeType?: CrimeType
+  ): IncidentBucket[] {
+    const models = this.getAreaModels().filter(model => crimeDataIds.includes(model.id));
+    const step = granularity === 'week' ? 7 : 1;
+    const end = this.startOfDay(range.end);
+    const buckets: IncidentBucket[] = [];
+
+    for (let start = this.startOfDay(range.start); start < end;) {
+      const next = new Date(start);
+      next.setDate(next.getDate() + step);
+      const bucketEnd = next < end ? next : end;
+
+      const incidentsByType: Record<CrimeType, number> = { violent: 0, property: 0, petty: 0, vehicular: 0 };
+      models.forEach(model => {
+        const counts = this.sumDailyCounts(model, { start, end: bucketEnd });
+        model.statistics.forEach((stat, index) => {
+          if (!crimeType || stat.type === crimeType) {
+            incidentsByType[stat.type] += counts[index];
+          }
+        });
+      });
 
-    return dataset.map(data => {
-      const clone = this.cloneCrimeData(data);
-      clone.timeframe = range;
-      clone.lastUpdated = referenceDate;
-      clone.crimeStats = clone.crimeStats.map(stat => ({
-        ...stat,
-        incidentCount: Math.max(0, Math.round(stat.incidentCount * multiplier))
-      }));
-      return clone;
-    });
-  }
+      buckets.push({
+        start,
+        end: bucketEnd,
+        incidentCount: Object.values(incidentsByType).reduce((sum, value) => sum + value, 0),
+        incidentsByType
+      });
+      start = next;
+    }
 
-  public calculateTrend(
-    crimeAreaData: CrimeData,
-    timeframe: CrimeTimeframe = DEFAULT_TIMEFRAME
-  ): CrimeDataTrend {
-    const totalIncidents = crimeAreaData.crimeStats.reduce(
-      (sum, stat) => sum + stat.incidentCount,
-      0
-    );
+    return buckets;
+  }
 
-    const baseline = (RISK_TREND_BASELINE[crimeAreaData.riskLevel] || totalIncidents) *
-      (TIMEFRAME_MULTIPLIERS[timeframe] ?? 1);
+  /**
+   * How much more (or less) likely a crime type is on a date than on an average day
+   */
+  public getSeasonalFactor(date: Date, crimeType: CrimeType): number {
+    return seasonalFactor(date, crimeType) / SEASONAL_MEAN[crimeType];
+  }
 
-    if (baseline <= 0) {
-      return { overall: 'stable', changePercent: 0 };
-    }
+  /**
+   * The timeframe's whole days, ending at the start of the reference day
+   */
+  public createTimeframeRange(timeframe: CrimeTimeframe, referenceDate: Date = new Date()): DateRange {
+    return this.createDayRange(TIMEFRAME_DAYS[timeframe] ?? TIMEFRAME_DAYS[DEFAULT_TIMEFRAME], referenceDate);
+  }
 
-    const changePercent = ((totalIncidents - baseline) / baseline) * 100;
-    const overall: CrimeDataTrend['overall'] = changePercent <= -7
-      ? 'improving'
-      : changePercent >= 10
-        ? 'worsening'
-        : 'stable';
+  /**
+   * A number of whole days, ending at the start of the reference day
+   */
+  public createDayRange(days: number, referenceDate: Date = new Date()): DateRange {
+    const end = this.startOfDay(referenceDate);
+    const start = new Date(end);
+    start.setDate(start.getDate() - days);
+    return { start, end };
+  }
 
-    return {
-      overall,
-      changePercent: parseFloat(changePercent.toFixed(1))
-    };
+  /**
+   * The period of the same number of days just before a range
+   */
+  public getPreviousPeriod(range: DateRange): DateRange {
+    const days = Math.round((range.end.getTime() - range.start.getTime()) / DAY_MS);
+    const start = new Date(range.start);
+    start.setDate(start.getDate() - days);
+    return { start, end: new Date(range.start) };
   }
 
   public buildMetadata(
@@ -426,14 +483,30 @@ export class CrimeDataGenerator {
     }));
   }
 
-  private buildDataset(referenceDate: Date): CrimeData[] {
-    const timeframe = this.createTimeframeRange(DEFAULT_TIMEFRAME, referenceDate);
-    return CAPE_TOWN_AREA_CONFIG.map((area, index) => {
-      const seed = this.computeAreaSeed(area.name);
-      const gridCell = this.createGridId(area.latitude, area.longitude, index);
+  /**
+   * Typical share of a crime type's incidents in each hour, for data without incident times
+   */
+  public getDefaultHourlyPattern(crimeType: CrimeType): HourlyPattern {
+    const profile = CRIME_TYPE_PATTERNS[crimeType].hourlyProfile;
+    const total = profile.reduce((sum, value) => sum + value, 0);
+    const pattern: HourlyPattern = {};
+
+    profile.forEach((value, hour) => {
+      pattern[hour.toString()] = parseFloat((value / total).toFixed(4));
+    });
+
+    return pattern;
+  }
+
+  private buildDataset(referenceDate: Date, timeframe: CrimeTimeframe): CrimeData[] {
+    const range = this.createTimeframeRange(timeframe, referenceDate);
+
+    return this.getAreaModels().map(model => {
+      const area = model.config;
+      const counts = this.sumDailyCounts(model, range);
 
       return {
-        id: `crime_${gridCell}`,
+        id: model.id,
         location: {
           latitude: area.latitude,
           longitude: area.longitude,
@@ -442,9 +515,13 @@ export class CrimeDataGenerator {
           type: area.landUse,
           validatedAt: referenceDate
         },
-        gridCell,
-        timeframe,
-        crimeStats: this.generateCrimeStatistics(area, seed),
+        gridCell: model.gridCell,
+        timeframe: { start: new Date(range.start), end: new Date(range.end) },
+        crimeStats: model.statistics.map((stat, index) => ({
+          ...stat,
+          incidentCount: counts[index],
+          timePattern: { ...stat.timePattern }
+        })),
         riskLevel: area.riskLevel,
         populationDensity: area.populationDensity,
         economicIndicators: area.economic,
@@ -454,6 +531,79 @@ export class CrimeDataGenerator {
     });
   }
 
+  private getAreaModels(): AreaSeriesModel[] {
+    if (!this.areaModels) {
+      this.areaModels = CAPE_TOWN_AREA_CONFIG.map(area => {
+        const seed = this.computeAreaSeed(area.name);
+        const statistics = this.generateCrimeStatistics(area, seed);
+
+        return {
+          config: area,
+          id: `crime_${this.createAreaId(area.name)}`,
+          gridCell: gridService.pointToCell(area.latitude, area.longitude),
+          seed,
+          statistics,
+          dailyRates: statistics.map(stat => stat.incidentCount / BASE_RATE_DAYS),
+          trendPerYear: (this.seededRandom(seed + 401) * 2 - 1) * MAX_TREND_PER_YEAR
+        };
+      });
+    }
+    return this.areaModels;
+  }
+
+  /**
+   * Incidents of each of an area's statistics over the whole days of a range
+   */
+  private sumDailyCounts(model: AreaSeriesModel, range: DateRange): number[] {
+    const totals = new Array(model.statistics.length).fill(0);
+    const end = this.startOfDay(range.end);
+
+    for (const day = this.startOfDay(range.start); day < end; day.setDate(day.getDate() + 1)) {
+      this.getDailyCounts(model, day).forEach((count, index) => { totals[index] += count; });
+    }
+
+    return totals;
+  }
+
+  /**
+   * Each day's counts are drawn from a Poisson distribution around the seasonal, trending daily rate,
+   * seeded by the day so they never change once generated
+   */
+  private getDailyCounts(model: AreaSeriesModel, day: Date): number[] {
+    const dayNumber = this.getDayNumber(day);
+    const key = `${model.id}:${dayNumber}`;
+    let counts = this.dailyCounts.get(key);
+
+    if (!counts) {
+      const years = (day.getTime() - TREND_ANCHOR.getTime()) / (365 * DAY_MS);
+      const trend = Math.max(0.5, 1 + model.trendPerYear * Math.max(-MAX_TREND_YEARS, Math.min(MAX_TREND_YEARS, years)));
+
+      counts = model.statistics.map((stat, index) => this.samplePoisson(
+        model.dailyRates[index] * this.getSeasonalFactor(day, stat.type) * trend,
+        model.seed * 7919 + index * 104729 + dayNumber * 31
+      ));
+      this.dailyCounts.set(key, counts);
+    }
+
+    return counts;
+  }
+
+  private samplePoisson(rate: number, seed: number): number {
+    const target = this.seededRandom(seed);
+    const maxCount = Math.ceil(rate * 10) + 20;
+    let probability = Math.exp(-rate);
+    let cumulative = probability;
+    let count = 0;
+
+    while (cumulative < target && count < maxCount) {
+      count++;
+      probability *= rate / count;
+      cumulative += probability;
+    }
+
+    return count;
+  }
+
   private generateCrimeStatistics(area: CrimeAreaConfig, areaSeed: number): CrimeStatistic[] {
     const statistics: CrimeStatistic[] = [];
     const crimeTypes = Object.keys(CRIME_TYPE_PATTERNS) as CrimeType[];
@@ -512,19 +662,16 @@ export class CrimeDataGenerator {
     return Math.max(60, Math.min(98, Math.round(adjusted)));
   }
 
-  private createTimeframeRange(timeframe: CrimeTimeframe, referenceDate: Date): DateRange {
-    const days = TIMEFRAME_DAYS[timeframe] ?? TIMEFRAME_DAYS[DEFAULT_TIMEFRAME];
-    const end = new Date(referenceDate);
-    const start = new Date(referenceDate);
-    start.setDate(start.getDate() - days);
-    return { start, end };
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private getDayNumber(day: Date): number {
+    return Math.round(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate()) / DAY_MS);
   }
 
-  private createGridId(lat: number, lng: number, index: number): string {
-    const latPart = Math.floor(Math.abs(lat));
-    const lngPart = Math.floor(Math.abs(lng));
-    const suffix = String(index + 1).padStart(3, '0');
-    return `CT_${latPart}_${lngPart}_${suffix}`;
+  private createAreaId(areaName: string): string {
+    return areaName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
   }
 
   private computeAreaSeed(areaName: string): number {
@@ -0,0 +1,378 @@
+/**
+ * Cape Town Public Transport Timetables
+ * Loads a local GTFS feed (MyCiTi, Metrorail), falling back to a deterministic synthetic timetable.
+ */
+import fs from 'fs';
+import path from 'path';
+import { calculateDistance } from '../services/locationService';
+
+export type TransitVehicle = 'bus' | 'rail' | 'tram' | 'ferry';
+
+export interface GtfsStop {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GtfsRoute {
+  id: string;
+  agency: string;
+  shortName: string;
+  longName: string;
+  vehicle: TransitVehicle;
+}
+
+export interface GtfsTrip {
+  id: string;
+  routeId: string;
+  serviceId: string;
+  headsign?: string;
+}
+
+export interface GtfsStopTime {
+  tripId: string;
+  stopId: string;
+  sequence: number;
+  arrival: number; // seconds after midnight of the service day, may exceed 24h
+  departure: number;
+}
+
+export interface GtfsService {
+  id: string;
+  days: boolean[]; // indexed by Date.getDay(), Sunday first
+}
+
+export interface GtfsFeed {
+  stops: GtfsStop[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  stopTimes: GtfsStopTime[];
+  services: GtfsService[]; // empty when the feed has no calendar, every trip then runs daily
+}
+
+interface TransitLineConfig {
+  id: string;
+  agency: 'MyCiTi' | 'Metrorail';
+  shortName: string;
+  longName: string;
+  vehicle: TransitVehicle;
+  stops: string[];
+  headwayMinutes: number;
+  firstDeparture: string; // HH:MM
+  lastDeparture: string;
+  averageSpeed: number; // km/h between stops, excluding dwell
+}
+
+const DWELL_SECONDS = 30;
+const SYNTHETIC_SERVICE_ID = 'DAILY';
+
+// Approximate stop and station positions
+const TRANSIT_STOPS: Record<string, { name: string; lat: number; lng: number }> = {
+  CPT: { name: 'Cape Town Station', lat: -33.9222, lng: 18.4245 },
+  WDS: { name: 'Woodstock', lat: -33.9267, lng: 18.4448 },
+  SRV: { name: 'Salt River', lat: -33.9293, lng: 18.4627 },
+  OBS: { name: 'Observatory', lat: -33.9378, lng: 18.4701 },
+  MWB: { name: 'Mowbray', lat: -33.9470, lng: 18.4739 },
+  RNB: { name: 'Rondebosch', lat: -33.9623, lng: 18.4713 },
+  NWL: { name: 'Newlands', lat: -33.9712, lng: 18.4687 },
+  CLM: { name: 'Claremont', lat: -33.9806, lng: 18.4659 },
+  KNW: { name: 'Kenilworth', lat: -33.9966, lng: 18.4714 },
+  WYN: { name: 'Wynberg', lat: -34.0046, lng: 18.4701 },
+  PLM: { name: 'Plumstead', lat: -34.0191, lng: 18.4745 },
+  DPR: { name: 'Diep River', lat: -34.0348, lng: 18.4644 },
+  RTR: { name: 'Retreat', lat: -34.0557, lng: 18.4776 },
+  LKS: { name: 'Lakeside', lat: -34.0866, lng: 18.4588 },
+  MZB: { name: 'Muizenberg', lat: -34.1085, lng: 18.4700 },
+  LNG: { name: 'Langa', lat: -33.9435, lng: 18.5300 },
+  BTH: { name: 'Bonteheuwel', lat: -33.9520, lng: 18.5530 },
+  NYA: { name: 'Nyanga', lat: -33.9900, lng: 18.5810 },
+  PHL: { name: 'Philippi', lat: -34.0030, lng: 18.6030 },
+  NLG: { name: 'Nolungile', lat: -34.0380, lng: 18.6560 },
+  KHS: { name: 'Khayelitsha Station', lat: -34.0470, lng: 18.6800 },
+  MTL: { name: 'Maitland', lat: -33.9225, lng: 18.4880 },
+  GDW: { name: 'Goodwood', lat: -33.9110, lng: 18.5510 },
+  PRW: { name: 'Parow', lat: -33.9030, lng: 18.5860 },
+  BLV: { name: 'Bellville', lat: -33.9040, lng: 18.6290 },
+  CIV: { name: 'Civic Centre', lat: -33.9200, lng: 18.4280 },
+  WFT: { name: 'V&A Waterfront', lat: -33.9050, lng: 18.4200 },
+  MLN: { name: 'Milnerton', lat: -33.8700, lng: 18.4950 },
+  TBV: { name: 'Table View', lat: -33.8270, lng: 18.4920 },
+  DNN: { name: 'Dunoon', lat: -33.8220, lng: 18.5400 },
+  ADL: { name: 'Adderley', lat: -33.9230, lng: 18.4210 },
+  GDN: { name: 'Gardens', lat: -33.9330, lng: 18.4130 },
+  VRD: { name: 'Vredehoek', lat: -33.9380, lng: 18.4250 },
+  SPT: { name: 'Sea Point', lat: -33.9160, lng: 18.3870 },
+  CMB: { name: 'Camps Bay', lat: -33.9510, lng: 18.3780 },
+  HTB: { name: 'Hout Bay', lat: -34.0450, lng: 18.3600 },
+  MPL: { name: 'Mitchells Plain Town Centre', lat: -34.0510, lng: 18.6200 },
+  KTC: { name: 'Khayelitsha Town Centre', lat: -34.0400, lng: 18.6750 },
+  APT: { name: 'Cape Town International Airport', lat: -33.9700, lng: 18.5970 }
+};
+
+const TRANSIT_LINES: TransitLineConfig[] = [
+  {
+    id: 'MR_SOUTHERN', agency: 'Metrorail', shortName: 'Southern', longName: 'Cape Town - Muizenberg', vehicle: 'rail',
+    stops: ['CPT', 'WDS', 'SRV', 'OBS', 'MWB', 'RNB', 'NWL', 'CLM', 'KNW', 'WYN', 'PLM', 'DPR', 'RTR', 'LKS', 'MZB'],
+    headwayMinutes: 20, firstDeparture: '05:00', lastDeparture: '21:40', averageSpeed: 45
+  },
+  {
+    id: 'MR_CENTRAL', agency: 'Metrorail', shortName: 'Central', longName: 'Cape Town - Khayelitsha', vehicle: 'rail',
+    stops: ['CPT', 'WDS', 'SRV', 'LNG', 'BTH', 'NYA', 'PHL', 'NLG', 'KHS'],
+    headwayMinutes: 30, firstDeparture: '05:00', lastDeparture: '21:00', averageSpeed: 45
+  },
+  {
+    id: 'MR_NORTHERN', agency: 'Metrorail', shortName: 'Northern', longName: 'Cape Town - Bellville', vehicle: 'rail',
+    stops: ['CPT', 'SRV', 'MTL', 'GDW', 'PRW', 'BLV'],
+    headwayMinutes: 20, firstDeparture: '05:00', lastDeparture: '21:40', averageSpeed: 50
+  },
+  {
+    id: 'MC_T01', agency: 'MyCiTi', shortName: 'T01', longName: 'Dunoon - Table View - Civic Centre - Waterfront', vehicle: 'bus',
+    stops: ['DNN', 'TBV', 'MLN', 'CIV', 'WFT'],
+    headwayMinutes: 15, firstDeparture: '05:00', lastDeparture: '22:00', averageSpeed: 30
+  },
+  {
+    id: 'MC_101', agency: 'MyCiTi', shortName: '101', longName: 'Vredehoek - Gardens - Civic Centre', vehicle: 'bus',
+    stops: ['VRD', 'GDN', 'ADL', 'CIV'],
+    headwayMinutes: 15, firstDeparture: '05:30', lastDeparture: '22:00', averageSpeed: 20
+  },
+  {
+    id: 'MC_108', agency: 'MyCiTi', shortName: '108', longName: 'Hout Bay - Sea Point - Civic Centre', vehicle: 'bus',
+    stops: ['HTB', 'CMB', 'SPT', 'CIV'],
+    headwayMinutes: 20, firstDeparture: '05:30', lastDeparture: '21:30', averageSpeed: 30
+  },
+  {
+    id: 'MC_D01', agency: 'MyCiTi', shortName: 'D01', longName: 'Khayelitsha - Mitchells Plain - Civic Centre', vehicle: 'bus',
+    stops: ['KTC', 'MPL', 'CIV'],
+    headwayMinutes: 20, firstDeparture: '05:00', lastDeparture: '21:00', averageSpeed: 40
+  },
+  {
+    id: 'MC_A01', agency: 'MyCiTi', shortName: 'A01', longName: 'Airport - Civic Centre', vehicle: 'bus',
+    stops: ['APT', 'CIV'],
+    headwayMinutes: 20, firstDeparture: '05:00', lastDeparture: '22:00', averageSpeed: 50
+  }
+];
+
+// GTFS route_type values (basic and extended) mapped onto vehicle kinds
+const ROUTE_TYPE_VEHICLES: Record<number, TransitVehicle> = {
+  0: 'tram',
+  1: 'rail',
+  2: 'rail',
+  3: 'bus',
+  4: 'ferry',
+  100: 'rail',
+  400: 'rail',
+  700: 'bus',
+  900: 'tram',
+  1000: 'ferry'
+};
+
+const CALENDAR_DAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export class GtfsFeedGenerator {
+  /**
+   * Build a GTFS-shaped timetable for the main MyCiTi and Metrorail lines, running daily in both directions
+   */
+  public generateFeed(): GtfsFeed {
+    const stops: GtfsStop[] = Object.entries(TRANSIT_STOPS).map(([id, stop]) => ({
+      id,
+      name: stop.name,
+      latitude: stop.lat,
+      longitude: stop.lng
+    }));
+
+    const routes: GtfsRoute[] = [];
+    const trips: GtfsTrip[] = [];
+    const stopTimes: GtfsStopTime[] = [];
+
+    for (const line of TRANSIT_LINES) {
+      routes.push({ id: line.id, agency: line.agency, shortName: line.shortName, longName: line.longName, vehicle: line.vehicle });
+
+      const directions = [line.stops, [...line.stops].reverse()];
+      directions.forEach((stopIds, direction) => {
+        const headsign = TRANSIT_STOPS[stopIds[stopIds.length - 1]].name;
+        const first = parseGtfsTime(`${line.firstDeparture}:00`);
+        const last = parseGtfsTime(`${line.lastDeparture}:00`);
+
+        for (let departure = first, index = 0; departure <= last; departure += line.headwayMinutes * 60, index++) {
+          const tripId = `${line.id}_${direction}_${index}`;
+          trips.push({ id: tripId, routeId: line.id, serviceId: SYNTHETIC_SERVICE_ID, headsign });
+          stopTimes.push(...this.buildStopTimes(tripId, stopIds, departure, line.averageSpeed));
+        }
+      });
+    }
+
+    return {
+      stops,
+      routes,
+      trips,
+      stopTimes,
+      services: [{ id: SYNTHETIC_SERVICE_ID, days: new Array(7).fill(true) }]
+    };
+  }
+
+  private buildStopTimes(tripId: string, stopIds: string[], departure: number, averageSpeed: number): GtfsStopTime[] {
+    const stopTimes: GtfsStopTime[] = [];
+    let time = departure;
+
+    stopIds.forEach((stopId, sequence) => {
+      if (sequence > 0) {
+        const previous = TRANSIT_STOPS[stopIds[sequence - 1]];
+        const current = TRANSIT_STOPS[stopId];
+        const distanceKm = calculateDistance(
+          { latitude: previous.lat, longitude: previous.lng },
+          { latitude: current.lat, longitude: current.lng }
+        ) / 1000;
+        time += Math.round(distanceKm / averageSpeed * 3600);
+      }
+
+      const arrival = time;
+      const isTerminus = sequence === 0 || sequence === stopIds.length - 1;
+      time += isTerminus ? 0 : DWELL_SECONDS;
+      stopTimes.push({ tripId, stopId, sequence, arrival, departure: time });
+    });
+
+    return stopTimes;
+  }
+}
+
+export const gtfsFeedGenerator = new GtfsFeedGenerator();
+
+/**
+ * Parse a GTFS HH:MM:SS time into seconds after midnight (hours may exceed 23)
+ */
+export function parseGtfsTime(value: string): number {
+  const [hours, minutes, seconds] = value.trim().split(':').map(part => parseInt(part, 10));
+  if ([hours, minutes, seconds].some(part => isNaN(part))) return NaN;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Format seconds after midnight as a GTFS HH:MM:SS time
+ */
+export function formatGtfsTime(value: number): string {
+  const total = Math.round(value);
+  const pad = (part: number) => part.toString().padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+/**
+ * Load an unzipped GTFS feed from GTFS_PATH, or generate the synthetic timetable when unset
+ * Reads agency, stops, routes, trips and stop_times, plus calendar when present
+ */
+export function loadGtfsFeed(dirPath: string | undefined = process.env.GTFS_PATH): GtfsFeed {
+  if (!dirPath) {
+    return gtfsFeedGenerator.generateFeed();
+  }
+
+  const resolvedPath = path.resolve(dirPath);
+  if (resolvedPath.endsWith('.zip')) {
+    throw new Error(`GTFS feeds must be unzipped before loading (e.g. unzip ${path.basename(resolvedPath)} -d gtfs)`);
+  }
+
+  const agencies = new Map(readGtfsFile(resolvedPath, 'agency.txt', false).map(row => [row.agency_id || '', row.agency_name]));
+  const defaultAgency = agencies.size === 1 ? Array.from(agencies.values())[0] : 'Unknown';
+
+  const stops: GtfsStop[] = readGtfsFile(resolvedPath, 'stops.txt')
+    .filter(row => row.location_type === undefined || row.location_type === '' || row.location_type === '0')
+    .map(row => ({
+      id: row.stop_id,
+      name: row.stop_name,
+      latitude: parseFloat(row.stop_lat),
+      longitude: parseFloat(row.stop_lon)
+    }))
+    .filter(stop => !isNaN(stop.latitude) && !isNaN(stop.longitude));
+
+  const routes: GtfsRoute[] = readGtfsFile(resolvedPath, 'routes.txt').map(row => ({
+    id: row.route_id,
+    agency: agencies.get(row.agency_id || '') || defaultAgency,
+    shortName: row.route_short_name || row.route_long_name || row.route_id,
+    longName: row.route_long_name || row.route_short_name || row.route_id,
+    vehicle: ROUTE_TYPE_VEHICLES[parseInt(row.route_type, 10)] ?? ROUTE_TYPE_VEHICLES[Math.floor(parseInt(row.route_type, 10) / 100) * 100] ?? 'bus'
+  }));
+
+  const trips: GtfsTrip[] = readGtfsFile(resolvedPath, 'trips.txt').map(row => ({
+    id: row.trip_id,
+    routeId: row.route_id,
+    serviceId: row.service_id,
+    headsign: row.trip_headsign || undefined
+  }));
+
+  const stopTimes: GtfsStopTime[] = readGtfsFile(resolvedPath, 'stop_times.txt')
+    .map(row => {
+      const arrival = parseGtfsTime(row.arrival_time || row.departure_time || '');
+      const departure = parseGtfsTime(row.departure_time || row.arrival_time || '');
+      return { tripId: row.trip_id, stopId: row.stop_id, sequence: parseInt(row.stop_sequence, 10), arrival, departure };
+    })
+    // Untimed intermediate stops cannot be boarded or alighted in timetable search
+    .filter(stopTime => !isNaN(stopTime.arrival) && !isNaN(stopTime.departure));
+
+  const services: GtfsService[] = readGtfsFile(resolvedPath, 'calendar.txt', false).map(row => ({
+    id: row.service_id,
+    days: CALENDAR_DAY_COLUMNS.map(day => row[day] === '1')
+  }));
+
+  return { stops, routes, trips, stopTimes, services };
+}
+
+function readGtfsFile(dirPath: string, fileName: string, required = true): Array<Record<string, string>> {
+  const filePath = path.join(dirPath, fileName);
+  if (!fs.existsSync(filePath)) {
+    if (required) throw new Error(`GTFS feed at ${dirPath} is missing ${fileName}`);
+    return [];
+  }
+
+  const rows = parseCsv(fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, ''));
+  const [header, ...records] = rows;
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return records
+    .filter(record => record.some(value => value !== ''))
+    .map(record => Object.fromEntries(columns.map((column, index) => [column, (record[index] ?? '').trim()])));
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes and CRLF line endings
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
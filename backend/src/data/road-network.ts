@@ -0,0 +1,229 @@
+/**
+ * Cape Town Road Network
+ * Loads an OSM-derived GeoJSON road extract, falling back to a deterministic synthetic street lattice.
+ */
+import fs from 'fs';
+import path from 'path';
+
+export interface RoadFeatureProperties {
+  highway: string;
+  name?: string;
+  lit?: 'yes' | 'no' | 'limited';
+  toll?: 'yes' | 'no';
+  maxspeed?: number | string;
+  oneway?: 'yes' | 'no' | '-1';
+}
+
+export interface RoadFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'LineString'; coordinates: Array<[number, number]> }
+    | { type: 'MultiLineString'; coordinates: Array<Array<[number, number]>> };
+  properties: RoadFeatureProperties;
+}
+
+export interface RoadNetworkCollection {
+  type: 'FeatureCollection';
+  features: RoadFeature[];
+}
+
+interface RoadCorridorConfig {
+  name: string;
+  axis: 'row' | 'col';
+  line: number;
+  from: number;
+  to: number;
+  highway: string;
+  maxspeed: number;
+  toll?: boolean;
+}
+
+interface Bounds {
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+}
+
+// Extent of the synthetic lattice (City Bowl to Khayelitsha, Milnerton to Muizenberg)
+const LATTICE_BOUNDS: Bounds = { south: -34.20, north: -33.80, west: 18.36, east: 18.76 };
+const LATTICE_STEP = 0.005; // ~500m between intersections
+const LIGHTING_BLOCK_LENGTH = 4; // lattice edges sharing one `lit` tag
+
+// Approximations of the major Cape Town corridors, snapped onto the lattice
+const ROAD_CORRIDORS: RoadCorridorConfig[] = [
+  { name: 'N1', axis: 'row', line: -33.91, from: 18.43, to: 18.70, highway: 'motorway', maxspeed: 120 },
+  { name: 'N2', axis: 'row', line: -33.95, from: 18.44, to: 18.72, highway: 'motorway', maxspeed: 120 },
+  { name: 'M3', axis: 'col', line: 18.46, from: -34.08, to: -33.93, highway: 'trunk', maxspeed: 80 },
+  { name: 'M5', axis: 'col', line: 18.49, from: -34.06, to: -33.93, highway: 'trunk', maxspeed: 80 },
+  { name: "Chapman's Peak Drive", axis: 'col', line: 18.365, from: -34.10, to: -34.04, highway: 'secondary', maxspeed: 60, toll: true }
+];
+
+// Areas without roads: Table Bay, False Bay and the Table Mountain massif
+const ROADLESS_AREAS: Bounds[] = [
+  { south: -33.905, north: -33.80, west: 18.36, east: 18.48 },
+  { south: -34.20, north: -34.09, west: 18.47, east: 18.76 },
+  { south: -33.985, north: -33.945, west: 18.385, east: 18.435 }
+];
+
+const DEFAULT_MAX_SPEEDS: Record<string, number> = {
+  motorway: 120,
+  trunk: 80,
+  primary: 60,
+  secondary: 50,
+  tertiary: 40,
+  unclassified: 40,
+  residential: 30,
+  living_street: 15,
+  service: 20
+};
+
+export class RoadNetworkGenerator {
+  /**
+   * Build a GeoJSON road network on a regular street lattice with OSM-style tags
+   */
+  public generateRoadNetwork(): RoadNetworkCollection {
+    const rows = Math.round((LATTICE_BOUNDS.north - LATTICE_BOUNDS.south) / LATTICE_STEP);
+    const cols = Math.round((LATTICE_BOUNDS.east - LATTICE_BOUNDS.west) / LATTICE_STEP);
+    const features: RoadFeature[] = [];
+
+    for (let row = 0; row <= rows; row++) {
+      features.push(...this.buildLineFeatures('row', row, cols));
+    }
+    for (let col = 0; col <= cols; col++) {
+      features.push(...this.buildLineFeatures('col', col, rows));
+    }
+
+    return { type: 'FeatureCollection', features };
+  }
+
+  public getDefaultMaxSpeed(highway: string): number {
+    return DEFAULT_MAX_SPEEDS[highway.replace(/_link$/, '')] ?? DEFAULT_MAX_SPEEDS.residential;
+  }
+
+  private buildLineFeatures(axis: 'row' | 'col', index: number, length: number): RoadFeature[] {
+    const features: RoadFeature[] = [];
+    let current: RoadFeature | null = null;
+
+    for (let step = 0; step < length; step++) {
+      const start = this.latticePoint(axis, index, step);
+      const end = this.latticePoint(axis, index, step + 1);
+
+      if (this.isRoadless(start) || this.isRoadless(end)) {
+        current = null;
+        continue;
+      }
+
+      const properties = this.buildEdgeProperties(axis, index, step);
+      const coordinates = current?.geometry.coordinates as Array<[number, number]> | undefined;
+
+      if (current && coordinates && this.sameProperties(current.properties, properties)) {
+        coordinates.push(end);
+      } else {
+        current = {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: [start, end] },
+          properties
+        };
+        features.push(current);
+      }
+    }
+
+    return features;
+  }
+
+  private buildEdgeProperties(axis: 'row' | 'col', index: number, step: number): RoadFeatureProperties {
+    const [lng, lat] = this.latticePoint(axis, index, step + 0.5);
+    const lineValue = axis === 'row' ? lat : lng;
+    const alongValue = axis === 'row' ? lng : lat;
+
+    const corridor = ROAD_CORRIDORS.find(c =>
+      c.axis === axis &&
+      Math.abs(c.line - lineValue) < LATTICE_STEP / 2 &&
+      alongValue >= Math.min(c.from, c.to) &&
+      alongValue <= Math.max(c.from, c.to)
+    );
+
+    const highway = corridor?.highway || this.classifyLatticeLine(index);
+    const seed = (axis === 'row' ? 7919 : 104729) + index * 131 + Math.floor(step / LIGHTING_BLOCK_LENGTH) * 17;
+
+    const properties: RoadFeatureProperties = {
+      highway,
+      lit: this.deriveLighting(highway, seed),
+      maxspeed: corridor?.maxspeed ?? this.getDefaultMaxSpeed(highway)
+    };
+
+    if (corridor) properties.name = corridor.name;
+    if (corridor?.toll) properties.toll = 'yes';
+
+    return properties;
+  }
+
+  private classifyLatticeLine(index: number): string {
+    if (index % 10 === 0) return 'primary';
+    if (index % 5 === 0) return 'secondary';
+    if (index % 2 === 0) return 'tertiary';
+    return 'residential';
+  }
+
+  private deriveLighting(highway: string, seed: number): RoadFeatureProperties['lit'] {
+    if (highway === 'motorway' || highway === 'trunk' || highway === 'primary') return 'yes';
+
+    const roll = this.seededRandom(seed);
+    if (highway === 'secondary') return roll < 0.85 ? 'yes' : 'limited';
+    if (highway === 'tertiary') return roll < 0.7 ? 'yes' : roll < 0.9 ? 'limited' : 'no';
+    return roll < 0.55 ? 'yes' : roll < 0.8 ? 'limited' : 'no';
+  }
+
+  private latticePoint(axis: 'row' | 'col', index: number, step: number): [number, number] {
+    const lat = LATTICE_BOUNDS.south + (axis === 'row' ? index : step) * LATTICE_STEP;
+    const lng = LATTICE_BOUNDS.west + (axis === 'row' ? step : index) * LATTICE_STEP;
+    return [parseFloat(lng.toFixed(6)), parseFloat(lat.toFixed(6))];
+  }
+
+  private isRoadless([lng, lat]: [number, number]): boolean {
+    return ROADLESS_AREAS.some(area =>
+      lat > area.south && lat < area.north && lng > area.west && lng < area.east
+    );
+  }
+
+  private sameProperties(a: RoadFeatureProperties, b: RoadFeatureProperties): boolean {
+    return a.highway === b.highway && a.lit === b.lit && a.toll === b.toll &&
+      a.name === b.name && a.maxspeed === b.maxspeed;
+  }
+
+  private seededRandom(seed: number): number {
+    const x = Math.sin(seed * 12989 + 78233) * 43758.5453;
+    return x - Math.floor(x);
+  }
+}
+
+export const roadNetworkGenerator = new RoadNetworkGenerator();
+
+/**
+ * Load the road network from ROAD_NETWORK_PATH, or generate the synthetic lattice when unset
+ */
+export function loadRoadNetwork(filePath: string | undefined = process.env.ROAD_NETWORK_PATH): RoadNetworkCollection {
+  if (!filePath) {
+    return roadNetworkGenerator.generateRoadNetwork();
+  }
+
+  const resolvedPath = path.resolve(filePath);
+  if (resolvedPath.endsWith('.pbf')) {
+    throw new Error(
+      `OSM PBF extracts must be converted to GeoJSON before loading (e.g. osmium export ${path.basename(resolvedPath)} -o cape-town-roads.geojson)`
+    );
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+  if (parsed?.type !== 'FeatureCollection' || !Array.isArray(parsed.features)) {
+    throw new Error(`Road network file ${resolvedPath} is not a GeoJSON FeatureCollection`);
+  }
+
+  const features = (parsed.features as RoadFeature[]).filter(feature =>
+    typeof feature?.properties?.highway === 'string' &&
+    (feature.geometry?.type === 'LineString' || feature.geometry?.type === 'MultiLineString')
+  );
+
+  return { type: 'FeatureCollection', features };
+}
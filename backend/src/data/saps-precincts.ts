@@ -0,0 +1,67 @@
+/**
+ * SAPS Police Precincts in the City of Cape Town
+ * Approximate precinct centres (near the police station), used to place precinct crime statistics on the grid.
+ */
+
+export const SAPS_PRECINCTS: Record<string, { lat: number; lng: number }> = {
+  'Athlone': { lat: -33.9600, lng: 18.5060 },
+  'Atlantis': { lat: -33.5680, lng: 18.4920 },
+  'Belhar': { lat: -33.9450, lng: 18.6250 },
+  'Bellville': { lat: -33.9020, lng: 18.6300 },
+  'Bellville South': { lat: -33.9250, lng: 18.6400 },
+  'Bishop Lavis': { lat: -33.9470, lng: 18.5700 },
+  'Bothasig': { lat: -33.8600, lng: 18.5400 },
+  'Brackenfell': { lat: -33.8780, lng: 18.6950 },
+  'Camps Bay': { lat: -33.9506, lng: 18.3786 },
+  'Cape Town Central': { lat: -33.9258, lng: 18.4232 },
+  'Claremont': { lat: -33.9820, lng: 18.4660 },
+  'Delft': { lat: -33.9650, lng: 18.6400 },
+  'Diep River': { lat: -34.0330, lng: 18.4600 },
+  'Durbanville': { lat: -33.8320, lng: 18.6480 },
+  'Elsies River': { lat: -33.9200, lng: 18.5800 },
+  'Fish Hoek': { lat: -34.1370, lng: 18.4300 },
+  'Goodwood': { lat: -33.9100, lng: 18.5500 },
+  'Gordons Bay': { lat: -34.1580, lng: 18.8700 },
+  'Grassy Park': { lat: -34.0450, lng: 18.5020 },
+  'Gugulethu': { lat: -33.9780, lng: 18.5700 },
+  'Harare': { lat: -34.0580, lng: 18.6830 },
+  'Hout Bay': { lat: -34.0440, lng: 18.3580 },
+  'Kensington': { lat: -33.9110, lng: 18.5040 },
+  'Khayelitsha': { lat: -34.0450, lng: 18.6600 },
+  'Kirstenhof': { lat: -34.0700, lng: 18.4520 },
+  'Kleinvlei': { lat: -33.9950, lng: 18.7200 },
+  'Kraaifontein': { lat: -33.8480, lng: 18.7200 },
+  'Kuils River': { lat: -33.9270, lng: 18.6830 },
+  'Langa': { lat: -33.9420, lng: 18.5270 },
+  'Lansdowne': { lat: -33.9870, lng: 18.5030 },
+  'Lentegeur': { lat: -34.0330, lng: 18.6330 },
+  'Lingelethu West': { lat: -34.0350, lng: 18.6700 },
+  'Lwandle': { lat: -34.1100, lng: 18.8500 },
+  'Macassar': { lat: -34.0600, lng: 18.7600 },
+  'Maitland': { lat: -33.9230, lng: 18.4900 },
+  'Manenberg': { lat: -33.9850, lng: 18.5530 },
+  'Melkbosstrand': { lat: -33.7270, lng: 18.4420 },
+  'Mfuleni': { lat: -34.0000, lng: 18.6800 },
+  'Milnerton': { lat: -33.8700, lng: 18.4980 },
+  'Mitchells Plain': { lat: -34.0470, lng: 18.6170 },
+  'Mowbray': { lat: -33.9460, lng: 18.4730 },
+  'Muizenberg': { lat: -34.1050, lng: 18.4700 },
+  'Nyanga': { lat: -33.9930, lng: 18.5840 },
+  'Ocean View': { lat: -34.1450, lng: 18.3550 },
+  'Parow': { lat: -33.9020, lng: 18.5950 },
+  'Philippi': { lat: -34.0000, lng: 18.5900 },
+  'Philippi East': { lat: -34.0100, lng: 18.6200 },
+  'Pinelands': { lat: -33.9400, lng: 18.5030 },
+  'Ravensmead': { lat: -33.9200, lng: 18.6030 },
+  'Rondebosch': { lat: -33.9610, lng: 18.4710 },
+  'Sea Point': { lat: -33.9180, lng: 18.3860 },
+  'Simons Town': { lat: -34.1920, lng: 18.4330 },
+  'Somerset West': { lat: -34.0780, lng: 18.8440 },
+  'Steenberg': { lat: -34.0730, lng: 18.4850 },
+  'Strand': { lat: -34.1100, lng: 18.8250 },
+  'Strandfontein': { lat: -34.0730, lng: 18.5640 },
+  'Table Bay Harbour': { lat: -33.9060, lng: 18.4300 },
+  'Table View': { lat: -33.8200, lng: 18.4900 },
+  'Woodstock': { lat: -33.9280, lng: 18.4480 },
+  'Wynberg': { lat: -34.0030, lng: 18.4670 }
+};
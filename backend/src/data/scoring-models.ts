@@ -0,0 +1,226 @@
+/**
+ * Safety Scoring Models
+ * Versioned scoring configurations: component weights, score thresholds, travel mode risk multipliers,
+ * personal vulnerability and risk tolerance adjustments, and the scores assumed where data is missing.
+ * Models in a JSON file at SCORING_MODELS_PATH are added to the built-in ones, replacing any with the same version.
+ */
+import fs from 'fs';
+import path from 'path';
+import { CrimeStatistic, RouteSegment, TravelMode, UserContext } from '../types';
+
+export type ScoreComponent = 'crime' | 'time' | 'population' | 'lighting';
+export type RiskTolerance = NonNullable<UserContext['riskTolerance']>;
+
+export interface TravelModeRiskProfile {
+  nightLighting: Record<RouteSegment['lightingLevel'], number>; // risk multiplier by road lighting after dark
+  footTrafficWeight: number; // how much quiet streets (low population and business activity) add to risk
+  crimeExposure?: { crimeType: CrimeStatistic['type']; penalty: number }; // crime score lost where this crime occurs
+}
+
+export interface VulnerabilityProfile {
+  label: string; // how the factor is named in explanations
+  aliases?: string[]; // other names accepted in UserContext.vulnerabilityFactors
+  crimeTypeWeights: Partial<Record<CrimeStatistic['type'], number>>; // multiplier on the risk from each crime type
+  nightOnly?: boolean; // only applies after dark
+}
+
+export interface ScoringThresholds {
+  positiveFactor: number; // component scores at or above this are positive
+  neutralFactor: number; // at or above this neutral, below it negative
+  routeChange: number; // overall score below which an alternative route is recommended
+  timeChange: number; // time factor below which daylight travel is recommended
+  poorLighting: number; // lighting score below which extra lighting is recommended
+  highCrimeAlert: number; // overall score below which a high crime area alert is raised
+  poorLightingAlert: number; // lighting score below which a poor lighting alert is raised
+}
+
+export interface ScoringDefaults {
+  timeFactor: number; // without a travel time
+  populationDensity: number; // without area data
+  lighting: number; // without lighting data for the location or area
+}
+
+export interface ScoringModel {
+  version: string;
+  name: string;
+  description?: string;
+  weights: Record<ScoreComponent, number>; // sum to 1
+  thresholds: ScoringThresholds;
+  riskMultipliers: Record<TravelMode, TravelModeRiskProfile>;
+  vulnerabilities: Record<string, VulnerabilityProfile>; // by UserContext.vulnerabilityFactors name
+  riskToleranceShift: Record<RiskTolerance, number>; // points added to the alert and recommendation thresholds
+  defaults: ScoringDefaults;
+}
+
+export const DEFAULT_SCORING_MODEL_VERSION = '1.0.0';
+
+const SCORE_COMPONENTS: ScoreComponent[] = ['crime', 'time', 'population', 'lighting'];
+const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'transit', 'cycling'];
+const LIGHTING_LEVELS: RouteSegment['lightingLevel'][] = ['high', 'medium', 'low', 'none'];
+const CRIME_TYPES: CrimeStatistic['type'][] = ['violent', 'property', 'petty', 'vehicular'];
+const RISK_TOLERANCES: RiskTolerance[] = ['low', 'medium', 'high'];
+
+// Transit trips are walked to and from stops
+const STREET_RISK_MULTIPLIERS: Record<TravelMode, TravelModeRiskProfile> = {
+  driving: {
+    nightLighting: { high: 0.9, medium: 1.0, low: 1.2, none: 1.4 },
+    footTrafficWeight: 0,
+    crimeExposure: { crimeType: 'vehicular', penalty: 10 }
+  },
+  cycling: { nightLighting: { high: 0.85, medium: 1.0, low: 1.4, none: 1.8 }, footTrafficWeight: 0.5 },
+  walking: {
+    nightLighting: { high: 0.8, medium: 1.0, low: 1.6, none: 2.2 },
+    footTrafficWeight: 1.0,
+    crimeExposure: { crimeType: 'petty', penalty: 15 }
+  },
+  transit: { nightLighting: { high: 0.8, medium: 1.0, low: 1.6, none: 2.2 }, footTrafficWeight: 1.0 }
+};
+
+const STANDARD_THRESHOLDS: ScoringThresholds = {
+  positiveFactor: 70,
+  neutralFactor: 40,
+  routeChange: 50,
+  timeChange: 60,
+  poorLighting: 40,
+  highCrimeAlert: 30,
+  poorLightingAlert: 30
+};
+
+const STANDARD_VULNERABILITIES: Record<string, VulnerabilityProfile> = {
+  alone_at_night: {
+    label: 'travelling alone at night',
+    aliases: ['alone'],
+    crimeTypeWeights: { violent: 1.5, petty: 1.3, property: 1.1 },
+    nightOnly: true
+  },
+  with_children: { label: 'travelling with children', crimeTypeWeights: { violent: 1.3, vehicular: 1.3, petty: 1.1 } },
+  wheelchair: {
+    label: 'travelling in a wheelchair',
+    aliases: ['wheelchair_user', 'reduced_mobility'],
+    crimeTypeWeights: { violent: 1.3, petty: 1.4, property: 1.2 }
+  },
+  carrying_valuables: { label: 'carrying valuables', crimeTypeWeights: { petty: 1.5, property: 1.4, violent: 1.2 } },
+  tourist: { label: 'visiting as a tourist', crimeTypeWeights: { petty: 1.4, property: 1.2, violent: 1.1 } }
+};
+
+// Cautious travellers are warned at higher scores, risk-tolerant ones only at lower scores
+const STANDARD_RISK_TOLERANCE_SHIFT: Record<RiskTolerance, number> = { low: 10, medium: 0, high: -10 };
+
+const STANDARD_DEFAULTS: ScoringDefaults = { timeFactor: 80, populationDensity: 70, lighting: 80 };
+
+export const BUILT_IN_SCORING_MODELS: ScoringModel[] = [
+  {
+    version: '1.0.0',
+    name: 'balanced',
+    description: 'Composite score from research.md: crime 40%, time 30%, population density 20%, lighting 10%',
+    weights: { crime: 0.4, time: 0.3, population: 0.2, lighting: 0.1 },
+    thresholds: STANDARD_THRESHOLDS,
+    riskMultipliers: STREET_RISK_MULTIPLIERS,
+    vulnerabilities: STANDARD_VULNERABILITIES,
+    riskToleranceShift: STANDARD_RISK_TOLERANCE_SHIFT,
+    defaults: STANDARD_DEFAULTS
+  },
+  {
+    version: '1.1.0',
+    name: 'street-exposure',
+    description: 'For trips on foot or by bike after dark: lighting and foot traffic count for more, and dark streets cost more',
+    weights: { crime: 0.35, time: 0.25, population: 0.2, lighting: 0.2 },
+    thresholds: { ...STANDARD_THRESHOLDS, poorLighting: 50, poorLightingAlert: 40 },
+    riskMultipliers: {
+      ...STREET_RISK_MULTIPLIERS,
+      cycling: { nightLighting: { high: 0.85, medium: 1.0, low: 1.6, none: 2.2 }, footTrafficWeight: 0.75 },
+      walking: { ...STREET_RISK_MULTIPLIERS.walking, nightLighting: { high: 0.8, medium: 1.0, low: 1.8, none: 2.6 } }
+    },
+    vulnerabilities: STANDARD_VULNERABILITIES,
+    riskToleranceShift: STANDARD_RISK_TOLERANCE_SHIFT,
+    defaults: { ...STANDARD_DEFAULTS, lighting: 70 }
+  }
+];
+
+/**
+ * Load the built-in scoring models plus any defined in SCORING_MODELS_PATH (a JSON array of models)
+ */
+export function loadScoringModels(filePath: string | undefined = process.env.SCORING_MODELS_PATH): ScoringModel[] {
+  const models = new Map(BUILT_IN_SCORING_MODELS.map(model => [model.version, model]));
+  if (!filePath) {
+    return [...models.values()];
+  }
+
+  const resolvedPath = path.resolve(filePath);
+  const parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Scoring model file ${resolvedPath} must contain a JSON array of models`);
+  }
+
+  parsed.forEach((model: ScoringModel, index: number) => {
+    const problem = validateScoringModel(model);
+    if (problem) {
+      throw new Error(`Scoring model ${model?.version ?? `at index ${index}`} in ${resolvedPath} is invalid: ${problem}`);
+    }
+    models.set(model.version, model);
+  });
+
+  return [...models.values()];
+}
+
+/**
+ * Describe what's wrong with a scoring model definition, if anything
+ */
+export function validateScoringModel(model: ScoringModel): string | undefined {
+  const isScore = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 100;
+  const isMultiplier = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+  if (typeof model?.version !== 'string' || !model.version.trim()) return 'version must be a non-empty string';
+  if (typeof model.name !== 'string' || !model.name.trim()) return 'name must be a non-empty string';
+
+  if (!model.weights || !SCORE_COMPONENTS.every(component => isMultiplier(model.weights[component]))) {
+    return `weights must be non-negative numbers for ${SCORE_COMPONENTS.join(', ')}`;
+  }
+  const weightSum = SCORE_COMPONENTS.reduce((sum, component) => sum + model.weights[component], 0);
+  if (Math.abs(weightSum - 1) > 0.001) return `weights must sum to 1, got ${parseFloat(weightSum.toFixed(3))}`;
+
+  const thresholds = Object.keys(STANDARD_THRESHOLDS) as (keyof ScoringThresholds)[];
+  const badThreshold = thresholds.find(key => !isScore(model.thresholds?.[key]));
+  if (badThreshold) return `thresholds.${badThreshold} must be a score from 0 to 100`;
+  if (model.thresholds.neutralFactor > model.thresholds.positiveFactor) {
+    return 'thresholds.neutralFactor must not exceed thresholds.positiveFactor';
+  }
+
+  for (const mode of TRAVEL_MODES) {
+    const profile = model.riskMultipliers?.[mode];
+    if (!profile || !LIGHTING_LEVELS.every(level => isMultiplier(profile.nightLighting?.[level]))) {
+      return `riskMultipliers.${mode}.nightLighting must be non-negative numbers for ${LIGHTING_LEVELS.join(', ')}`;
+    }
+    if (!isMultiplier(profile.footTrafficWeight)) return `riskMultipliers.${mode}.footTrafficWeight must be a non-negative number`;
+    if (profile.crimeExposure &&
+      (!CRIME_TYPES.includes(profile.crimeExposure.crimeType) || !isScore(profile.crimeExposure.penalty))) {
+      return `riskMultipliers.${mode}.crimeExposure needs a crime type (${CRIME_TYPES.join(', ')}) and a penalty from 0 to 100`;
+    }
+  }
+
+  if (!model.vulnerabilities || typeof model.vulnerabilities !== 'object') return 'vulnerabilities must be an object';
+  for (const [name, profile] of Object.entries(model.vulnerabilities)) {
+    if (typeof profile?.label !== 'string' || !profile.label.trim()) return `vulnerabilities.${name}.label must be a non-empty string`;
+    if (profile.aliases !== undefined &&
+      (!Array.isArray(profile.aliases) || !profile.aliases.every(alias => typeof alias === 'string'))) {
+      return `vulnerabilities.${name}.aliases must be an array of strings`;
+    }
+    const weights = Object.entries(profile.crimeTypeWeights ?? {});
+    if (!profile.crimeTypeWeights ||
+      !weights.every(([type, weight]) => CRIME_TYPES.includes(type as CrimeStatistic['type']) && isMultiplier(weight))) {
+      return `vulnerabilities.${name}.crimeTypeWeights must map crime types (${CRIME_TYPES.join(', ')}) to non-negative numbers`;
+    }
+  }
+
+  const badTolerance = RISK_TOLERANCES.find(tolerance => {
+    const shift = model.riskToleranceShift?.[tolerance];
+    return typeof shift !== 'number' || Math.abs(shift) > 100;
+  });
+  if (badTolerance) return `riskToleranceShift.${badTolerance} must be a number from -100 to 100`;
+
+  const defaults = Object.keys(STANDARD_DEFAULTS) as (keyof ScoringDefaults)[];
+  const badDefault = defaults.find(key => !isScore(model.defaults?.[key]));
+  if (badDefault) return `defaults.${badDefault} must be a score from 0 to 100`;
+
+  return undefined;
+}
@@ -32,6 +32,15 @@ app.get('/health', (req: Request, res: Response) => {
 // Import API routes
 import routesRouter from './api/routes';
 import safetyRouter from './api/safety';
+import sessionsRouter from './api/sessions';
+import usersRouter from './api/users';
+import incidentsRouter from './api/incidents';
+import moderationRouter from './api/moderation';
+import importsRouter from './api/imports';
+import { ALERT_SOCKET_PATH, attachAlertSocket } from './api/alertSocket';
+import { geofenceService } from './services/geofenceService';
+import { anomalyService } from './services/anomalyService';
+import { scoringModelService } from './services/scoringModelService';
 
 // API routes middleware with logging
 app.use('/api', (req: Request, res: Response, next) => {
@@ -42,6 +51,11 @@ app.use('/api', (req: Request, res: Response, next) => {
 // Mount API routes
 app.use('/api/routes', routesRouter);
 app.use('/api/safety', safetyRouter);
+app.use('/api/sessions', sessionsRouter);
+app.use('/api/users', usersRouter);
+app.use('/api/incidents', incidentsRouter);
+app.use('/api/moderation', moderationRouter);
+app.use('/api/imports', importsRouter);
 
 // API documentation endpoint
 app.get('/api', (req: Request, res: Response) => {
@@ -51,12 +65,42 @@ app.get('/api', (req: Request, res: Response) => {
     endpoints: [
       'GET /health - Health check',
       'POST /api/routes/calculate - Calculate safe routes',
+      'POST /api/routes/departure-times - Rank departure times by safety and duration',
       'GET /api/routes/:routeId - Get route details',
       'GET /api/routes/:routeId/safety - Get route safety assessment',
       'POST /api/safety/score - Calculate safety score',
+      'GET /api/safety/models - List scoring models selectable by version',
       'GET /api/safety/area/:gridId - Get area safety data',
+      'GET /api/safety/area/:gridId/series - Get daily or weekly incident counts for an area',
+      'GET /api/safety/risk - Get interpolated crime risk at a location',
+      'GET /api/safety/tiles/:z/:x/:y - Get a crime heatmap map tile (PNG)',
       'GET /api/safety/alerts - Get current safety alerts',
-      'GET /api/safety/crime-data - Get Cape Town crime statistics'
+      'GET /api/safety/alerts/stream - Stream alert changes (server-sent events)',
+      'GET /api/safety/anomalies - Get detected spikes in crime reports',
+      'POST /api/safety/alerts/:id/acknowledge - Acknowledge an active alert',
+      `WS ${ALERT_SOCKET_PATH} - Stream alert changes (WebSocket)`,
+      'GET /api/safety/crime-data - Get Cape Town crime statistics',
+      'POST /api/sessions - Start a navigation session on a route',
+      'GET /api/sessions/:sessionId - Get session status, progress and ETA',
+      'POST /api/sessions/:sessionId/location - Report current location',
+      'GET /api/sessions/:sessionId/alerts - Get the session alert log',
+      'GET /api/sessions/:sessionId/deviations - Get recorded route deviations',
+      'POST /api/sessions/:sessionId/reroute - Accept the offered re-route',
+      'POST /api/sessions/:sessionId/:action - Start, pause, resume, complete or cancel a session',
+      'GET /api/users/:userId/places - List saved places',
+      'POST /api/users/:userId/places - Save a place with a geofence for safety alerts',
+      'DELETE /api/users/:userId/places/:placeId - Remove a saved place',
+      'GET /api/users/:userId/notifications - Get alert notifications for saved places',
+      'POST /api/incidents - Report a safety incident',
+      'GET /api/incidents/:id - Get an incident report and its moderation status',
+      'GET /api/moderation/incidents - Moderation queue of incident reports (admin)',
+      'POST /api/moderation/incidents/:id/:decision - Approve, reject or flag a report as spam (admin)',
+      'POST /api/moderation/incidents/:id/merge - Merge duplicate reports into a report (admin)',
+      'GET /api/moderation/incidents/:id/audit - Moderation audit trail of a report (admin)',
+      'GET /api/moderation/decisions - Moderation decisions log (admin)',
+      'POST /api/imports - Import a CSV, GeoJSON or SAPS precinct crime dataset (admin)',
+      'GET /api/imports/records - List imported crime data (admin)',
+      'DELETE /api/imports/records/:id - Remove imported crime data (admin)'
     ]
   });
 });
@@ -81,12 +125,19 @@ app.use('*', (req: Request, res: Response) => {
   });
 });
 
+// Load scoring models up front so an invalid model file stops startup
+scoringModelService.load();
+
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`SafeRoute AI Backend running on port ${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`Health check: http://localhost:${PORT}/health`);
   console.log(`API docs: http://localhost:${PORT}/api`);
 });
 
+attachAlertSocket(server);
+geofenceService.start();
+anomalyService.start();
+
 export default app;
\ No newline at end of file
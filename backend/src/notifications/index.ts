@@ -0,0 +1,28 @@
+/**
+ * Notifier Configuration
+ * ALERT_NOTIFIER selects 'log' (default, ALERT_LOG_PATH or the console) or 'webhook' (ALERT_WEBHOOK_URL).
+ */
+import { LogNotifier } from './logNotifier';
+import { WebhookNotifier } from './webhookNotifier';
+import { Notifier } from './notifier';
+
+export * from './notifier';
+export { LogNotifier } from './logNotifier';
+export { WebhookNotifier } from './webhookNotifier';
+
+export function createNotifier(kind: string = process.env.ALERT_NOTIFIER || 'log'): Notifier {
+  switch (kind) {
+    case 'log':
+      return new LogNotifier(process.env.ALERT_LOG_PATH || undefined);
+    case 'webhook':
+      if (!process.env.ALERT_WEBHOOK_URL) {
+        throw new Error('ALERT_WEBHOOK_URL is required for the webhook notifier');
+      }
+      return new WebhookNotifier(process.env.ALERT_WEBHOOK_URL);
+    default:
+      throw new Error(`Unknown alert notifier: ${kind}`);
+  }
+}
+
+// Export singleton instance
+export const notifier = createNotifier();
@@ -0,0 +1,32 @@
+/**
+ * Log Notifier
+ * Local stand-in for push delivery: writes each notification as a JSON line to a file, or the console.
+ */
+import fs from 'fs';
+import path from 'path';
+import { AlertNotification } from '../types';
+import { Notifier } from './notifier';
+
+export class LogNotifier implements Notifier {
+  readonly channel = 'log';
+  private filePath?: string;
+
+  /**
+   * @param filePath File to append to; the console when omitted
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  async notify(notification: AlertNotification): Promise<void> {
+    const line = JSON.stringify(notification);
+
+    if (!this.filePath) {
+      console.log(`Safety alert notification: ${line}`);
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${line}\n`);
+  }
+}
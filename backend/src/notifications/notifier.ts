@@ -0,0 +1,16 @@
+/**
+ * Alert Notifier Abstraction
+ * Delivers geofenced safety alert notifications to users over some channel.
+ */
+import { AlertNotification, User } from '../types';
+
+export interface Notifier {
+  /**
+   * Channel name recorded on delivered notifications
+   */
+  readonly channel: string;
+  /**
+   * Deliver one notification; rejects if delivery failed and should be retried
+   */
+  notify(notification: AlertNotification, user: User): Promise<void>;
+}
@@ -0,0 +1,22 @@
+/**
+ * Webhook Notifier
+ * POSTs each notification as JSON to a URL, e.g. a push gateway or a request bin while testing.
+ */
+import axios from 'axios';
+import { AlertNotification } from '../types';
+import { Notifier } from './notifier';
+
+const WEBHOOK_TIMEOUT = 5000; // ms
+
+export class WebhookNotifier implements Notifier {
+  readonly channel = 'webhook';
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async notify(notification: AlertNotification): Promise<void> {
+    await axios.post(this.url, { type: 'safety_alert', notification }, { timeout: WEBHOOK_TIMEOUT });
+  }
+}
@@ -0,0 +1,275 @@
+// Safety Alert Service
+// Builds the current safety alerts for a location or the whole city from time of day and crime data
+// An alert's ID is its type, grid cell and time window, so regenerating it within the window yields
+// the same alert; acknowledgements are stored against that ID until the window ends
+// Crime anomalies (spikes found by the anomaly service) raise their own alerts until they expire
+
+import { CrimeAnomaly, Location, SafetyAlert, SafetyScore } from '../types';
+import { ScoringThresholds } from '../data/scoring-models';
+import { CrimeDataService } from './crimeDataService';
+import { gridService } from './gridService';
+import { scoringModelService } from './scoringModelService';
+import { Storage, storage as defaultStorage } from '../storage';
+import { calculateDistance } from './locationService';
+
+interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+type AlertContent = Pick<SafetyAlert, 'type' | 'severity' | 'message' | 'location'>;
+
+const MAX_AREA_ALERTS = 3; // nearby high-risk areas reported per location
+const AREA_ALERT_WINDOW_HOURS = 6; // crime-data alerts are re-evaluated every 6 hours
+const CITY_CENTER: Location = { latitude: -33.9249, longitude: 18.4241, address: 'Cape Town City Center' };
+
+export class AlertService {
+  private crimeDataService: CrimeDataService;
+  private store: Storage;
+
+  constructor(crimeDataService: CrimeDataService = new CrimeDataService(), store: Storage = defaultStorage) {
+    this.crimeDataService = crimeDataService;
+    this.store = store;
+  }
+
+  /**
+   * Alerts for a location: night-time visibility, nearby high-risk areas and crime anomalies
+   * @param radius Search radius in meters
+   * @param now Time the alerts apply to
+   */
+  public async generateLocationBasedAlerts(location: Location, radius: number, now: Date = new Date()): Promise<SafetyAlert[]> {
+    const alerts: SafetyAlert[] = [];
+    const currentHour = now.getHours();
+
+    // Generate contextual alerts based on time and location
+    if (currentHour >= 20 || currentHour <= 6) {
+      alerts.push(this.createAlert({
+        type: 'poor_lighting',
+        severity: 'warning',
+        message: 'Reduced visibility during nighttime hours - stay in well-lit areas',
+        location
+      }, this.nightWindow(now, 20, 7), now));
+    }
+
+    // Get area crime data and generate alerts using CrimeDataService
+    const nearbyRiskyAreas = await this.crimeDataService.getNearbyRiskyAreas(location, radius / 1000);
+    for (const crimeData of nearbyRiskyAreas.slice(0, MAX_AREA_ALERTS)) {
+      if (crimeData.riskLevel === 'high') {
+        alerts.push(this.createAlert({
+          type: 'high_crime_area',
+          severity: 'warning',
+          message: `Elevated crime activity reported in ${crimeData.location.neighborhood || 'nearby area'}`,
+          location: crimeData.location
+        }, this.fixedWindow(now, AREA_ALERT_WINDOW_HOURS), now));
+      }
+    }
+
+    const anomalies = (await this.store.anomalies.list())
+      .filter(anomaly => anomaly.expiresAt > now && calculateDistance(location, anomaly.location) <= radius);
+    for (const anomaly of anomalies) {
+      alerts.push(this.createAnomalyAlert(anomaly));
+    }
+
+    return alerts;
+  }
+
+  /**
+   * The high_crime_area alert for a crime anomaly, running until the anomaly expires
+   */
+  public createAnomalyAlert(anomaly: CrimeAnomaly): SafetyAlert {
+    const hour = `${String(anomaly.hourStart.getHours()).padStart(2, '0')}:00`;
+
+    return {
+      id: `alert_${anomaly.id}`,
+      type: 'high_crime_area',
+      severity: anomaly.severity,
+      message: `Unusual spike in crime reports in ${anomaly.location.neighborhood || 'this area'}: ` +
+        `${anomaly.observedIncidents} incidents in the hour from ${hour}, about ${anomaly.expectedIncidents.toFixed(1)} expected`,
+      location: anomaly.location,
+      timestamp: anomaly.detectedAt,
+      acknowledged: false,
+      expiresAt: anomaly.expiresAt
+    };
+  }
+
+  /**
+   * Alerts that apply across Cape Town
+   * @param now Time the alerts apply to
+   */
+  public async generateCityWideAlerts(now: Date = new Date()): Promise<SafetyAlert[]> {
+    const alerts: SafetyAlert[] = [];
+    const currentHour = now.getHours();
+
+    // General city-wide alerts
+    if (currentHour >= 22 || currentHour <= 5) {
+      alerts.push(this.createAlert({
+        type: 'poor_lighting',
+        severity: 'info',
+        message: 'Late night hours - exercise additional caution when traveling',
+        location: CITY_CENTER
+      }, this.nightWindow(now, 22, 6), now));
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Alerts raised by a calculated safety score at a location
+   * @param thresholds Alert thresholds of the scoring model that produced the score
+   */
+  public generateScoreAlerts(
+    safetyScore: SafetyScore,
+    location: Location,
+    now: Date = new Date(),
+    thresholds: ScoringThresholds = scoringModelService.getModel().thresholds
+  ): SafetyAlert[] {
+    const alerts: SafetyAlert[] = [];
+    const window = this.fixedWindow(now, AREA_ALERT_WINDOW_HOURS);
+
+    if (safetyScore.overall < thresholds.highCrimeAlert) {
+      alerts.push(this.createAlert({
+        type: 'high_crime_area',
+        severity: 'critical',
+        message: 'High crime area detected - exercise extreme caution',
+        location
+      }, window, now));
+    }
+
+    if (safetyScore.lightingLevel < thresholds.poorLightingAlert) {
+      alerts.push(this.createAlert({
+        type: 'poor_lighting',
+        severity: 'warning',
+        message: 'Poor lighting conditions in this area',
+        location
+      }, window, now));
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Current alerts for a location (including city-wide ones it doesn't duplicate), or city-wide alerts only
+   * @param radius Search radius in meters
+   */
+  public async getActiveAlerts(location: Location | undefined, radius: number, now: Date = new Date()): Promise<SafetyAlert[]> {
+    const locationAlerts = location ? await this.generateLocationBasedAlerts(location, radius, now) : [];
+    const cityWideAlerts = await this.generateCityWideAlerts(now);
+    return this.track(this.deduplicate(locationAlerts, cityWideAlerts), now);
+  }
+
+  /**
+   * Merge location and city-wide alerts, keeping one alert per ID
+   * A city-wide alert is dropped when a location alert of the same type already covers it.
+   */
+  public deduplicate(locationAlerts: SafetyAlert[], cityWideAlerts: SafetyAlert[]): SafetyAlert[] {
+    const localTypes = new Set(locationAlerts.map(alert => alert.type));
+    const alerts = new Map<string, SafetyAlert>();
+
+    for (const alert of [...locationAlerts, ...cityWideAlerts.filter(alert => !localTypes.has(alert.type))]) {
+      if (!alerts.has(alert.id)) {
+        alerts.set(alert.id, alert);
+      }
+    }
+
+    return Array.from(alerts.values());
+  }
+
+  /**
+   * Record alerts so they can be acknowledged, carrying over the state of ones already raised
+   * Alerts past their expiry are dropped.
+   */
+  public async track(alerts: SafetyAlert[], now: Date = new Date()): Promise<SafetyAlert[]> {
+    const tracked: SafetyAlert[] = [];
+
+    for (const alert of alerts) {
+      if (alert.expiresAt && alert.expiresAt <= now) continue;
+
+      const stored = await this.store.alerts.get(alert.id);
+      const current: SafetyAlert = stored
+        ? {
+          ...alert,
+          timestamp: stored.timestamp,
+          acknowledged: stored.acknowledged,
+          acknowledgedAt: stored.acknowledgedAt,
+          actionTaken: stored.actionTaken
+        }
+        : alert;
+
+      if (!stored || stored.severity !== current.severity || stored.message !== current.message) {
+        await this.store.alerts.put(current.id, current, { ttlSeconds: this.secondsUntilExpiry(current, now) });
+      }
+      tracked.push(current);
+    }
+
+    return tracked;
+  }
+
+  /**
+   * Mark an active alert as acknowledged
+   * @returns The updated alert, or undefined if no such alert is active
+   */
+  public async acknowledge(id: string, actionTaken?: string, now: Date = new Date()): Promise<SafetyAlert | undefined> {
+    const alert = await this.store.alerts.get(id);
+    if (!alert || (alert.expiresAt && alert.expiresAt <= now)) {
+      return undefined;
+    }
+
+    const acknowledged: SafetyAlert = {
+      ...alert,
+      acknowledged: true,
+      acknowledgedAt: alert.acknowledgedAt || now,
+      actionTaken: actionTaken ?? alert.actionTaken
+    };
+    await this.store.alerts.put(id, acknowledged, { ttlSeconds: this.secondsUntilExpiry(acknowledged, now) });
+
+    return acknowledged;
+  }
+
+  private createAlert(content: AlertContent, window: TimeWindow, now: Date): SafetyAlert {
+    const cell = gridService.pointToCell(content.location.latitude, content.location.longitude);
+
+    return {
+      ...content,
+      id: `alert_${content.type}_${cell}_${this.formatWindowStart(window.start)}`,
+      timestamp: now,
+      acknowledged: false,
+      expiresAt: window.end
+    };
+  }
+
+  /**
+   * The night spanning now, from fromHour until untilHour the next morning
+   */
+  private nightWindow(now: Date, fromHour: number, untilHour: number): TimeWindow {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate(), fromHour);
+    if (now.getHours() < fromHour) {
+      start.setDate(start.getDate() - 1);
+    }
+
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1, untilHour);
+    return { start, end };
+  }
+
+  /**
+   * Fixed window of the day containing now, e.g. 00:00-06:00, 06:00-12:00 for 6 hours
+   */
+  private fixedWindow(now: Date, hours: number): TimeWindow {
+    const startHour = Math.floor(now.getHours() / hours) * hours;
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate(), startHour);
+    const end = new Date(now.getFullYear(), now.getMonth(), now.getDate(), startHour + hours);
+    return { start, end };
+  }
+
+  // Local time as YYYYMMDDHH
+  private formatWindowStart(start: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${start.getFullYear()}${pad(start.getMonth() + 1)}${pad(start.getDate())}${pad(start.getHours())}`;
+  }
+
+  private secondsUntilExpiry(alert: SafetyAlert, now: Date): number | undefined {
+    return alert.expiresAt ? Math.max(1, Math.ceil((alert.expiresAt.getTime() - now.getTime()) / 1000)) : undefined;
+  }
+}
+
+// Export singleton instance
+export const alertService = new AlertService();
@@ -0,0 +1,217 @@
+// Live Safety Alert Stream
+// Regenerates alerts for every subscriber's area on an interval and pushes what changed:
+// new alerts, updated ones (severity, message or acknowledgement changed) and expired ones that no longer apply
+// Events carry increasing IDs and are kept in a bounded log so reconnecting clients can resume
+
+import { AlertStreamEvent, AlertSubscriptionFilter, AlertSeverity, Location, SafetyAlert } from '../types';
+import { AlertService, alertService as defaultAlertService } from './alertService';
+import { v4 as uuidv4 } from 'uuid';
+import { calculateDistance } from './locationService';
+
+export type AlertStreamListener = (event: AlertStreamEvent) => void;
+
+export interface AlertSubscription {
+  id: string;
+  unsubscribe: () => void;
+}
+
+interface Subscriber {
+  filter: AlertSubscriptionFilter;
+  listener: AlertStreamListener;
+}
+
+interface TrackedAlert {
+  alert: SafetyAlert;
+  eventId: number; // event that last announced this alert
+}
+
+export const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export const DEFAULT_ALERT_RADIUS = 5000; // meters
+export const MAX_ALERT_RADIUS = 50000;
+const REFRESH_INTERVAL = Number(process.env.ALERT_STREAM_INTERVAL) * 1000 || 60 * 1000; // ms
+const MAX_EVENT_LOG = 1000;
+
+export class AlertStreamService {
+  private alertService: AlertService;
+  private refreshInterval: number;
+  private subscribers: Map<string, Subscriber> = new Map();
+  private activeAlerts: Map<string, TrackedAlert> = new Map();
+  private eventLog: AlertStreamEvent[] = [];
+  private nextEventId = 1;
+  private timer?: NodeJS.Timeout;
+  private refreshing?: Promise<void>;
+
+  constructor(service: AlertService = defaultAlertService, refreshInterval: number = REFRESH_INTERVAL) {
+    this.alertService = service;
+    this.refreshInterval = refreshInterval;
+  }
+
+  /**
+   * Register a listener for alert changes matching a filter
+   * The listener first receives the missed events after lastEventId when the log still holds them,
+   * otherwise every matching active alert as 'new', then live changes.
+   * The listener is removed again when the initial refresh fails.
+   */
+  public async subscribe(filter: AlertSubscriptionFilter, listener: AlertStreamListener, lastEventId?: number): Promise<AlertSubscription> {
+    const id = uuidv4();
+    const oldestLogged = this.eventLog[0]?.id ?? this.nextEventId;
+
+    // IDs from before a restart or older than the log fall back to the snapshot
+    if (lastEventId !== undefined && lastEventId >= oldestLogged - 1 && lastEventId < this.nextEventId) {
+      this.eventLog
+        .filter(event => event.id > lastEventId && this.matches(filter, event.alert))
+        .forEach(listener);
+    } else {
+      for (const tracked of this.activeAlerts.values()) {
+        if (this.matches(filter, tracked.alert)) {
+          listener({ id: tracked.eventId, type: 'new', alert: tracked.alert, timestamp: tracked.alert.timestamp });
+        }
+      }
+    }
+
+    this.subscribers.set(id, { filter, listener });
+    this.startTimer();
+
+    // Alerts for a newly watched area are announced straight away rather than on the next tick
+    try {
+      await this.refresh();
+    } catch (error) {
+      this.unsubscribe(id);
+      throw error;
+    }
+
+    return { id, unsubscribe: () => this.unsubscribe(id) };
+  }
+
+  public unsubscribe(id: string): void {
+    this.subscribers.delete(id);
+    if (this.subscribers.size === 0) {
+      this.stopTimer();
+    }
+  }
+
+  public getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Regenerate alerts for all watched areas and publish the differences
+   * Regenerations run one at a time so events are published in order.
+   */
+  public refresh(now: Date = new Date()): Promise<void> {
+    const run = (this.refreshing || Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.regenerate(now));
+    this.refreshing = run;
+    return run;
+  }
+
+  private async regenerate(now: Date): Promise<void> {
+    const locationAlerts: SafetyAlert[] = [];
+    for (const { filter } of this.subscribers.values()) {
+      if (filter.location) {
+        locationAlerts.push(...await this.alertService.generateLocationBasedAlerts(filter.location, filter.radius, now));
+      }
+    }
+
+    const cityWideAlerts = await this.alertService.generateCityWideAlerts(now);
+    const alerts = await this.alertService.track(this.alertService.deduplicate(locationAlerts, cityWideAlerts), now);
+    const current = new Map(alerts.map(alert => [alert.id, alert]));
+
+    for (const [id, alert] of current) {
+      const tracked = this.activeAlerts.get(id);
+      if (!tracked) {
+        this.publish('new', alert, now);
+      } else if (
+        tracked.alert.severity !== alert.severity ||
+        tracked.alert.message !== alert.message ||
+        tracked.alert.acknowledged !== alert.acknowledged
+      ) {
+        this.publish('updated', alert, now);
+      }
+    }
+
+    // Alerts past their time window are regenerated under a new ID, so the old one expires here
+    for (const [id, tracked] of this.activeAlerts) {
+      if (!current.has(id)) {
+        this.publish('expired', tracked.alert, now);
+      }
+    }
+  }
+
+  private publish(type: AlertStreamEvent['type'], alert: SafetyAlert, now: Date): void {
+    const event: AlertStreamEvent = { id: this.nextEventId++, type, alert, timestamp: now };
+
+    if (type === 'expired') {
+      this.activeAlerts.delete(alert.id);
+    } else {
+      this.activeAlerts.set(alert.id, { alert, eventId: event.id });
+    }
+
+    this.eventLog.push(event);
+    if (this.eventLog.length > MAX_EVENT_LOG) {
+      this.eventLog.splice(0, this.eventLog.length - MAX_EVENT_LOG);
+    }
+
+    for (const subscriber of this.subscribers.values()) {
+      if (this.matches(subscriber.filter, alert)) {
+        subscriber.listener(event);
+      }
+    }
+  }
+
+  private matches(filter: AlertSubscriptionFilter, alert: SafetyAlert): boolean {
+    if (SEVERITY_RANK[alert.severity] < SEVERITY_RANK[filter.minSeverity]) return false;
+    return !filter.location || calculateDistance(filter.location, alert.location) <= filter.radius;
+  }
+
+  private startTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error('Alert stream refresh failed:', error));
+    }, this.refreshInterval);
+    this.timer.unref();
+  }
+
+  private stopTimer(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+/**
+ * Parse subscription parameters from a query string or WebSocket message
+ * @returns The filter, or an error message describing the invalid parameter
+ */
+export function parseAlertSubscription(params: {
+  location?: unknown;
+  radius?: unknown;
+  minSeverity?: unknown;
+}): { filter: AlertSubscriptionFilter } | { error: string } {
+  let location: Location | undefined;
+  if (params.location !== undefined && params.location !== null && params.location !== '') {
+    const [latitude, longitude] = typeof params.location === 'string'
+      ? params.location.split(',').map(Number)
+      : [(params.location as Location).latitude, (params.location as Location).longitude];
+    if (typeof latitude !== 'number' || typeof longitude !== 'number' || isNaN(latitude) || isNaN(longitude)) {
+      return { error: 'Location must be in format: latitude,longitude' };
+    }
+    location = { latitude, longitude };
+  }
+
+  const radius = params.radius === undefined || params.radius === '' ? DEFAULT_ALERT_RADIUS : Number(params.radius);
+  if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_ALERT_RADIUS) {
+    return { error: `Radius must be between 1 and ${MAX_ALERT_RADIUS} meters` };
+  }
+
+  const minSeverity = (params.minSeverity || 'info') as AlertSeverity;
+  if (!Object.keys(SEVERITY_RANK).includes(minSeverity)) {
+    return { error: `Minimum severity must be one of: ${Object.keys(SEVERITY_RANK).join(', ')}` };
+  }
+
+  return { filter: { location, radius, minSeverity } };
+}
+
+// Export singleton instance
+export const alertStreamService = new AlertStreamService();
@@ -0,0 +1,222 @@
+// Crime Anomaly Detection
+// On an interval, verified incident reports from the last day are counted per grid cell and clock hour
+// and compared with the incidents expected there in that hour of the week: each crime statistic's daily
+// rate spread over the day by its HourlyPattern and scaled for the weekday and season. An hour whose count
+// is very unlikely at that rate (Poisson) is a spike; it's stored and raises a high_crime_area alert that
+// lasts a few hours past the spike. Reports count as recorded incidents, so a spike is more reports than
+// crimes are normally recorded there at that time.
+
+import { AlertSeverity, CrimeAnomaly, IncidentReport, Location } from '../types';
+import { CrimeType, crimeDataGenerator } from '../data/crime-generator';
+import { AlertService, alertService as defaultAlertService } from './alertService';
+import { SEVERITY_RANK } from './alertStreamService';
+import { CrimeDataService, crimeDataService as defaultCrimeDataService } from './crimeDataService';
+import { gridService } from './gridService';
+import { Storage, storage as defaultStorage } from '../storage';
+import { calculateDistance } from './locationService';
+
+export interface AnomalyQuery {
+  location?: Location;
+  radius?: number; // meters around location
+  minSeverity?: AlertSeverity;
+  includeExpired?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export const ANOMALY_SIGNIFICANCE = Number(process.env.ANOMALY_SIGNIFICANCE) || 0.001;
+export const MIN_ANOMALY_INCIDENTS = Number(process.env.MIN_ANOMALY_INCIDENTS) || 3;
+const ANOMALY_ALERT_HOURS = Number(process.env.ANOMALY_ALERT_HOURS) || 6; // alert lasts this long after the spike hour
+const CHECK_INTERVAL = Number(process.env.ANOMALY_CHECK_INTERVAL) * 1000 || 15 * 60 * 1000; // ms
+const LOOKBACK_HOURS = 24; // reports are often verified hours after they happen
+const CRITICAL_SIGNIFICANCE = ANOMALY_SIGNIFICANCE / 100;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export class AnomalyService {
+  private storage: Storage;
+  private crimeDataService: CrimeDataService;
+  private alertService: AlertService;
+  private checkInterval: number;
+  private timer?: NodeJS.Timeout;
+  private detecting?: Promise<CrimeAnomaly[]>;
+
+  constructor(
+    store: Storage = defaultStorage,
+    crimeData: CrimeDataService = defaultCrimeDataService,
+    alerts: AlertService = defaultAlertService,
+    checkInterval: number = CHECK_INTERVAL
+  ) {
+    this.storage = store;
+    this.crimeDataService = crimeData;
+    this.alertService = alerts;
+    this.checkInterval = checkInterval;
+  }
+
+  /**
+   * Look for spikes in the last day's reports, storing new or grown ones and raising their alerts
+   * Overlapping calls share the detection already in progress.
+   * @returns Anomalies found or updated by this run
+   */
+  public detect(now: Date = new Date()): Promise<CrimeAnomaly[]> {
+    if (!this.detecting) {
+      this.detecting = this.runDetection(now).finally(() => {
+        this.detecting = undefined;
+      });
+    }
+    return this.detecting;
+  }
+
+  /**
+   * Detected anomalies, most recent hour first; only those whose alert is still running unless includeExpired
+   */
+  public async getAnomalies(query: AnomalyQuery = {}, now: Date = new Date()): Promise<CrimeAnomaly[]> {
+    const { location, radius = Infinity, minSeverity = 'info', includeExpired = false, limit, offset = 0 } = query;
+
+    const anomalies = (await this.storage.anomalies.list())
+      .filter(anomaly => includeExpired || anomaly.expiresAt > now)
+      .filter(anomaly => SEVERITY_RANK[anomaly.severity] >= SEVERITY_RANK[minSeverity])
+      .filter(anomaly => !location || calculateDistance(location, anomaly.location) <= radius)
+      .sort((a, b) => b.hourStart.getTime() - a.hourStart.getTime() || a.id.localeCompare(b.id));
+
+    return anomalies.slice(offset, limit === undefined ? undefined : offset + limit);
+  }
+
+  /**
+   * Incidents expected in a grid cell during the clock hour starting at hourStart
+   * Uses the cell's dataset and imported crime data, or the nearest dataset area's for cells without any.
+   */
+  public async getExpectedIncidents(gridCell: string, hourStart: Date): Promise<number> {
+    let crimeData = (await this.crimeDataService.getCrimeDataByGridCell(gridCell))
+      .filter(data => data.dataSource !== 'crowdsourced');
+    if (crimeData.length === 0) {
+      const nearest = this.crimeDataService.findNearestDatasetArea(gridService.cellToCenter(gridCell));
+      crimeData = nearest ? [nearest] : [];
+    }
+
+    const hour = hourStart.getHours().toString();
+    return crimeData.reduce((sum, data) => {
+      const days = Math.max(1, (data.timeframe.end.getTime() - data.timeframe.start.getTime()) / DAY_MS);
+      return sum + data.crimeStats.reduce((statSum, stat) =>
+        statSum + stat.incidentCount / days * (stat.timePattern[hour] ?? 0) *
+          crimeDataGenerator.getSeasonalFactor(hourStart, stat.type), 0);
+    }, 0);
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.detect().catch(error => console.error('Anomaly detection failed:', error));
+    }, this.checkInterval);
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async runDetection(now: Date): Promise<CrimeAnomaly[]> {
+    const since = new Date(now.getTime() - LOOKBACK_HOURS * HOUR_MS);
+    const reports = (await this.storage.incidents.findBy('verified', true))
+      .filter(report => report.timestamp >= since && report.timestamp <= now);
+
+    const groups = new Map<string, IncidentReport[]>();
+    for (const report of reports) {
+      const key = `${report.gridCell}|${this.startOfHour(report.timestamp).getTime()}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(report);
+    }
+
+    const detected: CrimeAnomaly[] = [];
+    for (const [key, hourReports] of groups) {
+      if (hourReports.length < MIN_ANOMALY_INCIDENTS) continue;
+
+      const [gridCell, hourTime] = key.split('|');
+      const hourStart = new Date(Number(hourTime));
+      const expected = await this.getExpectedIncidents(gridCell, hourStart);
+      const pValue = this.poissonUpperTail(hourReports.length, expected);
+      if (pValue >= ANOMALY_SIGNIFICANCE) continue;
+
+      const id = `anomaly_${gridCell}_${this.formatHour(hourStart)}`;
+      const stored = await this.storage.anomalies.get(id);
+      if (stored && stored.observedIncidents === hourReports.length) continue;
+
+      const anomaly = this.createAnomaly(id, gridCell, hourStart, hourReports, expected, pValue, stored?.detectedAt || now);
+      await this.storage.anomalies.put(id, anomaly);
+      await this.alertService.track([this.alertService.createAnomalyAlert(anomaly)], now);
+      detected.push(anomaly);
+    }
+
+    return detected;
+  }
+
+  private createAnomaly(
+    id: string,
+    gridCell: string,
+    hourStart: Date,
+    reports: IncidentReport[],
+    expected: number,
+    pValue: number,
+    detectedAt: Date
+  ): CrimeAnomaly {
+    const incidentsByType: Record<CrimeType, number> = { violent: 0, property: 0, petty: 0, vehicular: 0 };
+    reports.forEach(report => { incidentsByType[report.crimeType]++; });
+    const latest = reports.reduce((a, b) => (a.timestamp >= b.timestamp ? a : b));
+    const severity: AlertSeverity = pValue < CRITICAL_SIGNIFICANCE || incidentsByType.violent >= MIN_ANOMALY_INCIDENTS
+      ? 'critical'
+      : 'warning';
+
+    return {
+      id,
+      gridCell,
+      location: {
+        latitude: reports.reduce((sum, report) => sum + report.location.latitude, 0) / reports.length,
+        longitude: reports.reduce((sum, report) => sum + report.location.longitude, 0) / reports.length,
+        neighborhood: latest.location.neighborhood,
+        address: latest.location.address
+      },
+      hourStart,
+      hourOfWeek: hourStart.getDay() * 24 + hourStart.getHours(),
+      observedIncidents: reports.length,
+      expectedIncidents: parseFloat(expected.toFixed(3)),
+      incidentsByType,
+      pValue: parseFloat(pValue.toPrecision(3)),
+      severity,
+      incidentIds: reports.map(report => report.id),
+      detectedAt,
+      expiresAt: new Date(hourStart.getTime() + (1 + ANOMALY_ALERT_HOURS) * HOUR_MS)
+    };
+  }
+
+  /**
+   * Chance of at least observed events when expected are likely
+   */
+  private poissonUpperTail(observed: number, expected: number): number {
+    if (expected <= 0) return observed > 0 ? 0 : 1;
+
+    let probability = Math.exp(-expected);
+    let below = 0;
+    for (let count = 0; count < observed; count++) {
+      below += probability;
+      probability *= expected / (count + 1);
+    }
+
+    return Math.max(0, 1 - below);
+  }
+
+  private startOfHour(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours());
+  }
+
+  // Local time as YYYYMMDDHH
+  private formatHour(start: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${start.getFullYear()}${pad(start.getMonth() + 1)}${pad(start.getDate())}${pad(start.getHours())}`;
+  }
+}
+
+// Export singleton instance
+export const anomalyService = new AnomalyService();
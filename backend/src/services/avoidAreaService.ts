@@ -0,0 +1,146 @@
+// Avoid Area Resolution Service
+// Resolves UserPreferences.avoidAreas entries (neighborhood names, grid cell IDs, GeoJSON polygons)
+// into geometries the routing engine can test edges against
+
+import { AvoidArea, AvoidAreaReport, GeoJSONPolygon } from '../types';
+import { CAPE_TOWN_NEIGHBORHOODS } from './locationService';
+import { gridService } from './gridService';
+import { calculateDistance } from './locationService';
+
+export interface ResolvedAvoidArea {
+  label: string;
+  mode: 'hard' | 'soft';
+  penalty: number;
+  contains: (latitude: number, longitude: number) => boolean;
+}
+
+export interface AvoidAreaResolution {
+  areas: ResolvedAvoidArea[];
+  unrecognized: AvoidAreaReport[];
+}
+
+const DEFAULT_SOFT_PENALTY = 5;
+const NEIGHBORHOOD_AVOID_RADIUS_KM = 1.2;
+
+export class AvoidAreaService {
+  /**
+   * Resolve avoid-area preferences into testable geometries
+   * Plain strings default to hard exclusions; unrecognized entries are reported, not rejected
+   * @param avoidAreas Entries from UserPreferences.avoidAreas
+   */
+  public async resolveAvoidAreas(avoidAreas: Array<string | AvoidArea> = []): Promise<AvoidAreaResolution> {
+    const areas: ResolvedAvoidArea[] = [];
+    const unrecognized: AvoidAreaReport[] = [];
+
+    for (const entry of avoidAreas) {
+      const spec: AvoidArea = typeof entry === 'string' ? { area: entry } : entry;
+      const mode = spec?.mode === 'soft' ? 'soft' : 'hard';
+      const penalty = spec?.penalty && spec.penalty > 1 ? spec.penalty : DEFAULT_SOFT_PENALTY;
+      const label = this.describeArea(spec?.area);
+
+      const contains = await this.resolveGeometry(spec?.area);
+      if (!contains) {
+        unrecognized.push({
+          area: label,
+          mode,
+          avoided: false,
+          routeIds: [],
+          reason: 'unrecognized_area',
+          message: 'Not a known neighborhood, grid cell ID or GeoJSON polygon'
+        });
+        continue;
+      }
+
+      areas.push({ label, mode, penalty, contains });
+    }
+
+    return { areas, unrecognized };
+  }
+
+  private async resolveGeometry(area: AvoidArea['area'] | undefined): Promise<ResolvedAvoidArea['contains'] | null> {
+    if (!area) return null;
+
+    if (typeof area !== 'string') {
+      return this.createPolygonTest(area);
+    }
+
+    const trimmed = area.trim();
+    if (trimmed.startsWith('{')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        return this.createPolygonTest(parsed.type === 'Feature' ? parsed.geometry : parsed);
+      } catch {
+        return null;
+      }
+    }
+
+    // Grid cell of any resolution (e.g. HX6_1_-11) - avoid the cell
+    if (gridService.isValidCell(trimmed)) {
+      return this.createPolygonTest(gridService.cellToPolygon(trimmed));
+    }
+
+    const neighborhood = Object.entries(CAPE_TOWN_NEIGHBORHOODS).find(([name]) =>
+      this.normalizeName(name) === this.normalizeName(trimmed)
+    );
+    if (neighborhood) {
+      const [, center] = neighborhood;
+      return this.createCircleTest(center.lat, center.lng, NEIGHBORHOOD_AVOID_RADIUS_KM);
+    }
+
+    return null;
+  }
+
+  private createCircleTest(centerLat: number, centerLng: number, radiusKm: number): ResolvedAvoidArea['contains'] {
+    return (latitude, longitude) => calculateDistance({ latitude: centerLat, longitude: centerLng }, { latitude, longitude }) / 1000 <= radiusKm;
+  }
+
+  /**
+   * Point-in-polygon test for a GeoJSON Polygon or MultiPolygon, or null if the geometry is malformed
+   */
+  public createPolygonTest(geometry: GeoJSONPolygon | undefined): ResolvedAvoidArea['contains'] | null {
+    if (!geometry || !Array.isArray(geometry.coordinates)) return null;
+
+    const polygons = geometry.type === 'Polygon'
+      ? [geometry.coordinates as number[][][]]
+      : geometry.type === 'MultiPolygon'
+        ? geometry.coordinates as number[][][][]
+        : null;
+
+    const isValid = polygons?.every(rings =>
+      Array.isArray(rings) && rings.length > 0 &&
+      rings.every(ring => Array.isArray(ring) && ring.length >= 4 &&
+        ring.every(point => Array.isArray(point) && typeof point[0] === 'number' && typeof point[1] === 'number'))
+    );
+    if (!polygons || !isValid) return null;
+
+    // Inside the outer ring and outside every hole of any polygon
+    return (latitude, longitude) => polygons.some(([outer, ...holes]) =>
+      this.isPointInRing(longitude, latitude, outer) &&
+      !holes.some(hole => this.isPointInRing(longitude, latitude, hole))
+    );
+  }
+
+  /**
+   * Ray casting point-in-polygon test on a [longitude, latitude] ring
+   */
+  private isPointInRing(x: number, y: number, ring: number[][]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      const intersects = (yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi;
+      if (intersects) inside = !inside;
+    }
+    return inside;
+  }
+
+  private describeArea(area: AvoidArea['area'] | undefined): string {
+    if (!area) return 'unknown';
+    if (typeof area === 'string') return area;
+    return `${area.type} polygon`;
+  }
+
+  private normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
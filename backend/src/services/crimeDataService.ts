@@ -1,12 +1,65 @@
-import { CrimeData, CrimeStatistic, Location, HourlyPattern, EconomicData } from '../types';
-import { crimeDataGenerator } from '../data/crime-generator';
+import {
+  CrimeData, CrimeStatistic, DateRange, Location, HourlyPattern, EconomicData, IncidentBucket, IncidentReport,
+  IncidentSeriesGranularity
+} from '../types';
+import { CrimeTimeframe, CrimeType, crimeDataGenerator, DEFAULT_CRIME_TIMEFRAME } from '../data/crime-generator';
+import { DEFAULT_GRID_RESOLUTION, gridService } from './gridService';
+import { TrendAnalysis, trendService } from './trendService';
+import { Storage, storage as defaultStorage } from '../storage';
+
+// Verified incident reports lose half their weight every half-life and stop counting after the max age
+export const INCIDENT_DECAY_HALF_LIFE = Number(process.env.INCIDENT_DECAY_HALF_LIFE) || 30; // days
+export const INCIDENT_MAX_AGE = Number(process.env.INCIDENT_MAX_AGE) || 180; // days
+
+const CROWDSOURCED_REFRESH_INTERVAL = 60 * 1000; // ms
+const IMPORTED_REFRESH_INTERVAL = 5 * 60 * 1000; // ms, picks up imports made by other processes (the CLI)
+const CROWDSOURCED_RISK_THRESHOLDS = { critical: 10, high: 5, medium: 2 }; // decayed incidents per cell
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let crowdsourcedVersion = 0;
+let importedVersion = 0;
+
+export interface CrimeDataQuery {
+  area?: string; // neighborhood or address text
+  crimeType?: CrimeType;
+  timeframe?: CrimeTimeframe;
+}
+
+/**
+ * Signal that verified incident reports changed so every CrimeDataService rebuilds its crowdsourced cells
+ */
+export function markCrowdsourcedDataChanged(): void {
+  crowdsourcedVersion++;
+}
+
+/**
+ * Signal that imported crime data changed so every CrimeDataService reloads it
+ */
+export function markImportedDataChanged(): void {
+  importedVersion++;
+}
+
+/**
+ * Changes whenever crowdsourced or imported crime data is marked changed, for caches derived from risk scores
+ */
+export function getCrimeDataVersion(): string {
+  return `${crowdsourcedVersion}_${importedVersion}`;
+}
 
 export class CrimeDataService {
   private crimeDataCache: Map<string, CrimeData> = new Map();
   private gridDataCache: Map<string, CrimeData[]> = new Map();
   private initialized: boolean = false;
-
-  constructor() {
+  private store: Storage;
+  private crowdsourcedCells: Map<string, CrimeData> = new Map();
+  private crowdsourcedLoadedAt = 0;
+  private crowdsourcedLoadedVersion = -1;
+  private importedData: CrimeData[] = [];
+  private importedLoadedAt = 0;
+  private importedLoadedVersion = -1;
+
+  constructor(store: Storage = defaultStorage) {
+    this.store = store;
     this.initializeData();
   }
 
@@ -44,7 +97,18 @@ export class CrimeDataService {
    */
   public async getCrimeDataById(id: string): Promise<CrimeData | null> {
     await this.initializeData();
-    return this.crimeDataCache.get(id) || null;
+    return this.crimeDataCache.get(id) ||
+      (await this.getImportedCrimeData()).find(data => data.id === id) ||
+      (await this.getCrowdsourcedCells()).find(data => data.id === id) ||
+      null;
+  }
+
+  /**
+   * Get every crime data entry in the dataset
+   */
+  public async getAllCrimeData(): Promise<CrimeData[]> {
+    await this.initializeData();
+    return [...this.crimeDataCache.values(), ...await this.getImportedCrimeData(), ...await this.getCrowdsourcedCells()];
   }
 
   /**
@@ -53,16 +117,64 @@ export class CrimeDataService {
   public async getCrimeDataByLocation(location: Location): Promise<CrimeData[]> {
     await this.initializeData();
 
-    const gridCell = this.getGridCellId(location.latitude, location.longitude);
-    return this.gridDataCache.get(gridCell) || [];
+    const gridCell = gridService.pointToCell(location.latitude, location.longitude);
+    return this.getCrimeDataByGridCell(gridCell);
   }
 
   /**
-   * Get crime data for a specific grid cell
+   * Get crime data for a grid cell of any resolution
+   * Crime data is kept per DEFAULT_GRID_RESOLUTION cell: coarser cells include every crime data cell
+   * within them and finer cells resolve to the crime data cell they're in.
    */
   public async getCrimeDataByGridCell(gridId: string): Promise<CrimeData[]> {
     await this.initializeData();
-    return this.gridDataCache.get(gridId) || [];
+    if (!gridService.isValidCell(gridId)) return [];
+
+    const resolution = gridService.getResolution(gridId);
+    if (resolution < DEFAULT_GRID_RESOLUTION) {
+      return (await this.getAllCrimeData()).filter(data => gridService.cellToParent(data.gridCell, resolution) === gridId);
+    }
+
+    const cell = gridService.cellToParent(gridId, DEFAULT_GRID_RESOLUTION);
+    const imported = (await this.getImportedCrimeData()).filter(data => data.gridCell === cell);
+    const crowdsourced = (await this.getCrowdsourcedCells()).filter(data => data.gridCell === cell);
+    return [...(this.gridDataCache.get(cell) || []), ...imported, ...crowdsourced];
+  }
+
+  /**
+   * Get crime data for a timeframe, optionally for one area and crime type
+   * Dataset areas count the timeframe's daily incidents, imported data is the latest period overlapping it and
+   * crowdsourced cells only count reports from within it.
+   * With a crime type, entries keep only its statistics and entries without any are left out.
+   */
+  public async queryCrimeData(query: CrimeDataQuery = {}, now: Date = new Date()): Promise<CrimeData[]> {
+    const timeframe = query.timeframe || DEFAULT_CRIME_TIMEFRAME;
+    const cutoff = this.getTimeframeCutoff(timeframe, now);
+    const reports = (await this.store.incidents.findBy('verified', true)).filter(report => report.timestamp >= cutoff);
+    const imported = (await this.store.crimeData.list())
+      .filter(data => data.timeframe.end >= cutoff && data.timeframe.start <= now);
+
+    let crimeData = [
+      ...crimeDataGenerator.generateCrimeData(now, timeframe),
+      ...this.selectLatestPerCell(imported),
+      ...this.buildCrowdsourcedCrimeData(reports, now)
+    ];
+
+    if (query.area) {
+      const area = query.area.toLowerCase();
+      crimeData = crimeData.filter(data =>
+        data.location.neighborhood?.toLowerCase().includes(area) ||
+        data.location.address?.toLowerCase().includes(area)
+      );
+    }
+
+    if (query.crimeType) {
+      crimeData = crimeData
+        .map(data => ({ ...data, crimeStats: crimeDataGenerator.filterStatisticsByCrimeType(data, query.crimeType) }))
+        .filter(data => data.crimeStats.length > 0);
+    }
+
+    return crimeData;
   }
 
   /**
@@ -70,42 +182,112 @@ export class CrimeDataService {
    */
   public async getCrimeStatistics(
     area?: string,
-    crimeType?: 'violent' | 'property' | 'petty' | 'vehicular',
-    timeframe?: '1month' | '3months' | '6months' | '1year'
+    crimeType?: CrimeType,
+    timeframe?: CrimeTimeframe
   ): Promise<CrimeStatistic[]> {
-    await this.initializeData();
-
-    let allCrimeData: CrimeData[] = [];
+    const crimeData = await this.queryCrimeData({ area, crimeType, timeframe });
+    return crimeData.flatMap(data => data.crimeStats);
+  }
 
-    if (area) {
-      // Filter by area/neighborhood
-      allCrimeData = Array.from(this.crimeDataCache.values()).filter(data =>
-        data.location.neighborhood?.toLowerCase().includes(area.toLowerCase()) ||
-        data.location.address?.toLowerCase().includes(area.toLowerCase())
-      );
-    } else {
-      allCrimeData = Array.from(this.crimeDataCache.values());
+  /**
+   * Daily or weekly incident counts in a grid cell of any resolution, oldest first
+   * Dataset areas count their daily incidents and verified reports their reputation weight on the day
+   * they happened (without decay). Imported data only has period totals and isn't included.
+   */
+  public async getIncidentSeries(
+    gridId: string,
+    range: DateRange,
+    granularity: IncidentSeriesGranularity = 'day',
+    crimeType?: CrimeType
+  ): Promise<IncidentBucket[]> {
+    const crimeData = await this.getCrimeDataByGridCell(gridId);
+    const buckets = crimeDataGenerator.getIncidentSeries(
+      crimeData.filter(data => data.dataSource === 'synthetic').map(data => data.id),
+      range,
+      granularity,
+      crimeType
+    );
+
+    const reports = (await this.store.incidents.findBy('verified', true)).filter(report =>
+      this.cellContains(gridId, report.gridCell) && (!crimeType || report.crimeType === crimeType)
+    );
+    for (const report of reports) {
+      const bucket = buckets.find(entry => report.timestamp >= entry.start && report.timestamp < entry.end);
+      if (bucket) {
+        const weight = report.weight ?? 1;
+        bucket.incidentCount = parseFloat((bucket.incidentCount + weight).toFixed(2));
+        bucket.incidentsByType[report.crimeType] = parseFloat((bucket.incidentsByType[report.crimeType] + weight).toFixed(2));
+      }
     }
 
-    // Apply timeframe filter
-    if (timeframe) {
-      const cutoffDate = this.getTimeframeCutoff(timeframe);
-      allCrimeData = allCrimeData.filter(data =>
-        data.timeframe.start >= cutoffDate
+    return buckets;
+  }
+
+  /**
+   * Trend of crime data's incidents against the period just before it
+   * Dataset areas and crowdsourced cells compare the timeframe with the same number of days before it;
+   * imported data compares with the cell's previous period of the same kind (precinct statistics or incidents).
+   * Undefined when there's no previous period to compare with.
+   */
+  public async calculateTrend(
+    crimeData: CrimeData,
+    timeframe: CrimeTimeframe = DEFAULT_CRIME_TIMEFRAME,
+    now: Date = new Date(),
+    crimeType?: CrimeType
+  ): Promise<TrendAnalysis | undefined> {
+    if (crimeData.dataSource === 'saps') {
+      const previousImport = (await this.store.crimeData.findBy('gridCell', crimeData.gridCell))
+        .filter(data =>
+          data.dataSource === 'saps' && this.isSameImportKind(data, crimeData) && data.timeframe.end <= crimeData.timeframe.start)
+        .sort((a, b) => b.timeframe.end.getTime() - a.timeframe.end.getTime())[0];
+      if (!previousImport) return undefined;
+
+      const countStatistics = (data: CrimeData) => data.crimeStats
+        .filter(stat => !crimeType || stat.type === crimeType)
+        .reduce((sum, stat) => sum + stat.incidentCount, 0);
+
+      return trendService.comparePeriods(
+        { count: countStatistics(crimeData), period: crimeData.timeframe },
+        { count: countStatistics(previousImport), period: previousImport.timeframe }
       );
     }
 
-    // Extract and filter crime statistics
-    const crimeStats: CrimeStatistic[] = [];
-    for (const data of allCrimeData) {
-      let stats = data.crimeStats;
-      if (crimeType) {
-        stats = stats.filter(stat => stat.type === crimeType);
-      }
-      crimeStats.push(...stats);
-    }
+    const current = crimeDataGenerator.createTimeframeRange(timeframe, now);
+    const previous = crimeDataGenerator.getPreviousPeriod(current);
+    const reports = crimeData.dataSource === 'crowdsourced'
+      ? (await this.store.incidents.findBy('verified', true)).filter(report =>
+        report.gridCell === crimeData.gridCell && (!crimeType || report.crimeType === crimeType))
+      : [];
+    const count = (range: DateRange) => crimeData.dataSource === 'synthetic'
+      ? crimeDataGenerator.getIncidentSeries([crimeData.id], range, 'day', crimeType)
+        .reduce((sum, bucket) => sum + bucket.incidentCount, 0)
+      : reports
+        .filter(report => report.timestamp >= range.start && report.timestamp < range.end)
+        .reduce((sum, report) => sum + (report.weight ?? 1), 0);
+
+    return trendService.comparePeriods({ count: count(current), period: current }, { count: count(previous), period: previous });
+  }
 
-    return crimeStats;
+  /**
+   * Trend of every incident in a grid cell of any resolution, from its incident series over the
+   * timeframe (or a number of days) and the same number of days before it
+   */
+  public async calculateAreaTrend(
+    gridId: string,
+    window: CrimeTimeframe | number = DEFAULT_CRIME_TIMEFRAME,
+    now: Date = new Date(),
+    crimeType?: CrimeType
+  ): Promise<TrendAnalysis> {
+    const current = typeof window === 'number'
+      ? crimeDataGenerator.createDayRange(window, now)
+      : crimeDataGenerator.createTimeframeRange(window, now);
+    const previous = crimeDataGenerator.getPreviousPeriod(current);
+    const buckets = await this.getIncidentSeries(gridId, { start: previous.start, end: current.end }, 'day', crimeType);
+    const count = (range: DateRange) => buckets
+      .filter(bucket => bucket.start >= range.start && bucket.start < range.end)
+      .reduce((sum, bucket) => sum + bucket.incidentCount, 0);
+
+    return trendService.comparePeriods({ count: count(current), period: current }, { count: count(previous), period: previous });
   }
 
   /**
@@ -201,7 +383,7 @@ export class CrimeDataService {
 
     const riskyAreas: CrimeData[] = [];
 
-    for (const crimeData of this.crimeDataCache.values()) {
+    for (const crimeData of await this.getAllCrimeData()) {
       if (crimeData.riskLevel === 'high' || crimeData.riskLevel === 'critical') {
         const distance = this.calculateDistance(
           location.latitude,
@@ -220,13 +402,171 @@ export class CrimeDataService {
   }
 
   /**
-   * Generate a grid cell ID for a given location
+   * Per-grid-cell crime data from verified incident reports, weighted by age and reporter reputation
+   * Each report counts as its reputation weight in incidents on the day it happened, halving every
+   * INCIDENT_DECAY_HALF_LIFE days and dropping out after INCIDENT_MAX_AGE days. Area context
+   * (population, lighting) comes from the nearest dataset area.
+   */
+  public buildCrowdsourcedCrimeData(reports: IncidentReport[], now: Date = new Date()): CrimeData[] {
+    const cells = new Map<string, Array<{ report: IncidentReport; weight: number }>>();
+
+    for (const report of reports) {
+      const ageDays = Math.max(0, (now.getTime() - report.timestamp.getTime()) / DAY_MS);
+      if (!report.verified || ageDays > INCIDENT_MAX_AGE) continue;
+
+      const weight = (report.weight ?? 1) * Math.pow(0.5, ageDays / INCIDENT_DECAY_HALF_LIFE);
+      if (!cells.has(report.gridCell)) {
+        cells.set(report.gridCell, []);
+      }
+      cells.get(report.gridCell)!.push({ report, weight });
+    }
+
+    return Array.from(cells.entries()).map(([gridCell, weighted]) => {
+      const totalWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+      const latest = weighted.reduce((a, b) => (a.report.timestamp >= b.report.timestamp ? a : b)).report;
+      const location: Location = {
+        latitude: weighted.reduce((sum, { report, weight }) => sum + report.location.latitude * weight, 0) / totalWeight,
+        longitude: weighted.reduce((sum, { report, weight }) => sum + report.location.longitude * weight, 0) / totalWeight,
+        neighborhood: latest.location.neighborhood,
+        address: latest.location.address
+      };
+      const context = this.findNearestDatasetArea(location);
+
+      return {
+        id: `crowd_${gridCell}`,
+        location,
+        gridCell,
+        timeframe: {
+          start: new Date(Math.min(...weighted.map(({ report }) => report.timestamp.getTime()))),
+          end: now
+        },
+        crimeStats: this.buildCrowdsourcedStatistics(weighted),
+        riskLevel: totalWeight >= CROWDSOURCED_RISK_THRESHOLDS.critical ? 'critical'
+          : totalWeight >= CROWDSOURCED_RISK_THRESHOLDS.high ? 'high'
+          : totalWeight >= CROWDSOURCED_RISK_THRESHOLDS.medium ? 'medium'
+          : 'low',
+        populationDensity: context?.populationDensity ?? 0,
+        economicIndicators: context?.economicIndicators ?? {
+          averageIncome: 0, unemploymentRate: 0, businessDensity: 0, lightingInfrastructure: 0
+        },
+        lastUpdated: new Date(Math.max(...weighted.map(({ report }) => (report.verifiedAt || report.reportedAt).getTime()))),
+        dataSource: 'crowdsourced'
+      };
+    });
+  }
+
+  // Precinct statistics only compare with precinct statistics and incident files with incident files;
+  // records imported before the import format was recorded compare with any import
+  private isSameImportKind(a: CrimeData, b: CrimeData): boolean {
+    return !a.importFormat || !b.importFormat || (a.importFormat === 'saps') === (b.importFormat === 'saps');
+  }
+
+  /**
+   * Crowdsourced cells, rebuilt when reports are verified or after the refresh interval (for decay)
+   */
+  private async getCrowdsourcedCells(): Promise<CrimeData[]> {
+    const stale = Date.now() - this.crowdsourcedLoadedAt > CROWDSOURCED_REFRESH_INTERVAL;
+    if (stale || this.crowdsourcedLoadedVersion !== crowdsourcedVersion) {
+      const version = crowdsourcedVersion;
+      const reports = await this.store.incidents.findBy('verified', true);
+      this.crowdsourcedCells = new Map(this.buildCrowdsourcedCrimeData(reports).map(data => [data.gridCell, data]));
+      this.crowdsourcedLoadedAt = Date.now();
+      this.crowdsourcedLoadedVersion = version;
+    }
+    return Array.from(this.crowdsourcedCells.values());
+  }
+
+  /**
+   * Imported crime data, latest period per grid cell, reloaded after imports or the refresh interval
+   */
+  private async getImportedCrimeData(): Promise<CrimeData[]> {
+    const stale = Date.now() - this.importedLoadedAt > IMPORTED_REFRESH_INTERVAL;
+    if (stale || this.importedLoadedVersion !== importedVersion) {
+      const version = importedVersion;
+      this.importedData = this.selectLatestPerCell(await this.store.crimeData.list());
+      this.importedLoadedAt = Date.now();
+      this.importedLoadedVersion = version;
+    }
+    return this.importedData;
+  }
+
+  /**
+   * Imports keep one record per period; only the most recent period of a cell describes it now
+   */
+  private selectLatestPerCell(crimeData: CrimeData[]): CrimeData[] {
+    const latest = new Map<string, CrimeData>();
+    for (const data of crimeData) {
+      const current = latest.get(data.gridCell);
+      if (!current || data.timeframe.end > current.timeframe.end) {
+        latest.set(data.gridCell, data);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  /**
+   * One statistic per crime type and subtype; counts and hourly patterns are decay-weighted
+   */
+  private buildCrowdsourcedStatistics(weighted: Array<{ report: IncidentReport; weight: number }>): CrimeStatistic[] {
+    const groups = new Map<string, Array<{ report: IncidentReport; weight: number }>>();
+    for (const entry of weighted) {
+      const key = `${entry.report.crimeType}:${entry.report.type}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(entry);
+    }
+
+    return Array.from(groups.values()).map(entries => {
+      const weight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+      const hours = new Array(24).fill(0);
+      entries.forEach(({ report, weight: w }) => { hours[report.timestamp.getHours()] += w; });
+
+      const timePattern: HourlyPattern = {};
+      hours.forEach((value, hour) => {
+        timePattern[hour.toString()] = parseFloat((value / weight).toFixed(4));
+      });
+
+      return {
+        type: entries[0].report.crimeType,
+        subtype: entries[0].report.type,
+        incidentCount: parseFloat(weight.toFixed(2)),
+        severity: Math.round(entries.reduce((sum, { report, weight: w }) => sum + report.severity * w, 0) / weight),
+        timePattern,
+        // Crowdsourced reports are less certain than official data; merged duplicates corroborate
+        confidence: Math.min(80, 40 + entries.reduce((sum, { report }) => sum + 1 + (report.mergedReportIds?.length || 0), 0) * 10)
+      };
+    });
+  }
+
+  /**
+   * Dataset area nearest a location, for area context (population, lighting) of other data sources
+   */
+  public findNearestDatasetArea(location: Location): CrimeData | undefined {
+    let nearest: CrimeData | undefined;
+    let nearestDistance = Infinity;
+
+    for (const crimeData of this.crimeDataCache.values()) {
+      const distance = this.calculateDistance(
+        location.latitude, location.longitude, crimeData.location.latitude, crimeData.location.longitude
+      );
+      if (distance < nearestDistance) {
+        nearest = crimeData;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Whether a grid cell of any resolution covers a DEFAULT_GRID_RESOLUTION crime data cell
    */
-  private getGridCellId(latitude: number, longitude: number): string {
-    // Create 1km x 1km grid cells
-    const latGrid = Math.floor((latitude + 34.5) * 100); // Normalize for Cape Town
-    const lngGrid = Math.floor((longitude - 18.0) * 100);
-    return `CT_${latGrid}_${lngGrid}`;
+  private cellContains(gridId: string, cell: string): boolean {
+    const resolution = gridService.getResolution(gridId);
+    return resolution < DEFAULT_GRID_RESOLUTION
+      ? gridService.cellToParent(cell, resolution) === gridId
+      : gridService.cellToParent(gridId, DEFAULT_GRID_RESOLUTION) === cell;
   }
 
   /**
@@ -245,8 +585,7 @@ export class CrimeDataService {
   /**
    * Calculate cutoff date for timeframe filtering
    */
-  private getTimeframeCutoff(timeframe: string): Date {
-    const now = new Date();
+  private getTimeframeCutoff(timeframe: CrimeTimeframe, now: Date = new Date()): Date {
     const cutoff = new Date(now);
 
     switch (timeframe) {
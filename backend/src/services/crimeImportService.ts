@@ -0,0 +1,788 @@
+// Crime Data Import Service
+// Bulk import of official and open crime datasets as crime data records (dataSource 'saps'):
+// - csv: one incident per row (or a count of them) with a category, a date and coordinates or a precinct
+// - geojson: the same as Point features, or Polygon features placed at their centroid
+// - saps: SAPS precinct statistics, one row per precinct and category with a count column per
+//   financial year (April to March)
+// Every record keeps the format it was imported from, which tells precinct statistics from incidents.
+// Categories are mapped onto crime types and subtypes and locations onto grid cells. Incidents are
+// grouped into one record per grid cell, precinct statistics into one record per precinct and year.
+// Rows that can't be used are reported with their row number and skipped; the rest is imported.
+// Re-importing the same data replaces its records.
+
+import { CrimeData, CrimeStatistic, DateRange, HourlyPattern, Location } from '../types';
+import { CrimeType, crimeDataGenerator } from '../data/crime-generator';
+import { SAPS_PRECINCTS } from '../data/saps-precincts';
+import { CrimeDataService, markImportedDataChanged } from './crimeDataService';
+import { gridService } from './gridService';
+import { LocationService } from './locationService';
+import { ListOptions, Storage, storage as defaultStorage } from '../storage';
+
+export type ImportFormat = NonNullable<CrimeData['importFormat']>;
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'geojson', 'saps'];
+
+export class CrimeImportError extends Error {
+  constructor(
+    public code: 'INVALID_FORMAT' | 'INVALID_FILE' | 'RECORD_NOT_FOUND',
+    message: string
+  ) {
+    super(message);
+    this.name = 'CrimeImportError';
+  }
+}
+
+export interface ImportRowError {
+  row: number; // line number (the header is row 1), or feature number for GeoJSON
+  field?: string;
+  message: string;
+}
+
+export interface ImportOptions {
+  dryRun?: boolean; // validate and build records without storing them
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  dryRun: boolean;
+  rowsRead: number;
+  rowsImported: number;
+  rowsSkipped: number; // subtotal and out-of-scope categories, not errors
+  recordIds: string[];
+  errors: ImportRowError[];
+  period?: DateRange;
+}
+
+interface CategoryMapping {
+  type: CrimeType;
+  subtype: string;
+  severity: number;
+}
+
+// One incident count, mapped and placed, before grouping into records
+interface ImportedCount {
+  row: number;
+  category: CategoryMapping;
+  count: number;
+  location: Location;
+  area?: string;
+  occurredAt?: Date;
+  hasTime?: boolean;
+  period?: DateRange;
+}
+
+// Category names are matched after lower-casing and replacing punctuation with spaces
+const CATEGORY_MAPPINGS: Record<string, CategoryMapping> = {
+  'murder': { type: 'violent', subtype: 'murder', severity: 10 },
+  'attempted murder': { type: 'violent', subtype: 'murder', severity: 9 },
+  'sexual offences': { type: 'violent', subtype: 'sexual_offense', severity: 9 },
+  'sexual offenses': { type: 'violent', subtype: 'sexual_offense', severity: 9 },
+  'sexual offense': { type: 'violent', subtype: 'sexual_offense', severity: 9 },
+  'rape': { type: 'violent', subtype: 'sexual_offense', severity: 10 },
+  'assault with the intent to inflict grievous bodily harm': { type: 'violent', subtype: 'assault', severity: 8 },
+  'assault gbh': { type: 'violent', subtype: 'assault', severity: 8 },
+  'kidnapping': { type: 'violent', subtype: 'assault', severity: 9 },
+  'common assault': { type: 'violent', subtype: 'assault', severity: 6 },
+  'assault': { type: 'violent', subtype: 'assault', severity: 6 },
+  'robbery with aggravating circumstances': { type: 'violent', subtype: 'robbery', severity: 8 },
+  'aggravated robbery': { type: 'violent', subtype: 'robbery', severity: 8 },
+  'robbery at residential premises': { type: 'violent', subtype: 'robbery', severity: 8 },
+  'robbery at non residential premises': { type: 'violent', subtype: 'robbery', severity: 8 },
+  'bank robbery': { type: 'violent', subtype: 'robbery', severity: 9 },
+  'cash in transit robbery': { type: 'violent', subtype: 'robbery', severity: 9 },
+  'common robbery': { type: 'violent', subtype: 'robbery', severity: 7 },
+  'robbery': { type: 'violent', subtype: 'robbery', severity: 7 },
+  'mugging': { type: 'violent', subtype: 'robbery', severity: 7 },
+  'carjacking': { type: 'vehicular', subtype: 'hijacking', severity: 9 },
+  'truck hijacking': { type: 'vehicular', subtype: 'hijacking', severity: 9 },
+  'hijacking': { type: 'vehicular', subtype: 'hijacking', severity: 9 },
+  'theft of motor vehicle and motorcycle': { type: 'vehicular', subtype: 'car_theft', severity: 6 },
+  'vehicle theft': { type: 'vehicular', subtype: 'car_theft', severity: 6 },
+  'car theft': { type: 'vehicular', subtype: 'car_theft', severity: 6 },
+  'theft out of or from motor vehicle': { type: 'vehicular', subtype: 'car_breaking', severity: 5 },
+  'theft from vehicle': { type: 'vehicular', subtype: 'car_breaking', severity: 5 },
+  'car breaking': { type: 'vehicular', subtype: 'car_breaking', severity: 5 },
+  'smash and grab': { type: 'vehicular', subtype: 'smash_grab', severity: 6 },
+  'smash grab': { type: 'vehicular', subtype: 'smash_grab', severity: 6 },
+  'burglary at residential premises': { type: 'property', subtype: 'burglary', severity: 6 },
+  'burglary at non residential premises': { type: 'property', subtype: 'burglary', severity: 5 },
+  'burglary': { type: 'property', subtype: 'burglary', severity: 6 },
+  'shoplifting': { type: 'property', subtype: 'shoplifting', severity: 3 },
+  'all theft not mentioned elsewhere': { type: 'property', subtype: 'theft', severity: 4 },
+  'stock theft': { type: 'property', subtype: 'theft', severity: 4 },
+  'theft': { type: 'property', subtype: 'theft', severity: 4 },
+  'commercial crime': { type: 'property', subtype: 'fraud', severity: 4 },
+  'fraud': { type: 'property', subtype: 'fraud', severity: 4 },
+  'malicious damage to property': { type: 'property', subtype: 'vandalism', severity: 4 },
+  'vandalism': { type: 'property', subtype: 'vandalism', severity: 4 },
+  'arson': { type: 'property', subtype: 'vandalism', severity: 6 },
+  'pickpocketing': { type: 'petty', subtype: 'pickpocketing', severity: 2 },
+  'bag snatching': { type: 'petty', subtype: 'bag_snatching', severity: 3 },
+  'cellphone theft': { type: 'petty', subtype: 'mobile_theft', severity: 3 },
+  'mobile theft': { type: 'petty', subtype: 'mobile_theft', severity: 3 },
+  'bicycle theft': { type: 'petty', subtype: 'bicycle_theft', severity: 2 }
+};
+
+// SAPS subtotals (which would double count) and crimes that don't bear on street safety
+const SKIPPED_CATEGORIES = [
+  /^total\b/,
+  /^\d+ community reported serious crimes/,
+  /^contact crimes?\b/,
+  /^contact related crimes?\b/,
+  /^property related crimes?\b/,
+  /^other serious crimes?\b/,
+  /detected as a result of police action/,
+  /^drug related crime/,
+  /^driving under the influence/,
+  /^illegal possession of firearms/,
+  /^culpable homicide/
+];
+
+const COLUMN_ALIASES = {
+  category: ['category', 'crime category', 'crime', 'crime type', 'offence', 'offense'],
+  date: ['date', 'datetime', 'date time', 'incident date', 'occurred at', 'timestamp'],
+  time: ['time', 'incident time'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+  precinct: ['precinct', 'station', 'police station'],
+  area: ['neighborhood', 'neighbourhood', 'suburb', 'area'],
+  count: ['count', 'incidents', 'number']
+};
+
+type ColumnName = keyof typeof COLUMN_ALIASES;
+
+const FINANCIAL_YEAR_COLUMN = /^(?:april\s+)?(\d{4})\s*(?:\/|-|to)\s*(?:march\s+)?(\d{4}|\d{2})$/i;
+
+// Annual severity-weighted incidents (count × severity / 10) at which a record reaches a risk level
+const ANNUAL_RISK_THRESHOLDS = { critical: 3000, high: 1200, medium: 400 };
+const SAPS_CONFIDENCE = 95;
+const OPEN_DATA_CONFIDENCE = 85;
+const EARLIEST_DATE = new Date(2000, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CrimeImportService {
+  private store: Storage;
+  private crimeDataService: CrimeDataService;
+  private locationService: LocationService;
+
+  constructor(
+    store: Storage = defaultStorage,
+    crimeDataService: CrimeDataService = new CrimeDataService(store),
+    locationService: LocationService = new LocationService()
+  ) {
+    this.store = store;
+    this.crimeDataService = crimeDataService;
+    this.locationService = locationService;
+  }
+
+  /**
+   * Import a dataset; throws CrimeImportError only when the file as a whole can't be read
+   */
+  public async importData(content: string, format: ImportFormat, options: ImportOptions = {}, now: Date = new Date()): Promise<ImportResult> {
+    if (!IMPORT_FORMATS.includes(format)) {
+      throw new CrimeImportError('INVALID_FORMAT', `format must be one of: ${IMPORT_FORMATS.join(', ')}`);
+    }
+
+    const errors: ImportRowError[] = [];
+    const parsed = format === 'geojson'
+      ? this.parseGeoJson(content, errors, now)
+      : format === 'saps'
+        ? this.parseSapsStatistics(content, errors)
+        : this.parseIncidentCsv(content, errors, now);
+
+    const records = format === 'saps'
+      ? this.buildPrecinctRecords(parsed.counts, now)
+      : this.buildCellRecords(parsed.counts, format, now);
+
+    if (!options.dryRun) {
+      for (const record of records) {
+        await this.store.crimeData.put(record.id, record);
+      }
+      if (records.length > 0) {
+        markImportedDataChanged();
+      }
+    }
+
+    const importedRows = new Set(parsed.counts.map(count => count.row));
+    const starts = getTimeBounds(records.map(record => record.timeframe.start.getTime()));
+    const ends = getTimeBounds(records.map(record => record.timeframe.end.getTime()));
+
+    return {
+      format,
+      dryRun: !!options.dryRun,
+      rowsRead: parsed.rowsRead,
+      rowsImported: importedRows.size,
+      rowsSkipped: parsed.rowsSkipped,
+      recordIds: records.map(record => record.id),
+      errors: errors.sort((a, b) => a.row - b.row),
+      period: records.length > 0 ? { start: new Date(starts.min), end: new Date(ends.max) } : undefined
+    };
+  }
+
+  /**
+   * Imported crime data records, most recently imported first
+   */
+  public async listRecords(options: ListOptions = {}): Promise<CrimeData[]> {
+    return this.store.crimeData.list(options);
+  }
+
+  /**
+   * Remove an imported record, e.g. one from a bad import
+   */
+  public async deleteRecord(id: string): Promise<void> {
+    if (!await this.store.crimeData.delete(id)) {
+      throw new CrimeImportError('RECORD_NOT_FOUND', `Imported crime data ${id} not found`);
+    }
+    markImportedDataChanged();
+  }
+
+  /**
+   * Guess the format from the file name and content: JSON is GeoJSON, a CSV with a precinct column and
+   * financial year columns is SAPS statistics, any other CSV is incidents
+   */
+  public detectFormat(content: string, fileName?: string): ImportFormat {
+    if (fileName && /\.(geo)?json$/i.test(fileName)) return 'geojson';
+    if (content.trimStart().startsWith('{')) return 'geojson';
+
+    const [header = []] = parseCsv(content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0]);
+    const hasPrecinct = header.some(column => COLUMN_ALIASES.precinct.includes(normalizeName(column)));
+    const hasYears = header.some(column => FINANCIAL_YEAR_COLUMN.test(column.trim()));
+    return hasPrecinct && hasYears ? 'saps' : 'csv';
+  }
+
+  /**
+   * Crime category mapped onto a crime type and subtype, null when skipped, undefined when unknown
+   */
+  public mapCategory(category: string): CategoryMapping | null | undefined {
+    const name = normalizeName(category);
+    if (SKIPPED_CATEGORIES.some(pattern => pattern.test(name))) return null;
+    return CATEGORY_MAPPINGS[name];
+  }
+
+  /**
+   * Location of a SAPS precinct, or of a neighbourhood or landmark with the same name
+   */
+  public geocodePrecinct(precinct: string): Location | undefined {
+    const name = normalizeName(precinct.replace(/\b(saps|police station|precinct)\b/gi, ''));
+    const match = Object.entries(SAPS_PRECINCTS).find(([precinctName]) => normalizeName(precinctName) === name);
+    if (match) {
+      return { latitude: match[1].lat, longitude: match[1].lng, neighborhood: match[0] };
+    }
+
+    const known = this.locationService.searchLocationsByName(precinct.trim())
+      .find(location => normalizeName(location.neighborhood || '') === name);
+    return known ? { latitude: known.latitude, longitude: known.longitude, neighborhood: known.neighborhood } : undefined;
+  }
+
+  private parseIncidentCsv(content: string, errors: ImportRowError[], now: Date) {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) {
+      throw new CrimeImportError('INVALID_FILE', 'The file is empty');
+    }
+
+    const columns = this.findColumns(header);
+    if (columns.category === undefined || columns.date === undefined ||
+      ((columns.latitude === undefined || columns.longitude === undefined) && columns.precinct === undefined)) {
+      throw new CrimeImportError(
+        'INVALID_FILE',
+        'CSV needs category and date columns, and latitude and longitude or precinct columns'
+      );
+    }
+
+    const counts: ImportedCount[] = [];
+    let rowsRead = 0;
+    let rowsSkipped = 0;
+
+    rows.forEach((cells, index) => {
+      if (cells.every(cell => cell.trim() === '')) return;
+      rowsRead++;
+
+      const value = (column: ColumnName) => columns[column] !== undefined ? (cells[columns[column]!] || '').trim() : '';
+      const count = this.parseIncident(index + 2, {
+        category: value('category'),
+        date: value('date'),
+        time: value('time'),
+        latitude: value('latitude'),
+        longitude: value('longitude'),
+        precinct: value('precinct'),
+        area: value('area'),
+        count: value('count')
+      }, errors, now);
+
+      if (count === null) rowsSkipped++;
+      else if (count) counts.push(count);
+    });
+
+    return { counts, rowsRead, rowsSkipped };
+  }
+
+  private parseGeoJson(content: string, errors: ImportRowError[], now: Date) {
+    let collection: unknown;
+    try {
+      collection = JSON.parse(content);
+    } catch (error) {
+      throw new CrimeImportError('INVALID_FILE', `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+    if (!isRecord(collection) || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+      throw new CrimeImportError('INVALID_FILE', 'GeoJSON must be a FeatureCollection');
+    }
+
+    const features: unknown[] = collection.features;
+    const counts: ImportedCount[] = [];
+    let rowsSkipped = 0;
+
+    features.forEach((feature, index) => {
+      const row = index + 1;
+      const properties = isRecord(feature) && isRecord(feature.properties) ? feature.properties : {};
+      const property = (column: ColumnName) => {
+        const key = Object.keys(properties).find(name => COLUMN_ALIASES[column].includes(normalizeName(name)));
+        return key !== undefined && properties[key] !== null && properties[key] !== undefined ? String(properties[key]).trim() : '';
+      };
+
+      const position = this.getFeaturePosition(isRecord(feature) ? feature.geometry : undefined);
+      if (position === null) {
+        errors.push({ row, field: 'geometry', message: 'Geometry must be a Point, Polygon or MultiPolygon' });
+        return;
+      }
+
+      const count = this.parseIncident(row, {
+        category: property('category'),
+        date: property('date'),
+        time: property('time'),
+        latitude: position ? String(position[1]) : '',
+        longitude: position ? String(position[0]) : '',
+        precinct: property('precinct'),
+        area: property('area'),
+        count: property('count')
+      }, errors, now);
+
+      if (count === null) rowsSkipped++;
+      else if (count) counts.push(count);
+    });
+
+    return { counts, rowsRead: features.length, rowsSkipped };
+  }
+
+  private parseSapsStatistics(content: string, errors: ImportRowError[]) {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) {
+      throw new CrimeImportError('INVALID_FILE', 'The file is empty');
+    }
+
+    const columns = this.findColumns(header);
+    const years = header
+      .map((name, index) => ({ name: name.trim(), index, match: FINANCIAL_YEAR_COLUMN.exec(name.trim()) }))
+      .filter(({ match }) => match && (parseInt(match[1], 10) + 1) % 100 === parseInt(match[2], 10) % 100)
+      .map(({ name, index, match }) => {
+        const startYear = parseInt(match![1], 10);
+        return { name, index, period: { start: new Date(startYear, 3, 1), end: new Date(startYear + 1, 2, 31, 23, 59, 59, 999) } };
+      });
+
+    if (columns.precinct === undefined || columns.category === undefined || years.length === 0) {
+      throw new CrimeImportError(
+        'INVALID_FILE',
+        'SAPS statistics need precinct and category columns and financial year columns such as 2022/2023'
+      );
+    }
+
+    const counts: ImportedCount[] = [];
+    let rowsRead = 0;
+    let rowsSkipped = 0;
+
+    rows.forEach((cells, index) => {
+      if (cells.every(cell => cell.trim() === '')) return;
+      rowsRead++;
+      const row = index + 2;
+
+      const precinct = (cells[columns.precinct!] || '').trim();
+      const category = this.mapCategory(cells[columns.category!] || '');
+      if (category === null) {
+        rowsSkipped++;
+        return;
+      }
+      if (!category) {
+        errors.push({ row, field: header[columns.category!], message: `Unknown crime category: ${(cells[columns.category!] || '').trim() || '(empty)'}` });
+        return;
+      }
+
+      const location = this.geocodePrecinct(precinct);
+      if (!location) {
+        errors.push({ row, field: header[columns.precinct!], message: `Unknown precinct: ${precinct || '(empty)'}` });
+        return;
+      }
+
+      for (const year of years) {
+        const raw = (cells[year.index] || '').trim();
+        if (raw === '') continue;
+
+        const count = parseCount(raw);
+        if (count === undefined) {
+          errors.push({ row, field: year.name, message: `Count must be a non-negative number, got ${raw}` });
+          continue;
+        }
+        counts.push({ row, category, count, location, area: location.neighborhood, period: year.period });
+      }
+    });
+
+    return { counts, rowsRead, rowsSkipped };
+  }
+
+  /**
+   * Validate one incident row; undefined (with an error recorded) when unusable, null when skipped
+   */
+  private parseIncident(
+    row: number,
+    fields: Record<ColumnName, string>,
+    errors: ImportRowError[],
+    now: Date
+  ): ImportedCount | null | undefined {
+    const category = this.mapCategory(fields.category);
+    if (category === null) return null;
+    if (!category) {
+      errors.push({ row, field: 'category', message: `Unknown crime category: ${fields.category || '(empty)'}` });
+      return undefined;
+    }
+
+    const occurred = parseDate(fields.date, fields.time);
+    if (!occurred || occurred.date < EARLIEST_DATE || occurred.date > now) {
+      errors.push({ row, field: 'date', message: `Invalid or out of range date: ${fields.date || '(empty)'}` });
+      return undefined;
+    }
+
+    const count = fields.count === '' ? 1 : parseCount(fields.count);
+    if (count === undefined) {
+      errors.push({ row, field: 'count', message: `Count must be a non-negative number, got ${fields.count}` });
+      return undefined;
+    }
+
+    let location: Location | undefined;
+    if (fields.latitude !== '' || fields.longitude !== '') {
+      const latitude = Number(fields.latitude);
+      const longitude = Number(fields.longitude);
+      if (fields.latitude === '' || fields.longitude === '' || isNaN(latitude) || isNaN(longitude)) {
+        errors.push({ row, field: 'latitude', message: 'Latitude and longitude must both be numbers' });
+        return undefined;
+      }
+      location = { latitude, longitude };
+    } else if (fields.precinct !== '') {
+      location = this.geocodePrecinct(fields.precinct);
+      if (!location) {
+        errors.push({ row, field: 'precinct', message: `Unknown precinct: ${fields.precinct}` });
+        return undefined;
+      }
+    } else {
+      errors.push({ row, field: 'latitude', message: 'Row needs coordinates or a precinct' });
+      return undefined;
+    }
+
+    if (!this.locationService.isWithinCapeTownBounds(location.latitude, location.longitude)) {
+      errors.push({ row, field: 'latitude', message: 'Location is outside Cape Town metropolitan area' });
+      return undefined;
+    }
+
+    return {
+      row,
+      category,
+      count,
+      location,
+      area: fields.area || fields.precinct || undefined,
+      occurredAt: occurred.date,
+      hasTime: occurred.hasTime
+    };
+  }
+
+  /**
+   * One record per grid cell covering the whole import period, at the incidents' centre
+   */
+  private buildCellRecords(counts: ImportedCount[], format: ImportFormat, now: Date): CrimeData[] {
+    if (counts.length === 0) return [];
+
+    const times = getTimeBounds(counts.map(count => count.occurredAt!.getTime()));
+    const period: DateRange = { start: startOfDay(new Date(times.min)), end: endOfDay(new Date(times.max)) };
+    const cells = new Map<string, ImportedCount[]>();
+    for (const count of counts) {
+      const gridCell = gridService.pointToCell(count.location.latitude, count.location.longitude);
+      if (!cells.has(gridCell)) {
+        cells.set(gridCell, []);
+      }
+      cells.get(gridCell)!.push(count);
+    }
+
+    return Array.from(cells.entries()).map(([gridCell, entries]) => {
+      const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+      const weight = (entry: ImportedCount) => (total > 0 ? entry.count / total : 1 / entries.length);
+      const location: Location = {
+        latitude: roundCoordinate(entries.reduce((sum, entry) => sum + entry.location.latitude * weight(entry), 0)),
+        longitude: roundCoordinate(entries.reduce((sum, entry) => sum + entry.location.longitude * weight(entry), 0))
+      };
+      location.neighborhood = mostCommon(entries.map(entry => entry.area)) ||
+        this.locationService.findNearestNeighborhood(location.latitude, location.longitude);
+
+      return this.buildRecord(`open_${gridCell}_${formatDay(period.start)}_${formatDay(period.end)}`,
+        gridCell, location, period, entries, format, OPEN_DATA_CONFIDENCE, now);
+    });
+  }
+
+  /**
+   * One record per precinct and financial year, at the precinct centre
+   */
+  private buildPrecinctRecords(counts: ImportedCount[], now: Date): CrimeData[] {
+    const groups = new Map<string, ImportedCount[]>();
+    for (const count of counts) {
+      const key = `${createSlug(count.area!)}_${count.period!.start.getFullYear()}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(count);
+    }
+
+    return Array.from(groups.entries()).map(([key, entries]) => {
+      const { location, period } = entries[0];
+      const gridCell = gridService.pointToCell(location.latitude, location.longitude);
+      return this.buildRecord(`saps_${key}`, gridCell, { ...location }, period!, entries, 'saps', SAPS_CONFIDENCE, now);
+    });
+  }
+
+  private buildRecord(
+    id: string,
+    gridCell: string,
+    location: Location,
+    period: DateRange,
+    entries: ImportedCount[],
+    format: ImportFormat,
+    confidence: number,
+    now: Date
+  ): CrimeData {
+    const crimeStats = this.buildStatistics(entries, confidence);
+    const years = Math.max(1, (period.end.getTime() - period.start.getTime()) / DAY_MS) / 365;
+    const annualWeight = crimeStats.reduce((sum, stat) => sum + stat.incidentCount * stat.severity / 10, 0) / years;
+    const context = this.crimeDataService.findNearestDatasetArea(location);
+
+    return {
+      id,
+      location,
+      gridCell,
+      timeframe: period,
+      crimeStats,
+      riskLevel: annualWeight >= ANNUAL_RISK_THRESHOLDS.critical ? 'critical'
+        : annualWeight >= ANNUAL_RISK_THRESHOLDS.high ? 'high'
+        : annualWeight >= ANNUAL_RISK_THRESHOLDS.medium ? 'medium'
+        : 'low',
+      populationDensity: context?.populationDensity ?? 0,
+      economicIndicators: context?.economicIndicators ?? {
+        averageIncome: 0, unemploymentRate: 0, businessDensity: 0, lightingInfrastructure: 0
+      },
+      lastUpdated: now,
+      dataSource: 'saps',
+      importFormat: format
+    };
+  }
+
+  /**
+   * One statistic per crime type and subtype; hourly patterns come from incident times where known
+   */
+  private buildStatistics(entries: ImportedCount[], confidence: number): CrimeStatistic[] {
+    const groups = new Map<string, ImportedCount[]>();
+    for (const entry of entries) {
+      const key = `${entry.category.type}:${entry.category.subtype}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(entry);
+    }
+
+    return Array.from(groups.values()).map(group => {
+      const { type, subtype } = group[0].category;
+      const incidentCount = group.reduce((sum, entry) => sum + entry.count, 0);
+      const timed = group.filter(entry => entry.hasTime && entry.count > 0);
+
+      let timePattern: HourlyPattern = crimeDataGenerator.getDefaultHourlyPattern(type);
+      if (timed.length > 0) {
+        const hours = new Array(24).fill(0);
+        timed.forEach(entry => { hours[entry.occurredAt!.getHours()] += entry.count; });
+        const timedTotal = hours.reduce((sum, value) => sum + value, 0);
+        timePattern = {};
+        hours.forEach((value, hour) => {
+          timePattern[hour.toString()] = parseFloat((value / timedTotal).toFixed(4));
+        });
+      }
+
+      return {
+        type,
+        subtype,
+        incidentCount,
+        severity: incidentCount > 0
+          ? Math.round(group.reduce((sum, entry) => sum + entry.category.severity * entry.count, 0) / incidentCount)
+          : group[0].category.severity,
+        timePattern,
+        confidence
+      };
+    });
+  }
+
+  private findColumns(header: string[]): Partial<Record<ColumnName, number>> {
+    const names = header.map(normalizeName);
+    const columns: Partial<Record<ColumnName, number>> = {};
+    (Object.keys(COLUMN_ALIASES) as ColumnName[]).forEach(column => {
+      const index = names.findIndex(name => COLUMN_ALIASES[column].includes(name));
+      if (index >= 0) columns[column] = index;
+    });
+    return columns;
+  }
+
+  /**
+   * [longitude, latitude] of a point or polygon centroid (vertex average of the outer ring);
+   * undefined without geometry, null for unsupported geometry
+   */
+  private getFeaturePosition(geometry: unknown): [number, number] | null | undefined {
+    if (!geometry) return undefined;
+    if (!isRecord(geometry)) return null;
+
+    const { coordinates } = geometry;
+    let ring: unknown;
+    switch (geometry.type) {
+      case 'Point':
+        return isPosition(coordinates) ? coordinates : null;
+      case 'Polygon':
+        ring = Array.isArray(coordinates) ? coordinates[0] : undefined;
+        break;
+      case 'MultiPolygon':
+        ring = Array.isArray(coordinates) && Array.isArray(coordinates[0]) ? coordinates[0][0] : undefined;
+        break;
+      default:
+        return null;
+    }
+
+    if (!Array.isArray(ring) || ring.length === 0 || !ring.every(isPosition)) return null;
+    const vertices = ring.length > 1 ? ring.slice(0, -1) : ring; // the last vertex repeats the first
+    return [
+      vertices.reduce((sum, position) => sum + position[0], 0) / vertices.length,
+      vertices.reduce((sum, position) => sum + position[1], 0) / vertices.length
+    ];
+  }
+}
+
+/**
+ * Rows of comma-separated fields; fields may be quoted, with "" for a quote
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Date (local time) from YYYY-MM-DD or DD/MM/YYYY, with an optional time in the value or a separate field;
+ * ISO timestamps with a zone are taken as given
+ */
+function parseDate(value: string, time: string = ''): { date: Date; hasTime: boolean } | undefined {
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : { date, hasTime: true };
+  }
+
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/.exec(value) ||
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: (\d{1,2}):(\d{2})(?::\d{2})?)?$/.exec(value);
+  if (!match) return undefined;
+
+  const [year, month, day] = match[1].length === 4
+    ? [match[1], match[2], match[3]].map(Number)
+    : [match[3], match[2], match[1]].map(Number);
+  const timeMatch = match[4] !== undefined ? [match[4], match[5]] : /^(\d{1,2}):(\d{2})/.exec(time)?.slice(1, 3);
+  const [hours, minutes] = timeMatch ? timeMatch.map(Number) : [0, 0];
+
+  const date = new Date(year, month - 1, day, hours, minutes);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day || hours > 23 || minutes > 59) return undefined;
+  return { date, hasTime: !!timeMatch };
+}
+
+function parseCount(value: string): number | undefined {
+  const count = Number(value.replace(/[\s,]/g, ''));
+  return Number.isFinite(count) && count >= 0 ? count : undefined;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function createSlug(name: string): string {
+  return normalizeName(name).replace(/ /g, '_');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPosition(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length >= 2 && typeof value[0] === 'number' && typeof value[1] === 'number';
+}
+
+// Earliest and latest of any number of times (spreading large arrays into Math.min overflows the stack)
+function getTimeBounds(times: number[]): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const time of times) {
+    if (time < min) min = time;
+    if (time > max) max = time;
+  }
+  return { min, max };
+}
+
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(value => { if (value) counts.set(value, (counts.get(value) || 0) + 1); });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function roundCoordinate(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
+
+// Export singleton instance
+export const crimeImportService = new CrimeImportService();
@@ -0,0 +1,135 @@
+// Departure Time Optimisation Service
+// Scores a journey at regular departure times across a window and ranks them by safety and duration
+// Backs "leave at 17:10 instead of 18:30" recommendations
+
+import { DepartureOption, DepartureTimeRequest, Route, RouteOptimization } from '../types';
+import { RoutingService, routingService } from './routingService';
+import { SafetyScoringService } from './safetyScoringService';
+
+export const DEFAULT_DEPARTURE_INTERVAL_MINUTES = 15;
+export const MAX_DEPARTURE_SAMPLES = 96;
+
+export interface DepartureTimeResult {
+  departures: DepartureOption[]; // best first
+  routes: Route[]; // the scored route for each departure
+  recommendation: string;
+}
+
+export class DepartureTimeService {
+  private routingService: RoutingService;
+  private safetyScoringService: SafetyScoringService;
+
+  constructor(routing: RoutingService = routingService) {
+    this.routingService = routing;
+    this.safetyScoringService = new SafetyScoringService();
+  }
+
+  /**
+   * Candidate departure times from the window start to its end, inclusive
+   */
+  public getDepartureTimes(request: DepartureTimeRequest): Date[] {
+    const start = new Date(request.window.start).getTime();
+    const end = new Date(request.window.end).getTime();
+    const interval = (request.intervalMinutes || DEFAULT_DEPARTURE_INTERVAL_MINUTES) * 60 * 1000;
+
+    const times: Date[] = [];
+    for (let time = start; time <= end && times.length < MAX_DEPARTURE_SAMPLES; time += interval) {
+      times.push(new Date(time));
+    }
+    return times;
+  }
+
+  /**
+   * Route and score the journey at each candidate departure time
+   * Each departure uses the route for the requested optimisation profile at that time,
+   * so time-of-day risk and transit timetables shape both the path and its score.
+   * @param request Journey, time window and sampling interval
+   * @returns Ranked departure options with their routes and a recommendation
+   */
+  public async optimizeDepartureTime(request: DepartureTimeRequest): Promise<DepartureTimeResult> {
+    const optimizeFor: RouteOptimization = request.options?.optimizeFor || 'balanced';
+    const samples: Array<{ departure: Date; route: Route }> = [];
+
+    for (const departure of this.getDepartureTimes(request)) {
+      const timeContext = { currentTime: departure.toISOString() };
+      const { routes } = await this.routingService.generateRouteAlternatives({
+        origin: request.origin,
+        destination: request.destination,
+        waypoints: request.waypoints,
+        preferences: request.preferences,
+        options: { ...request.options, maxRoutes: 1, departureTime: timeContext.currentTime }
+      }, timeContext);
+
+      const route = routes.find(r => r.optimizedFor?.includes(optimizeFor)) || routes[0];
+      if (!route) continue;
+
+      samples.push({ departure, route: await this.safetyScoringService.calculateRouteSafety(route, timeContext, request.options?.modelVersion) });
+    }
+
+    if (samples.length === 0) {
+      return { departures: [], routes: [], recommendation: 'No route was found for any departure time in this window.' };
+    }
+
+    // Same weighting as route ranking: safety priority against relative journey time
+    const safetyWeight = (request.preferences?.safetyPriority || 50) / 100;
+    const maxDuration = Math.max(...samples.map(sample => sample.route.estimatedDuration));
+
+    const options = samples.map(({ departure, route }) => ({
+      departureTime: departure.toISOString(),
+      arrivalTime: new Date(departure.getTime() + route.estimatedDuration * 1000).toISOString(),
+      estimatedDuration: route.estimatedDuration,
+      safetyScore: route.safetyScore.overall,
+      score: Math.round(
+        route.safetyScore.overall * safetyWeight +
+        (1 - route.estimatedDuration / maxDuration) * (1 - safetyWeight) * 100
+      ),
+      routeId: route.id,
+      travelMode: route.travelMode
+    }));
+
+    const ranked = [...options]
+      .sort((a, b) => b.score - a.score || b.safetyScore - a.safetyScore || a.departureTime.localeCompare(b.departureTime))
+      .map((option, index) => ({ ...option, rank: index + 1 }));
+
+    const baseline = this.findBaseline(ranked, request.preferredDepartureTime || request.window.start);
+
+    return {
+      departures: ranked,
+      routes: samples.map(sample => sample.route),
+      recommendation: this.generateRecommendation(ranked[0], baseline)
+    };
+  }
+
+  /**
+   * The sampled departure closest to the time the user would otherwise leave
+   */
+  private findBaseline(options: DepartureOption[], preferredTime: string): DepartureOption {
+    const preferred = new Date(preferredTime).getTime();
+    return options.reduce((closest, option) =>
+      Math.abs(new Date(option.departureTime).getTime() - preferred) < Math.abs(new Date(closest.departureTime).getTime() - preferred)
+        ? option
+        : closest
+    );
+  }
+
+  private generateRecommendation(best: DepartureOption, baseline: DepartureOption): string {
+    const minutes = (seconds: number) => Math.round(seconds / 60);
+
+    // Ties go to the time the user already had in mind
+    if (baseline.score >= best.score) {
+      return `Leaving at ${this.formatTime(baseline.departureTime)} is already the best option in this window ` +
+        `(safety score ${baseline.safetyScore}, about ${minutes(baseline.estimatedDuration)} min).`;
+    }
+
+    return `Leave at ${this.formatTime(best.departureTime)} instead of ${this.formatTime(baseline.departureTime)}: ` +
+      `safety score ${best.safetyScore} vs ${baseline.safetyScore}, ` +
+      `journey about ${minutes(best.estimatedDuration)} min vs ${minutes(baseline.estimatedDuration)} min.`;
+  }
+
+  private formatTime(isoTime: string): string {
+    return new Date(isoTime).toTimeString().slice(0, 5);
+  }
+}
+
+// Export singleton instance
+export const departureTimeService = new DepartureTimeService();
@@ -0,0 +1,323 @@
+// Geofenced Alert Subscriptions
+// Users save places (home, work, a school) as circles or polygons; on an interval the current alerts
+// around each place are checked against its geofence and new ones are delivered through the notifier,
+// once per user, place and alert, to users whose NotificationPrefs.safetyAlerts is on
+
+import { AlertNotification, AlertSeverity, Geofence, GeoJSONPolygon, Location, SafetyAlert, SavedPlace, User } from '../types';
+import { AlertService, alertService as defaultAlertService } from './alertService';
+import { AvoidAreaService } from './avoidAreaService';
+import { SEVERITY_RANK } from './alertStreamService';
+import { getUserLock, Storage, storage as defaultStorage } from '../storage';
+import { Notifier, notifier as defaultNotifier } from '../notifications';
+import { v4 as uuidv4 } from 'uuid';
+import { calculateDistance } from './locationService';
+
+export type SavedPlaceInput = Pick<SavedPlace, 'name' | 'geofence' | 'minSeverity'>;
+
+export class GeofenceError extends Error {
+  constructor(
+    public code: 'USER_NOT_FOUND' | 'PLACE_NOT_FOUND' | 'TOO_MANY_PLACES' | 'SESSION_REQUIRED' | 'FORBIDDEN',
+    message: string
+  ) {
+    super(message);
+    this.name = 'GeofenceError';
+  }
+}
+
+export const MAX_SAVED_PLACES = 10;
+export const MAX_GEOFENCE_RADIUS = 10000; // meters
+const MAX_PLACE_NAME_LENGTH = 60;
+const CHECK_INTERVAL = Number(process.env.GEOFENCE_CHECK_INTERVAL) * 1000 || 5 * 60 * 1000; // ms
+const USER_PAGE_SIZE = 100;
+
+// Users who first save a place through the API get these preferences
+const DEFAULT_PREFERENCES: User['preferences'] = {
+  safetyPriority: 70,
+  riskTolerance: 'medium',
+  avoidAreas: [],
+  preferredTravelModes: ['walking', 'driving'],
+  notificationSettings: { safetyAlerts: true, routeUpdates: true, arrivalNotifications: false, emergencyContacts: [] },
+  accessibilityNeeds: []
+};
+
+export class GeofenceService {
+  private storage: Storage;
+  private alertService: AlertService;
+  private notifier: Notifier;
+  private checkInterval: number;
+  private avoidAreaService: AvoidAreaService;
+  private timer?: NodeJS.Timeout;
+  private checking?: Promise<AlertNotification[]>;
+
+  constructor(
+    store: Storage = defaultStorage,
+    service: AlertService = defaultAlertService,
+    notifier: Notifier = defaultNotifier,
+    checkInterval: number = CHECK_INTERVAL
+  ) {
+    this.storage = store;
+    this.alertService = service;
+    this.notifier = notifier;
+    this.checkInterval = checkInterval;
+    this.avoidAreaService = new AvoidAreaService();
+  }
+
+  /**
+   * Save a place for a user, creating the user with default preferences and a new session if needed
+   * Existing users must present their session.
+   * @returns The place, and the session to present on the user's later requests
+   */
+  public savePlace(userId: string, input: SavedPlaceInput, sessionId?: string): Promise<{ place: SavedPlace; sessionId: string }> {
+    return this.withUserLock(userId, async () => {
+      const now = new Date();
+      const existing = await this.storage.users.get(userId);
+      if (existing) {
+        this.authorize(existing, sessionId);
+      }
+      const user = existing || this.createUser(userId, input.geofence, now);
+      const places = user.savedPlaces || [];
+
+      if (places.length >= MAX_SAVED_PLACES) {
+        throw new GeofenceError('TOO_MANY_PLACES', `A user can save at most ${MAX_SAVED_PLACES} places`);
+      }
+
+      const place: SavedPlace = { id: uuidv4(), ...input, createdAt: now };
+      await this.storage.users.put(userId, { ...user, savedPlaces: [...places, place], lastActive: now });
+
+      return { place, sessionId: user.sessionId };
+    });
+  }
+
+  public async getPlaces(userId: string, sessionId: string | undefined): Promise<SavedPlace[]> {
+    return (await this.getUser(userId, sessionId)).savedPlaces || [];
+  }
+
+  public removePlace(userId: string, placeId: string, sessionId: string | undefined): Promise<void> {
+    return this.withUserLock(userId, async () => {
+      const user = await this.getUser(userId, sessionId);
+      const places = user.savedPlaces || [];
+
+      if (!places.some(place => place.id === placeId)) {
+        throw new GeofenceError('PLACE_NOT_FOUND', `Saved place ${placeId} not found`);
+      }
+
+      await this.storage.users.put(userId, { ...user, savedPlaces: places.filter(place => place.id !== placeId) });
+    });
+  }
+
+  /**
+   * Notifications delivered to a user, newest first
+   */
+  public async getNotifications(userId: string, sessionId: string | undefined, limit?: number, offset?: number): Promise<AlertNotification[]> {
+    await this.getUser(userId, sessionId);
+    return this.storage.notifications.findBy('userId', userId, { limit, offset });
+  }
+
+  /**
+   * Check every user's saved places and deliver new matching alerts
+   * Overlapping calls share the check already in progress.
+   * @returns Notifications delivered by this check
+   */
+  public checkAll(now: Date = new Date()): Promise<AlertNotification[]> {
+    if (!this.checking) {
+      this.checking = this.runCheck(now).finally(() => {
+        this.checking = undefined;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Check one user's saved places and deliver new matching alerts
+   */
+  public async checkUser(user: User, now: Date = new Date()): Promise<AlertNotification[]> {
+    if (!user.preferences.notificationSettings.safetyAlerts) {
+      return [];
+    }
+
+    const delivered: AlertNotification[] = [];
+
+    for (const place of user.savedPlaces || []) {
+      for (const alert of await this.getPlaceAlerts(place, now)) {
+        const id = `${user.id}_${place.id}_${alert.id}`;
+        if (await this.storage.notifications.get(id)) continue;
+
+        const notification: AlertNotification = {
+          id,
+          userId: user.id,
+          placeId: place.id,
+          placeName: place.name,
+          alert,
+          channel: this.notifier.channel,
+          deliveredAt: now
+        };
+
+        try {
+          await this.notifier.notify(notification, user);
+        } catch (error) {
+          // Not recorded, so the next check retries it
+          console.error(`Alert notification to ${user.id} failed:`, error);
+          continue;
+        }
+
+        await this.storage.notifications.put(id, notification);
+        delivered.push(notification);
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Current alerts inside a place's geofence at or above its minimum severity
+   */
+  public async getPlaceAlerts(place: SavedPlace, now: Date = new Date()): Promise<SafetyAlert[]> {
+    const { center, radius } = this.getBoundingCircle(place.geofence);
+    const alerts = await this.alertService.getActiveAlerts(center, radius, now);
+
+    return alerts.filter(alert =>
+      SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[place.minSeverity] &&
+      this.contains(place.geofence, alert.location)
+    );
+  }
+
+  public contains(geofence: Geofence, location: Location): boolean {
+    if (geofence.type === 'circle') {
+      return calculateDistance(geofence.center, location) <= geofence.radius;
+    }
+    const test = this.avoidAreaService.createPolygonTest(geofence.polygon);
+    return !!test && test(location.latitude, location.longitude);
+  }
+
+  /**
+   * Validate a saved place from a request body
+   * @returns The place, or an error message describing the invalid field
+   */
+  public parsePlace(params: { name?: unknown; geofence?: unknown; minSeverity?: unknown }): { place: SavedPlaceInput } | { error: string } {
+    const name = typeof params.name === 'string' ? params.name.trim() : '';
+    if (!name || name.length > MAX_PLACE_NAME_LENGTH) {
+      return { error: `name must be a non-empty string of at most ${MAX_PLACE_NAME_LENGTH} characters` };
+    }
+
+    const minSeverity = (params.minSeverity || 'info') as AlertSeverity;
+    if (!Object.keys(SEVERITY_RANK).includes(minSeverity)) {
+      return { error: `minSeverity must be one of: ${Object.keys(SEVERITY_RANK).join(', ')}` };
+    }
+
+    const geofence = params.geofence as Geofence | undefined;
+    if (geofence?.type === 'circle') {
+      const { center, radius } = geofence;
+      if (typeof center?.latitude !== 'number' || typeof center?.longitude !== 'number') {
+        return { error: 'Circle geofences need a center with latitude and longitude' };
+      }
+      if (typeof radius !== 'number' || radius <= 0 || radius > MAX_GEOFENCE_RADIUS) {
+        return { error: `Circle radius must be between 1 and ${MAX_GEOFENCE_RADIUS} meters` };
+      }
+      return { place: { name, minSeverity, geofence: { type: 'circle', center: { latitude: center.latitude, longitude: center.longitude }, radius } } };
+    }
+
+    if (geofence?.type === 'polygon') {
+      if (!this.avoidAreaService.createPolygonTest(geofence.polygon)) {
+        return { error: 'polygon must be a GeoJSON Polygon or MultiPolygon of [longitude, latitude] rings' };
+      }
+      if (this.getBoundingCircle(geofence).radius > MAX_GEOFENCE_RADIUS) {
+        return { error: `Polygon geofences must fit within ${MAX_GEOFENCE_RADIUS} meters of their center` };
+      }
+      return { place: { name, minSeverity, geofence: { type: 'polygon', polygon: geofence.polygon } } };
+    }
+
+    return { error: 'geofence.type must be "circle" or "polygon"' };
+  }
+
+  /**
+   * Center and radius (meters) enclosing a geofence, used to query alerts around it
+   */
+  public getBoundingCircle(geofence: Geofence): { center: Location; radius: number } {
+    if (geofence.type === 'circle') {
+      return { center: geofence.center, radius: geofence.radius };
+    }
+
+    const vertices = this.getVertices(geofence.polygon);
+    const center: Location = {
+      latitude: vertices.reduce((sum, [, latitude]) => sum + latitude, 0) / vertices.length,
+      longitude: vertices.reduce((sum, [longitude]) => sum + longitude, 0) / vertices.length
+    };
+    const radius = Math.max(...vertices.map(([longitude, latitude]) => calculateDistance(center, { latitude, longitude })));
+
+    return { center, radius };
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkAll().catch(error => console.error('Geofence check failed:', error));
+    }, this.checkInterval);
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async runCheck(now: Date): Promise<AlertNotification[]> {
+    const delivered: AlertNotification[] = [];
+
+    for (let offset = 0; ; offset += USER_PAGE_SIZE) {
+      const users = await this.storage.users.list({ limit: USER_PAGE_SIZE, offset });
+      for (const user of users) {
+        delivered.push(...await this.checkUser(user, now));
+      }
+      if (users.length < USER_PAGE_SIZE) break;
+    }
+
+    return delivered;
+  }
+
+  private async getUser(userId: string, sessionId: string | undefined): Promise<User> {
+    const user = await this.storage.users.get(userId);
+    if (!user) {
+      throw new GeofenceError('USER_NOT_FOUND', `User ${userId} not found`);
+    }
+    this.authorize(user, sessionId);
+    return user;
+  }
+
+  // Saved places and notifications reveal where a user lives and works: only their own session may see them
+  private authorize(user: User, sessionId: string | undefined): void {
+    if (!sessionId) {
+      throw new GeofenceError('SESSION_REQUIRED', 'A session is required to access saved places');
+    }
+    if (sessionId !== user.sessionId) {
+      throw new GeofenceError('FORBIDDEN', `Session does not belong to user ${user.id}`);
+    }
+  }
+
+  // Run a user's read-modify-write updates one at a time, so concurrent saves can't overwrite each other
+  private withUserLock<T>(userId: string, update: () => Promise<T>): Promise<T> {
+    return getUserLock(this.storage).run(userId, update);
+  }
+
+  private createUser(userId: string, geofence: Geofence, now: Date): User {
+    return {
+      id: userId,
+      sessionId: uuidv4(),
+      preferences: structuredClone(DEFAULT_PREFERENCES),
+      usageHistory: [],
+      location: this.getBoundingCircle(geofence).center,
+      createdAt: now,
+      lastActive: now
+    };
+  }
+
+  // Outer ring vertices of every polygon, as [longitude, latitude], without each ring's closing point
+  private getVertices(polygon: GeoJSONPolygon): number[][] {
+    const polygons = polygon.type === 'Polygon'
+      ? [polygon.coordinates as number[][][]]
+      : polygon.coordinates as number[][][][];
+    return polygons.flatMap(([outer]) => outer.slice(0, -1));
+  }
+}
+
+// Export singleton instance
+export const geofenceService = new GeofenceService();
@@ -0,0 +1,295 @@
+// Spatial Grid Service
+// The one grid every service uses to bucket locations: hierarchical hexagonal cells over the Cape Town
+// metro. Cells are hexagons on a local planar projection; each resolution's cells are √7 times smaller
+// than the one above and rotated so that every cell has exactly seven children (aperture 7, as in H3).
+// Children cover their parent approximately, so a point's parent cell is found from its own cell.
+//
+// Cell IDs are HX{resolution}_{q}_{r}, with q and r the cell's axial coordinates at that resolution.
+
+import { GeoJSONPolygon, Location } from '../types';
+
+export class GridError extends Error {
+  constructor(
+    public code: 'INVALID_CELL' | 'INVALID_RESOLUTION',
+    message: string
+  ) {
+    super(message);
+    this.name = 'GridError';
+  }
+}
+
+export const MIN_GRID_RESOLUTION = 0;
+export const MAX_GRID_RESOLUTION = 10;
+export const DEFAULT_GRID_RESOLUTION = 6; // 1 km between cell centres, about 0.87 km² per cell
+const MAX_CHILD_LEVELS = 4; // 2401 descendants
+
+const GRID_ORIGIN = { latitude: -34.0, longitude: 18.5 }; // projection centre, inside the metro
+const BASE_SPACING = 343000; // meters between resolution 0 cell centres; each resolution divides by √7
+const METERS_PER_DEGREE_LATITUDE = 110574;
+const METERS_PER_DEGREE_LONGITUDE = 111320 * Math.cos(GRID_ORIGIN.latitude * Math.PI / 180);
+const CELL_ID_PATTERN = /^HX(\d{1,2})_(-?\d+)_(-?\d+)$/;
+
+// Axial neighbour offsets, counterclockwise from east
+const NEIGHBOR_OFFSETS: Array<[number, number]> = [[1, 0], [0, 1], [-1, 1], [-1, 0], [0, -1], [1, -1]];
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+interface Cell {
+  resolution: number;
+  q: number;
+  r: number;
+}
+
+// Axial basis: q steps along 1, r along w = e^(iπ/3)
+const W: Complex = { re: 0.5, im: Math.sqrt(3) / 2 };
+// Each resolution's lattice is the one above divided by α = 2 + w (|α| = √7)
+const ALPHA: Complex = { re: 2.5, im: Math.sqrt(3) / 2 };
+
+export class GridService {
+  private scales: Complex[] = [];
+
+  constructor() {
+    // α^resolution for every resolution
+    let scale: Complex = { re: 1, im: 0 };
+    for (let resolution = MIN_GRID_RESOLUTION; resolution <= MAX_GRID_RESOLUTION; resolution++) {
+      this.scales.push(scale);
+      scale = this.multiply(scale, ALPHA);
+    }
+  }
+
+  /**
+   * Cell containing a point
+   */
+  public pointToCell(latitude: number, longitude: number, resolution: number = DEFAULT_GRID_RESOLUTION): string {
+    this.checkResolution(resolution);
+    const point = this.project(latitude, longitude);
+    const u = this.multiply({ re: point.re / BASE_SPACING, im: point.im / BASE_SPACING }, this.scales[resolution]);
+    return this.formatCell({ resolution, ...this.roundAxial(u) });
+  }
+
+  public cellToCenter(cellId: string): Location {
+    const cell = this.parseCell(cellId);
+    return this.axialToLocation(cell.resolution, this.axialToComplex(cell.q, cell.r));
+  }
+
+  /**
+   * Corners of a cell, counterclockwise
+   */
+  public cellToBoundary(cellId: string): Location[] {
+    const cell = this.parseCell(cellId);
+    const center = this.axialToComplex(cell.q, cell.r);
+
+    return Array.from({ length: 6 }, (_, corner) => {
+      const angle = Math.PI / 6 + corner * Math.PI / 3;
+      return this.axialToLocation(cell.resolution, {
+        re: center.re + Math.cos(angle) / Math.sqrt(3),
+        im: center.im + Math.sin(angle) / Math.sqrt(3)
+      });
+    });
+  }
+
+  /**
+   * Cell boundary as a closed GeoJSON polygon ring
+   */
+  public cellToPolygon(cellId: string): GeoJSONPolygon {
+    const ring = this.cellToBoundary(cellId).map(corner => [corner.longitude, corner.latitude]);
+    return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+  }
+
+  /**
+   * Cells within k steps of a cell, including the cell itself, nearest first
+   */
+  public kRing(cellId: string, k: number): string[] {
+    if (!Number.isInteger(k) || k < 0) {
+      throw new GridError('INVALID_RESOLUTION', `k must be a non-negative integer, got ${k}`);
+    }
+
+    const cell = this.parseCell(cellId);
+    const cells: Array<{ id: string; distance: number }> = [];
+    for (let dq = -k; dq <= k; dq++) {
+      for (let dr = Math.max(-k, -dq - k); dr <= Math.min(k, -dq + k); dr++) {
+        cells.push({
+          id: this.formatCell({ resolution: cell.resolution, q: cell.q + dq, r: cell.r + dr }),
+          distance: this.axialDistance(dq, dr)
+        });
+      }
+    }
+
+    return cells.sort((a, b) => a.distance - b.distance).map(({ id }) => id);
+  }
+
+  /**
+   * Steps between two cells of the same resolution
+   */
+  public gridDistance(fromCellId: string, toCellId: string): number {
+    const from = this.parseCell(fromCellId);
+    const to = this.parseCell(toCellId);
+    if (from.resolution !== to.resolution) {
+      throw new GridError('INVALID_RESOLUTION', `Cells ${fromCellId} and ${toCellId} have different resolutions`);
+    }
+    return this.axialDistance(to.q - from.q, to.r - from.r);
+  }
+
+  /**
+   * Ancestor of a cell at a coarser resolution (the one directly above by default)
+   */
+  public cellToParent(cellId: string, resolution?: number): string {
+    let cell = this.parseCell(cellId);
+    const target = resolution ?? cell.resolution - 1;
+    this.checkResolution(target);
+    if (target > cell.resolution) {
+      throw new GridError('INVALID_RESOLUTION', `Resolution ${target} is finer than cell ${cellId}`);
+    }
+
+    while (cell.resolution > target) {
+      // Each coarser lattice point U sits at U·α in the finer lattice
+      const u = this.divide(this.axialToComplex(cell.q, cell.r), ALPHA);
+      cell = { resolution: cell.resolution - 1, ...this.roundAxial(u) };
+    }
+    return this.formatCell(cell);
+  }
+
+  /**
+   * Descendants of a cell at a finer resolution (its seven children by default)
+   */
+  public cellToChildren(cellId: string, resolution?: number): string[] {
+    const cell = this.parseCell(cellId);
+    const target = resolution ?? cell.resolution + 1;
+    this.checkResolution(target);
+    if (target < cell.resolution || target - cell.resolution > MAX_CHILD_LEVELS) {
+      throw new GridError(
+        'INVALID_RESOLUTION',
+        `Children must be from 0 to ${MAX_CHILD_LEVELS} resolutions finer than cell ${cellId}`
+      );
+    }
+
+    let cells: Cell[] = [cell];
+    for (let level = cell.resolution; level < target; level++) {
+      cells = cells.flatMap(({ q, r }) => {
+        // Centre child of (q, r) is (q + r·w)·(2 + w) = (2q - r) + (q + 3r)·w
+        const q0 = 2 * q - r;
+        const r0 = q + 3 * r;
+        return [[0, 0], ...NEIGHBOR_OFFSETS].map(([dq, dr]) => ({ resolution: level + 1, q: q0 + dq, r: r0 + dr }));
+      });
+    }
+    return cells.map(child => this.formatCell(child));
+  }
+
+  public getResolution(cellId: string): number {
+    return this.parseCell(cellId).resolution;
+  }
+
+  public isValidCell(cellId: string): boolean {
+    const match = CELL_ID_PATTERN.exec(cellId);
+    if (!match) return false;
+    const resolution = parseInt(match[1], 10);
+    return resolution >= MIN_GRID_RESOLUTION && resolution <= MAX_GRID_RESOLUTION;
+  }
+
+  /**
+   * Meters between neighbouring cell centres at a resolution
+   */
+  public getCellSpacing(resolution: number = DEFAULT_GRID_RESOLUTION): number {
+    this.checkResolution(resolution);
+    return BASE_SPACING / Math.pow(Math.sqrt(7), resolution);
+  }
+
+  /**
+   * Area of one cell in square meters
+   */
+  public getCellArea(resolution: number = DEFAULT_GRID_RESOLUTION): number {
+    const spacing = this.getCellSpacing(resolution);
+    return spacing * spacing * Math.sqrt(3) / 2;
+  }
+
+  private parseCell(cellId: string): Cell {
+    const match = CELL_ID_PATTERN.exec(cellId);
+    const resolution = match ? parseInt(match[1], 10) : NaN;
+    if (!match || resolution < MIN_GRID_RESOLUTION || resolution > MAX_GRID_RESOLUTION) {
+      throw new GridError('INVALID_CELL', `Invalid grid cell ID: ${cellId}`);
+    }
+    return { resolution, q: parseInt(match[2], 10), r: parseInt(match[3], 10) };
+  }
+
+  private formatCell(cell: Cell): string {
+    // Avoid "-0" in IDs
+    return `HX${cell.resolution}_${cell.q + 0}_${cell.r + 0}`;
+  }
+
+  private checkResolution(resolution: number): void {
+    if (!Number.isInteger(resolution) || resolution < MIN_GRID_RESOLUTION || resolution > MAX_GRID_RESOLUTION) {
+      throw new GridError(
+        'INVALID_RESOLUTION',
+        `Resolution must be an integer from ${MIN_GRID_RESOLUTION} to ${MAX_GRID_RESOLUTION}, got ${resolution}`
+      );
+    }
+  }
+
+  /**
+   * Nearest lattice point to fractional axial coordinates (cube rounding)
+   */
+  private roundAxial(u: Complex): { q: number; r: number } {
+    const r = u.im / W.im;
+    const q = u.re - r * W.re;
+    const s = -q - r;
+
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(s);
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs - s);
+
+    if (dq > dr && dq > ds) {
+      rq = -rr - rs;
+    } else if (dr > ds) {
+      rr = -rq - rs;
+    }
+    return { q: rq, r: rr };
+  }
+
+  private axialDistance(dq: number, dr: number): number {
+    return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+  }
+
+  private axialToComplex(q: number, r: number): Complex {
+    return { re: q + r * W.re, im: r * W.im };
+  }
+
+  private axialToLocation(resolution: number, u: Complex): Location {
+    const point = this.divide(u, this.scales[resolution]);
+    return this.unproject({ re: point.re * BASE_SPACING, im: point.im * BASE_SPACING });
+  }
+
+  /**
+   * Local equirectangular projection around the grid origin, in meters (east, north)
+   */
+  private project(latitude: number, longitude: number): Complex {
+    return {
+      re: (longitude - GRID_ORIGIN.longitude) * METERS_PER_DEGREE_LONGITUDE,
+      im: (latitude - GRID_ORIGIN.latitude) * METERS_PER_DEGREE_LATITUDE
+    };
+  }
+
+  private unproject(point: Complex): Location {
+    return {
+      latitude: GRID_ORIGIN.latitude + point.im / METERS_PER_DEGREE_LATITUDE,
+      longitude: GRID_ORIGIN.longitude + point.re / METERS_PER_DEGREE_LONGITUDE
+    };
+  }
+
+  private multiply(a: Complex, b: Complex): Complex {
+    return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+  }
+
+  private divide(a: Complex, b: Complex): Complex {
+    const norm = b.re * b.re + b.im * b.im;
+    return { re: (a.re * b.re + a.im * b.im) / norm, im: (a.im * b.re - a.re * b.im) / norm };
+  }
+}
+
+// Export singleton instance
+export const gridService = new GridService();
@@ -0,0 +1,247 @@
+// Heatmap Tile Service
+// Renders crime risk intensity as 256×256 PNG map tiles (Web Mercator, z/x/y as used by Google Maps and
+// OSM). Each crime data point spreads its severity-weighted incidents over the map with the same Gaussian
+// kernel as the risk surface; for a given hour, incidents are scaled by the hourly pattern of each
+// statistic. Intensity is normalised against the heaviest area's all-day weight, so tiles line up at their
+// edges and night-time hot spots show up hotter than the daily average.
+
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { CrimeDataService } from './crimeDataService';
+import { RISK_KERNEL_BANDWIDTH_KM } from './riskSurfaceService';
+import { CrimeType } from '../data/crime-generator';
+import { CrimeData, CrimeStatistic } from '../types';
+
+export class HeatmapTileError extends Error {
+  constructor(
+    public code: 'INVALID_TILE' | 'INVALID_HOUR',
+    message: string
+  ) {
+    super(message);
+    this.name = 'HeatmapTileError';
+  }
+}
+
+export interface HeatmapTileOptions {
+  hour?: number; // 0-23, all day when omitted
+  crimeType?: CrimeType;
+}
+
+export interface HeatmapTile {
+  png: Buffer;
+  etag: string;
+  generatedAt: Date;
+}
+
+export const TILE_SIZE = 256;
+export const MAX_TILE_ZOOM = 18;
+export const TILE_CACHE_SECONDS = 900;
+const MAX_CACHED_TILES = 500;
+const KERNEL_CUTOFF_KM = RISK_KERNEL_BANDWIDTH_KM * 3; // kernel weight below 0.01%
+const MIN_VISIBLE_INTENSITY = 0.02;
+const KM_PER_DEGREE_LATITUDE = 110.574;
+const KM_PER_DEGREE_LONGITUDE = 111.32;
+
+// Colour ramp from low to high intensity: yellow, orange, red
+const HEAT_COLORS: Array<[number, number, number]> = [[255, 235, 59], [255, 152, 0], [211, 47, 47]];
+
+interface HeatSource {
+  latitude: number;
+  longitude: number;
+  weight: number;
+}
+
+export class HeatmapTileService {
+  private crimeDataService: CrimeDataService;
+  private cache = new Map<string, HeatmapTile>();
+  private emptyTile: Buffer | null = null;
+
+  constructor(crimeDataService: CrimeDataService = new CrimeDataService()) {
+    this.crimeDataService = crimeDataService;
+  }
+
+  /**
+   * Heatmap tile at z/x/y, served from memory while it is younger than the cache lifetime
+   */
+  public async getTile(z: number, x: number, y: number, options: HeatmapTileOptions = {}, now: Date = new Date()): Promise<HeatmapTile> {
+    this.validateTile(z, x, y, options);
+
+    const key = `${z}/${x}/${y}:${options.hour ?? 'all'}:${options.crimeType ?? 'all'}`;
+    const cached = this.cache.get(key);
+    if (cached && now.getTime() - cached.generatedAt.getTime() < TILE_CACHE_SECONDS * 1000) {
+      return cached;
+    }
+
+    const crimeData = await this.crimeDataService.queryCrimeData({ crimeType: options.crimeType }, now);
+    const png = this.renderTile(crimeData, z, x, y, options.hour);
+    const tile: HeatmapTile = { png, etag: `"${createHash('sha1').update(png).digest('hex')}"`, generatedAt: now };
+
+    // Drop the oldest tile once the cache is full (Map keeps insertion order)
+    this.cache.delete(key);
+    if (this.cache.size >= MAX_CACHED_TILES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, tile);
+    return tile;
+  }
+
+  /**
+   * Render a tile as PNG from the given crime data
+   */
+  public renderTile(crimeData: CrimeData[], z: number, x: number, y: number, hour?: number): Buffer {
+    const sources = crimeData.map(data => ({
+      latitude: data.location.latitude,
+      longitude: data.location.longitude,
+      weight: this.getHeatWeight(data.crimeStats, hour)
+    }));
+    const scale = crimeData.reduce((max, data) => Math.max(max, this.getHeatWeight(data.crimeStats)), 0);
+
+    const bounds = this.getTileBounds(z, x, y);
+    const nearby = sources.filter(source => source.weight > 0 && this.distanceToBoundsKm(source, bounds) <= KERNEL_CUTOFF_KM);
+    if (nearby.length === 0 || scale === 0) {
+      return this.getEmptyTile();
+    }
+
+    // Pixel centre coordinates: longitude varies by column, latitude by row
+    const longitudes = Array.from({ length: TILE_SIZE }, (_, px) => this.tileXToLongitude(x + (px + 0.5) / TILE_SIZE, z));
+    const latitudes = Array.from({ length: TILE_SIZE }, (_, py) => this.tileYToLatitude(y + (py + 0.5) / TILE_SIZE, z));
+    const pixels = Buffer.alloc(TILE_SIZE * TILE_SIZE * 4);
+
+    for (let py = 0; py < TILE_SIZE; py++) {
+      const kmPerDegreeLongitude = KM_PER_DEGREE_LONGITUDE * Math.cos(latitudes[py] * Math.PI / 180);
+      for (let px = 0; px < TILE_SIZE; px++) {
+        let intensity = 0;
+        for (const source of nearby) {
+          const dx = (longitudes[px] - source.longitude) * kmPerDegreeLongitude;
+          const dy = (latitudes[py] - source.latitude) * KM_PER_DEGREE_LATITUDE;
+          intensity += source.weight * Math.exp(-(dx * dx + dy * dy) / (RISK_KERNEL_BANDWIDTH_KM * RISK_KERNEL_BANDWIDTH_KM));
+        }
+        this.writeHeatColor(pixels, (py * TILE_SIZE + px) * 4, Math.min(1, intensity / scale));
+      }
+    }
+
+    return this.encodePng(pixels);
+  }
+
+  /**
+   * Severity-weighted incidents of a data point, for one hour relative to the hourly average when given
+   */
+  private getHeatWeight(crimeStats: CrimeStatistic[], hour?: number): number {
+    return crimeStats.reduce((sum, stat) => {
+      const hourFactor = hour === undefined ? 1 : (stat.timePattern[hour.toString()] || 0) * 24;
+      return sum + stat.incidentCount * (stat.severity / 10) * hourFactor;
+    }, 0);
+  }
+
+  private writeHeatColor(pixels: Buffer, offset: number, intensity: number): void {
+    if (intensity < MIN_VISIBLE_INTENSITY) return; // Left transparent
+
+    const position = intensity * (HEAT_COLORS.length - 1);
+    const index = Math.min(HEAT_COLORS.length - 2, Math.floor(position));
+    const t = position - index;
+    for (let channel = 0; channel < 3; channel++) {
+      pixels[offset + channel] = Math.round(HEAT_COLORS[index][channel] * (1 - t) + HEAT_COLORS[index + 1][channel] * t);
+    }
+    pixels[offset + 3] = Math.round(60 + 160 * intensity);
+  }
+
+  private validateTile(z: number, x: number, y: number, options: HeatmapTileOptions): void {
+    if (!Number.isInteger(z) || z < 0 || z > MAX_TILE_ZOOM) {
+      throw new HeatmapTileError('INVALID_TILE', `Zoom must be an integer from 0 to ${MAX_TILE_ZOOM}`);
+    }
+    const tiles = Math.pow(2, z);
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= tiles || y >= tiles) {
+      throw new HeatmapTileError('INVALID_TILE', `Tile x and y must be integers from 0 to ${tiles - 1} at zoom ${z}`);
+    }
+    if (options.hour !== undefined && (!Number.isInteger(options.hour) || options.hour < 0 || options.hour > 23)) {
+      throw new HeatmapTileError('INVALID_HOUR', 'Hour must be an integer from 0 to 23');
+    }
+  }
+
+  private getTileBounds(z: number, x: number, y: number) {
+    return {
+      north: this.tileYToLatitude(y, z),
+      south: this.tileYToLatitude(y + 1, z),
+      west: this.tileXToLongitude(x, z),
+      east: this.tileXToLongitude(x + 1, z)
+    };
+  }
+
+  private distanceToBoundsKm(source: HeatSource, bounds: ReturnType<HeatmapTileService['getTileBounds']>): number {
+    const latitude = Math.max(bounds.south, Math.min(bounds.north, source.latitude));
+    const longitude = Math.max(bounds.west, Math.min(bounds.east, source.longitude));
+    const dx = (longitude - source.longitude) * KM_PER_DEGREE_LONGITUDE * Math.cos(source.latitude * Math.PI / 180);
+    const dy = (latitude - source.latitude) * KM_PER_DEGREE_LATITUDE;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  private tileXToLongitude(x: number, z: number): number {
+    return x / Math.pow(2, z) * 360 - 180;
+  }
+
+  private tileYToLatitude(y: number, z: number): number {
+    const n = Math.PI * (1 - 2 * y / Math.pow(2, z));
+    return Math.atan(Math.sinh(n)) * 180 / Math.PI;
+  }
+
+  private getEmptyTile(): Buffer {
+    if (!this.emptyTile) {
+      this.emptyTile = this.encodePng(Buffer.alloc(TILE_SIZE * TILE_SIZE * 4));
+    }
+    return this.emptyTile;
+  }
+
+  /**
+   * Encode RGBA pixels as a PNG (8-bit truecolour with alpha, no filtering)
+   */
+  private encodePng(pixels: Buffer): Buffer {
+    const rowLength = TILE_SIZE * 4;
+    const raw = Buffer.alloc((rowLength + 1) * TILE_SIZE);
+    for (let row = 0; row < TILE_SIZE; row++) {
+      raw[row * (rowLength + 1)] = 0; // Filter type: none
+      pixels.copy(raw, row * (rowLength + 1) + 1, row * rowLength, (row + 1) * rowLength);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(TILE_SIZE, 0);
+    header.writeUInt32BE(TILE_SIZE, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 6; // Colour type: RGBA
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      this.pngChunk('IHDR', header),
+      this.pngChunk('IDAT', deflateSync(raw)),
+      this.pngChunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+
+  private pngChunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length, 0);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body), 0);
+    return Buffer.concat([length, body, crc]);
+  }
+}
+
+// CRC-32 as used by PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Export singleton instance
+export const heatmapTileService = new HeatmapTileService();
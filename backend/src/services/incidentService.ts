@@ -0,0 +1,236 @@
+// Crowdsourced Incident Reporting
+// Accepts incident reports from app sessions, rate limited per session and client address, into the
+// moderation queue. A report from an established reporter is approved automatically once reports of the
+// same kind from enough other established reporters, on different client addresses, corroborate it;
+// approved (verified) reports feed the per-grid-cell crime data used for safety scoring
+
+import { CrimeStatistic, IncidentReport, Location } from '../types';
+import { INCIDENT_MAX_AGE } from './crimeDataService';
+import { gridService } from './gridService';
+import { ModerationService } from './moderationService';
+import { KeyedLock, Storage, storage as defaultStorage } from '../storage';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface IncidentSubmission {
+  sessionId: string;
+  clientIp?: string;
+  type: string;
+  location: Location;
+  description: string;
+  severity?: number;
+  timestamp?: Date;
+}
+
+export class IncidentError extends Error {
+  constructor(
+    public code: 'RATE_LIMITED' | 'INCIDENT_NOT_FOUND',
+    message: string,
+    public retryAfter?: number // seconds, for RATE_LIMITED
+  ) {
+    super(message);
+    this.name = 'IncidentError';
+  }
+}
+
+// Reportable incident types and the crime category each counts towards
+export const INCIDENT_TYPES: Record<string, CrimeStatistic['type']> = {
+  assault: 'violent',
+  robbery: 'violent',
+  mugging: 'violent',
+  hijacking: 'violent',
+  sexual_offense: 'violent',
+  shooting: 'violent',
+  burglary: 'property',
+  theft: 'property',
+  shoplifting: 'property',
+  vandalism: 'property',
+  fraud: 'property',
+  pickpocketing: 'petty',
+  bag_snatching: 'petty',
+  bicycle_theft: 'petty',
+  mobile_theft: 'petty',
+  harassment: 'petty',
+  car_theft: 'vehicular',
+  car_breaking: 'vehicular',
+  smash_grab: 'vehicular'
+};
+
+// Severity used when a report doesn't give one, mid-range for its category
+const DEFAULT_SEVERITY: Record<CrimeStatistic['type'], number> = { violent: 8, property: 5, petty: 3, vehicular: 6 };
+
+export const INCIDENT_RATE_LIMIT = Number(process.env.INCIDENT_RATE_LIMIT) || 5; // reports per window
+export const INCIDENT_RATE_WINDOW = Number(process.env.INCIDENT_RATE_WINDOW) || 3600; // seconds
+export const INCIDENT_IP_RATE_LIMIT = Number(process.env.INCIDENT_IP_RATE_LIMIT) || 20; // reports per window from one client address
+export const CORROBORATING_SESSIONS = 3;
+const CORROBORATION_WINDOW = 24 * 60 * 60 * 1000; // ms between incident times
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_CLOCK_SKEW = 5 * 60 * 1000; // ms a reported time may be ahead of the server
+
+export class IncidentService {
+  private storage: Storage;
+  private moderationService: ModerationService;
+  private rateLimitLock = new KeyedLock();
+
+  constructor(store: Storage = defaultStorage, moderationService: ModerationService = new ModerationService(store)) {
+    this.storage = store;
+    this.moderationService = moderationService;
+  }
+
+  /**
+   * Validate the fields of a report from a request body (the location is validated separately)
+   * @returns The submission, or an error message describing the invalid field
+   */
+  public parseSubmission(params: {
+    sessionId?: unknown;
+    type?: unknown;
+    description?: unknown;
+    severity?: unknown;
+    timestamp?: unknown;
+  }, now: Date = new Date()): { submission: Omit<IncidentSubmission, 'location'> } | { error: string } {
+    if (typeof params.sessionId !== 'string' || !params.sessionId.trim()) {
+      return { error: 'sessionId is required' };
+    }
+
+    if (typeof params.type !== 'string' || !(params.type in INCIDENT_TYPES)) {
+      return { error: `type must be one of: ${Object.keys(INCIDENT_TYPES).join(', ')}` };
+    }
+
+    const description = typeof params.description === 'string' ? params.description.trim() : '';
+    if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `description must be a non-empty string of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+
+    if (params.severity !== undefined &&
+      (typeof params.severity !== 'number' || !Number.isInteger(params.severity) || params.severity < 1 || params.severity > 10)) {
+      return { error: 'severity must be an integer from 1 to 10' };
+    }
+
+    let timestamp: Date | undefined;
+    if (params.timestamp !== undefined) {
+      timestamp = new Date(params.timestamp as string);
+      const age = now.getTime() - timestamp.getTime();
+      if (isNaN(timestamp.getTime()) || age < -MAX_CLOCK_SKEW || age > INCIDENT_MAX_AGE * 24 * 60 * 60 * 1000) {
+        return { error: `timestamp must be a date within the last ${INCIDENT_MAX_AGE} days` };
+      }
+    }
+
+    return {
+      submission: {
+        sessionId: params.sessionId.trim(),
+        type: params.type,
+        description,
+        severity: params.severity as number | undefined,
+        timestamp
+      }
+    };
+  }
+
+  /**
+   * Queue a new report for moderation, approving it straight away if it completes a corroborated group
+   * @throws IncidentError RATE_LIMITED when the session or client address has reached its limit
+   */
+  public async submitReport(submission: IncidentSubmission, now: Date = new Date()): Promise<IncidentReport> {
+    const report = await this.withRateLimitLock(submission, async () => {
+      await this.checkRateLimit('sessionId', submission.sessionId, INCIDENT_RATE_LIMIT, now);
+      if (submission.clientIp) {
+        await this.checkRateLimit('clientIp', submission.clientIp, INCIDENT_IP_RATE_LIMIT, now);
+      }
+
+      const crimeType = INCIDENT_TYPES[submission.type];
+      const report: IncidentReport = {
+        id: uuidv4(),
+        type: submission.type,
+        crimeType,
+        location: submission.location,
+        gridCell: gridService.pointToCell(submission.location.latitude, submission.location.longitude),
+        timestamp: submission.timestamp || now,
+        reportedAt: now,
+        sessionId: submission.sessionId,
+        clientIp: submission.clientIp,
+        description: submission.description,
+        severity: submission.severity ?? DEFAULT_SEVERITY[crimeType],
+        status: 'pending',
+        verified: false,
+        suspectedSpam: await this.moderationService.isSuspectedSpammer(submission.sessionId)
+      };
+      await this.storage.incidents.put(report.id, report);
+      return report;
+    });
+
+    return (await this.corroborate(report, now)) || report;
+  }
+
+  public async getReport(id: string): Promise<IncidentReport> {
+    const report = await this.storage.incidents.get(id);
+    if (!report) {
+      throw new IncidentError('INCIDENT_NOT_FOUND', `Incident report ${id} not found`);
+    }
+    return report;
+  }
+
+  // Check the limits and store the report one submission at a time per session and client address,
+  // so a burst of parallel submissions can't all pass the count before any of them is stored
+  private withRateLimitLock<T>(submission: IncidentSubmission, task: () => Promise<T>): Promise<T> {
+    const { sessionId, clientIp } = submission;
+    return this.rateLimitLock.run(`sessionId:${sessionId}`, () =>
+      clientIp ? this.rateLimitLock.run(`clientIp:${clientIp}`, task) : task()
+    );
+  }
+
+  private async checkRateLimit(field: 'sessionId' | 'clientIp', value: string, limit: number, now: Date): Promise<void> {
+    const windowStart = now.getTime() - INCIDENT_RATE_WINDOW * 1000;
+    const recent = (await this.storage.incidents.findBy(field, value))
+      .filter(report => report.reportedAt.getTime() > windowStart)
+      .sort((a, b) => a.reportedAt.getTime() - b.reportedAt.getTime());
+
+    if (recent.length >= limit) {
+      const retryAfter = Math.ceil((recent[recent.length - limit].reportedAt.getTime() - windowStart) / 1000);
+      const source = field === 'sessionId' ? 'session' : 'client address';
+      throw new IncidentError(
+        'RATE_LIMITED',
+        `At most ${limit} reports per ${source} every ${INCIDENT_RATE_WINDOW / 60} minutes; try again in ${retryAfter} seconds`,
+        retryAfter
+      );
+    }
+  }
+
+  /**
+   * Approve a report and the pending reports it agrees with (same cell and crime category, close in time)
+   * once they come from enough different established reporters on different client addresses.
+   * Session IDs are chosen by clients, so reports from new sessions and suspected spammers don't count
+   * and are left for moderators.
+   * @returns The approved report, or undefined if there isn't enough corroboration yet
+   */
+  private async corroborate(report: IncidentReport, now: Date): Promise<IncidentReport | undefined> {
+    if (report.suspectedSpam || !await this.moderationService.isEstablishedReporter(report.sessionId)) return undefined;
+
+    const related: IncidentReport[] = [];
+    for (const other of await this.storage.incidents.findBy('gridCell', report.gridCell)) {
+      if (other.crimeType === report.crimeType &&
+        !other.suspectedSpam &&
+        ['pending', 'approved'].includes(other.status) &&
+        Math.abs(other.timestamp.getTime() - report.timestamp.getTime()) <= CORROBORATION_WINDOW &&
+        await this.moderationService.isEstablishedReporter(other.sessionId)) {
+        related.push(other);
+      }
+    }
+
+    // Sessions sharing a client address count once
+    const sessions = Math.min(
+      new Set(related.map(other => other.sessionId)).size,
+      new Set(related.map(other => other.clientIp ?? other.sessionId)).size
+    );
+    if (sessions < CORROBORATING_SESSIONS) {
+      return undefined;
+    }
+
+    const reason = `Corroborated by reports from ${sessions} sessions`;
+    for (const other of related.filter(other => other.status === 'pending' && other.id !== report.id)) {
+      await this.moderationService.approve(other.id, 'system', reason, now);
+    }
+    return this.moderationService.approve(report.id, 'system', reason, now);
+  }
+}
+
+// Export singleton instance
+export const incidentService = new IncidentService();
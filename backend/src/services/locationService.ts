@@ -11,6 +11,20 @@ import {
   Coordinates
 } from '../types/index.js';
 
+const EARTH_RADIUS = 6371000; // meters
+
+/**
+ * Distance between two coordinates in meters (Haversine formula)
+ */
+export function calculateDistance(a: Coordinates, b: Coordinates): number {
+  const dLat = (b.latitude - a.latitude) * Math.PI / 180;
+  const dLng = (b.longitude - a.longitude) * Math.PI / 180;
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(a.latitude * Math.PI / 180) * Math.cos(b.latitude * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
 // Cape Town Metropolitan Area Bounds
 export const CAPE_TOWN_BOUNDS = {
   north: -33.5,  // Northern boundary
@@ -331,32 +345,10 @@ export class LocationService {
 
   /**
    * Calculate distance between two coordinates using Haversine formula
-   * @param lat1 First point latitude
-   * @param lng1 First point longitude
-   * @param lat2 Second point latitude
-   * @param lng2 Second point longitude
    * @returns Distance in kilometers
    */
   private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.degToRad(lat2 - lat1);
-    const dLng = this.degToRad(lng2 - lng1);
-
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(this.degToRad(lat1)) * Math.cos(this.degToRad(lat2)) *
-              Math.sin(dLng / 2) * Math.sin(dLng / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  /**
-   * Convert degrees to radians
-   * @param deg Degrees
-   * @returns Radians
-   */
-  private degToRad(deg: number): number {
-    return deg * (Math.PI / 180);
+    return calculateDistance({ latitude: lat1, longitude: lng1 }, { latitude: lat2, longitude: lng2 }) / 1000;
   }
 
   /**
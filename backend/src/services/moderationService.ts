@@ -0,0 +1,288 @@
+// Incident Moderation Service
+// Moderators approve, reject, merge or flag crowdsourced incident reports; every decision is appended
+// to an audit trail. Each reporting session builds a reputation from past decisions, which sets how
+// much its approved reports weigh in crime data and marks reports from likely spammers
+
+import { IncidentReport, IncidentStatus, ModerationDecision, ReporterReputation } from '../types';
+import { markCrowdsourcedDataChanged } from './crimeDataService';
+import { Storage, storage as defaultStorage, ListOptions } from '../storage';
+import { v4 as uuidv4 } from 'uuid';
+import { calculateDistance } from './locationService';
+
+export class ModerationError extends Error {
+  constructor(
+    public code: 'INCIDENT_NOT_FOUND' | 'INVALID_DECISION' | 'NOT_DUPLICATE',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+export interface ModerationQueueItem {
+  report: IncidentReport;
+  reputation: number;
+  possibleDuplicates: string[]; // other open reports near the same place and time
+}
+
+// Statuses each decision may be made from; moderators can overturn approvals and rejections
+const DECISION_SOURCES: Record<Exclude<ModerationDecision['action'], 'merge'>, IncidentStatus[]> = {
+  approve: ['pending', 'rejected'],
+  reject: ['pending', 'approved'],
+  spam: ['pending', 'approved', 'rejected']
+};
+
+const DECISION_STATUS: Record<Exclude<ModerationDecision['action'], 'merge'>, IncidentStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  spam: 'spam'
+};
+
+// Reputation counter each decided status adds to
+const REPUTATION_COUNTERS: Partial<Record<IncidentStatus, 'approved' | 'rejected' | 'spam'>> = {
+  approved: 'approved',
+  rejected: 'rejected',
+  spam: 'spam'
+};
+
+export const DUPLICATE_DISTANCE = 500; // meters between duplicate reports
+export const DUPLICATE_WINDOW = 6 * 60 * 60 * 1000; // ms between duplicate incident times
+export const SPAM_SUSPICION_REPUTATION = 0.3; // reports from sessions below this are flagged for review
+// Approved reports a session needs before corroboration alone can approve its reports
+export const ESTABLISHED_REPORTER_APPROVALS = Number(process.env.ESTABLISHED_REPORTER_APPROVALS) || 2;
+const SPAM_PENALTY = 2; // a spam decision counts as this many rejections
+
+export class ModerationService {
+  private storage: Storage;
+
+  constructor(store: Storage = defaultStorage) {
+    this.storage = store;
+  }
+
+  /**
+   * Reports with a status, oldest first, with their reporter's reputation and possible duplicates
+   */
+  public async getQueue(status: IncidentStatus = 'pending', options: ListOptions & { suspectedSpam?: boolean } = {}): Promise<ModerationQueueItem[]> {
+    const reports = (await this.storage.incidents.findBy('status', status))
+      .filter(report => options.suspectedSpam === undefined || !!report.suspectedSpam === options.suspectedSpam)
+      .sort((a, b) => a.reportedAt.getTime() - b.reportedAt.getTime());
+
+    const offset = options.offset || 0;
+    const page = reports.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+
+    return Promise.all(page.map(async report => ({
+      report,
+      reputation: this.scoreReputation(await this.getReputation(report.sessionId)),
+      possibleDuplicates: (await this.findDuplicates(report)).map(duplicate => duplicate.id)
+    })));
+  }
+
+  /**
+   * Approve a report so it counts towards crime data, weighted by its reporter's reputation
+   */
+  public async approve(reportId: string, moderatorId: string, reason?: string, now: Date = new Date()): Promise<IncidentReport> {
+    return this.decide(reportId, 'approve', moderatorId, reason, now);
+  }
+
+  public async reject(reportId: string, moderatorId: string, reason: string, now: Date = new Date()): Promise<IncidentReport> {
+    return this.decide(reportId, 'reject', moderatorId, reason, now);
+  }
+
+  public async flagSpam(reportId: string, moderatorId: string, reason?: string, now: Date = new Date()): Promise<IncidentReport> {
+    return this.decide(reportId, 'spam', moderatorId, reason, now);
+  }
+
+  /**
+   * Merge duplicate reports of the same incident into a primary report
+   * Duplicates stop counting on their own and add to the primary report's corroboration.
+   */
+  public async merge(
+    primaryId: string,
+    duplicateIds: string[],
+    moderatorId: string,
+    reason?: string,
+    now: Date = new Date()
+  ): Promise<IncidentReport> {
+    const primary = await this.getReport(primaryId);
+    if (!['pending', 'approved'].includes(primary.status)) {
+      throw new ModerationError('INVALID_DECISION', `Cannot merge into a ${primary.status} report`);
+    }
+
+    const duplicates: IncidentReport[] = [];
+    for (const id of new Set(duplicateIds)) {
+      const duplicate = await this.getReport(id);
+      if (duplicate.id === primary.id || !['pending', 'approved'].includes(duplicate.status)) {
+        throw new ModerationError('INVALID_DECISION', `Report ${id} cannot be merged`);
+      }
+      if (!this.isDuplicate(primary, duplicate)) {
+        throw new ModerationError(
+          'NOT_DUPLICATE',
+          `Report ${id} is not within ${DUPLICATE_DISTANCE}m and ${DUPLICATE_WINDOW / 3600000} hours of the same kind of incident`
+        );
+      }
+      duplicates.push(duplicate);
+    }
+
+    // Reporters of duplicates keep their reputation: they reported a real incident
+    for (const duplicate of duplicates) {
+      await this.storage.incidents.put(duplicate.id, {
+        ...duplicate,
+        status: 'merged',
+        verified: false,
+        mergedInto: primary.id
+      });
+      await this.record({
+        reportId: duplicate.id,
+        action: 'merge',
+        moderatorId,
+        reason,
+        previousStatus: duplicate.status,
+        newStatus: 'merged',
+        relatedReportIds: [primary.id]
+      }, now);
+    }
+
+    const merged: IncidentReport = {
+      ...primary,
+      mergedReportIds: [...(primary.mergedReportIds || []), ...duplicates.map(duplicate => duplicate.id)]
+    };
+    await this.storage.incidents.put(merged.id, merged);
+    await this.record({
+      reportId: primary.id,
+      action: 'merge',
+      moderatorId,
+      reason,
+      previousStatus: primary.status,
+      newStatus: primary.status,
+      relatedReportIds: duplicates.map(duplicate => duplicate.id)
+    }, now);
+    markCrowdsourcedDataChanged();
+
+    return merged;
+  }
+
+  /**
+   * Decisions on a report, oldest first
+   */
+  public async getAuditTrail(reportId: string): Promise<ModerationDecision[]> {
+    await this.getReport(reportId);
+    return (await this.storage.moderation.findBy('reportId', reportId))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * All decisions, newest first, optionally by one moderator
+   */
+  public async getDecisions(moderatorId?: string, options?: ListOptions): Promise<ModerationDecision[]> {
+    return moderatorId
+      ? this.storage.moderation.findBy('moderatorId', moderatorId, options)
+      : this.storage.moderation.list(options);
+  }
+
+  public async getReputation(sessionId: string): Promise<ReporterReputation> {
+    return await this.storage.reporters.get(sessionId) ||
+      { sessionId, approved: 0, rejected: 0, spam: 0, updatedAt: new Date(0) };
+  }
+
+  /**
+   * Reputation from 0 to 1: the smoothed share of a reporter's decided reports that were approved,
+   * with spam counting double. New reporters start at 0.5.
+   */
+  public scoreReputation(reputation: ReporterReputation): number {
+    const { approved, rejected, spam } = reputation;
+    return (approved + 1) / (approved + rejected + spam * SPAM_PENALTY + 2);
+  }
+
+  /**
+   * Weight of a reporter's approved reports in crime data, from 0.5 (poor) through 1 (new) to 1.5
+   */
+  public async getReportWeight(sessionId: string): Promise<number> {
+    return 0.5 + this.scoreReputation(await this.getReputation(sessionId));
+  }
+
+  public async isSuspectedSpammer(sessionId: string): Promise<boolean> {
+    return this.scoreReputation(await this.getReputation(sessionId)) < SPAM_SUSPICION_REPUTATION;
+  }
+
+  /**
+   * Whether a session has enough approved reports for its reports to be approved by corroboration alone
+   */
+  public async isEstablishedReporter(sessionId: string): Promise<boolean> {
+    const reputation = await this.getReputation(sessionId);
+    return reputation.approved >= ESTABLISHED_REPORTER_APPROVALS && !await this.isSuspectedSpammer(sessionId);
+  }
+
+  /**
+   * Open reports in the same grid cell of the same kind of incident, near in place and time
+   */
+  public async findDuplicates(report: IncidentReport): Promise<IncidentReport[]> {
+    return (await this.storage.incidents.findBy('gridCell', report.gridCell))
+      .filter(other => other.id !== report.id && ['pending', 'approved'].includes(other.status) && this.isDuplicate(report, other));
+  }
+
+  private async decide(
+    reportId: string,
+    action: Exclude<ModerationDecision['action'], 'merge'>,
+    moderatorId: string,
+    reason: string | undefined,
+    now: Date
+  ): Promise<IncidentReport> {
+    const report = await this.getReport(reportId);
+    if (!DECISION_SOURCES[action].includes(report.status)) {
+      throw new ModerationError('INVALID_DECISION', `Cannot ${action} a ${report.status} report`);
+    }
+
+    const status = DECISION_STATUS[action];
+    const updated: IncidentReport = {
+      ...report,
+      status,
+      verified: status === 'approved',
+      verifiedAt: status === 'approved' ? now : undefined,
+      weight: status === 'approved' ? await this.getReportWeight(report.sessionId) : undefined
+    };
+
+    await this.storage.incidents.put(updated.id, updated);
+    await this.adjustReputation(report.sessionId, report.status, status, now);
+    await this.record({ reportId, action, moderatorId, reason, previousStatus: report.status, newStatus: status }, now);
+
+    if (report.verified || updated.verified) {
+      markCrowdsourcedDataChanged();
+    }
+
+    return updated;
+  }
+
+  private async adjustReputation(sessionId: string, from: IncidentStatus, to: IncidentStatus, now: Date): Promise<void> {
+    const previous = REPUTATION_COUNTERS[from];
+    const next = REPUTATION_COUNTERS[to];
+    if (previous === next) return;
+
+    const reputation = { ...await this.getReputation(sessionId), updatedAt: now };
+    if (previous) reputation[previous] = Math.max(0, reputation[previous] - 1);
+    if (next) reputation[next]++;
+
+    await this.storage.reporters.put(sessionId, reputation);
+  }
+
+  private async record(decision: Omit<ModerationDecision, 'id' | 'timestamp'>, now: Date): Promise<void> {
+    const entry: ModerationDecision = { id: uuidv4(), ...decision, timestamp: now };
+    await this.storage.moderation.put(entry.id, entry);
+  }
+
+  private async getReport(id: string): Promise<IncidentReport> {
+    const report = await this.storage.incidents.get(id);
+    if (!report) {
+      throw new ModerationError('INCIDENT_NOT_FOUND', `Incident report ${id} not found`);
+    }
+    return report;
+  }
+
+  private isDuplicate(a: IncidentReport, b: IncidentReport): boolean {
+    return a.crimeType === b.crimeType &&
+      Math.abs(a.timestamp.getTime() - b.timestamp.getTime()) <= DUPLICATE_WINDOW &&
+      calculateDistance(a.location, b.location) <= DUPLICATE_DISTANCE;
+  }
+}
+
+// Export singleton instance
+export const moderationService = new ModerationService();
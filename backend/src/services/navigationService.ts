@@ -0,0 +1,551 @@
+// Navigation Session Service
+// Tracks a traveller along a selected route: status transitions, progress, ETA and a per-session alert log
+// Location updates are matched to the route polyline; remaining time is prorated over segment durations
+// Locations beyond the deviation threshold are logged as deviations, one per excursion from the route;
+// persistent ones get a re-route offer
+// Updates of one session are applied one at a time, so overlapping requests can't overwrite each other
+
+import {
+  Location,
+  NavigationProgress,
+  NavigationSession,
+  NavigationStatus,
+  Route,
+  RouteDeviation,
+  RouteOptimization,
+  RouteOptions,
+  RouteSegment,
+  SafetyAlert,
+  SessionFeedback,
+  UsageSummary,
+  UserPreferences
+} from '../types';
+import { getUserLock, KeyedLock, Storage, storage } from '../storage';
+import { RoutingService, routingService } from './routingService';
+import { SafetyScoringService } from './safetyScoringService';
+import { v4 as uuidv4 } from 'uuid';
+
+export type SessionAction = 'start' | 'pause' | 'resume' | 'complete' | 'cancel';
+
+export interface StartSessionOptions {
+  routeId: string;
+  userId?: string;
+  userSessionId?: string; // the user's session, required with userId
+  currentLocation?: Location;
+  startNavigation?: boolean; // false leaves the session in 'planning'; default true
+  routeOptions?: RouteOptions; // as sent to /api/routes/calculate
+  preferences?: UserPreferences;
+  deviationThreshold?: number; // meters, defaults to ROUTE_DEVIATION_DISTANCE
+}
+
+export class NavigationError extends Error {
+  code: 'SESSION_NOT_FOUND' | 'ROUTE_NOT_FOUND' | 'INVALID_STATUS_TRANSITION' | 'SESSION_NOT_ACTIVE' | 'NO_REROUTE_OFFER' |
+    'USER_NOT_FOUND' | 'USER_SESSION_REQUIRED' | 'FORBIDDEN';
+
+  constructor(code: NavigationError['code'], message: string) {
+    super(message);
+    this.name = 'NavigationError';
+    this.code = code;
+  }
+}
+
+// Statuses each status may move to; completed and cancelled sessions are final
+const STATUS_TRANSITIONS: Record<NavigationStatus, NavigationStatus[]> = {
+  planning: ['active', 'cancelled'],
+  active: ['paused', 'completed', 'cancelled'],
+  paused: ['active', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+const ACTION_STATUS: Record<SessionAction, NavigationStatus> = {
+  start: 'active',
+  pause: 'paused',
+  resume: 'active',
+  complete: 'completed',
+  cancel: 'cancelled'
+};
+
+// start only leaves planning and resume only leaves paused, even though both lead to 'active'
+const ACTION_SOURCES: Partial<Record<SessionAction, NavigationStatus[]>> = {
+  start: ['planning'],
+  resume: ['paused']
+};
+
+const HIGH_RISK_SCORE = 50; // segment safety below this raises a high_crime_area alert
+const CRITICAL_RISK_SCORE = 30;
+const DEFAULT_DEVIATION_THRESHOLD = Number(process.env.ROUTE_DEVIATION_DISTANCE) || 50; // meters
+const MAX_USAGE_HISTORY = 50; // completed sessions summarised on the user
+const PERSISTENT_DEVIATION_UPDATES = 3; // consecutive off-route updates before re-routing
+const EARTH_RADIUS = 6371000; // meters
+
+interface RouteMatch {
+  segmentIndex: number;
+  fraction: number; // 0-1 along the matched segment
+  distanceFromRoute: number;
+  point: Location; // nearest point on the route
+}
+
+export class NavigationService {
+  private storage: Storage;
+  private routingService: RoutingService;
+  private safetyScoringService: SafetyScoringService;
+  private sessionLock = new KeyedLock();
+
+  constructor(store: Storage = storage, routing: RoutingService = routingService) {
+    this.storage = store;
+    this.routingService = routing;
+    this.safetyScoringService = new SafetyScoringService();
+  }
+
+  /**
+   * Create a session on a stored route
+   * Completed sessions are summarised on their user, so a userId needs that user's session.
+   * @throws NavigationError ROUTE_NOT_FOUND when the route is unknown or expired
+   * @throws NavigationError USER_NOT_FOUND, USER_SESSION_REQUIRED or FORBIDDEN unless the user's session is presented
+   */
+  public async startSession(options: StartSessionOptions): Promise<NavigationSession> {
+    if (options.userId) {
+      await this.authorizeUser(options.userId, options.userSessionId);
+    }
+
+    const route = await this.storage.routes.get(options.routeId);
+    if (!route) {
+      throw new NavigationError('ROUTE_NOT_FOUND', `Route with ID ${options.routeId} not found`);
+    }
+
+    const now = new Date();
+    const status: NavigationStatus = options.startNavigation === false ? 'planning' : 'active';
+    const session: NavigationSession = {
+      id: `session_${uuidv4()}`,
+      userId: options.userId || 'anonymous',
+      selectedRoute: route,
+      currentLocation: options.currentLocation || route.origin,
+      startTime: now,
+      estimatedArrival: new Date(now.getTime() + route.estimatedDuration * 1000),
+      status,
+      statusHistory: [{ to: status, timestamp: now }],
+      routeOptions: options.routeOptions,
+      preferences: options.preferences,
+      deviationThreshold: options.deviationThreshold,
+      alerts: [],
+      routeDeviations: []
+    };
+
+    if (options.currentLocation) {
+      await this.applyLocation(session, options.currentLocation, now);
+    }
+
+    await this.storage.sessions.put(session.id, session);
+    return session;
+  }
+
+  public async getSession(sessionId: string): Promise<NavigationSession> {
+    const session = await this.storage.sessions.get(sessionId);
+    if (!session) {
+      throw new NavigationError('SESSION_NOT_FOUND', `Session with ID ${sessionId} not found`);
+    }
+    return session;
+  }
+
+  /**
+   * Record the traveller's position, updating progress, ETA and the alert log
+   * @throws NavigationError SESSION_NOT_ACTIVE unless the session is active
+   */
+  public updateLocation(sessionId: string, location: Location, timestamp: Date = new Date()): Promise<NavigationSession> {
+    return this.sessionLock.run(sessionId, async () => {
+      const session = await this.getSession(sessionId);
+      if (session.status !== 'active') {
+        throw new NavigationError('SESSION_NOT_ACTIVE', `Location updates require an active session (status is ${session.status})`);
+      }
+
+      await this.applyLocation(session, location, timestamp);
+      await this.storage.sessions.put(session.id, session);
+      return session;
+    });
+  }
+
+  /**
+   * Switch the session onto its offered re-route
+   * @throws NavigationError NO_REROUTE_OFFER when no re-route is pending
+   */
+  public acceptReroute(sessionId: string): Promise<NavigationSession> {
+    return this.sessionLock.run(sessionId, async () => {
+      const session = await this.getSession(sessionId);
+      if (session.status !== 'active' && session.status !== 'paused') {
+        throw new NavigationError('SESSION_NOT_ACTIVE', `Cannot re-route a session that is ${session.status}`);
+      }
+      if (!session.rerouteOffer) {
+        throw new NavigationError('NO_REROUTE_OFFER', 'No re-route is currently offered for this session');
+      }
+
+      const now = new Date();
+      session.selectedRoute = session.rerouteOffer.route;
+      session.rerouteOffer = undefined;
+      await this.applyLocation(session, session.currentLocation, now);
+
+      await this.storage.sessions.put(session.id, session);
+      return session;
+    });
+  }
+
+  /**
+   * Move a session to the status an action leads to
+   * @param feedback Traveller feedback, accepted when completing
+   * @throws NavigationError INVALID_STATUS_TRANSITION when the current status does not allow the action
+   */
+  public transition(sessionId: string, action: SessionAction, feedback?: SessionFeedback, reason?: string): Promise<NavigationSession> {
+    return this.sessionLock.run(sessionId, async () => {
+      const session = await this.getSession(sessionId);
+      const from = session.status;
+      const to = ACTION_STATUS[action];
+
+      const allowedSources = ACTION_SOURCES[action];
+      if (!STATUS_TRANSITIONS[from].includes(to) || (allowedSources && !allowedSources.includes(from))) {
+        throw new NavigationError('INVALID_STATUS_TRANSITION', `Cannot ${action} a session that is ${from}`);
+      }
+
+      const now = new Date();
+      session.status = to;
+      session.statusHistory = [...(session.statusHistory || []), { from, to, timestamp: now, reason }];
+
+      if (action === 'start') {
+        session.startTime = now;
+      }
+      if (to === 'active') {
+        // Time spent planning or paused pushes the arrival back
+        const remaining = session.progress?.durationRemaining ?? session.selectedRoute.estimatedDuration;
+        session.estimatedArrival = new Date(now.getTime() + remaining * 1000);
+      }
+      if (to === 'completed') {
+        session.actualArrival = now;
+        session.userFeedback = feedback;
+        await this.recordUsage(session);
+      }
+
+      await this.storage.sessions.put(session.id, session);
+      return session;
+    });
+  }
+
+  public async getAlerts(sessionId: string): Promise<SafetyAlert[]> {
+    return (await this.getSession(sessionId)).alerts;
+  }
+
+  /**
+   * Sessions of one user, newest first
+   */
+  public async getUserSessions(userId: string): Promise<NavigationSession[]> {
+    return this.storage.sessions.findBy('userId', userId);
+  }
+
+  private async applyLocation(session: NavigationSession, location: Location, timestamp: Date): Promise<void> {
+    const route = session.selectedRoute;
+    const match = this.matchToRoute(route, location);
+    const segments = route.segments;
+
+    let distanceRemaining = 0;
+    let durationRemaining = 0;
+    if (match) {
+      const segment = segments[match.segmentIndex];
+      distanceRemaining = segment.distance * (1 - match.fraction);
+      durationRemaining = segment.duration * (1 - match.fraction);
+      for (const later of segments.slice(match.segmentIndex + 1)) {
+        distanceRemaining += later.distance;
+        durationRemaining += later.duration;
+      }
+    }
+
+    const offRoute = match !== null && match.distanceFromRoute > (session.deviationThreshold ?? DEFAULT_DEVIATION_THRESHOLD);
+    const progress: NavigationProgress = {
+      segmentId: match ? segments[match.segmentIndex].id : '',
+      distanceTravelled: Math.round(route.totalDistance - distanceRemaining),
+      distanceRemaining: Math.round(distanceRemaining),
+      durationRemaining: Math.round(durationRemaining),
+      distanceFromRoute: Math.round(match?.distanceFromRoute ?? 0),
+      offRouteUpdates: offRoute ? (session.progress?.offRouteUpdates || 0) + 1 : 0,
+      updatedAt: timestamp
+    };
+
+    session.currentLocation = location;
+    session.progress = progress;
+    session.estimatedArrival = new Date(timestamp.getTime() + progress.durationRemaining * 1000);
+
+    if (!match) return;
+
+    if (!offRoute) {
+      // Back on the route: any pending offer is stale
+      session.rerouteOffer = undefined;
+      this.logSegmentAlerts(session, segments[match.segmentIndex], location, timestamp);
+      return;
+    }
+
+    // The first off-route update starts a deviation; later ones move it along instead of adding more
+    const current = session.routeDeviations[session.routeDeviations.length - 1];
+    const deviation = progress.offRouteUpdates === 1 || !current
+      ? await this.recordDeviation(session, match, location, timestamp)
+      : this.extendDeviation(current, match, location);
+
+    if (progress.offRouteUpdates === PERSISTENT_DEVIATION_UPDATES) {
+      // The re-route alert describes where the traveller is now
+      deviation.safetyImpact = await this.getSafetyImpact(session, match, location, timestamp);
+      await this.offerReroute(session, match, deviation, timestamp);
+    }
+  }
+
+  /**
+   * Log a new deviation, scoring the actual position against the route point it strayed from
+   */
+  private async recordDeviation(
+    session: NavigationSession,
+    match: RouteMatch,
+    location: Location,
+    timestamp: Date
+  ): Promise<RouteDeviation> {
+    const deviation: RouteDeviation = {
+      timestamp,
+      originalLocation: match.point,
+      actualLocation: location,
+      distanceFromRoute: Math.round(match.distanceFromRoute),
+      safetyImpact: await this.getSafetyImpact(session, match, location, timestamp)
+    };
+    session.routeDeviations.push(deviation);
+    return deviation;
+  }
+
+  /**
+   * Move the deviation in progress to the latest position, keeping its start time and safety impact
+   */
+  private extendDeviation(deviation: RouteDeviation, match: RouteMatch, location: Location): RouteDeviation {
+    deviation.originalLocation = match.point;
+    deviation.actualLocation = location;
+    deviation.distanceFromRoute = Math.round(match.distanceFromRoute);
+    return deviation;
+  }
+
+  /**
+   * Route safety at the matched route point minus safety at the actual position; positive is riskier
+   */
+  private async getSafetyImpact(session: NavigationSession, match: RouteMatch, location: Location, timestamp: Date): Promise<number> {
+    const segment = session.selectedRoute.segments[match.segmentIndex];
+    const { safetyScore } = await this.safetyScoringService.calculateLocationSafety({
+      location,
+      timeContext: { currentTime: timestamp.toISOString() },
+      userContext: {
+        travelMode: segment.travelMode || session.selectedRoute.travelMode,
+        riskTolerance: session.preferences?.riskTolerance
+      }
+    });
+    return segment.safetyScore.overall - safetyScore.overall;
+  }
+
+  /**
+   * Re-route from the deviated position to the remaining stops with the session's original profile,
+   * and raise a route_deviation alert
+   */
+  private async offerReroute(session: NavigationSession, match: RouteMatch, deviation: RouteDeviation, timestamp: Date): Promise<void> {
+    const route = session.selectedRoute;
+    const optimizeFor: RouteOptimization = session.routeOptions?.optimizeFor || route.optimizedFor?.[0] || 'balanced';
+    const timeContext = { currentTime: timestamp.toISOString() };
+
+    const { routes } = await this.routingService.generateRouteAlternatives({
+      origin: deviation.actualLocation,
+      destination: route.destination,
+      waypoints: this.getRemainingWaypoints(route, match.segmentIndex),
+      preferences: session.preferences,
+      options: {
+        ...session.routeOptions,
+        optimizeFor,
+        travelMode: route.travelMode,
+        maxRoutes: 1,
+        departureTime: timeContext.currentTime,
+        optimizeWaypointOrder: false
+      }
+    }, timeContext);
+
+    const candidate = routes.find(r => r.optimizedFor?.includes(optimizeFor)) || routes[0];
+    if (candidate) {
+      const rerouted = await this.safetyScoringService.calculateRouteSafety(candidate, timeContext, session.routeOptions?.modelVersion);
+      await this.storage.routes.put(rerouted.id, rerouted);
+      session.rerouteOffer = {
+        route: rerouted,
+        offeredAt: timestamp,
+        optimizeFor,
+        durationChange: rerouted.estimatedDuration - (session.progress?.durationRemaining ?? 0)
+      };
+    }
+
+    const actualScore = route.segments[match.segmentIndex].safetyScore.overall - deviation.safetyImpact;
+    session.alerts.push({
+      id: `alert_${session.id}_route_deviation_${session.routeDeviations.length}`,
+      type: 'route_deviation',
+      severity: actualScore < CRITICAL_RISK_SCORE ? 'critical' : deviation.safetyImpact > 0 ? 'warning' : 'info',
+      message: `You are ${deviation.distanceFromRoute}m off your route` +
+        (deviation.safetyImpact > 0 ? ` in a less safe area (safety score ${actualScore})` : '') +
+        (candidate ? ` - a new ${optimizeFor === 'time' ? 'fastest' : optimizeFor === 'safety' ? 'safest' : 'balanced'} route from here is available` : ''),
+      location: deviation.actualLocation,
+      timestamp,
+      acknowledged: false
+    });
+  }
+
+  /**
+   * Waypoints still ahead of the matched segment, in travelled order
+   */
+  private getRemainingWaypoints(route: Route, segmentIndex: number): Location[] {
+    const waypoints = route.waypoints || [];
+    const segmentId = route.segments[segmentIndex].id;
+    const legIndex = route.legs?.findIndex(leg => leg.segmentIds.includes(segmentId)) ?? -1;
+    return legIndex >= 0 ? waypoints.slice(legIndex) : waypoints;
+  }
+
+  /**
+   * Log alerts for the segment being travelled, once per segment and alert type
+   */
+  private logSegmentAlerts(session: NavigationSession, segment: RouteSegment, location: Location, timestamp: Date): void {
+    const candidates: Array<Omit<SafetyAlert, 'location' | 'timestamp' | 'acknowledged'>> = [];
+
+    if (segment.safetyScore.overall < HIGH_RISK_SCORE) {
+      candidates.push({
+        id: `alert_${session.id}_${segment.id}_high_crime_area`,
+        type: 'high_crime_area',
+        severity: segment.safetyScore.overall < CRITICAL_RISK_SCORE ? 'critical' : 'warning',
+        message: `Entering a higher-risk stretch${segment.startLocation.address ? ` near ${segment.startLocation.address}` : ''} ` +
+          `(safety score ${segment.safetyScore.overall}) - stay alert`
+      });
+    }
+
+    const hour = timestamp.getHours();
+    if ((hour >= 20 || hour <= 6) && (segment.lightingLevel === 'low' || segment.lightingLevel === 'none')) {
+      candidates.push({
+        id: `alert_${session.id}_${segment.id}_poor_lighting`,
+        type: 'poor_lighting',
+        severity: 'info',
+        message: 'Poorly lit road ahead - keep to well-lit areas where possible'
+      });
+    }
+
+    for (const candidate of candidates) {
+      if (!session.alerts.some(alert => alert.id === candidate.id)) {
+        session.alerts.push({ ...candidate, location, timestamp, acknowledged: false });
+      }
+    }
+  }
+
+  /**
+   * Nearest point on the route polyline to a location
+   */
+  private matchToRoute(route: Route, location: Location): RouteMatch | null {
+    let best: RouteMatch | null = null;
+
+    route.segments.forEach((segment, segmentIndex) => {
+      const line = segment.geometry && segment.geometry.length >= 2
+        ? segment.geometry
+        : [
+          [segment.startLocation.longitude, segment.startLocation.latitude] as [number, number],
+          [segment.endLocation.longitude, segment.endLocation.latitude] as [number, number]
+        ];
+
+      const pieces = line.slice(1).map((point, i) => this.projectOntoPiece(location, line[i], point));
+      const lineLength = pieces.reduce((sum, piece) => sum + piece.length, 0);
+
+      let along = 0;
+      for (const piece of pieces) {
+        if (!best || piece.distance < best.distanceFromRoute) {
+          best = {
+            segmentIndex,
+            fraction: lineLength > 0 ? (along + piece.along) / lineLength : 1,
+            distanceFromRoute: piece.distance,
+            point: piece.point
+          };
+        }
+        along += piece.length;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Project a location onto a straight piece of polyline in a local planar approximation
+   */
+  private projectOntoPiece(
+    location: Location,
+    start: [number, number],
+    end: [number, number]
+  ): { distance: number; along: number; length: number; point: Location } {
+    const metersPerDegreeLat = EARTH_RADIUS * Math.PI / 180;
+    const metersPerDegreeLng = metersPerDegreeLat * Math.cos(location.latitude * Math.PI / 180);
+    const toPlane = ([lng, lat]: [number, number]) => ({
+      x: (lng - location.longitude) * metersPerDegreeLng,
+      y: (lat - location.latitude) * metersPerDegreeLat
+    });
+
+    const a = toPlane(start);
+    const b = toPlane(end);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+
+    // Location sits at the origin of the plane
+    const t = length > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / (length * length))) : 0;
+    const px = a.x + t * dx;
+    const py = a.y + t * dy;
+
+    return {
+      distance: Math.sqrt(px * px + py * py),
+      along: t * length,
+      length,
+      point: { latitude: location.latitude + py / metersPerDegreeLat, longitude: location.longitude + px / metersPerDegreeLng }
+    };
+  }
+
+  // Same check as the user routes: only the user's own session may act for them
+  private async authorizeUser(userId: string, userSessionId: string | undefined): Promise<void> {
+    const user = await this.storage.users.get(userId);
+    if (!user) {
+      throw new NavigationError('USER_NOT_FOUND', `User ${userId} not found`);
+    }
+    if (!userSessionId) {
+      throw new NavigationError('USER_SESSION_REQUIRED', 'The user\'s session is required to navigate as that user');
+    }
+    if (userSessionId !== user.sessionId) {
+      throw new NavigationError('FORBIDDEN', `Session does not belong to user ${userId}`);
+    }
+  }
+
+  /**
+   * Append a summary of a completed session to its user's history, when the user is stored
+   * Only the latest MAX_USAGE_HISTORY summaries are kept; full sessions remain in the sessions store.
+   * Runs under the user lock shared with saved-place updates.
+   */
+  private recordUsage(session: NavigationSession): Promise<void> {
+    return getUserLock(this.storage).run(session.userId, () => this.appendUsage(session));
+  }
+
+  private async appendUsage(session: NavigationSession): Promise<void> {
+    const user = await this.storage.users.get(session.userId);
+    if (!user) return;
+
+    const summary: UsageSummary = {
+      sessionId: session.id,
+      routeId: session.selectedRoute.id,
+      travelMode: session.selectedRoute.travelMode,
+      startTime: session.startTime,
+      completedAt: session.actualArrival || new Date(),
+      distance: session.selectedRoute.totalDistance,
+      safetyScore: session.selectedRoute.safetyScore.overall,
+      deviations: session.routeDeviations.length,
+      safetyRating: session.userFeedback?.safetyRating
+    };
+
+    await this.storage.users.put(user.id, {
+      ...user,
+      usageHistory: [...user.usageHistory, summary].slice(-MAX_USAGE_HISTORY),
+      lastActive: new Date()
+    });
+  }
+}
+
+// Export singleton instance
+export const navigationService = new NavigationService();
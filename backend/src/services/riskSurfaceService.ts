@@ -0,0 +1,190 @@
+// Crime Risk Surface Service
+// Continuous crime risk for any coordinate in the metro, interpolated from every CrimeData point with a
+// Gaussian kernel (weighted by each point's data confidence). Away from data the estimate falls back to
+// a metro-wide baseline and its uncertainty grows; nearby areas that disagree, or low-confidence data,
+// also add uncertainty. Because every point contributes by distance, risk changes smoothly across
+// neighbourhood borders.
+
+import { CrimeData, CrimeStatistic, EconomicData, HourlyPattern, Location } from '../types';
+import { CrimeDataService } from './crimeDataService';
+import { gridService } from './gridService';
+import { calculateDistance } from './locationService';
+
+export interface RiskEstimate {
+  risk: number; // 0-1, higher is riskier
+  uncertainty: number; // 0-1, roughly the spread of plausible risk values
+  support: number; // confidence-weighted kernel weight of nearby data, about 1 at a data point
+  sources: CrimeData['dataSource'][]; // sources of the data that contributed
+  profile: CrimeData; // area profile at the point, blended from nearby data
+}
+
+export const RISK_KERNEL_BANDWIDTH_KM = 1.5;
+export const RISK_LEVEL_COSTS: Record<CrimeData['riskLevel'], number> = { low: 0.15, medium: 0.4, high: 0.7, critical: 0.9 };
+const BASELINE_RISK = 0.3; // Risk assumed far from any known crime area
+const BASELINE_WEIGHT = 0.1; // Support at which the estimate is half baseline, half data
+const BASELINE_UNCERTAINTY = 0.5;
+const MIN_CONTRIBUTION = 0.01; // Kernel weights below this are ignored (about 3 bandwidths away)
+
+// Risk level for an interpolated risk: halfway between the level costs
+const RISK_LEVEL_THRESHOLDS: Array<[number, CrimeData['riskLevel']]> = [[0.8, 'critical'], [0.55, 'high'], [0.275, 'medium']];
+
+export class RiskSurfaceService {
+  private crimeDataService: CrimeDataService;
+
+  constructor(crimeDataService: CrimeDataService = new CrimeDataService()) {
+    this.crimeDataService = crimeDataService;
+  }
+
+  /**
+   * Interpolated crime risk at a location from all current crime data
+   */
+  public async getRiskEstimate(location: Location): Promise<RiskEstimate> {
+    return this.estimate(await this.crimeDataService.getAllCrimeData(), location);
+  }
+
+  /**
+   * Interpolated crime risk at a location from the given crime data
+   */
+  public estimate(crimeData: CrimeData[], location: Location, now: Date = new Date()): RiskEstimate {
+    const contributions = crimeData
+      .map(data => ({
+        data,
+        weight: this.kernel(calculateDistance(location, data.location) / 1000) * this.getDataConfidence(data)
+      }))
+      .filter(({ weight }) => weight >= MIN_CONTRIBUTION);
+
+    const support = contributions.reduce((sum, { weight }) => sum + weight, 0);
+    const total = support + BASELINE_WEIGHT;
+
+    const risk = (BASELINE_RISK * BASELINE_WEIGHT +
+      contributions.reduce((sum, { data, weight }) => sum + RISK_LEVEL_COSTS[data.riskLevel] * weight, 0)) / total;
+
+    // Share of the estimate taken from the baseline, disagreement between nearby areas and their data quality
+    const baselineShare = BASELINE_WEIGHT / total;
+    const spread = support > 0
+      ? Math.sqrt(contributions.reduce((sum, { data, weight }) => sum + weight * Math.pow(RISK_LEVEL_COSTS[data.riskLevel] - risk, 2), 0) / support)
+      : 0;
+    const dataUncertainty = contributions.reduce((sum, { data, weight }) => sum + weight * (1 - this.getDataConfidence(data)), 0) / total;
+    const uncertainty = Math.min(1, baselineShare * BASELINE_UNCERTAINTY + spread + dataUncertainty);
+
+    return {
+      risk: this.round(risk, 4),
+      uncertainty: this.round(uncertainty, 4),
+      support: this.round(support, 4),
+      sources: Array.from(new Set(contributions.map(({ data }) => data.dataSource))),
+      profile: this.buildProfile(crimeData, contributions, location, risk, now)
+    };
+  }
+
+  /**
+   * Risk level matching an interpolated risk value
+   */
+  public getRiskLevel(risk: number): CrimeData['riskLevel'] {
+    return RISK_LEVEL_THRESHOLDS.find(([threshold]) => risk >= threshold)?.[1] || 'low';
+  }
+
+  /**
+   * Crime data describing the point itself: statistics are kernel density estimates (nearby incidents
+   * weighted by distance), area context is kernel-averaged towards the metro average
+   */
+  private buildProfile(
+    crimeData: CrimeData[],
+    contributions: Array<{ data: CrimeData; weight: number }>,
+    location: Location,
+    risk: number,
+    now: Date
+  ): CrimeData {
+    const strongest = contributions.reduce<{ data: CrimeData; weight: number } | undefined>(
+      (best, contribution) => (!best || contribution.weight > best.weight ? contribution : best), undefined
+    );
+    const gridCell = gridService.pointToCell(location.latitude, location.longitude);
+
+    const blend = (value: (data: CrimeData) => number): number => {
+      const baseline = crimeData.length ? crimeData.reduce((sum, data) => sum + value(data), 0) / crimeData.length : 0;
+      return (baseline * BASELINE_WEIGHT + contributions.reduce((sum, { data, weight }) => sum + value(data) * weight, 0)) /
+        (BASELINE_WEIGHT + contributions.reduce((sum, { weight }) => sum + weight, 0));
+    };
+
+    const economicIndicators: EconomicData = {
+      averageIncome: Math.round(blend(data => data.economicIndicators.averageIncome)),
+      unemploymentRate: this.round(blend(data => data.economicIndicators.unemploymentRate), 1),
+      businessDensity: Math.round(blend(data => data.economicIndicators.businessDensity)),
+      lightingInfrastructure: Math.round(blend(data => data.economicIndicators.lightingInfrastructure))
+    };
+
+    return {
+      id: `surface_${gridCell}`,
+      location: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        address: location.address || strongest?.data.location.address,
+        neighborhood: location.neighborhood || strongest?.data.location.neighborhood
+      },
+      gridCell,
+      timeframe: strongest?.data.timeframe || { start: now, end: now },
+      crimeStats: this.blendStatistics(contributions),
+      riskLevel: this.getRiskLevel(risk),
+      populationDensity: Math.round(blend(data => data.populationDensity)),
+      economicIndicators,
+      lastUpdated: contributions.length
+        ? new Date(Math.max(...contributions.map(({ data }) => new Date(data.lastUpdated).getTime())))
+        : now,
+      dataSource: strongest?.data.dataSource || 'synthetic'
+    };
+  }
+
+  /**
+   * One statistic per crime type and subtype: counts are summed by kernel weight, the rest averaged
+   */
+  private blendStatistics(contributions: Array<{ data: CrimeData; weight: number }>): CrimeStatistic[] {
+    const groups = new Map<string, Array<{ stat: CrimeStatistic; weight: number }>>();
+    for (const { data, weight } of contributions) {
+      for (const stat of data.crimeStats) {
+        const key = `${stat.type}:${stat.subtype}`;
+        if (!groups.has(key)) {
+          groups.set(key, []);
+        }
+        groups.get(key)!.push({ stat, weight });
+      }
+    }
+
+    return Array.from(groups.values()).map(entries => {
+      const totalWeight = entries.reduce((sum, { weight }) => sum + weight, 0);
+      const average = (value: (stat: CrimeStatistic) => number) =>
+        entries.reduce((sum, { stat, weight }) => sum + value(stat) * weight, 0) / totalWeight;
+
+      const timePattern: HourlyPattern = {};
+      for (let hour = 0; hour < 24; hour++) {
+        timePattern[hour.toString()] = this.round(average(stat => stat.timePattern[hour.toString()] || 0), 4);
+      }
+
+      return {
+        type: entries[0].stat.type,
+        subtype: entries[0].stat.subtype,
+        incidentCount: this.round(entries.reduce((sum, { stat, weight }) => sum + stat.incidentCount * weight, 0), 2),
+        severity: Math.round(average(stat => stat.severity)),
+        timePattern,
+        confidence: Math.round(average(stat => stat.confidence))
+      };
+    });
+  }
+
+  private kernel(distanceKm: number): number {
+    return Math.exp(-Math.pow(distanceKm / RISK_KERNEL_BANDWIDTH_KM, 2));
+  }
+
+  /**
+   * Mean statistic confidence of a data point (0-1)
+   */
+  private getDataConfidence(data: CrimeData): number {
+    if (data.crimeStats.length === 0) return 0.5;
+    return data.crimeStats.reduce((sum, stat) => sum + stat.confidence, 0) / data.crimeStats.length / 100;
+  }
+
+  private round(value: number, decimals: number): number {
+    return parseFloat(value.toFixed(decimals));
+  }
+}
+
+// Export singleton instance
+export const riskSurfaceService = new RiskSurfaceService();
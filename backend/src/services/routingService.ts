@@ -0,0 +1,1184 @@
+// Road Network Routing Service
+// Builds a weighted graph from the Cape Town road network and finds road-following routes
+// Edge tags (highway, lit, toll, maxspeed) drive segment road types and lighting levels
+// Edge cost mixes travel time with per-edge risk from SafetyScoringService: time * (1 + riskWeight * risk)
+// Travel modes set speeds, usable roads and risk weighting; transit itineraries walk to timetabled MyCiTi / Metrorail rides
+
+import {
+  AvoidAreaReport,
+  Location,
+  RoadTypeBreakdown,
+  Route,
+  RouteOptimization,
+  RouteRequest,
+  RouteLeg,
+  RouteSegment,
+  SafetyScore,
+  TimeContext,
+  TravelMode
+} from '../types';
+import { loadRoadNetwork, roadNetworkGenerator, RoadFeature, RoadNetworkCollection } from '../data/road-network';
+import { formatGtfsTime, GtfsFeed } from '../data/gtfs';
+import { SafetyScoringService } from './safetyScoringService';
+import { scoringModelService } from './scoringModelService';
+import { getCrimeDataVersion } from './crimeDataService';
+import { AvoidAreaService, ResolvedAvoidArea } from './avoidAreaService';
+import { TransitJourney, TransitRide, TransitService } from './transitService';
+import { v4 as uuidv4 } from 'uuid';
+import { calculateDistance } from './locationService';
+
+export interface RoadNode {
+  id: number;
+  latitude: number;
+  longitude: number;
+}
+
+export interface RoadEdge {
+  id: number;
+  from: number;
+  to: number;
+  distance: number; // meters
+  highway: string;
+  roadType: RouteSegment['roadType'];
+  lightingLevel: RouteSegment['lightingLevel'];
+  toll: boolean;
+  maxSpeed: number; // km/h
+  contraflow: boolean; // runs against a oneway, usable on foot only
+  name?: string;
+}
+
+export interface RoadPath {
+  nodes: RoadNode[];
+  edges: RoadEdge[];
+  distance: number;
+  duration: number;
+  cost: number;
+}
+
+export interface RouteAlternatives {
+  routes: Route[];
+  avoidAreas: AvoidAreaReport[];
+  relaxedOptions: Array<'avoidTolls' | 'avoidHighways'>;
+}
+
+/**
+ * Cost of traversing an edge; return Infinity to exclude the edge from the search
+ */
+export type EdgeCostFunction = (edge: RoadEdge) => number;
+
+/**
+ * Modes that travel the road graph themselves; transit journeys walk to and from stops
+ */
+export type StreetMode = Exclude<TravelMode, 'transit'>;
+
+interface TravelModeProfile {
+  speed?: number; // km/h, capped by the edge speed limit; drivers travel at the limit
+  excludedHighways: string[];
+  followsOneway: boolean;
+}
+
+interface WalkLeg {
+  from: Location;
+  to: Location;
+  path: RoadPath;
+}
+
+/**
+ * One stop-to-stop leg: a road path, or a timetabled journey with walks before, between and after rides
+ */
+interface CandidateLeg {
+  from: Location;
+  to: Location;
+  path?: RoadPath;
+  transit?: { journey: TransitJourney; walks: Array<WalkLeg | null> };
+}
+
+interface RouteCandidate {
+  optimizedFor: RouteOptimization[];
+  legs: CandidateLeg[];
+}
+
+const MAX_SEGMENT_LENGTH = 2000; // meters, keeps segment safety scoring granular
+const ALTERNATIVE_EDGE_PENALTY = 2;
+const MAX_ALTERNATIVE_ATTEMPTS = 5;
+
+// Weight of edge risk (0-1) relative to travel time for each optimisation profile
+const OPTIMIZATION_RISK_WEIGHTS: Record<RouteOptimization, number> = {
+  time: 0,
+  balanced: 2,
+  safety: 6
+};
+
+const ROUTE_LABELS: Record<RouteOptimization, string> = {
+  time: 'fastest',
+  safety: 'safest',
+  balanced: 'balanced'
+};
+
+const RELAXED_AREA_PENALTY = 10; // hard avoid-areas that cannot be excluded fall back to this penalty
+const RELAXED_ROAD_OPTION_PENALTY = 10; // likewise for avoidHighways / avoidTolls
+
+type RoadOption = 'avoidTolls' | 'avoidHighways';
+const ROAD_OPTIONS: RoadOption[] = ['avoidTolls', 'avoidHighways'];
+
+type UnavoidedAreaReason = Exclude<NonNullable<AvoidAreaReport['reason']>, 'unrecognized_area'>;
+
+const AVOID_AREA_MESSAGES: Record<UnavoidedAreaReason, string> = {
+  origin_inside_area: 'The origin lies inside this area',
+  destination_inside_area: 'The destination lies inside this area',
+  waypoint_inside_area: 'A waypoint lies inside this area',
+  no_route_outside_area: 'No road connection exists that bypasses this area',
+  detour_too_costly: 'Bypassing this area costs more than its soft penalty'
+};
+
+// Waypoint orders are searched exhaustively up to this many stops, then by nearest neighbour and 2-opt
+const MAX_EXACT_WAYPOINT_ORDER = 8;
+
+const RISK_CELL_SIZE = 0.005; // degrees, edges in the same cell share one risk evaluation
+const MAX_RISK_CACHE_ENTRIES = 48;
+
+const TRAVEL_MODE_PROFILES: Record<StreetMode, TravelModeProfile> = {
+  driving: { excludedHighways: ['footway', 'pedestrian', 'path', 'steps', 'cycleway', 'bridleway'], followsOneway: true },
+  cycling: {
+    speed: 16,
+    excludedHighways: ['motorway', 'motorway_link', 'trunk', 'trunk_link', 'footway', 'pedestrian', 'steps', 'bridleway'],
+    followsOneway: true
+  },
+  walking: { speed: 5, excludedHighways: ['motorway', 'motorway_link', 'trunk', 'trunk_link', 'cycleway'], followsOneway: false }
+};
+
+// Longest walk (meters) to or from a stop per optimisation profile; safer itineraries walk less
+const TRANSIT_MAX_WALK_DISTANCES: Record<RouteOptimization, number> = {
+  time: 2000,
+  balanced: 1200,
+  safety: 700
+};
+
+export class RoutingService {
+  private nodes: RoadNode[] = [];
+  private adjacency: RoadEdge[][] = [];
+  private edgeCount = 0;
+  private initialized = false;
+  private network?: RoadNetworkCollection;
+  private safetyScoringService: SafetyScoringService;
+  private avoidAreaService: AvoidAreaService;
+  private transitService: TransitService;
+  private edgeRiskCache: Map<string, Float64Array> = new Map();
+  private edgeRiskDataVersion = getCrimeDataVersion();
+
+  constructor(network?: RoadNetworkCollection, transitFeed?: GtfsFeed) {
+    this.network = network;
+    this.safetyScoringService = new SafetyScoringService();
+    this.avoidAreaService = new AvoidAreaService();
+    this.transitService = new TransitService(transitFeed);
+  }
+
+  /**
+   * Build the road graph from the configured network file or the synthetic lattice
+   */
+  private initializeGraph(): void {
+    if (this.initialized) return;
+
+    const network = this.network || loadRoadNetwork();
+    const nodeIndex = new Map<string, number>();
+
+    for (const feature of network.features) {
+      for (const line of this.getFeatureLines(feature)) {
+        for (let i = 0; i < line.length - 1; i++) {
+          const from = this.getOrCreateNode(nodeIndex, line[i]);
+          const to = this.getOrCreateNode(nodeIndex, line[i + 1]);
+          if (from === to) continue;
+
+          // Both directions are kept so pedestrians can walk against oneways
+          const oneway = feature.properties.oneway;
+          this.addEdge(from, to, feature, oneway === '-1');
+          this.addEdge(to, from, feature, oneway === 'yes');
+        }
+      }
+    }
+
+    this.initialized = true;
+    console.log(`RoutingService initialized with ${this.nodes.length} nodes and ${this.edgeCount} edges`);
+  }
+
+  /**
+   * Snap a location to the closest node in the road graph
+   * @param travelMode When set, only nodes with a road usable in this mode are considered
+   */
+  public findNearestNode(location: Location, travelMode?: StreetMode): RoadNode {
+    this.initializeGraph();
+
+    let nearest = this.nodes[0];
+    let minDistance = Infinity;
+
+    for (const node of this.nodes) {
+      if (travelMode && !this.adjacency[node.id].some(edge => Number.isFinite(this.getTravelTime(edge, travelMode)))) continue;
+
+      const distance = calculateDistance(location, node);
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearest = node;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Find the lowest-cost path between two locations (Dijkstra over the road graph)
+   * @param origin Start location, snapped to the nearest node
+   * @param destination End location, snapped to the nearest node
+   * @param cost Edge cost function, defaults to travel time in the travel mode
+   * @param travelMode Mode used for snapping and path duration
+   * @returns Road path, or null if the destination is unreachable
+   */
+  public findPath(
+    origin: Location,
+    destination: Location,
+    cost: EdgeCostFunction = edge => this.getTravelTime(edge, travelMode),
+    travelMode: StreetMode = 'driving'
+  ): RoadPath | null {
+    this.initializeGraph();
+
+    const start = this.findNearestNode(origin, travelMode);
+    const target = this.findNearestNode(destination, travelMode);
+    const { costs, previousEdge } = this.runDijkstra(start, cost, target);
+
+    if (!Number.isFinite(costs[target.id])) return null;
+
+    const edges: RoadEdge[] = [];
+    for (let edge = previousEdge[target.id]; edge; edge = previousEdge[edge.from]) {
+      edges.unshift(edge);
+    }
+
+    return {
+      nodes: [start, ...edges.map(edge => this.nodes[edge.to])],
+      edges,
+      distance: edges.reduce((sum, edge) => sum + edge.distance, 0),
+      duration: edges.reduce((sum, edge) => sum + this.getTravelTime(edge, travelMode), 0),
+      cost: costs[target.id]
+    };
+  }
+
+  /**
+   * Lowest costs from a location to every node in the road graph
+   * @param origin Start location, snapped to the nearest node
+   * @param cost Edge cost function
+   * @param travelMode Mode used for snapping
+   */
+  public findCostsFrom(origin: Location, cost: EdgeCostFunction, travelMode: StreetMode = 'driving'): Float64Array {
+    this.initializeGraph();
+    return this.runDijkstra(this.findNearestNode(origin, travelMode), cost).costs;
+  }
+
+  /**
+   * Dijkstra search from a node, stopping early once the target (if any) is settled
+   */
+  private runDijkstra(
+    start: RoadNode,
+    cost: EdgeCostFunction,
+    target?: RoadNode
+  ): { costs: Float64Array; previousEdge: Array<RoadEdge | undefined> } {
+    const costs = new Float64Array(this.nodes.length).fill(Infinity);
+    const previousEdge: Array<RoadEdge | undefined> = new Array(this.nodes.length);
+    const heap = new MinHeap();
+
+    costs[start.id] = 0;
+    heap.push(start.id, 0);
+
+    while (heap.size > 0) {
+      const { id, priority } = heap.pop()!;
+      if (priority > costs[id]) continue;
+      if (id === target?.id) break;
+
+      for (const edge of this.adjacency[id]) {
+        const edgeCost = cost(edge);
+        if (!Number.isFinite(edgeCost)) continue;
+
+        const candidate = priority + edgeCost;
+        if (candidate < costs[edge.to]) {
+          costs[edge.to] = candidate;
+          previousEdge[edge.to] = edge;
+          heap.push(edge.to, candidate);
+        }
+      }
+    }
+
+    return { costs, previousEdge };
+  }
+
+  /**
+   * Travel time across an edge in seconds, or Infinity where the mode may not use the edge
+   */
+  public getTravelTime(edge: RoadEdge, travelMode: StreetMode = 'driving'): number {
+    const profile = TRAVEL_MODE_PROFILES[travelMode];
+    if (profile.excludedHighways.includes(edge.highway) || (edge.contraflow && profile.followsOneway)) {
+      return Infinity;
+    }
+    return edge.distance / (this.getSpeed(edge, travelMode) / 3.6);
+  }
+
+  /**
+   * Speed in km/h for a mode on an edge, ignoring whether the mode may use it
+   */
+  private getSpeed(edge: RoadEdge, travelMode: StreetMode): number {
+    const speed = TRAVEL_MODE_PROFILES[travelMode].speed;
+    return speed ? Math.min(speed, edge.maxSpeed) : edge.maxSpeed;
+  }
+
+  /**
+   * Per-edge risk (0-1) from SafetyScoringService, indexed by edge ID
+   * Risk is evaluated once per grid cell and lighting level, and cached per model version, mode, weekday and hour
+   * until crowdsourced or imported crime data changes
+   */
+  public async getEdgeRisks(timeContext?: TimeContext, travelMode: StreetMode = 'driving', modelVersion?: string): Promise<Float64Array> {
+    this.initializeGraph();
+
+    const dataVersion = getCrimeDataVersion();
+    if (dataVersion !== this.edgeRiskDataVersion) {
+      this.edgeRiskCache.clear();
+      this.edgeRiskDataVersion = dataVersion;
+    }
+
+    const model = scoringModelService.getModel(modelVersion).version;
+    const time = timeContext?.currentTime ? new Date(timeContext.currentTime) : null;
+    const cacheKey = `${model}_${travelMode}_${time ? `${time.getDay()}_${time.getHours()}` : 'default'}`;
+    const cached = this.edgeRiskCache.get(cacheKey);
+    if (cached) return cached;
+
+    const risks = new Float64Array(this.edgeCount);
+    const cellRisks = new Map<string, number>();
+
+    for (const edges of this.adjacency) {
+      for (const edge of edges) {
+        const from = this.nodes[edge.from];
+        const to = this.nodes[edge.to];
+        const cellLat = Math.floor((from.latitude + to.latitude) / 2 / RISK_CELL_SIZE);
+        const cellLng = Math.floor((from.longitude + to.longitude) / 2 / RISK_CELL_SIZE);
+        const cellKey = `${cellLat}_${cellLng}_${edge.lightingLevel}`;
+
+        let risk = cellRisks.get(cellKey);
+        if (risk === undefined) {
+          const cellCenter: Location = {
+            latitude: (cellLat + 0.5) * RISK_CELL_SIZE,
+            longitude: (cellLng + 0.5) * RISK_CELL_SIZE
+          };
+          risk = await this.safetyScoringService.calculateRiskCost(cellCenter, timeContext, edge.lightingLevel, travelMode, model);
+          cellRisks.set(cellKey, risk);
+        }
+
+        risks[edge.id] = risk;
+      }
+    }
+
+    if (this.edgeRiskCache.size >= MAX_RISK_CACHE_ENTRIES) {
+      this.edgeRiskCache.delete(this.edgeRiskCache.keys().next().value as string);
+    }
+    this.edgeRiskCache.set(cacheKey, risks);
+
+    return risks;
+  }
+
+  /**
+   * Edge cost for an optimisation profile: travel time inflated by weighted edge risk
+   */
+  public createCostFunction(optimizeFor: RouteOptimization, edgeRisks: Float64Array, travelMode: StreetMode = 'driving'): EdgeCostFunction {
+    const riskWeight = OPTIMIZATION_RISK_WEIGHTS[optimizeFor];
+    return edge => this.getTravelTime(edge, travelMode) * (1 + riskWeight * edgeRisks[edge.id]);
+  }
+
+  /**
+   * Generate road-following route alternatives for a route request
+   * Routes pass through every waypoint in order, or in the cheapest order when
+   * optimizeWaypointOrder is set; each stop-to-stop leg is searched separately.
+   * Each optimisation profile is searched with its own cost function, requested profile first.
+   * Profiles that share an optimal path share one route; remaining slots are filled with
+   * alternatives to the requested profile, diversified with edge penalties.
+   * Transit requests search the timetable per profile and walk to, between and from stops,
+   * falling back to walking when no journey fits.
+   * Avoid-areas are applied as hard exclusions or soft penalties; hard areas are relaxed
+   * to penalties when they contain a stop or leave no route, and reported as such.
+   * @param request Route request with origin, destination, waypoints, preferences and options
+   * @param timeContext Time context used for edge risk and transit departures
+   */
+  public async generateRouteAlternatives(request: RouteRequest, timeContext?: TimeContext): Promise<RouteAlternatives> {
+    const travelMode = this.resolveTravelMode(request);
+    const streetMode: StreetMode = travelMode === 'transit' ? 'walking' : travelMode;
+    const edgeRisks = await this.getEdgeRisks(timeContext, streetMode, request.options?.modelVersion);
+    const { areas, unrecognized } = await this.avoidAreaService.resolveAvoidAreas(request.preferences?.avoidAreas);
+    const waypoints = request.waypoints || [];
+
+    // Hard exclusions cannot apply to an area the journey starts, stops or ends in
+    const relaxed = new Map<ResolvedAvoidArea, UnavoidedAreaReason>();
+    for (const area of areas.filter(a => a.mode === 'hard')) {
+      if (area.contains(request.origin.latitude, request.origin.longitude)) {
+        relaxed.set(area, 'origin_inside_area');
+      } else if (area.contains(request.destination.latitude, request.destination.longitude)) {
+        relaxed.set(area, 'destination_inside_area');
+      } else if (waypoints.some(waypoint => area.contains(waypoint.latitude, waypoint.longitude))) {
+        relaxed.set(area, 'waypoint_inside_area');
+      }
+    }
+
+    const areaEdges = areas.map(area => this.findEdgesInArea(area));
+    const relaxedOptions = new Set<RoadOption>();
+    const buildModifiers = () => this.buildEdgeModifiers(request, relaxedOptions, areas, areaEdges, relaxed);
+
+    const waypointOrder = request.options?.optimizeWaypointOrder && waypoints.length > 1
+      ? this.optimizeWaypointOrder(request, edgeRisks, buildModifiers(), streetMode)
+      : waypoints.map((_, index) => index);
+    const stops = [request.origin, ...waypointOrder.map(index => waypoints[index]), request.destination];
+    const search = () => this.searchAlternatives(request, stops, edgeRisks, buildModifiers(), streetMode);
+
+    const departureTime = timeContext?.currentTime ? new Date(timeContext.currentTime) : new Date();
+    let found = travelMode === 'transit'
+      ? this.searchTransitAlternatives(request, stops, edgeRisks, buildModifiers(), departureTime)
+      : [];
+
+    if (found.length === 0) {
+      found = search();
+    }
+
+    // Relax constraints that leave no route: road options first, then hard avoid-areas
+    const requestedOptions = ROAD_OPTIONS.filter(option => request.options?.[option]);
+    if (found.length === 0 && requestedOptions.length > 0) {
+      requestedOptions.forEach(option => relaxedOptions.add(option));
+      found = search();
+    }
+
+    if (found.length === 0 && areas.some(area => area.mode === 'hard' && !relaxed.has(area))) {
+      areas.filter(area => area.mode === 'hard' && !relaxed.has(area))
+        .forEach(area => relaxed.set(area, 'no_route_outside_area'));
+      found = search();
+    }
+
+    const routes = found.map(({ legs, optimizedFor }, index) => {
+      const label = optimizedFor.length > 0 ? ROUTE_LABELS[optimizedFor[0]] : 'alternative';
+      const route = this.buildRoute(`route_${label}_${uuidv4().slice(0, 8)}`, legs, request, index + 1, streetMode);
+      return { ...route, waypointOrder, optimizedFor };
+    });
+
+    const avoidAreas: AvoidAreaReport[] = areas.map((area, index) => {
+      const routeIds = found
+        .map(({ legs }, routeIndex) =>
+          this.getCandidatePaths(legs).some(path => path.edges.some(edge => areaEdges[index].has(edge.id))) ? routes[routeIndex].id : null
+        )
+        .filter((id): id is string => id !== null);
+      const report: AvoidAreaReport = { area: area.label, mode: area.mode, avoided: routeIds.length === 0, routeIds };
+
+      if (routeIds.length > 0) {
+        const reason = relaxed.get(area) || 'detour_too_costly';
+        report.reason = reason;
+        report.message = AVOID_AREA_MESSAGES[reason];
+      }
+      return report;
+    });
+
+    return { routes, avoidAreas: [...avoidAreas, ...unrecognized], relaxedOptions: Array.from(relaxedOptions) };
+  }
+
+  /**
+   * Travel mode for a request: explicit option, then first preferred mode, then driving
+   */
+  private resolveTravelMode(request: RouteRequest): TravelMode {
+    return request.options?.travelMode || request.preferences?.preferredTravelModes?.[0] || 'driving';
+  }
+
+  /**
+   * Optimisation profiles to search, requested profile first
+   */
+  private getProfileOrder(request: RouteRequest): RouteOptimization[] {
+    const primary = request.options?.optimizeFor || 'balanced';
+    return [
+      primary,
+      ...(['time', 'safety', 'balanced'] as RouteOptimization[]).filter(profile => profile !== primary)
+    ];
+  }
+
+  /**
+   * Order waypoints for the lowest total cost under the requested profile, which combines
+   * travel time and risk. Transit requests order stops by walking cost.
+   * @returns Indices into request.waypoints in travel order
+   */
+  private optimizeWaypointOrder(
+    request: RouteRequest,
+    edgeRisks: Float64Array,
+    edgeModifiers: Float64Array | null,
+    travelMode: StreetMode
+  ): number[] {
+    const waypoints = request.waypoints || [];
+    const baseCost = this.createCostFunction(request.options?.optimizeFor || 'balanced', edgeRisks, travelMode);
+    const cost: EdgeCostFunction = edgeModifiers ? edge => baseCost(edge) * edgeModifiers[edge.id] : baseCost;
+
+    // Cost matrix over [origin, ...waypoints, destination]
+    const points = [request.origin, ...waypoints, request.destination];
+    const targets = points.map(point => this.findNearestNode(point, travelMode).id);
+    const matrix = points.slice(0, -1).map(point => {
+      const costs = this.findCostsFrom(point, cost, travelMode);
+      return targets.map(target => costs[target]);
+    });
+
+    const destination = points.length - 1;
+    const tourCost = (order: number[]) => [0, ...order.map(index => index + 1), destination]
+      .reduce((sum, point, i, tour) => i === 0 ? 0 : sum + matrix[tour[i - 1]][point], 0);
+
+    const indices = waypoints.map((_, index) => index);
+    let best = indices;
+
+    if (waypoints.length <= MAX_EXACT_WAYPOINT_ORDER) {
+      let bestCost = tourCost(best);
+      for (const order of this.permutations(indices)) {
+        const orderCost = tourCost(order);
+        if (orderCost < bestCost) {
+          bestCost = orderCost;
+          best = order;
+        }
+      }
+      return best;
+    }
+
+    // Nearest neighbour from the origin, then 2-opt segment reversals until no improvement
+    const remaining = new Set(indices);
+    best = [];
+    for (let current = 0; remaining.size > 0;) {
+      const next = Array.from(remaining).reduce((a, b) => matrix[current][a + 1] <= matrix[current][b + 1] ? a : b);
+      best.push(next);
+      remaining.delete(next);
+      current = next + 1;
+    }
+
+    for (let improved = true; improved;) {
+      improved = false;
+      for (let i = 0; i < best.length - 1; i++) {
+        for (let j = i + 1; j < best.length; j++) {
+          const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+          if (tourCost(candidate) < tourCost(best)) {
+            best = candidate;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private *permutations(items: number[]): Generator<number[]> {
+    if (items.length <= 1) {
+      yield items;
+      return;
+    }
+    for (let i = 0; i < items.length; i++) {
+      const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+      for (const permutation of this.permutations(rest)) {
+        yield [items[i], ...permutation];
+      }
+    }
+  }
+
+  private searchAlternatives(
+    request: RouteRequest,
+    stops: Location[],
+    edgeRisks: Float64Array,
+    edgeModifiers: Float64Array | null,
+    travelMode: StreetMode
+  ): RouteCandidate[] {
+    const maxRoutes = request.options?.maxRoutes || 3;
+    const profiles = this.getProfileOrder(request);
+
+    const withModifiers = (cost: EdgeCostFunction): EdgeCostFunction =>
+      edgeModifiers ? edge => cost(edge) * edgeModifiers[edge.id] : cost;
+
+    // Every leg must be reachable for the route to exist
+    const findLegs = (cost: EdgeCostFunction): CandidateLeg[] | null => {
+      const legs: CandidateLeg[] = [];
+      for (let i = 0; i < stops.length - 1; i++) {
+        const path = this.findPath(stops[i], stops[i + 1], cost, travelMode);
+        if (!path) return null;
+        legs.push({ from: stops[i], to: stops[i + 1], path });
+      }
+      return legs;
+    };
+    const getSignature = (legs: CandidateLeg[]) => legs.map(leg => this.getPathSignature(leg.path!)).join('|');
+
+    const found: RouteCandidate[] = [];
+    const bySignature = new Map<string, RouteCandidate>();
+
+    for (const profile of profiles) {
+      const legs = findLegs(withModifiers(this.createCostFunction(profile, edgeRisks, travelMode)));
+      if (!legs) continue;
+
+      const signature = getSignature(legs);
+      const existing = bySignature.get(signature);
+      if (existing) {
+        existing.optimizedFor.push(profile);
+      } else if (found.length < maxRoutes) {
+        const entry = { legs, optimizedFor: [profile] };
+        bySignature.set(signature, entry);
+        found.push(entry);
+      }
+    }
+
+    // Fill remaining slots with penalised alternatives to the requested profile
+    const primaryCost = withModifiers(this.createCostFunction(profiles[0], edgeRisks, travelMode));
+    const penalties = new Map<string, number>();
+    found.forEach(entry => entry.legs.forEach(leg => this.penalisePath(leg.path!, penalties)));
+
+    for (let attempt = 0; found.length > 0 && found.length < maxRoutes && attempt < maxRoutes * MAX_ALTERNATIVE_ATTEMPTS; attempt++) {
+      const legs = findLegs(edge => primaryCost(edge) * (penalties.get(this.getEdgeKey(edge)) ?? 1));
+      if (!legs) break;
+
+      legs.forEach(leg => this.penalisePath(leg.path!, penalties));
+      const signature = getSignature(legs);
+      if (!bySignature.has(signature)) {
+        const entry = { legs, optimizedFor: [] };
+        bySignature.set(signature, entry);
+        found.push(entry);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Timetabled journeys per optimisation profile; safer profiles allow shorter walks to stops
+   * and route those walks with their own risk weighting. Legs are searched in sequence, each
+   * departing when the previous one arrives; legs without a fitting journey are walked.
+   * Routes are only returned when at least one leg rides transit.
+   */
+  private searchTransitAlternatives(
+    request: RouteRequest,
+    stops: Location[],
+    edgeRisks: Float64Array,
+    edgeModifiers: Float64Array | null,
+    departureTime: Date
+  ): RouteCandidate[] {
+    const maxRoutes = request.options?.maxRoutes || 3;
+    const found: RouteCandidate[] = [];
+    const bySignature = new Map<string, RouteCandidate>();
+
+    for (const profile of this.getProfileOrder(request)) {
+      const baseCost = this.createCostFunction(profile, edgeRisks, 'walking');
+      const cost: EdgeCostFunction = edgeModifiers ? edge => baseCost(edge) * edgeModifiers[edge.id] : baseCost;
+
+      const legs: CandidateLeg[] = [];
+      let elapsed = 0;
+      for (let i = 0; i < stops.length - 1; i++) {
+        const [from, to] = [stops[i], stops[i + 1]];
+        const legDeparture = new Date(departureTime.getTime() + elapsed * 1000);
+        const journey = this.transitService.findJourney(from, to, legDeparture, TRANSIT_MAX_WALK_DISTANCES[profile]);
+        const walks = journey ? this.findWalkingLegs(from, to, journey, cost) : null;
+
+        if (journey && walks) {
+          legs.push({ from, to, transit: { journey, walks } });
+          elapsed += journey.arrival - journey.departure;
+          continue;
+        }
+
+        const path = this.findPath(from, to, cost, 'walking');
+        if (!path) break;
+        legs.push({ from, to, path });
+        elapsed += path.duration;
+      }
+      if (legs.length < stops.length - 1 || !legs.some(leg => leg.transit)) continue;
+
+      const signature = legs.map(leg => leg.transit
+        ? leg.transit.journey.rides.map(ride => `${ride.trip.id}:${ride.boardStop.id}-${ride.alightStop.id}`).join(',')
+        : this.getPathSignature(leg.path!)
+      ).join('|');
+      const existing = bySignature.get(signature);
+      if (existing) {
+        existing.optimizedFor.push(profile);
+      } else if (found.length < maxRoutes) {
+        const entry: RouteCandidate = { legs, optimizedFor: [profile] };
+        bySignature.set(signature, entry);
+        found.push(entry);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Walks from the leg start to the first stop, between rides and from the last stop
+   * Changes at the same stop need no walk; returns null when any walk is unreachable
+   */
+  private findWalkingLegs(from: Location, to: Location, journey: TransitJourney, cost: EdgeCostFunction): Array<WalkLeg | null> | null {
+    const stopLocation = (stop: TransitRide['boardStop']): Location =>
+      ({ latitude: stop.latitude, longitude: stop.longitude, address: stop.name });
+
+    const endpoints: Array<[Location, Location]> = [];
+    journey.rides.forEach((ride, index) => {
+      const start = index === 0 ? from : stopLocation(journey.rides[index - 1].alightStop);
+      endpoints.push([start, stopLocation(ride.boardStop)]);
+    });
+    endpoints.push([stopLocation(journey.rides[journey.rides.length - 1].alightStop), to]);
+
+    const walks: Array<WalkLeg | null> = [];
+    for (const [start, end] of endpoints) {
+      if (start.latitude === end.latitude && start.longitude === end.longitude) {
+        walks.push(null);
+        continue;
+      }
+
+      const path = this.findPath(start, end, cost, 'walking');
+      if (!path) return null;
+      walks.push({ from: start, to: end, path });
+    }
+
+    return walks;
+  }
+
+  /**
+   * Every road path a candidate follows, including walks to and from transit stops
+   */
+  private getCandidatePaths(legs: CandidateLeg[]): RoadPath[] {
+    return legs.flatMap(leg => leg.transit
+      ? leg.transit.walks.filter((walk): walk is WalkLeg => walk !== null).map(walk => walk.path)
+      : [leg.path!]
+    );
+  }
+
+  /**
+   * Per-edge cost multipliers for road options and avoid-areas
+   * Infinity excludes an edge; relaxed constraints and soft areas multiply by a penalty
+   */
+  private buildEdgeModifiers(
+    request: RouteRequest,
+    relaxedOptions: Set<RoadOption>,
+    areas: ResolvedAvoidArea[],
+    areaEdges: Array<Set<number>>,
+    relaxed: Map<ResolvedAvoidArea, UnavoidedAreaReason>
+  ): Float64Array | null {
+    const avoidHighways = !!request.options?.avoidHighways;
+    const avoidTolls = !!request.options?.avoidTolls;
+    if (areas.length === 0 && !avoidHighways && !avoidTolls) return null;
+
+    const modifiers = new Float64Array(this.edgeCount).fill(1);
+
+    if (avoidHighways || avoidTolls) {
+      const highwayMultiplier = relaxedOptions.has('avoidHighways') ? RELAXED_ROAD_OPTION_PENALTY : Infinity;
+      const tollMultiplier = relaxedOptions.has('avoidTolls') ? RELAXED_ROAD_OPTION_PENALTY : Infinity;
+
+      for (const edges of this.adjacency) {
+        for (const edge of edges) {
+          if (avoidHighways && edge.roadType === 'highway') modifiers[edge.id] *= highwayMultiplier;
+          if (avoidTolls && edge.toll) modifiers[edge.id] *= tollMultiplier;
+        }
+      }
+    }
+
+    areas.forEach((area, index) => {
+      const isHard = area.mode === 'hard' && !relaxed.has(area);
+      const multiplier = isHard ? Infinity : relaxed.has(area) ? RELAXED_AREA_PENALTY : area.penalty;
+      areaEdges[index].forEach(edgeId => {
+        modifiers[edgeId] *= multiplier;
+      });
+    });
+
+    return modifiers;
+  }
+
+  private findEdgesInArea(area: ResolvedAvoidArea): Set<number> {
+    this.initializeGraph();
+
+    const edgeIds = new Set<number>();
+    for (const edges of this.adjacency) {
+      for (const edge of edges) {
+        const from = this.nodes[edge.from];
+        const to = this.nodes[edge.to];
+        if (area.contains(from.latitude, from.longitude) ||
+            area.contains(to.latitude, to.longitude) ||
+            area.contains((from.latitude + to.latitude) / 2, (from.longitude + to.longitude) / 2)) {
+          edgeIds.add(edge.id);
+        }
+      }
+    }
+    return edgeIds;
+  }
+
+  /**
+   * Convert candidate legs into a Route with segments grouped by road type and lighting
+   * Transit legs mix walking and ride segments; waiting at a stop is counted in the ride that follows
+   */
+  private buildRoute(routeId: string, legs: CandidateLeg[], request: RouteRequest, alternativeRank: number, streetMode: StreetMode): Route {
+    const segments: RouteSegment[] = [];
+    const routeLegs: RouteLeg[] = [];
+    let clock: number | null = null; // seconds after midnight, tracked once a transit leg fixes the timetable
+
+    const addWalk = (walk: WalkLeg | null) => {
+      if (!walk) return;
+      this.buildRouteSegments(walk.path, walk.from, walk.to, 'walking', segments.length + 1).forEach(segment => {
+        segments.push(segment);
+        if (clock !== null) clock += segment.duration;
+      });
+    };
+
+    legs.forEach((leg, index) => {
+      const firstSegment = segments.length;
+
+      if (leg.transit) {
+        const { journey, walks } = leg.transit;
+        clock = clock ?? journey.departure;
+        journey.rides.forEach((ride, rideIndex) => {
+          addWalk(walks[rideIndex]);
+          const waitTime = Math.max(0, Math.round(ride.departure - clock!));
+          segments.push(this.createTransitSegment(segments.length + 1, ride, waitTime));
+          clock = Math.max(clock!, ride.departure) + ride.arrival - ride.departure;
+        });
+        addWalk(walks[journey.rides.length]);
+      } else {
+        this.buildRouteSegments(leg.path!, leg.from, leg.to, streetMode, segments.length + 1).forEach(segment => {
+          segments.push(segment);
+          if (clock !== null) clock += segment.duration;
+        });
+      }
+
+      const legSegments = segments.slice(firstSegment);
+      routeLegs.push({
+        index,
+        start: leg.from,
+        end: leg.to,
+        distance: legSegments.reduce((sum, seg) => sum + seg.distance, 0),
+        duration: legSegments.reduce((sum, seg) => sum + seg.duration, 0),
+        segmentIds: legSegments.map(seg => seg.id)
+      });
+    });
+
+    const isTransit = legs.some(leg => leg.transit);
+
+    return {
+      id: routeId,
+      origin: request.origin,
+      destination: request.destination,
+      waypoints: legs.slice(1).map(leg => leg.from),
+      totalDistance: Math.round(segments.reduce((sum, seg) => sum + seg.distance, 0)),
+      estimatedDuration: Math.round(segments.reduce((sum, seg) => sum + seg.duration, 0)),
+      safetyScore: this.createEmptySafetyScore(), // Will be calculated later
+      segments,
+      alternativeRank,
+      legs: routeLegs,
+      travelMode: isTransit ? 'transit' : streetMode,
+      roadTypeBreakdown: this.calculateRoadTypeBreakdown(this.getCandidatePaths(legs).flatMap(path => path.edges), segments),
+      createdAt: new Date(),
+      lastUpdated: new Date()
+    };
+  }
+
+  /**
+   * Distance per road type, plus distance on toll roads
+   * Road types are summed from street segments so origin/destination connectors are included
+   */
+  private calculateRoadTypeBreakdown(edges: RoadEdge[], segments: RouteSegment[]): RoadTypeBreakdown {
+    const breakdown: RoadTypeBreakdown = { highway: 0, arterial: 0, local: 0, residential: 0, toll: 0 };
+
+    segments.filter(segment => segment.travelMode !== 'transit').forEach(segment => {
+      breakdown[segment.roadType] += segment.distance;
+    });
+    breakdown.toll = Math.round(edges.filter(edge => edge.toll).reduce((sum, edge) => sum + edge.distance, 0));
+
+    return breakdown;
+  }
+
+  private buildRouteSegments(
+    path: RoadPath,
+    origin: Location,
+    destination: Location,
+    travelMode: StreetMode,
+    firstIndex = 1
+  ): RouteSegment[] {
+    if (path.edges.length === 0) {
+      // Origin and destination snap to the same node - use the tags of the nearest road
+      const nearestEdge = this.adjacency[path.nodes[0].id][0];
+      const distance = calculateDistance(origin, destination);
+      return [this.createSegment(firstIndex, origin, destination, distance,
+        nearestEdge ? distance / (this.getSpeed(nearestEdge, travelMode) / 3.6) : 0,
+        nearestEdge?.roadType || 'local', nearestEdge?.lightingLevel || 'medium', travelMode)];
+    }
+
+    const groups: RoadEdge[][] = [];
+    let groupDistance = 0;
+
+    for (const edge of path.edges) {
+      const current = groups[groups.length - 1];
+      const last = current?.[current.length - 1];
+      const continues = last &&
+        last.roadType === edge.roadType &&
+        last.lightingLevel === edge.lightingLevel &&
+        last.name === edge.name &&
+        last.toll === edge.toll &&
+        groupDistance + edge.distance <= MAX_SEGMENT_LENGTH;
+
+      if (continues) {
+        current.push(edge);
+        groupDistance += edge.distance;
+      } else {
+        groups.push([edge]);
+        groupDistance = edge.distance;
+      }
+    }
+
+    return groups.map((group, index) => {
+      const first = group[0];
+      const last = group[group.length - 1];
+      const isFirst = index === 0;
+      const isLast = index === groups.length - 1;
+
+      const startNode = this.nodes[first.from];
+      const endNode = this.nodes[last.to];
+      let distance = group.reduce((sum, edge) => sum + edge.distance, 0);
+      let duration = group.reduce((sum, edge) => sum + this.getTravelTime(edge, travelMode), 0);
+
+      // Connect the exact origin and destination to the snapped graph nodes
+      if (isFirst) {
+        const approach = calculateDistance(origin, startNode);
+        distance += approach;
+        duration += approach / (this.getSpeed(first, travelMode) / 3.6);
+      }
+      if (isLast) {
+        const departure = calculateDistance(endNode, destination);
+        distance += departure;
+        duration += departure / (this.getSpeed(last, travelMode) / 3.6);
+      }
+
+      const startLocation: Location = isFirst
+        ? { latitude: origin.latitude, longitude: origin.longitude, address: origin.address }
+        : { latitude: startNode.latitude, longitude: startNode.longitude, address: first.name };
+      const endLocation: Location = isLast
+        ? { latitude: destination.latitude, longitude: destination.longitude, address: destination.address }
+        : { latitude: endNode.latitude, longitude: endNode.longitude, address: last.name };
+
+      const segment = this.createSegment(firstIndex + index, startLocation, endLocation, distance, duration,
+        first.roadType, first.lightingLevel, travelMode);
+
+      // Polyline through every graph node the segment passes, ending at its exact end point
+      const geometry: Array<[number, number]> = [[startLocation.longitude, startLocation.latitude]];
+      if (isFirst) geometry.push([startNode.longitude, startNode.latitude]);
+      group.slice(0, -1).forEach(edge => geometry.push([this.nodes[edge.to].longitude, this.nodes[edge.to].latitude]));
+      if (isLast) geometry.push([endNode.longitude, endNode.latitude]);
+      geometry.push([endLocation.longitude, endLocation.latitude]);
+
+      return { ...segment, geometry };
+    });
+  }
+
+  private createSegment(
+    index: number,
+    startLocation: Location,
+    endLocation: Location,
+    distance: number,
+    duration: number,
+    roadType: RouteSegment['roadType'],
+    lightingLevel: RouteSegment['lightingLevel'],
+    travelMode: TravelMode
+  ): RouteSegment {
+    return {
+      id: `segment_${index}_${uuidv4().slice(0, 6)}`,
+      startLocation,
+      endLocation,
+      distance: Math.round(distance),
+      duration: Math.round(duration),
+      safetyScore: this.createEmptySafetyScore(), // Will be calculated
+      roadType,
+      lightingLevel,
+      travelMode
+    };
+  }
+
+  /**
+   * Transit segment from boarding to alighting stop, measured along the stops served
+   * Passengers ride lit vehicles on trunk corridors, so segments are tagged arterial and well lit
+   */
+  private createTransitSegment(index: number, ride: TransitRide, waitTime: number): RouteSegment {
+    const distance = ride.stops.slice(1).reduce((sum, stop, i) =>
+      sum + calculateDistance(ride.stops[i], stop), 0);
+
+    const segment = this.createSegment(
+      index,
+      { latitude: ride.boardStop.latitude, longitude: ride.boardStop.longitude, address: ride.boardStop.name },
+      { latitude: ride.alightStop.latitude, longitude: ride.alightStop.longitude, address: ride.alightStop.name },
+      distance,
+      waitTime + ride.arrival - ride.departure,
+      'arterial',
+      'high',
+      'transit'
+    );
+
+    return {
+      ...segment,
+      geometry: ride.stops.map(stop => [stop.longitude, stop.latitude] as [number, number]),
+      transit: {
+        agency: ride.route.agency,
+        line: ride.route.shortName,
+        lineName: ride.route.longName,
+        vehicle: ride.route.vehicle,
+        headsign: ride.trip.headsign,
+        tripId: ride.trip.id,
+        departureStop: ride.boardStop.name,
+        arrivalStop: ride.alightStop.name,
+        departureTime: formatGtfsTime(ride.departure),
+        arrivalTime: formatGtfsTime(ride.arrival),
+        stopCount: ride.stops.length - 1,
+        waitTime
+      }
+    };
+  }
+
+  private createEmptySafetyScore(): SafetyScore {
+    return {
+      overall: 0,
+      crimeRisk: 0,
+      timeFactor: 0,
+      populationDensity: 0,
+      lightingLevel: 0,
+      historicalIncidents: 0,
+      confidenceLevel: 0,
+      explanation: '',
+      lastCalculated: new Date(),
+      factors: []
+    };
+  }
+
+  private penalisePath(path: RoadPath, penalties: Map<string, number>): void {
+    for (const edge of path.edges) {
+      const key = this.getEdgeKey(edge);
+      penalties.set(key, (penalties.get(key) ?? 1) * ALTERNATIVE_EDGE_PENALTY);
+    }
+  }
+
+  private getPathSignature(path: RoadPath): string {
+    return path.edges.map(edge => edge.id).join(',');
+  }
+
+  /**
+   * Direction-independent key so penalties apply to both carriageways
+   */
+  private getEdgeKey(edge: RoadEdge): string {
+    return edge.from < edge.to ? `${edge.from}-${edge.to}` : `${edge.to}-${edge.from}`;
+  }
+
+  private getFeatureLines(feature: RoadFeature): Array<Array<[number, number]>> {
+    return feature.geometry.type === 'MultiLineString'
+      ? feature.geometry.coordinates
+      : [feature.geometry.coordinates];
+  }
+
+  private getOrCreateNode(nodeIndex: Map<string, number>, [lng, lat]: [number, number]): number {
+    const key = `${lng.toFixed(6)},${lat.toFixed(6)}`;
+    let id = nodeIndex.get(key);
+
+    if (id === undefined) {
+      id = this.nodes.length;
+      this.nodes.push({ id, latitude: lat, longitude: lng });
+      this.adjacency.push([]);
+      nodeIndex.set(key, id);
+    }
+
+    return id;
+  }
+
+  private addEdge(from: number, to: number, feature: RoadFeature, contraflow: boolean): void {
+    const { highway, name, lit, toll, maxspeed } = feature.properties;
+    const fromNode = this.nodes[from];
+    const toNode = this.nodes[to];
+
+    this.adjacency[from].push({
+      id: this.edgeCount++,
+      from,
+      to,
+      distance: calculateDistance(fromNode, toNode),
+      highway,
+      roadType: this.mapRoadType(highway),
+      lightingLevel: this.mapLightingLevel(highway, lit),
+      toll: toll === 'yes',
+      maxSpeed: this.parseMaxSpeed(maxspeed) ?? roadNetworkGenerator.getDefaultMaxSpeed(highway),
+      contraflow,
+      name
+    });
+  }
+
+  /**
+   * Map OSM highway classes onto RouteSegment road types
+   */
+  private mapRoadType(highway: string): RouteSegment['roadType'] {
+    const baseClass = highway.replace(/_link$/, '');
+    if (baseClass === 'motorway' || baseClass === 'trunk') return 'highway';
+    if (baseClass === 'primary' || baseClass === 'secondary') return 'arterial';
+    if (baseClass === 'tertiary' || baseClass === 'unclassified') return 'local';
+    return 'residential';
+  }
+
+  /**
+   * Map OSM lit tags onto RouteSegment lighting levels
+   */
+  private mapLightingLevel(highway: string, lit?: string): RouteSegment['lightingLevel'] {
+    const isMajorRoad = ['motorway', 'trunk', 'primary', 'secondary'].includes(highway.replace(/_link$/, ''));
+
+    if (lit === 'yes') return isMajorRoad ? 'high' : 'medium';
+    if (lit === 'limited') return 'low';
+    if (lit === 'no') return 'none';
+    return isMajorRoad ? 'medium' : 'low';
+  }
+
+  private parseMaxSpeed(maxspeed?: number | string): number | undefined {
+    if (typeof maxspeed === 'number') return maxspeed > 0 ? maxspeed : undefined;
+    if (!maxspeed) return undefined;
+
+    const value = parseFloat(maxspeed);
+    if (isNaN(value) || value <= 0) return undefined;
+    return maxspeed.includes('mph') ? value * 1.609 : value;
+  }
+}
+
+/**
+ * Binary min-heap keyed by node ID, used as the Dijkstra priority queue
+ */
+class MinHeap {
+  private items: Array<{ id: number; priority: number }> = [];
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public push(id: number, priority: number): void {
+    this.items.push({ id, priority });
+    let index = this.items.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= this.items[index].priority) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  public pop(): { id: number; priority: number } | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let index = 0;
+
+      while (true) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+
+        [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+}
+
+// Export singleton instance
+export const routingService = new RoutingService();
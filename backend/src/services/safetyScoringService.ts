@@ -1,6 +1,8 @@
 // SafetyScore Calculation Algorithm Service
 // Implements composite safety scoring with time-based factors
 // Based on research.md algorithm: SafetyScore = (CrimeRiskScore * 0.4) + (TimeFactorScore * 0.3) + (PopulationDensityScore * 0.2) + (LightingScore * 0.1)
+// Weights, thresholds and travel mode multipliers come from the selected versioned scoring model
+// Declared vulnerabilities scale the crime risk by crime type; risk tolerance shifts alert and recommendation thresholds
 
 import {
   SafetyScore,
@@ -13,16 +15,32 @@ import {
   ScoringMetadata,
   SafetyRecommendation,
   Route,
-  RouteSegment
+  RouteLeg,
+  RouteSegment,
+  TravelMode,
+  UserContext
 } from '../types/index.js';
 
-import { CrimeDataService } from './crimeDataService';
+import { RiskTolerance, ScoringModel, ScoringThresholds, VulnerabilityProfile } from '../data/scoring-models';
+import { RiskEstimate, RiskSurfaceService } from './riskSurfaceService';
+import { ScoringModelService, scoringModelService as defaultScoringModelService } from './scoringModelService';
 
-export class SafetyScoringService {
-  private crimeDataService: CrimeDataService;
+interface PersonalAdjustment {
+  factors: Array<{ name: string; label: string; multiplier: number }>; // declared factors that change the crime risk here
+  unrecognizedFactors: string[];
+  crimeRiskMultiplier: number;
+}
 
-  constructor() {
-    this.crimeDataService = new CrimeDataService();
+export class SafetyScoringService {
+  private riskSurfaceService: RiskSurfaceService;
+  private scoringModelService: ScoringModelService;
+
+  constructor(
+    riskSurfaceService: RiskSurfaceService = new RiskSurfaceService(),
+    scoringModels: ScoringModelService = defaultScoringModelService
+  ) {
+    this.riskSurfaceService = riskSurfaceService;
+    this.scoringModelService = scoringModels;
   }
 
   /**
@@ -33,34 +51,38 @@ export class SafetyScoringService {
   public async calculateLocationSafety(request: SafetyScoreRequest): Promise<SafetyScoreResponse> {
     const startTime = Date.now();
     const { location, timeContext, userContext } = request;
+    const model = this.scoringModelService.getModel(request.modelVersion);
 
     try {
-      // Get crime data for location
-      const crimeDataArray = await this.crimeDataService.getCrimeDataByLocation(location);
-      const crimeData = crimeDataArray.length > 0 ? crimeDataArray[0] : null;
+      // Interpolate crime risk and the area profile at the location from all nearby crime data
+      const riskEstimate = await this.riskSurfaceService.getRiskEstimate(location);
+      const crimeData = riskEstimate.profile;
+      const personal = this.getPersonalAdjustment(model, crimeData, userContext, timeContext);
+      const riskTolerance = userContext?.riskTolerance || 'medium';
+      const thresholds = this.getThresholds(model, riskTolerance);
 
       // Calculate individual score components
-      const crimeRiskScore = this.calculateCrimeRiskScore(crimeData, userContext?.travelMode);
-      const timeFactorScore = this.calculateTimeFactorScore(timeContext, crimeData);
-      const populationDensityScore = this.calculatePopulationDensityScore(crimeData);
-      const lightingScore = this.calculateLightingScore(location, timeContext, crimeData);
+      const crimeRiskScore = this.calculateCrimeRiskScore(riskEstimate, model, userContext?.travelMode, personal.crimeRiskMultiplier);
+      const timeFactorScore = this.calculateTimeFactorScore(model, timeContext, crimeData);
+      const populationDensityScore = this.calculatePopulationDensityScore(model, crimeData);
+      const lightingScore = this.calculateLightingScore(model, location, timeContext, crimeData);
 
-      // Apply composite algorithm with weights from research.md
+      // Apply composite algorithm with the model's weights
       const overall = Math.round(
-        (crimeRiskScore * 0.4) +
-        (timeFactorScore * 0.3) +
-        (populationDensityScore * 0.2) +
-        (lightingScore * 0.1)
+        (crimeRiskScore * model.weights.crime) +
+        (timeFactorScore * model.weights.time) +
+        (populationDensityScore * model.weights.population) +
+        (lightingScore * model.weights.lighting)
       );
 
       // Generate safety factors for explanation
-      const factors = this.generateSafetyFactors(crimeRiskScore, timeFactorScore, populationDensityScore, lightingScore, crimeData);
+      const factors = this.generateSafetyFactors(crimeRiskScore, timeFactorScore, populationDensityScore, lightingScore, crimeData, model);
 
       // Calculate confidence based on data quality
-      const confidenceLevel = this.calculateConfidenceLevel(crimeData, factors);
+      const confidenceLevel = this.calculateConfidenceLevel(riskEstimate, factors);
 
       // Generate AI explanation
-      const explanation = this.generateSafetyExplanation(overall, factors, crimeData);
+      const explanation = this.generateSafetyExplanation(overall, factors, crimeData, personal);
 
       const safetyScore: SafetyScore = {
         overall,
@@ -68,7 +90,7 @@ export class SafetyScoringService {
         timeFactor: timeFactorScore,
         populationDensity: populationDensityScore,
         lightingLevel: lightingScore,
-        historicalIncidents: crimeData?.crimeStats.reduce((sum: number, stat: any) => sum + stat.incidentCount, 0) || 0,
+        historicalIncidents: Math.round(crimeData.crimeStats.reduce((sum, stat) => sum + stat.incidentCount, 0)),
         confidenceLevel,
         explanation,
         lastCalculated: new Date(),
@@ -76,19 +98,32 @@ export class SafetyScoringService {
       };
 
       // Generate recommendations based on score
-      const recommendations = this.generateRecommendations(safetyScore, crimeData, timeContext);
+      const recommendations = this.generateRecommendations(safetyScore, crimeData, thresholds, timeContext);
 
       // Generate alerts if needed
-      const alerts = this.generateSafetyAlerts(safetyScore, location, crimeData);
+      const alerts = this.generateSafetyAlerts(safetyScore, location, thresholds);
 
       const metadata: ScoringMetadata = {
         calculationTime: Date.now() - startTime,
-        dataSourcesUsed: [crimeData?.dataSource || 'synthetic'],
+        dataSourcesUsed: riskEstimate.sources.length ? riskEstimate.sources : ['synthetic'],
+        aiModelVersion: model.version,
         confidenceFactors: {
-          crimeData: crimeData?.crimeStats[0]?.confidence || 85,
+          crimeData: Math.round((1 - riskEstimate.uncertainty) * 100),
           timeAnalysis: timeContext ? 90 : 70,
           locationData: location.address ? 95 : 80
-        }
+        },
+        riskEstimate: {
+          risk: riskEstimate.risk,
+          uncertainty: riskEstimate.uncertainty,
+          support: riskEstimate.support
+        },
+        personalization: userContext?.vulnerabilityFactors?.length || userContext?.riskTolerance ? {
+          vulnerabilityFactors: personal.factors.map(factor => factor.name),
+          unrecognizedFactors: personal.unrecognizedFactors,
+          crimeRiskMultiplier: parseFloat(personal.crimeRiskMultiplier.toFixed(3)),
+          riskTolerance,
+          thresholdShift: model.riskToleranceShift[riskTolerance]
+        } : undefined
       };
 
       return {
@@ -107,9 +142,11 @@ export class SafetyScoringService {
    * Calculate safety scores for an entire route
    * @param route Route with segments to analyze
    * @param timeContext Time context for the journey
+   * @param modelVersion Scoring model to use, the default model when omitted
    * @returns Route with updated safety scores
    */
-  public async calculateRouteSafety(route: Route, timeContext?: TimeContext): Promise<Route> {
+  public async calculateRouteSafety(route: Route, timeContext?: TimeContext, modelVersion?: string): Promise<Route> {
+    const model = this.scoringModelService.getModel(modelVersion);
     const updatedSegments: RouteSegment[] = [];
 
     // Calculate safety for each route segment
@@ -118,7 +155,9 @@ export class SafetyScoringService {
       const segmentSafety = await this.calculateLocationSafety({
         location: midpoint,
         timeContext,
-        factors: { includeHistorical: true, includeCrimeData: true }
+        factors: { includeHistorical: true, includeCrimeData: true },
+        userContext: { travelMode: segment.travelMode || route.travelMode },
+        modelVersion: model.version
       });
 
       updatedSegments.push({
@@ -134,6 +173,9 @@ export class SafetyScoringService {
       return sum + (seg.safetyScore.overall * weight);
     }, 0);
 
+    const legs = route.legs ? this.summarizeLegSafety(route.legs, updatedSegments) : undefined;
+    const riskiestLeg = legs?.find(leg => leg.safety?.isRiskiestLeg);
+
     // Create composite route safety score
     const routeSafetyScore: SafetyScore = {
       overall: Math.round(weightedSafetyScore),
@@ -143,41 +185,139 @@ export class SafetyScoringService {
       lightingLevel: Math.round(updatedSegments.reduce((sum, seg) => sum + seg.safetyScore.lightingLevel, 0) / updatedSegments.length),
       historicalIncidents: updatedSegments.reduce((sum, seg) => sum + seg.safetyScore.historicalIncidents, 0),
       confidenceLevel: Math.round(updatedSegments.reduce((sum, seg) => sum + seg.safetyScore.confidenceLevel, 0) / updatedSegments.length),
-      explanation: this.generateRouteSafetyExplanation(updatedSegments),
+      explanation: this.generateRouteSafetyExplanation(updatedSegments, riskiestLeg),
       lastCalculated: new Date(),
-      factors: this.aggregateRouteFactors(updatedSegments)
+      factors: this.aggregateRouteFactors(updatedSegments, model)
     };
 
     return {
       ...route,
       safetyScore: routeSafetyScore,
       segments: updatedSegments,
+      legs,
       lastUpdated: new Date()
     };
   }
 
   /**
-   * Calculate crime risk score (0-100, higher is safer)
+   * Estimate the relative risk of travelling past a location (0-1, higher is riskier)
+   * Used as the per-edge risk cost in safety-weighted route search
+   * @param location Point to assess, typically an edge midpoint
+   * @param timeContext Time context for the journey
+   * @param lightingLevel Lighting of the road at this point, weighted at night
+   * @param travelMode Pedestrians and cyclists weight lighting and foot traffic more heavily than drivers
+   * @param modelVersion Scoring model whose risk multipliers apply, the default model when omitted
+   */
+  public async calculateRiskCost(
+    location: Location,
+    timeContext?: TimeContext,
+    lightingLevel?: RouteSegment['lightingLevel'],
+    travelMode: TravelMode = 'driving',
+    modelVersion?: string
+  ): Promise<number> {
+    const riskEstimate = await this.riskSurfaceService.getRiskEstimate(location);
+    const model = this.scoringModelService.getModel(modelVersion);
+    const profile = model.riskMultipliers[travelMode];
+
+    // Scale by time of day: daytime (90) -> 0.6x, night (50) -> 1.0x
+    const timeFactorScore = this.calculateTimeFactorScore(model, timeContext, null);
+    let risk = riskEstimate.risk * (1.5 - timeFactorScore / 100);
+
+    const hour = timeContext?.currentTime ? new Date(timeContext.currentTime).getHours() : null;
+    const isNight = hour !== null && (hour >= 19 || hour < 6);
+
+    if (lightingLevel && isNight) {
+      risk *= profile.nightLighting[lightingLevel];
+    }
+
+    // Quiet streets offer less natural surveillance, more so after dark
+    const quietness = 1 - this.calculatePopulationDensityScore(model, riskEstimate.profile) / 100;
+    risk *= 1 + profile.footTrafficWeight * quietness * (isNight ? 2 : 1);
+
+    return Math.max(0, Math.min(1, risk));
+  }
+
+  /**
+   * Alert and recommendation thresholds of a model, shifted for the traveller's risk tolerance
+   */
+  public getThresholds(model: ScoringModel, riskTolerance: RiskTolerance = 'medium'): ScoringThresholds {
+    const shift = model.riskToleranceShift[riskTolerance] ?? 0;
+    const shifted = (threshold: number) => Math.max(0, Math.min(100, threshold + shift));
+
+    return {
+      ...model.thresholds,
+      routeChange: shifted(model.thresholds.routeChange),
+      timeChange: shifted(model.thresholds.timeChange),
+      poorLighting: shifted(model.thresholds.poorLighting),
+      highCrimeAlert: shifted(model.thresholds.highCrimeAlert),
+      poorLightingAlert: shifted(model.thresholds.poorLightingAlert)
+    };
+  }
+
+  /**
+   * Declared vulnerability factors that change the crime risk at a location, and their combined multiplier
+   * A factor scales the risk from each crime type, weighted by that type's share of the area's incidents.
    */
-  private calculateCrimeRiskScore(crimeData: CrimeData | null, travelMode?: string): number {
-    if (!crimeData) return 70; // Default moderate safety
+  private getPersonalAdjustment(
+    model: ScoringModel,
+    crimeData: CrimeData,
+    userContext?: UserContext,
+    timeContext?: TimeContext
+  ): PersonalAdjustment {
+    const profiles = Object.entries(model.vulnerabilities);
+    const hour = timeContext?.currentTime ? new Date(timeContext.currentTime).getHours() : null;
+    const isNight = hour !== null && (hour >= 19 || hour < 6);
 
     const totalIncidents = crimeData.crimeStats.reduce((sum, stat) => sum + stat.incidentCount, 0);
-    const maxIncidentsForArea = 50; // Threshold for high-crime areas
+    const multiplierFor = (applied: VulnerabilityProfile[]) => totalIncidents > 0
+      ? crimeData.crimeStats.reduce((sum, stat) => sum + stat.incidentCount / totalIncidents *
+        applied.reduce((weight, profile) => weight * (profile.crimeTypeWeights[stat.type] ?? 1), 1), 0)
+      : 1;
+
+    const adjustment: PersonalAdjustment = { factors: [], unrecognizedFactors: [], crimeRiskMultiplier: 1 };
+    const applied: VulnerabilityProfile[] = [];
+
+    for (const declared of new Set(userContext?.vulnerabilityFactors ?? [])) {
+      const match = profiles.find(([name, profile]) => name === declared || profile.aliases?.includes(declared));
+      if (!match) {
+        adjustment.unrecognizedFactors.push(declared);
+        continue;
+      }
+
+      const [name, profile] = match;
+      if ((profile.nightOnly && !isNight) || adjustment.factors.some(factor => factor.name === name)) continue;
 
-    // Convert incident count to safety score (inverted scale)
-    let baseScore = Math.max(0, 100 - (totalIncidents / maxIncidentsForArea) * 100);
+      const multiplier = multiplierFor([profile]);
+      if (Math.abs(multiplier - 1) < 0.001) continue; // none of its crime types occur here
 
-    // Apply travel mode adjustments
-    if (travelMode === 'walking' && crimeData.crimeStats.some(stat => stat.type === 'petty')) {
-      baseScore -= 15; // Walking is more vulnerable to petty crime
-    } else if (travelMode === 'driving' && crimeData.crimeStats.some(stat => stat.type === 'vehicular')) {
-      baseScore -= 10; // Driving vulnerable to vehicle-related crime
+      adjustment.factors.push({ name, label: profile.label, multiplier });
+      applied.push(profile);
     }
 
-    // Apply risk level multiplier
-    const riskMultipliers = { low: 1.0, medium: 0.8, high: 0.6, critical: 0.4 };
-    baseScore *= riskMultipliers[crimeData.riskLevel];
+    adjustment.crimeRiskMultiplier = multiplierFor(applied);
+    return adjustment;
+  }
+
+  /**
+   * Calculate crime risk score (0-100, higher is safer) from the interpolated crime risk
+   * @param crimeRiskMultiplier Personal scaling of the crime risk for declared vulnerabilities
+   */
+  private calculateCrimeRiskScore(
+    riskEstimate: RiskEstimate,
+    model: ScoringModel,
+    travelMode?: TravelMode,
+    crimeRiskMultiplier: number = 1
+  ): number {
+    const crimeStats = riskEstimate.profile.crimeStats;
+    let baseScore = (1 - Math.min(1, riskEstimate.risk * crimeRiskMultiplier)) * 100;
+
+    // Apply travel mode adjustments (e.g. walkers to petty crime, drivers to vehicle crime),
+    // fading out with distance from the crime data
+    const exposure = Math.min(1, riskEstimate.support);
+    const crimeExposure = travelMode ? model.riskMultipliers[travelMode].crimeExposure : undefined;
+    if (crimeExposure && crimeStats.some(stat => stat.type === crimeExposure.crimeType)) {
+      baseScore -= crimeExposure.penalty * exposure;
+    }
 
     return Math.max(0, Math.min(100, Math.round(baseScore)));
   }
@@ -185,8 +325,8 @@ export class SafetyScoringService {
   /**
    * Calculate time-based safety factor (0-100, higher is safer)
    */
-  private calculateTimeFactorScore(timeContext?: TimeContext, crimeData?: CrimeData | null): number {
-    if (!timeContext?.currentTime) return 80; // Default daytime safety
+  private calculateTimeFactorScore(model: ScoringModel, timeContext?: TimeContext, crimeData?: CrimeData | null): number {
+    if (!timeContext?.currentTime) return model.defaults.timeFactor;
 
     const currentHour = new Date(timeContext.currentTime).getHours();
 
@@ -203,7 +343,7 @@ export class SafetyScoringService {
     }
 
     // Adjust based on crime patterns if available
-    if (crimeData) {
+    if (crimeData && crimeData.crimeStats.length > 0) {
       const avgNightCrime = crimeData.crimeStats.reduce((sum, stat) => {
         const nightHours = Object.keys(stat.timePattern).filter(hour =>
           parseInt(hour) >= 22 || parseInt(hour) < 6
@@ -231,8 +371,8 @@ export class SafetyScoringService {
   /**
    * Calculate population density safety score (0-100, higher is safer)
    */
-  private calculatePopulationDensityScore(crimeData: CrimeData | null): number {
-    if (!crimeData) return 70;
+  private calculatePopulationDensityScore(model: ScoringModel, crimeData: CrimeData | null): number {
+    if (!crimeData) return model.defaults.populationDensity;
 
     const density = crimeData.populationDensity;
     const businessDensity = crimeData.economicIndicators.businessDensity;
@@ -259,8 +399,8 @@ export class SafetyScoringService {
   /**
    * Calculate lighting safety score (0-100, higher is safer)
    */
-  private calculateLightingScore(location: Location, timeContext?: TimeContext, crimeData?: CrimeData | null): number {
-    let baseScore = 80; // Default moderate lighting
+  private calculateLightingScore(model: ScoringModel, location: Location, timeContext?: TimeContext, crimeData?: CrimeData | null): number {
+    let baseScore = model.defaults.lighting;
 
     // Use location safety metrics if available
     if (location.safetyMetrics?.lightingQuality) {
@@ -290,33 +430,40 @@ export class SafetyScoringService {
   /**
    * Generate detailed safety factors for explanation
    */
-  private generateSafetyFactors(crimeRisk: number, timeFactor: number, populationDensity: number, lighting: number, crimeData: CrimeData | null): SafetyFactor[] {
+  private generateSafetyFactors(
+    crimeRisk: number,
+    timeFactor: number,
+    populationDensity: number,
+    lighting: number,
+    crimeData: CrimeData | null,
+    model: ScoringModel
+  ): SafetyFactor[] {
     const factors: SafetyFactor[] = [
       {
         type: 'crime',
-        impact: crimeRisk >= 70 ? 'positive' : crimeRisk >= 40 ? 'neutral' : 'negative',
-        weight: 0.4,
+        impact: this.getImpact(crimeRisk, model),
+        weight: model.weights.crime,
         description: `Crime risk level: ${crimeData?.riskLevel || 'moderate'}`,
         value: crimeRisk
       },
       {
         type: 'time',
-        impact: timeFactor >= 70 ? 'positive' : timeFactor >= 40 ? 'neutral' : 'negative',
-        weight: 0.3,
+        impact: this.getImpact(timeFactor, model),
+        weight: model.weights.time,
         description: `Time-based safety factor`,
         value: timeFactor
       },
       {
         type: 'population',
-        impact: populationDensity >= 70 ? 'positive' : populationDensity >= 40 ? 'neutral' : 'negative',
-        weight: 0.2,
+        impact: this.getImpact(populationDensity, model),
+        weight: model.weights.population,
         description: `Area activity and population density`,
         value: populationDensity
       },
       {
         type: 'lighting',
-        impact: lighting >= 70 ? 'positive' : lighting >= 40 ? 'neutral' : 'negative',
-        weight: 0.1,
+        impact: this.getImpact(lighting, model),
+        weight: model.weights.lighting,
         description: `Street lighting and visibility`,
         value: lighting
       }
@@ -325,21 +472,25 @@ export class SafetyScoringService {
     return factors;
   }
 
+  /**
+   * Impact of a component score under the model's thresholds
+   */
+  private getImpact(value: number, model: ScoringModel): SafetyFactor['impact'] {
+    if (value >= model.thresholds.positiveFactor) return 'positive';
+    return value >= model.thresholds.neutralFactor ? 'neutral' : 'negative';
+  }
+
   /**
    * Calculate overall confidence in the safety score
    */
-  private calculateConfidenceLevel(crimeData: CrimeData | null, factors: SafetyFactor[]): number {
-    let confidence = 70; // Base confidence
+  private calculateConfidenceLevel(riskEstimate: RiskEstimate, factors: SafetyFactor[]): number {
+    // Certainty of the interpolated crime risk
+    let confidence = (1 - riskEstimate.uncertainty) * 100;
 
-    if (crimeData) {
-      const avgCrimeConfidence = crimeData.crimeStats.reduce((sum, stat) => sum + stat.confidence, 0) / crimeData.crimeStats.length;
-      confidence = Math.max(confidence, avgCrimeConfidence);
-
-      // Data recency affects confidence
-      const daysSinceUpdate = (Date.now() - new Date(crimeData.lastUpdated).getTime()) / (1000 * 60 * 60 * 24);
-      if (daysSinceUpdate > 30) confidence -= 10;
-      if (daysSinceUpdate > 90) confidence -= 20;
-    }
+    // Data recency affects confidence
+    const daysSinceUpdate = (Date.now() - new Date(riskEstimate.profile.lastUpdated).getTime()) / (1000 * 60 * 60 * 24);
+    if (daysSinceUpdate > 30) confidence -= 10;
+    if (daysSinceUpdate > 90) confidence -= 20;
 
     // Factor reliability affects confidence
     const factorReliability = factors.filter(f => f.value > 0).length / factors.length;
@@ -351,7 +502,12 @@ export class SafetyScoringService {
   /**
    * Generate human-readable safety explanation
    */
-  private generateSafetyExplanation(overall: number, factors: SafetyFactor[], crimeData: CrimeData | null): string {
+  private generateSafetyExplanation(
+    overall: number,
+    factors: SafetyFactor[],
+    crimeData: CrimeData | null,
+    personal: PersonalAdjustment
+  ): string {
     let explanation = '';
 
     if (overall >= 80) {
@@ -381,13 +537,84 @@ export class SafetyScoringService {
       explanation += '. This area has elevated crime statistics';
     }
 
+    const lowering = personal.factors.filter(factor => factor.multiplier > 1).map(factor => factor.label);
+    const raising = personal.factors.filter(factor => factor.multiplier < 1).map(factor => factor.label);
+    if (lowering.length > 0) {
+      explanation += `. Your score is lower for ${lowering.join(', ')}`;
+    }
+    if (raising.length > 0) {
+      explanation += `. Your score is higher for ${raising.join(', ')}`;
+    }
+
+    return explanation + '.';
+  }
+
+  /**
+   * Summarise safety per leg from its scored segments, flagging the lowest-scoring leg
+   */
+  private summarizeLegSafety(legs: RouteLeg[], segments: RouteSegment[]): RouteLeg[] {
+    const segmentsById = new Map(segments.map(seg => [seg.id, seg]));
+
+    const summaries = legs.map(leg => {
+      const legSegments = leg.segmentIds
+        .map(id => segmentsById.get(id))
+        .filter((seg): seg is RouteSegment => seg !== undefined);
+      if (legSegments.length === 0) return null;
+
+      const totalDistance = legSegments.reduce((sum, seg) => sum + seg.distance, 0);
+      const overall = Math.round(totalDistance > 0
+        ? legSegments.reduce((sum, seg) => sum + seg.safetyScore.overall * seg.distance, 0) / totalDistance
+        : legSegments.reduce((sum, seg) => sum + seg.safetyScore.overall, 0) / legSegments.length);
+      const riskiestSegment = legSegments.reduce((min, seg) => seg.safetyScore.overall < min.safetyScore.overall ? seg : min);
+
+      return { overall, riskiestSegment };
+    });
+
+    const scored = summaries.filter((summary): summary is NonNullable<typeof summary> => summary !== null);
+    const lowest = scored.length > 1 ? scored.reduce((min, summary) => summary.overall < min.overall ? summary : min) : null;
+
+    return legs.map((leg, index) => {
+      const summary = summaries[index];
+      if (!summary) return leg;
+
+      return {
+        ...leg,
+        safety: {
+          overall: summary.overall,
+          lowestSegmentScore: summary.riskiestSegment.safetyScore.overall,
+          riskiestSegmentId: summary.riskiestSegment.id,
+          isRiskiestLeg: summary === lowest,
+          explanation: this.generateLegSafetyExplanation(leg, summary.overall, summary.riskiestSegment)
+        }
+      };
+    });
+  }
+
+  /**
+   * Generate leg-level safety explanation
+   */
+  private generateLegSafetyExplanation(leg: RouteLeg, overall: number, riskiestSegment: RouteSegment): string {
+    let explanation = `Leg ${leg.index + 1} from ${leg.start.address || 'start'} to ${leg.end.address || 'end'}`;
+
+    if (overall >= 75) {
+      explanation += ' has generally good safety levels';
+    } else if (overall >= 50) {
+      explanation += ' has moderate safety levels';
+    } else {
+      explanation += ' has some safety concerns';
+    }
+
+    if (riskiestSegment.safetyScore.overall < 50) {
+      explanation += `. Most cautious area is near ${riskiestSegment.endLocation.address || 'segment endpoint'}`;
+    }
+
     return explanation + '.';
   }
 
   /**
    * Generate route-level safety explanation
    */
-  private generateRouteSafetyExplanation(segments: RouteSegment[]): string {
+  private generateRouteSafetyExplanation(segments: RouteSegment[], riskiestLeg?: RouteLeg): string {
     const avgSafety = segments.reduce((sum, seg) => sum + seg.safetyScore.overall, 0) / segments.length;
     const riskiestSegment = segments.reduce((min, seg) => seg.safetyScore.overall < min.safetyScore.overall ? seg : min);
 
@@ -405,13 +632,17 @@ export class SafetyScoringService {
       explanation += `. Most cautious area is near ${riskiestSegment.endLocation.address || 'segment endpoint'}`;
     }
 
+    if (riskiestLeg) {
+      explanation += `. Leg ${riskiestLeg.index + 1} to ${riskiestLeg.end.address || 'the next stop'} is the riskiest leg`;
+    }
+
     return explanation + '.';
   }
 
   /**
    * Aggregate safety factors across route segments
    */
-  private aggregateRouteFactors(segments: RouteSegment[]): SafetyFactor[] {
+  private aggregateRouteFactors(segments: RouteSegment[], model: ScoringModel): SafetyFactor[] {
     const factorTypes = ['crime', 'time', 'population', 'lighting'] as const;
 
     return factorTypes.map(type => {
@@ -424,7 +655,7 @@ export class SafetyScoringService {
 
       return {
         type,
-        impact: avgValue >= 70 ? 'positive' : avgValue >= 40 ? 'neutral' : 'negative',
+        impact: this.getImpact(avgValue, model),
         weight: avgWeight,
         description: `Route average ${type} factor`,
         value: Math.round(avgValue)
@@ -435,10 +666,15 @@ export class SafetyScoringService {
   /**
    * Generate safety recommendations based on score
    */
-  private generateRecommendations(safetyScore: SafetyScore, crimeData: CrimeData | null, timeContext?: TimeContext): SafetyRecommendation[] {
+  private generateRecommendations(
+    safetyScore: SafetyScore,
+    crimeData: CrimeData | null,
+    thresholds: ScoringThresholds,
+    timeContext?: TimeContext
+  ): SafetyRecommendation[] {
     const recommendations: SafetyRecommendation[] = [];
 
-    if (safetyScore.overall < 40) {
+    if (safetyScore.overall < thresholds.routeChange) {
       recommendations.push({
         type: 'route_change',
         priority: 'high',
@@ -448,7 +684,7 @@ export class SafetyScoringService {
       });
     }
 
-    if (safetyScore.timeFactor < 50 && timeContext) {
+    if (safetyScore.timeFactor < thresholds.timeChange && timeContext) {
       recommendations.push({
         type: 'time_change',
         priority: 'medium',
@@ -458,7 +694,7 @@ export class SafetyScoringService {
       });
     }
 
-    if (safetyScore.lightingLevel < 40) {
+    if (safetyScore.lightingLevel < thresholds.poorLighting) {
       recommendations.push({
         type: 'precaution',
         priority: 'medium',
@@ -484,10 +720,14 @@ export class SafetyScoringService {
   /**
    * Generate safety alerts if needed
    */
-  private generateSafetyAlerts(safetyScore: SafetyScore, location: Location, crimeData: CrimeData | null): import('../types/index.js').SafetyAlert[] {
+  private generateSafetyAlerts(
+    safetyScore: SafetyScore,
+    location: Location,
+    thresholds: ScoringThresholds
+  ): import('../types/index.js').SafetyAlert[] {
     const alerts: import('../types/index.js').SafetyAlert[] = [];
 
-    if (safetyScore.overall < 30) {
+    if (safetyScore.overall < thresholds.highCrimeAlert) {
       alerts.push({
         id: `alert-${Date.now()}-high-risk`,
         type: 'high_crime_area',
@@ -499,7 +739,7 @@ export class SafetyScoringService {
       });
     }
 
-    if (safetyScore.lightingLevel < 30) {
+    if (safetyScore.lightingLevel < thresholds.poorLightingAlert) {
       alerts.push({
         id: `alert-${Date.now()}-lighting`,
         type: 'poor_lighting',
@@ -0,0 +1,72 @@
+// Scoring Model Service
+// Registry of the versioned safety scoring models, loaded once at startup. Requests may pick a model by
+// version; otherwise SCORING_MODEL_VERSION (or the research.md model) is used.
+
+import { DEFAULT_SCORING_MODEL_VERSION, loadScoringModels, ScoringModel } from '../data/scoring-models';
+
+export class ScoringModelError extends Error {
+  constructor(
+    public code: 'UNKNOWN_MODEL_VERSION',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ScoringModelError';
+  }
+}
+
+export class ScoringModelService {
+  private filePath?: string;
+  private defaultVersion: string;
+  private models?: Map<string, ScoringModel>;
+
+  constructor(
+    filePath: string | undefined = process.env.SCORING_MODELS_PATH,
+    defaultVersion: string = process.env.SCORING_MODEL_VERSION || DEFAULT_SCORING_MODEL_VERSION
+  ) {
+    this.filePath = filePath;
+    this.defaultVersion = defaultVersion;
+  }
+
+  /**
+   * Load the models if not already loaded
+   * Throws when the model file is invalid or the default version isn't among the models.
+   */
+  public load(): ScoringModel[] {
+    if (!this.models) {
+      const models = new Map(loadScoringModels(this.filePath).map(model => [model.version, model]));
+      if (!models.has(this.defaultVersion)) {
+        throw new Error(`Default scoring model ${this.defaultVersion} is not defined (available: ${[...models.keys()].join(', ')})`);
+      }
+      this.models = models;
+    }
+    return [...this.models.values()];
+  }
+
+  /**
+   * Model with the given version, or the default model
+   */
+  public getModel(version?: string): ScoringModel {
+    this.load();
+    const model = this.models!.get(version ?? this.defaultVersion);
+    if (!model) {
+      throw new ScoringModelError('UNKNOWN_MODEL_VERSION', `Unknown scoring model version: ${version}`);
+    }
+    return model;
+  }
+
+  public hasModel(version: string): boolean {
+    this.load();
+    return this.models!.has(version);
+  }
+
+  public listModels(): ScoringModel[] {
+    return this.load();
+  }
+
+  public getDefaultVersion(): string {
+    return this.defaultVersion;
+  }
+}
+
+// Export singleton instance
+export const scoringModelService = new ScoringModelService();
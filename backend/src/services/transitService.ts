@@ -0,0 +1,253 @@
+// Public Transport Timetable Service
+// Finds earliest-arrival MyCiTi / Metrorail journeys with the Connection Scan Algorithm
+// Walking to, between and from stops is estimated here; RoutingService routes the actual walks
+
+import { Location } from '../types';
+import { GtfsFeed, GtfsRoute, GtfsStop, GtfsTrip, loadGtfsFeed } from '../data/gtfs';
+import { calculateDistance } from './locationService';
+
+export interface TransitRide {
+  trip: GtfsTrip;
+  route: GtfsRoute;
+  boardStop: GtfsStop;
+  alightStop: GtfsStop;
+  departure: number; // seconds after midnight
+  arrival: number;
+  stops: GtfsStop[]; // every stop served from boarding to alighting
+}
+
+export interface TransitJourney {
+  rides: TransitRide[];
+  departure: number; // leaving the origin, seconds after midnight
+  arrival: number; // estimated arrival at the destination
+}
+
+interface Connection {
+  tripIndex: number;
+  from: number; // stop index
+  to: number;
+  departure: number;
+  arrival: number;
+}
+
+type StopLabel =
+  | { kind: 'access' }
+  | { kind: 'ride'; boardConnection: number; alightConnection: number }
+  | { kind: 'transfer'; fromStop: number };
+
+const WALKING_SPEED = 5 / 3.6; // m/s
+const WALK_DETOUR_FACTOR = 1.3; // street distance relative to straight-line distance
+const MAX_TRANSFER_DISTANCE = 400; // meters between stops for a walking transfer
+const MIN_TRANSFER_TIME = 60; // seconds to change vehicles at the same stop
+const MAX_JOURNEY_DURATION = 3 * 3600;
+
+export class TransitService {
+  private feed?: GtfsFeed;
+  private stops: GtfsStop[] = [];
+  private stopIndex: Map<string, number> = new Map();
+  private trips: GtfsTrip[] = [];
+  private tripRoutes: GtfsRoute[] = [];
+  private connections: Connection[] = [];
+  private transfers: Array<Array<{ stop: number; duration: number }>> = [];
+  private serviceDays: Map<string, boolean[]> = new Map();
+  private initialized = false;
+
+  constructor(feed?: GtfsFeed) {
+    this.feed = feed;
+  }
+
+  /**
+   * Index the configured GTFS feed or the synthetic timetable into time-ordered connections
+   */
+  private initializeTimetable(): void {
+    if (this.initialized) return;
+
+    const feed = this.feed || loadGtfsFeed();
+    const routesById = new Map(feed.routes.map(route => [route.id, route]));
+
+    this.stops = feed.stops;
+    this.stops.forEach((stop, index) => this.stopIndex.set(stop.id, index));
+    this.trips = feed.trips.filter(trip => routesById.has(trip.routeId));
+    this.tripRoutes = this.trips.map(trip => routesById.get(trip.routeId)!);
+    feed.services.forEach(service => this.serviceDays.set(service.id, service.days));
+
+    const tripIndex = new Map(this.trips.map((trip, index) => [trip.id, index]));
+    const stopTimesByTrip = new Map<number, typeof feed.stopTimes>();
+    for (const stopTime of feed.stopTimes) {
+      const index = tripIndex.get(stopTime.tripId);
+      if (index === undefined || !this.stopIndex.has(stopTime.stopId)) continue;
+      if (!stopTimesByTrip.has(index)) stopTimesByTrip.set(index, []);
+      stopTimesByTrip.get(index)!.push(stopTime);
+    }
+
+    for (const [index, stopTimes] of stopTimesByTrip) {
+      stopTimes.sort((a, b) => a.sequence - b.sequence);
+      for (let i = 0; i < stopTimes.length - 1; i++) {
+        this.connections.push({
+          tripIndex: index,
+          from: this.stopIndex.get(stopTimes[i].stopId)!,
+          to: this.stopIndex.get(stopTimes[i + 1].stopId)!,
+          departure: stopTimes[i].departure,
+          arrival: stopTimes[i + 1].arrival
+        });
+      }
+    }
+    this.connections.sort((a, b) => a.departure - b.departure);
+
+    this.transfers = this.stops.map((stop, index) => this.stops
+      .map((other, otherIndex) => ({ stop: otherIndex, distance: calculateDistance(stop, other) }))
+      .filter(({ stop: otherIndex, distance }) => otherIndex !== index && distance <= MAX_TRANSFER_DISTANCE)
+      .map(({ stop: otherIndex, distance }) => ({ stop: otherIndex, duration: this.estimateWalkTime(distance) })));
+
+    this.initialized = true;
+    console.log(`TransitService initialized with ${this.stops.length} stops and ${this.connections.length} connections`);
+  }
+
+  /**
+   * Find the earliest-arriving journey between two locations
+   * @param origin Journey start, walked to a boarding stop
+   * @param destination Journey end, walked to from an alighting stop
+   * @param departureTime Time of leaving the origin
+   * @param maxWalkDistance Straight-line limit (meters) for walking to and from stops
+   * @returns Journey with at least one ride, or null if none arrives within the search window
+   */
+  public findJourney(origin: Location, destination: Location, departureTime: Date, maxWalkDistance: number): TransitJourney | null {
+    this.initializeTimetable();
+
+    const departure = departureTime.getHours() * 3600 + departureTime.getMinutes() * 60 + departureTime.getSeconds();
+    const weekday = departureTime.getDay();
+    const latestArrival = departure + MAX_JOURNEY_DURATION;
+
+    const arrivals = new Float64Array(this.stops.length).fill(Infinity);
+    const labels: Array<StopLabel | undefined> = new Array(this.stops.length);
+    const boardedAt = new Map<number, number>(); // trip index -> boarding connection index
+
+    const accessStops = this.findStopsWithin(origin, maxWalkDistance);
+    const egressStops = this.findStopsWithin(destination, maxWalkDistance);
+    if (accessStops.length === 0 || egressStops.length === 0) return null;
+
+    for (const { stop, distance } of accessStops) {
+      arrivals[stop] = departure + this.estimateWalkTime(distance);
+      labels[stop] = { kind: 'access' };
+    }
+
+    let bestArrival = Infinity;
+    let bestEgress = -1;
+    const updateBest = () => {
+      for (const { stop, distance } of egressStops) {
+        const arrival = arrivals[stop] + this.estimateWalkTime(distance);
+        if (labels[stop]?.kind !== 'access' && arrival < bestArrival) {
+          bestArrival = arrival;
+          bestEgress = stop;
+        }
+      }
+    };
+
+    for (let c = this.findFirstConnection(departure); c < this.connections.length; c++) {
+      const connection = this.connections[c];
+      if (connection.departure >= Math.min(bestArrival, latestArrival)) break;
+      if (!this.runsOn(connection.tripIndex, weekday)) continue;
+
+      if (!boardedAt.has(connection.tripIndex)) {
+        const label = labels[connection.from];
+        // Changing vehicles at the same stop needs a little time; walking transfers already include it
+        const changeTime = label?.kind === 'ride' ? MIN_TRANSFER_TIME : 0;
+        if (arrivals[connection.from] + changeTime > connection.departure) continue;
+        boardedAt.set(connection.tripIndex, c);
+      }
+
+      if (connection.arrival < arrivals[connection.to]) {
+        arrivals[connection.to] = connection.arrival;
+        labels[connection.to] = { kind: 'ride', boardConnection: boardedAt.get(connection.tripIndex)!, alightConnection: c };
+
+        for (const transfer of this.transfers[connection.to]) {
+          const arrival = connection.arrival + transfer.duration;
+          if (arrival < arrivals[transfer.stop]) {
+            arrivals[transfer.stop] = arrival;
+            labels[transfer.stop] = { kind: 'transfer', fromStop: connection.to };
+          }
+        }
+        updateBest();
+      }
+    }
+
+    if (bestEgress < 0) return null;
+
+    return {
+      rides: this.reconstructRides(bestEgress, labels),
+      departure,
+      arrival: bestArrival
+    };
+  }
+
+  private reconstructRides(egressStop: number, labels: Array<StopLabel | undefined>): TransitRide[] {
+    const rides: TransitRide[] = [];
+
+    for (let stop = egressStop, label = labels[stop]; label && label.kind !== 'access'; label = labels[stop]) {
+      if (label.kind === 'transfer') {
+        stop = label.fromStop;
+        continue;
+      }
+
+      rides.unshift(this.buildRide(label.boardConnection, label.alightConnection));
+      stop = this.connections[label.boardConnection].from;
+    }
+
+    return rides;
+  }
+
+  private buildRide(boardIndex: number, alightIndex: number): TransitRide {
+    const board = this.connections[boardIndex];
+    const alight = this.connections[alightIndex];
+    const stops: GtfsStop[] = [this.stops[board.from], this.stops[board.to]];
+
+    // Connections are time-ordered, so the trip's remaining hops lie between boarding and alighting
+    for (let c = boardIndex + 1; c <= alightIndex; c++) {
+      if (this.connections[c].tripIndex === board.tripIndex) {
+        stops.push(this.stops[this.connections[c].to]);
+      }
+    }
+
+    return {
+      trip: this.trips[board.tripIndex],
+      route: this.tripRoutes[board.tripIndex],
+      boardStop: this.stops[board.from],
+      alightStop: this.stops[alight.to],
+      departure: board.departure,
+      arrival: alight.arrival,
+      stops
+    };
+  }
+
+  /**
+   * Estimated walking time in seconds for a straight-line distance in meters
+   */
+  public estimateWalkTime(distance: number): number {
+    return distance * WALK_DETOUR_FACTOR / WALKING_SPEED;
+  }
+
+  private findStopsWithin(location: Location, maxDistance: number): Array<{ stop: number; distance: number }> {
+    return this.stops
+      .map((stop, index) => ({ stop: index, distance: calculateDistance(location, stop) }))
+      .filter(({ distance }) => distance * WALK_DETOUR_FACTOR <= maxDistance);
+  }
+
+  private runsOn(tripIndex: number, weekday: number): boolean {
+    const days = this.serviceDays.get(this.trips[tripIndex].serviceId);
+    return !days || days[weekday];
+  }
+
+  /**
+   * Binary search for the first connection departing at or after a time
+   */
+  private findFirstConnection(departure: number): number {
+    let low = 0;
+    let high = this.connections.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.connections[mid].departure < departure) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
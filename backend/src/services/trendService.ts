@@ -0,0 +1,111 @@
+// Crime Trend Service
+// Period-over-period change in incident rates, treating each period's count as Poisson. The rate ratio
+// gets a log-scale (Wald) confidence interval and significance comes from the exact conditional test:
+// given the total, the current period's count is binomial with its share of the combined exposure.
+// Weighted counts (reputation-weighted reports) are rounded for the test.
+
+import { DateRange } from '../types';
+
+export interface PeriodCount {
+  count: number;
+  period: DateRange;
+}
+
+export interface TrendAnalysis {
+  direction?: 'increasing' | 'decreasing'; // only when the change is significant
+  significant: boolean;
+  changePercent: number; // change in the daily incident rate
+  confidenceInterval: { lower: number; upper: number }; // of changePercent
+  confidenceLevel: number;
+  pValue: number;
+  rateRatio: number;
+  currentIncidents: number;
+  previousIncidents: number;
+  currentPeriod: DateRange;
+  previousPeriod: DateRange;
+}
+
+export const TREND_CONFIDENCE_LEVEL = 0.95;
+const CONFIDENCE_Z = 1.959964; // two-sided normal quantile for TREND_CONFIDENCE_LEVEL
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const logFactorials: number[] = [0];
+
+export class TrendService {
+  /**
+   * Compare the incident rate of a period with that of an earlier one
+   * Periods may differ in length: rates are per day of each period.
+   */
+  public comparePeriods(current: PeriodCount, previous: PeriodCount): TrendAnalysis {
+    const currentDays = this.getDays(current.period);
+    const previousDays = this.getDays(previous.period);
+
+    // Half an incident is added to both counts when either is zero, so the ratio and its interval stay finite
+    const correction = current.count > 0 && previous.count > 0 ? 0 : 0.5;
+    const currentCount = current.count + correction;
+    const previousCount = previous.count + correction;
+    const logRatio = Math.log((currentCount / currentDays) / (previousCount / previousDays));
+    const standardError = Math.sqrt(1 / currentCount + 1 / previousCount);
+
+    const pValue = this.conditionalTest(
+      Math.round(current.count),
+      Math.round(current.count) + Math.round(previous.count),
+      currentDays / (currentDays + previousDays)
+    );
+    const significant = pValue < 1 - TREND_CONFIDENCE_LEVEL;
+    const rateRatio = Math.exp(logRatio);
+    const toPercent = (ratio: number) => parseFloat(((ratio - 1) * 100).toFixed(1));
+
+    return {
+      direction: significant ? (rateRatio > 1 ? 'increasing' : 'decreasing') : undefined,
+      significant,
+      changePercent: toPercent(rateRatio),
+      confidenceInterval: {
+        lower: toPercent(Math.exp(logRatio - CONFIDENCE_Z * standardError)),
+        upper: toPercent(Math.exp(logRatio + CONFIDENCE_Z * standardError))
+      },
+      confidenceLevel: TREND_CONFIDENCE_LEVEL,
+      pValue: parseFloat(pValue.toFixed(4)),
+      rateRatio: parseFloat(rateRatio.toFixed(3)),
+      currentIncidents: parseFloat(current.count.toFixed(2)),
+      previousIncidents: parseFloat(previous.count.toFixed(2)),
+      currentPeriod: current.period,
+      previousPeriod: previous.period
+    };
+  }
+
+  /**
+   * Two-sided exact binomial test of observed successes out of total against share:
+   * the probability of any outcome no more likely than the one observed
+   */
+  private conditionalTest(observed: number, total: number, share: number): number {
+    if (total === 0) return 1;
+
+    const probabilities = Array.from({ length: total + 1 }, (_, successes) => this.binomialProbability(successes, total, share));
+    const threshold = probabilities[observed] * (1 + 1e-7);
+    const pValue = probabilities.filter(probability => probability <= threshold).reduce((sum, probability) => sum + probability, 0);
+
+    return Math.min(1, pValue);
+  }
+
+  private binomialProbability(successes: number, total: number, share: number): number {
+    return Math.exp(
+      this.logFactorial(total) - this.logFactorial(successes) - this.logFactorial(total - successes) +
+      successes * Math.log(share) + (total - successes) * Math.log(1 - share)
+    );
+  }
+
+  private logFactorial(n: number): number {
+    for (let k = logFactorials.length; k <= n; k++) {
+      logFactorials[k] = logFactorials[k - 1] + Math.log(k);
+    }
+    return logFactorials[n];
+  }
+
+  private getDays(range: DateRange): number {
+    return Math.max(1, Math.round((range.end.getTime() - range.start.getTime()) / DAY_MS));
+  }
+}
+
+// Export singleton instance
+export const trendService = new TrendService();
@@ -0,0 +1,29 @@
+/**
+ * Storage Configuration
+ * STORAGE_DRIVER selects 'sqlite' (default) or 'memory'; tests always start with memory.
+ */
+import { MemoryStorage } from './memoryStorage';
+import { SqliteStorage } from './sqliteStorage';
+import { Storage } from './repository';
+
+export * from './repository';
+export { MemoryStorage, MemoryRepository } from './memoryStorage';
+export { SqliteStorage, SqliteRepository } from './sqliteStorage';
+export { KeyedLock, getUserLock } from './keyedLock';
+
+export function createStorage(
+  driver: string = process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'test' ? 'memory' : 'sqlite'),
+  filePath: string = process.env.STORAGE_PATH || './saferoute.db'
+): Storage {
+  switch (driver) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'sqlite':
+      return new SqliteStorage(filePath);
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+// Export singleton instance
+export const storage = createStorage();
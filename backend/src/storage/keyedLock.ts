@@ -0,0 +1,36 @@
+/**
+ * Per-key Locks
+ * Serialise read-modify-write updates of a record: tasks for one key run one at a time in call order,
+ * tasks for different keys run independently.
+ */
+import { Storage } from './repository';
+
+export class KeyedLock {
+  private tails = new Map<string, Promise<void>>();
+
+  public run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.tails.get(key) || Promise.resolve()).then(task);
+    const settled = result.then(() => undefined, () => undefined);
+    this.tails.set(key, settled);
+    settled.then(() => {
+      if (this.tails.get(key) === settled) {
+        this.tails.delete(key);
+      }
+    });
+    return result;
+  }
+}
+
+const userLocks = new WeakMap<Storage, KeyedLock>();
+
+/**
+ * The lock on a store's user records, shared by every service that updates them
+ */
+export function getUserLock(store: Storage): KeyedLock {
+  let lock = userLocks.get(store);
+  if (!lock) {
+    lock = new KeyedLock();
+    userLocks.set(store, lock);
+  }
+  return lock;
+}
@@ -0,0 +1,125 @@
+/**
+ * In-Memory Storage
+ * Same semantics as the SQLite store (serialised copies, TTLs), for tests and ephemeral deployments.
+ */
+import {
+  AlertNotification,
+  CrimeAnomaly,
+  CrimeData,
+  IncidentReport,
+  ModerationDecision,
+  NavigationSession,
+  ReporterReputation,
+  Route,
+  SafetyAlert,
+  User
+} from '../types';
+import {
+  CollectionName,
+  ListOptions,
+  PutOptions,
+  Repository,
+  Storage,
+  deserializeRecord,
+  getExpiry,
+  serializeRecord
+} from './repository';
+
+interface StoredRecord {
+  data: string;
+  updatedAt: number;
+  expiresAt: number | null;
+}
+
+export class MemoryRepository<T> implements Repository<T> {
+  private records: Map<string, StoredRecord> = new Map();
+  private collection: CollectionName;
+
+  constructor(collection: CollectionName) {
+    this.collection = collection;
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const record = this.records.get(id);
+    return record && !this.isExpired(record) ? deserializeRecord<T>(record.data) : undefined;
+  }
+
+  async put(id: string, record: T, options?: PutOptions): Promise<void> {
+    const now = Date.now();
+    this.records.delete(id); // rewritten records move to the end of insertion order
+    this.records.set(id, {
+      data: serializeRecord(record),
+      updatedAt: now,
+      expiresAt: getExpiry(this.collection, options, now)
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async findBy(field: keyof T & string, value: string | number | boolean, options?: ListOptions): Promise<T[]> {
+    const matches = this.liveRecords()
+      .map(record => deserializeRecord<T>(record.data))
+      .filter(record => (record as Record<string, unknown>)[field] === value);
+    return this.paginate(matches, options);
+  }
+
+  async list(options?: ListOptions): Promise<T[]> {
+    return this.paginate(this.liveRecords().map(record => deserializeRecord<T>(record.data)), options);
+  }
+
+  async count(): Promise<number> {
+    return this.liveRecords().length;
+  }
+
+  purgeExpired(): number {
+    let removed = 0;
+    for (const [id, record] of this.records) {
+      if (this.isExpired(record)) {
+        this.records.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Newest first, matching the SQLite ordering
+  private liveRecords(): StoredRecord[] {
+    return Array.from(this.records.values())
+      .filter(record => !this.isExpired(record))
+      .reverse()
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private paginate(records: T[], options?: ListOptions): T[] {
+    const offset = options?.offset || 0;
+    return records.slice(offset, options?.limit !== undefined ? offset + options.limit : undefined);
+  }
+
+  private isExpired(record: StoredRecord): boolean {
+    return record.expiresAt !== null && record.expiresAt <= Date.now();
+  }
+}
+
+export class MemoryStorage implements Storage {
+  routes = new MemoryRepository<Route>('routes');
+  users = new MemoryRepository<User>('users');
+  sessions = new MemoryRepository<NavigationSession>('sessions');
+  incidents = new MemoryRepository<IncidentReport>('incidents');
+  alerts = new MemoryRepository<SafetyAlert>('alerts');
+  notifications = new MemoryRepository<AlertNotification>('notifications');
+  moderation = new MemoryRepository<ModerationDecision>('moderation');
+  reporters = new MemoryRepository<ReporterReputation>('reporters');
+  crimeData = new MemoryRepository<CrimeData>('crimeData');
+  anomalies = new MemoryRepository<CrimeAnomaly>('anomalies');
+
+  async purgeExpired(): Promise<number> {
+    return [this.routes, this.users, this.sessions, this.incidents, this.alerts, this.notifications, this.moderation, this.reporters, this.crimeData, this.anomalies]
+      .reduce((removed, repository) => removed + repository.purgeExpired(), 0);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
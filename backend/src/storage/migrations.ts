@@ -0,0 +1,148 @@
+/**
+ * SQLite Schema Migrations
+ * Applied in version order at startup; each runs once and is recorded in schema_migrations.
+ * Never edit a released migration - add a new one.
+ */
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string | ((db: Database.Database) => void); // SQL, or a step that needs application code
+}
+
+// Every collection is a table of JSON documents with write times and an optional expiry (epoch ms)
+const documentTable = (table: string) => `
+  CREATE TABLE ${table} (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    expires_at INTEGER
+  );
+  CREATE INDEX idx_${table}_expires_at ON ${table} (expires_at) WHERE expires_at IS NOT NULL;
+  CREATE INDEX idx_${table}_updated_at ON ${table} (updated_at);
+`;
+
+/**
+ * Resolution 6 hexagonal grid cell containing a point, as GridService computed it when migration 7 was
+ * released. Frozen here so later changes to the grid can't change what the migration writes.
+ */
+export function hexCellV7(latitude: number, longitude: number): string {
+  const resolution = 6;
+  const baseSpacing = 343000; // meters between resolution 0 cell centres
+  const origin = { latitude: -34.0, longitude: 18.5 };
+  const metersPerDegreeLatitude = 110574;
+  const metersPerDegreeLongitude = 111320 * Math.cos(origin.latitude * Math.PI / 180);
+  const w = { re: 0.5, im: Math.sqrt(3) / 2 };
+  const alpha = { re: 2.5, im: Math.sqrt(3) / 2 };
+  const multiply = (a: typeof w, b: typeof w) => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+
+  let scale = { re: 1, im: 0 };
+  for (let level = 0; level < resolution; level++) {
+    scale = multiply(scale, alpha);
+  }
+  const point = { re: (longitude - origin.longitude) * metersPerDegreeLongitude, im: (latitude - origin.latitude) * metersPerDegreeLatitude };
+  const u = multiply({ re: point.re / baseSpacing, im: point.im / baseSpacing }, scale);
+
+  // Cube rounding to the nearest axial lattice point
+  const r = u.im / w.im;
+  const q = u.re - r * w.re;
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) {
+    rq = -rr - rs;
+  } else if (dr > ds) {
+    rr = -rq - rs;
+  }
+  return `HX${resolution}_${rq + 0}_${rr + 0}`;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_document_tables',
+    up: ['routes', 'users', 'navigation_sessions', 'incident_reports'].map(documentTable).join('\n')
+  },
+  {
+    version: 2,
+    name: 'index_session_lookups',
+    up: `
+      CREATE INDEX idx_navigation_sessions_user ON navigation_sessions (json_extract(data, '$.userId'));
+      CREATE INDEX idx_users_session ON users (json_extract(data, '$.sessionId'));
+    `
+  },
+  {
+    version: 3,
+    name: 'create_safety_alerts_table',
+    up: documentTable('safety_alerts')
+  },
+  {
+    version: 4,
+    name: 'create_alert_notifications_table',
+    up: `
+      ${documentTable('alert_notifications')}
+      CREATE INDEX idx_alert_notifications_user ON alert_notifications (json_extract(data, '$.userId'));
+    `
+  },
+  {
+    version: 5,
+    name: 'index_incident_lookups',
+    up: `
+      CREATE INDEX idx_incident_reports_session ON incident_reports (json_extract(data, '$.sessionId'));
+      CREATE INDEX idx_incident_reports_grid_cell ON incident_reports (json_extract(data, '$.gridCell'));
+      CREATE INDEX idx_incident_reports_verified ON incident_reports (json_extract(data, '$.verified'));
+    `
+  },
+  {
+    version: 6,
+    name: 'create_moderation_tables',
+    up: `
+      ${documentTable('moderation_decisions')}
+      ${documentTable('reporter_reputations')}
+      CREATE INDEX idx_moderation_decisions_report ON moderation_decisions (json_extract(data, '$.reportId'));
+      CREATE INDEX idx_moderation_decisions_moderator ON moderation_decisions (json_extract(data, '$.moderatorId'));
+      UPDATE incident_reports SET data = json_set(data, '$.status',
+        CASE WHEN json_extract(data, '$.verified') THEN 'approved' ELSE 'pending' END)
+      WHERE json_extract(data, '$.status') IS NULL;
+      CREATE INDEX idx_incident_reports_status ON incident_reports (json_extract(data, '$.status'));
+    `
+  },
+  {
+    version: 7,
+    name: 'regrid_incident_reports',
+    // Incident grid cells move from 0.01° squares to the hexagonal grid
+    up: db => {
+      const rows = db.prepare(`
+        SELECT id, json_extract(data, '$.location.latitude') AS latitude, json_extract(data, '$.location.longitude') AS longitude
+        FROM incident_reports
+      `).all() as Array<{ id: string; latitude: number; longitude: number }>;
+      const update = db.prepare(`UPDATE incident_reports SET data = json_set(data, '$.gridCell', ?) WHERE id = ?`);
+      for (const row of rows) {
+        update.run(hexCellV7(row.latitude, row.longitude), row.id);
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'create_crime_data_table',
+    up: `
+      ${documentTable('crime_data')}
+      CREATE INDEX idx_crime_data_grid_cell ON crime_data (json_extract(data, '$.gridCell'));
+      CREATE INDEX idx_crime_data_source ON crime_data (json_extract(data, '$.dataSource'));
+    `
+  },
+  {
+    version: 9,
+    name: 'create_crime_anomalies_table',
+    up: `
+      ${documentTable('crime_anomalies')}
+      CREATE INDEX idx_crime_anomalies_grid_cell ON crime_anomalies (json_extract(data, '$.gridCell'));
+    `
+  }
+];
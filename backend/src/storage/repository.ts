@@ -0,0 +1,98 @@
+/**
+ * Storage Repository Abstraction
+ * Records are stored as JSON documents keyed by ID, with an optional time-to-live.
+ */
+import {
+  AlertNotification,
+  CrimeAnomaly,
+  CrimeData,
+  IncidentReport,
+  ModerationDecision,
+  NavigationSession,
+  ReporterReputation,
+  Route,
+  SafetyAlert,
+  User
+} from '../types';
+
+export interface PutOptions {
+  ttlSeconds?: number; // overrides the collection default; 0 keeps the record indefinitely
+}
+
+export interface ListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface Repository<T> {
+  get(id: string): Promise<T | undefined>;
+  put(id: string, record: T, options?: PutOptions): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  /**
+   * Records whose top-level field equals a value, newest first
+   */
+  findBy(field: keyof T & string, value: string | number | boolean, options?: ListOptions): Promise<T[]>;
+  list(options?: ListOptions): Promise<T[]>;
+  count(): Promise<number>;
+}
+
+export interface Storage {
+  routes: Repository<Route>;
+  users: Repository<User>;
+  sessions: Repository<NavigationSession>;
+  incidents: Repository<IncidentReport>;
+  alerts: Repository<SafetyAlert>;
+  notifications: Repository<AlertNotification>;
+  moderation: Repository<ModerationDecision>;
+  reporters: Repository<ReporterReputation>;
+  crimeData: Repository<CrimeData>; // imported crime statistics
+  anomalies: Repository<CrimeAnomaly>;
+  /**
+   * Remove expired records from every collection
+   * @returns Number of records removed
+   */
+  purgeExpired(): Promise<number>;
+  close(): Promise<void>;
+}
+
+export type CollectionName = 'routes' | 'users' | 'sessions' | 'incidents' | 'alerts' | 'notifications' | 'moderation' | 'reporters' | 'crimeData' | 'anomalies';
+
+// Default time-to-live per collection in seconds (0 = no expiry)
+export const DEFAULT_TTLS: Record<CollectionName, number> = {
+  routes: Number(process.env.ROUTE_TTL) || 24 * 3600,
+  users: 0,
+  sessions: Number(process.env.SESSION_TTL) || 30 * 24 * 3600,
+  incidents: Number(process.env.INCIDENT_TTL) || 365 * 24 * 3600,
+  alerts: 24 * 3600, // alerts are normally written with a TTL ending at their expiresAt
+  notifications: 30 * 24 * 3600,
+  moderation: 0, // the audit trail is kept
+  reporters: Number(process.env.INCIDENT_TTL) || 365 * 24 * 3600,
+  crimeData: 0, // replaced by re-importing
+  anomalies: 7 * 24 * 3600 // kept a week after detection, well past their alerts
+};
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Serialise a record for storage
+ */
+export function serializeRecord<T>(record: T): string {
+  return JSON.stringify(record);
+}
+
+/**
+ * Parse a stored record, restoring Date fields from their ISO timestamps
+ */
+export function deserializeRecord<T>(data: string): T {
+  return JSON.parse(data, (_key, value) =>
+    typeof value === 'string' && ISO_TIMESTAMP.test(value) ? new Date(value) : value
+  );
+}
+
+/**
+ * Expiry timestamp (ms) for a record written now, or null if it never expires
+ */
+export function getExpiry(collection: CollectionName, options?: PutOptions, now: number = Date.now()): number | null {
+  const ttl = options?.ttlSeconds ?? DEFAULT_TTLS[collection];
+  return ttl > 0 ? now + ttl * 1000 : null;
+}
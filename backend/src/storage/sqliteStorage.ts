@@ -0,0 +1,202 @@
+/**
+ * SQLite Storage
+ * Embedded single-file store; survives restarts. Expired rows are hidden on read and purged periodically.
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  AlertNotification,
+  CrimeAnomaly,
+  CrimeData,
+  IncidentReport,
+  ModerationDecision,
+  NavigationSession,
+  ReporterReputation,
+  Route,
+  SafetyAlert,
+  User
+} from '../types';
+import {
+  CollectionName,
+  ListOptions,
+  PutOptions,
+  Repository,
+  Storage,
+  deserializeRecord,
+  getExpiry,
+  serializeRecord
+} from './repository';
+import { MIGRATIONS } from './migrations';
+
+const TABLES: Record<CollectionName, string> = {
+  routes: 'routes',
+  users: 'users',
+  sessions: 'navigation_sessions',
+  incidents: 'incident_reports',
+  alerts: 'safety_alerts',
+  notifications: 'alert_notifications',
+  moderation: 'moderation_decisions',
+  reporters: 'reporter_reputations',
+  crimeData: 'crime_data',
+  anomalies: 'crime_anomalies'
+};
+
+const PURGE_INTERVAL = 10 * 60 * 1000; // ms
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class SqliteRepository<T> implements Repository<T> {
+  private db: Database.Database;
+  private collection: CollectionName;
+  private table: string;
+
+  constructor(db: Database.Database, collection: CollectionName) {
+    this.db = db;
+    this.collection = collection;
+    this.table = TABLES[collection];
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const row = this.db
+      .prepare(`SELECT data FROM ${this.table} WHERE id = ? AND (expires_at IS NULL OR expires_at > ?)`)
+      .get(id, Date.now()) as { data: string } | undefined;
+    return row ? deserializeRecord<T>(row.data) : undefined;
+  }
+
+  async put(id: string, record: T, options?: PutOptions): Promise<void> {
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO ${this.table} (id, data, created_at, updated_at, expires_at)
+      VALUES (@id, @data, @now, @now, @expiresAt)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at, expires_at = excluded.expires_at
+    `).run({ id, data: serializeRecord(record), now, expiresAt: getExpiry(this.collection, options, now) });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id).changes > 0;
+  }
+
+  async findBy(field: keyof T & string, value: string | number | boolean, options?: ListOptions): Promise<T[]> {
+    if (!FIELD_NAME.test(field)) {
+      throw new Error(`Invalid field name: ${field}`);
+    }
+
+    // JSON booleans come back from json_extract as 1/0
+    const rows = this.db.prepare(`
+      SELECT data FROM ${this.table}
+      WHERE json_extract(data, '$.${field}') = ? AND (expires_at IS NULL OR expires_at > ?)
+      ORDER BY updated_at DESC, rowid DESC LIMIT ? OFFSET ?
+    `).all(typeof value === 'boolean' ? Number(value) : value, Date.now(), options?.limit ?? -1, options?.offset || 0) as Array<{ data: string }>;
+    return rows.map(row => deserializeRecord<T>(row.data));
+  }
+
+  async list(options?: ListOptions): Promise<T[]> {
+    const rows = this.db.prepare(`
+      SELECT data FROM ${this.table}
+      WHERE expires_at IS NULL OR expires_at > ?
+      ORDER BY updated_at DESC, rowid DESC LIMIT ? OFFSET ?
+    `).all(Date.now(), options?.limit ?? -1, options?.offset || 0) as Array<{ data: string }>;
+    return rows.map(row => deserializeRecord<T>(row.data));
+  }
+
+  async count(): Promise<number> {
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM ${this.table} WHERE expires_at IS NULL OR expires_at > ?`)
+      .get(Date.now()) as { total: number };
+    return row.total;
+  }
+
+  purgeExpired(): number {
+    return this.db.prepare(`DELETE FROM ${this.table} WHERE expires_at IS NOT NULL AND expires_at <= ?`).run(Date.now()).changes;
+  }
+}
+
+export class SqliteStorage implements Storage {
+  routes: SqliteRepository<Route>;
+  users: SqliteRepository<User>;
+  sessions: SqliteRepository<NavigationSession>;
+  incidents: SqliteRepository<IncidentReport>;
+  alerts: SqliteRepository<SafetyAlert>;
+  notifications: SqliteRepository<AlertNotification>;
+  moderation: SqliteRepository<ModerationDecision>;
+  reporters: SqliteRepository<ReporterReputation>;
+  crimeData: SqliteRepository<CrimeData>;
+  anomalies: SqliteRepository<CrimeAnomaly>;
+
+  private db: Database.Database;
+  private purgeTimer: NodeJS.Timeout;
+
+  /**
+   * Open (creating if needed) the database file and bring its schema up to date
+   * @param filePath Database file, or ':memory:' for a private in-process database
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+
+    this.routes = new SqliteRepository<Route>(this.db, 'routes');
+    this.users = new SqliteRepository<User>(this.db, 'users');
+    this.sessions = new SqliteRepository<NavigationSession>(this.db, 'sessions');
+    this.incidents = new SqliteRepository<IncidentReport>(this.db, 'incidents');
+    this.alerts = new SqliteRepository<SafetyAlert>(this.db, 'alerts');
+    this.notifications = new SqliteRepository<AlertNotification>(this.db, 'notifications');
+    this.moderation = new SqliteRepository<ModerationDecision>(this.db, 'moderation');
+    this.reporters = new SqliteRepository<ReporterReputation>(this.db, 'reporters');
+    this.crimeData = new SqliteRepository<CrimeData>(this.db, 'crimeData');
+    this.anomalies = new SqliteRepository<CrimeAnomaly>(this.db, 'anomalies');
+
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(error => console.error('Storage purge failed:', error));
+    }, PURGE_INTERVAL);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Apply pending migrations, each in its own transaction
+   * @returns Versions applied by this call
+   */
+  public migrate(): number[] {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const applied = new Set(
+      (this.db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: number }>).map(row => row.version)
+    );
+    const pending = MIGRATIONS.filter(migration => !applied.has(migration.version)).sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        if (typeof migration.up === 'string') {
+          this.db.exec(migration.up);
+        } else {
+          migration.up(this.db);
+        }
+        this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+      console.log(`Storage migration ${migration.version} (${migration.name}) applied`);
+    }
+
+    return pending.map(migration => migration.version);
+  }
+
+  async purgeExpired(): Promise<number> {
+    return [this.routes, this.users, this.sessions, this.incidents, this.alerts, this.notifications, this.moderation, this.reporters, this.crimeData, this.anomalies]
+      .reduce((removed, repository) => removed + repository.purgeExpired(), 0);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.purgeTimer);
+    this.db.close();
+  }
+}
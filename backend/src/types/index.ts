@@ -42,17 +42,50 @@ export interface Route {
   id: string;
   origin: Location;
   destination: Location;
-  waypoints?: Location[];
+  waypoints?: Location[]; // in travelled order
+  waypointOrder?: number[]; // indices into the requested waypoints, in travelled order
+  legs?: RouteLeg[]; // one per stop-to-stop leg: origin, waypoints, destination
   totalDistance: number;
   estimatedDuration: number;
   safetyScore: SafetyScore;
   segments: RouteSegment[];
   alternativeRank: number;
+  optimizedFor?: RouteOptimization[];
+  travelMode?: TravelMode; // 'transit' routes mix walking and transit segments
+  roadTypeBreakdown?: RoadTypeBreakdown;
   googleRouteId?: string;
   createdAt: Date;
   lastUpdated: Date;
 }
 
+export interface RouteLeg {
+  index: number;
+  start: Location;
+  end: Location;
+  distance: number;
+  duration: number;
+  segmentIds: string[];
+  safety?: LegSafetySummary; // filled in by route safety scoring
+}
+
+export interface LegSafetySummary {
+  overall: number; // distance-weighted across the leg's segments
+  lowestSegmentScore: number;
+  riskiestSegmentId: string;
+  isRiskiestLeg: boolean;
+  explanation: string;
+}
+
+export interface RoadTypeBreakdown {
+  highway: number; // meters per road type
+  arterial: number;
+  local: number;
+  residential: number;
+  toll: number; // meters on toll roads, across all road types
+}
+
+export type RouteOptimization = 'time' | 'safety' | 'balanced';
+
 export interface RouteSegment {
   id: string;
   startLocation: Location;
@@ -62,6 +95,24 @@ export interface RouteSegment {
   safetyScore: SafetyScore;
   roadType: 'highway' | 'arterial' | 'local' | 'residential';
   lightingLevel: 'high' | 'medium' | 'low' | 'none';
+  travelMode?: TravelMode;
+  transit?: TransitDetails;
+  geometry?: Array<[number, number]>; // [longitude, latitude] polyline from start to end
+}
+
+export interface TransitDetails {
+  agency: string; // e.g. MyCiTi, Metrorail
+  line: string;
+  lineName: string;
+  vehicle: 'bus' | 'rail' | 'tram' | 'ferry';
+  headsign?: string;
+  tripId: string;
+  departureStop: string;
+  arrivalStop: string;
+  departureTime: string; // HH:MM:SS timetable time
+  arrivalTime: string;
+  stopCount: number; // stops travelled, excluding the boarding stop
+  waitTime: number; // seconds at the boarding stop, included in the segment duration
 }
 
 export interface SafetyScore {
@@ -96,6 +147,7 @@ export interface CrimeData {
   economicIndicators: EconomicData;
   lastUpdated: Date;
   dataSource: 'saps' | 'synthetic' | 'crowdsourced';
+  importFormat?: 'csv' | 'geojson' | 'saps'; // file format of imported data
 }
 
 export interface CrimeStatistic {
@@ -111,6 +163,15 @@ export interface HourlyPattern {
   [hour: string]: number;
 }
 
+export type IncidentSeriesGranularity = 'day' | 'week';
+
+export interface IncidentBucket {
+  start: Date;
+  end: Date;
+  incidentCount: number;
+  incidentsByType: Record<CrimeStatistic['type'], number>;
+}
+
 export interface EconomicData {
   averageIncome: number;
   unemploymentRate: number;
@@ -122,21 +183,58 @@ export interface User {
   id: string;
   sessionId: string;
   preferences: UserPreferences;
-  usageHistory: NavigationSession[];
+  usageHistory: UsageSummary[]; // most recent completed sessions, oldest first
   location: Location;
+  savedPlaces?: SavedPlace[];
   createdAt: Date;
   lastActive: Date;
 }
 
+// Compact record of a completed navigation session; the full session stays in the sessions store
+export interface UsageSummary {
+  sessionId: string;
+  routeId: string;
+  travelMode?: TravelMode;
+  startTime: Date;
+  completedAt: Date;
+  distance: number; // meters
+  safetyScore: number; // route's overall score
+  deviations: number;
+  safetyRating?: number; // from the traveller's feedback
+}
+
+export interface SavedPlace {
+  id: string;
+  name: string; // e.g. "Home", "Work", "School"
+  geofence: Geofence;
+  minSeverity: AlertSeverity; // least severe alert worth notifying about
+  createdAt: Date;
+}
+
+export type Geofence =
+  | { type: 'circle'; center: Location; radius: number } // radius in meters
+  | { type: 'polygon'; polygon: GeoJSONPolygon };
+
 export interface UserPreferences {
   safetyPriority: number;
   riskTolerance: 'low' | 'medium' | 'high';
-  avoidAreas: string[];
+  avoidAreas: Array<string | AvoidArea>;
   preferredTravelModes: TravelMode[];
   notificationSettings: NotificationPrefs;
   accessibilityNeeds: string[];
 }
 
+export interface AvoidArea {
+  area: string | GeoJSONPolygon; // neighborhood name, grid cell ID or polygon
+  mode?: 'hard' | 'soft';
+  penalty?: number; // soft mode cost multiplier
+}
+
+export interface GeoJSONPolygon {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: number[][][] | number[][][][]; // [longitude, latitude] rings
+}
+
 export interface NotificationPrefs {
   safetyAlerts: boolean;
   routeUpdates: boolean;
@@ -155,6 +253,12 @@ export interface NavigationSession {
   estimatedArrival: Date;
   actualArrival?: Date;
   status: NavigationStatus;
+  statusHistory?: NavigationStatusChange[];
+  progress?: NavigationProgress;
+  routeOptions?: RouteOptions; // options the route was planned with, reused when re-routing
+  preferences?: UserPreferences;
+  deviationThreshold?: number; // meters off the route before a location counts as a deviation
+  rerouteOffer?: RerouteOffer;
   alerts: SafetyAlert[];
   routeDeviations: RouteDeviation[];
   userFeedback?: SessionFeedback;
@@ -162,6 +266,30 @@ export interface NavigationSession {
 
 export type NavigationStatus = 'planning' | 'active' | 'paused' | 'completed' | 'cancelled';
 
+export interface NavigationStatusChange {
+  from?: NavigationStatus; // undefined for the session's initial status
+  to: NavigationStatus;
+  timestamp: Date;
+  reason?: string;
+}
+
+export interface NavigationProgress {
+  segmentId: string; // segment the traveller was last matched to
+  distanceTravelled: number; // meters along the route
+  distanceRemaining: number;
+  durationRemaining: number; // seconds
+  distanceFromRoute: number; // meters from the nearest point on the route
+  offRouteUpdates: number; // consecutive location updates beyond the deviation threshold
+  updatedAt: Date;
+}
+
+export interface RerouteOffer {
+  route: Route; // from the deviated position, already stored and retrievable by ID
+  offeredAt: Date;
+  optimizeFor: RouteOptimization;
+  durationChange: number; // seconds versus the remaining time on the original route
+}
+
 export interface SafetyAlert {
   id: string;
   type: 'high_crime_area' | 'poor_lighting' | 'route_deviation' | 'emergency';
@@ -170,7 +298,50 @@ export interface SafetyAlert {
   location: Location;
   timestamp: Date;
   acknowledged: boolean;
+  acknowledgedAt?: Date;
   actionTaken?: string;
+  expiresAt?: Date; // end of the time window the alert applies to
+}
+
+export type AlertSeverity = SafetyAlert['severity'];
+
+export interface CrimeAnomaly {
+  id: string; // one per grid cell and hour
+  gridCell: string;
+  location: Location; // where the hour's reports were
+  hourStart: Date;
+  hourOfWeek: number; // 0-167 from Sunday midnight, local time
+  observedIncidents: number;
+  expectedIncidents: number; // from the cell's hourly patterns for that hour of the week
+  incidentsByType: Record<CrimeStatistic['type'], number>;
+  pValue: number; // chance of at least the observed incidents at the expected rate
+  severity: AlertSeverity;
+  incidentIds: string[];
+  detectedAt: Date;
+  expiresAt: Date; // end of its high_crime_area alert
+}
+
+export interface AlertNotification {
+  id: string; // one per user, place and alert
+  userId: string;
+  placeId: string;
+  placeName: string;
+  alert: SafetyAlert;
+  channel: string; // notifier that delivered it
+  deliveredAt: Date;
+}
+
+export interface AlertSubscriptionFilter {
+  location?: Location; // city-wide when omitted
+  radius: number; // meters
+  minSeverity: AlertSeverity;
+}
+
+export interface AlertStreamEvent {
+  id: number; // increasing across the stream; clients resume after it with Last-Event-ID
+  type: 'new' | 'updated' | 'expired';
+  alert: SafetyAlert;
+  timestamp: Date;
 }
 
 export interface RouteDeviation {
@@ -179,7 +350,7 @@ export interface RouteDeviation {
   actualLocation: Location;
   distanceFromRoute: number;
   reason?: string;
-  safetyImpact: number;
+  safetyImpact: number; // route safety at the nearest route point minus safety at the actual position; positive is riskier
 }
 
 export interface SessionFeedback {
@@ -191,12 +362,46 @@ export interface SessionFeedback {
 }
 
 export interface IncidentReport {
-  type: string;
+  id: string;
+  type: string; // crime subtype, e.g. 'mugging', 'car_breaking'
+  crimeType: CrimeStatistic['type'];
   location: Location;
-  timestamp: Date;
+  gridCell: string;
+  timestamp: Date; // when the incident happened
+  reportedAt: Date;
+  sessionId: string; // reporting client session, for rate limiting and corroboration
+  clientIp?: string; // reporting client address, for rate limiting and corroboration
   description: string;
-  severity: number;
-  verified: boolean;
+  severity: number; // 1-10, as CrimeStatistic.severity
+  status: IncidentStatus;
+  verified: boolean; // approved, so it counts towards crime data
+  verifiedAt?: Date;
+  weight?: number; // reporter reputation weight when approved, scales its effect on crime data
+  suspectedSpam?: boolean;
+  mergedInto?: string; // primary report this duplicate was merged into
+  mergedReportIds?: string[]; // duplicates merged into this report
+}
+
+export type IncidentStatus = 'pending' | 'approved' | 'rejected' | 'merged' | 'spam';
+
+export interface ModerationDecision {
+  id: string;
+  reportId: string;
+  action: 'approve' | 'reject' | 'spam' | 'merge';
+  moderatorId: string; // 'system' for automatic decisions
+  reason?: string;
+  previousStatus: IncidentStatus;
+  newStatus: IncidentStatus;
+  relatedReportIds?: string[]; // duplicates merged by this decision
+  timestamp: Date;
+}
+
+export interface ReporterReputation {
+  sessionId: string;
+  approved: number;
+  rejected: number;
+  spam: number;
+  updatedAt: Date;
 }
 
 // Supporting Types
@@ -233,7 +438,11 @@ export interface RouteOptions {
   maxRoutes?: number;
   avoidTolls?: boolean;
   avoidHighways?: boolean;
-  optimizeFor?: 'time' | 'safety' | 'balanced';
+  optimizeFor?: RouteOptimization;
+  travelMode?: TravelMode; // defaults to the first preferred travel mode, then driving
+  departureTime?: string; // ISO timestamp, defaults to now; drives transit timetables and time-of-day risk
+  optimizeWaypointOrder?: boolean; // reorder waypoints for the lowest combined cost; origin and destination stay fixed
+  modelVersion?: string; // scoring model version, the default model when omitted
 }
 
 export interface RouteResponse {
@@ -243,15 +452,64 @@ export interface RouteResponse {
     safest?: string;
     balanced?: string;
   };
+  avoidAreas?: AvoidAreaReport[];
+  relaxedOptions?: Array<'avoidTolls' | 'avoidHighways'>; // constraints that left no route and were downgraded to penalties
   metadata: ResponseMetadata;
 }
 
+export interface DepartureTimeRequest {
+  origin: Location;
+  destination: Location;
+  waypoints?: Location[];
+  preferences?: UserPreferences;
+  options?: Omit<RouteOptions, 'departureTime' | 'maxRoutes'>;
+  window: {
+    start: string; // ISO timestamps bounding the candidate departure times
+    end: string;
+  };
+  intervalMinutes?: number; // spacing between candidate departures, default 15
+  preferredDepartureTime?: string; // baseline for the recommendation, defaults to the window start
+}
+
+export interface DepartureOption {
+  rank: number;
+  departureTime: string;
+  arrivalTime: string;
+  estimatedDuration: number;
+  safetyScore: number;
+  score: number; // safety and duration combined by safetyPriority, higher is better
+  routeId: string;
+  travelMode?: TravelMode;
+}
+
+export interface DepartureTimeResponse {
+  departures: DepartureOption[]; // best first
+  recommendation: string;
+  metadata: ResponseMetadata;
+}
+
+export interface AvoidAreaReport {
+  area: string;
+  mode: 'hard' | 'soft';
+  avoided: boolean;
+  routeIds: string[]; // routes that still pass through the area
+  reason?:
+    | 'unrecognized_area'
+    | 'origin_inside_area'
+    | 'destination_inside_area'
+    | 'waypoint_inside_area'
+    | 'no_route_outside_area'
+    | 'detour_too_costly';
+  message?: string;
+}
+
 export interface SafetyScoreRequest {
   location: Location;
   route?: Location[];
   timeContext?: TimeContext;
   factors?: ScoringFactors;
   userContext?: UserContext;
+  modelVersion?: string; // scoring model version, the default model when omitted
 }
 
 export interface TimeContext {
@@ -302,6 +560,18 @@ export interface ScoringMetadata {
   dataSourcesUsed?: string[];
   aiModelVersion?: string;
   confidenceFactors?: Record<string, number>;
+  riskEstimate?: {
+    risk: number; // 0-1 interpolated crime risk
+    uncertainty: number; // 0-1
+    support: number; // weight of nearby crime data
+  };
+  personalization?: {
+    vulnerabilityFactors: string[]; // declared factors that changed the score
+    unrecognizedFactors: string[];
+    crimeRiskMultiplier: number; // applied to the crime risk for the applied factors
+    riskTolerance: 'low' | 'medium' | 'high';
+    thresholdShift: number; // points added to alert and recommendation thresholds
+  };
 }
 
 export interface ErrorResponse {
@@ -0,0 +1,99 @@
+// Contract Test: /api/imports crime dataset imports
+// Datasets are posted as raw text or JSON; the admin key is set per test through the environment
+
+import request from 'supertest';
+import app from '../../src/index';
+
+describe('/api/imports', () => {
+  const adminKey = 'contract-admin-key';
+  const originalEnv = { ADMIN_API_KEY: process.env.ADMIN_API_KEY, ADMIN_AUTH_DISABLED: process.env.ADMIN_AUTH_DISABLED };
+
+  const csv = [
+    'category,date,time,latitude,longitude',
+    'Common robbery,2025-02-01,21:15,-33.9249,18.4241',
+    'Pickpocketing,2025-02-03,,-33.9251,18.4243',
+    'Burglary,2025-02-30,,-33.9249,18.4241'
+  ].join('\n');
+
+  const geojson = {
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', geometry: { type: 'Point', coordinates: [18.4633, -33.9328] }, properties: { category: 'Assault', date: '2025-03-01' } }
+    ]
+  };
+
+  const asAdmin = (req: request.Test) => req.set('Authorization', `Bearer ${adminKey}`);
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = adminKey;
+    delete process.env.ADMIN_AUTH_DISABLED;
+  });
+
+  afterAll(() => {
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('should require the admin API key', async () => {
+    const missing = await request(app).post('/api/imports').set('Content-Type', 'text/csv').send(csv).expect(401);
+    expect(missing.body).toMatchObject({ error: 'UNAUTHORIZED' });
+    expect(missing.body).toHaveProperty('timestamp');
+    expect(missing.body).toHaveProperty('requestId');
+
+    await request(app).get('/api/imports/records').set('Authorization', 'Bearer wrong-key').expect(401);
+    await request(app).delete('/api/imports/records/open_missing').expect(401);
+  });
+
+  it('should validate a CSV file on a dry run without storing it', async () => {
+    const response = await asAdmin(request(app).post('/api/imports?dryRun=true'))
+      .set('Content-Type', 'text/csv')
+      .send(csv)
+      .expect(200);
+
+    expect(response.body).toMatchObject({ format: 'csv', rowsRead: 3, rowsImported: 2, rowsSkipped: 0, dryRun: true });
+    expect(response.body.errors).toEqual([expect.objectContaining({ row: 4, field: 'date' })]);
+    expect(response.body.recordIds).toHaveLength(1);
+
+    const records = await asAdmin(request(app).get('/api/imports/records')).expect(200);
+    expect(records.body.records).toEqual([]);
+  });
+
+  it('should import, list and delete records', async () => {
+    const imported = await asAdmin(request(app).post('/api/imports')).send(geojson).expect(200);
+    expect(imported.body).toMatchObject({ format: 'geojson', rowsImported: 1 });
+    const [id] = imported.body.recordIds;
+    expect(id).toMatch(/^open_/);
+
+    const records = await asAdmin(request(app).get('/api/imports/records?limit=500')).expect(200);
+    expect(records.body.pagination).toEqual({ limit: 100, offset: 0 });
+    expect(records.body.records.find((record: { id: string }) => record.id === id)).toMatchObject({
+      dataSource: 'saps',
+      importFormat: 'geojson'
+    });
+
+    await asAdmin(request(app).delete(`/api/imports/records/${id}`)).expect(204);
+    const missing = await asAdmin(request(app).delete(`/api/imports/records/${id}`)).expect(404);
+    expect(missing.body.error).toBe('RECORD_NOT_FOUND');
+  });
+
+  it('should reject missing content, unknown formats and unreadable files', async () => {
+    const empty = await asAdmin(request(app).post('/api/imports')).send({}).expect(400);
+    expect(empty.body.error).toBe('MISSING_CONTENT');
+
+    const format = await asAdmin(request(app).post('/api/imports?format=xlsx')).send({ content: csv }).expect(400);
+    expect(format.body.error).toBe('INVALID_FORMAT');
+
+    const json = await asAdmin(request(app).post('/api/imports'))
+      .send({ format: 'geojson', content: '{"type": "FeatureCollection"' })
+      .expect(422);
+    expect(json.body.error).toBe('INVALID_FILE');
+
+    const columns = await asAdmin(request(app).post('/api/imports?format=csv'))
+      .set('Content-Type', 'text/csv')
+      .send('name,when\nTheft,2025-02-01')
+      .expect(422);
+    expect(columns.body.error).toBe('INVALID_FILE');
+  });
+});
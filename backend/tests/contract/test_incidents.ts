@@ -0,0 +1,87 @@
+// Contract Test: /api/incidents crowdsourced incident reports
+// Every request comes from the same client address, so the file stays under the per-address rate limit
+
+import request from 'supertest';
+import app from '../../src/index';
+
+describe('/api/incidents', () => {
+  const report = (sessionId: string, body: Record<string, unknown> = {}) => ({
+    sessionId,
+    type: 'mugging',
+    description: 'Phone taken at knifepoint near the taxi rank',
+    location: { latitude: -33.9249, longitude: 18.4241 },
+    ...body
+  });
+
+  it('should queue a report and return it without the reporter details', async () => {
+    const response = await request(app).post('/api/incidents').send(report('reporter-1', { severity: 7 })).expect(201);
+
+    expect(response.body).toMatchObject({
+      type: 'mugging',
+      crimeType: 'violent',
+      severity: 7,
+      status: 'pending',
+      verified: false,
+      description: 'Phone taken at knifepoint near the taxi rank'
+    });
+    expect(response.body).toHaveProperty('id');
+    expect(response.body).toHaveProperty('gridCell');
+    for (const hidden of ['sessionId', 'clientIp', 'weight', 'suspectedSpam']) {
+      expect(response.body).not.toHaveProperty(hidden);
+    }
+
+    const fetched = await request(app).get(`/api/incidents/${response.body.id}`).expect(200);
+    expect(fetched.body.id).toBe(response.body.id);
+    expect(fetched.body).not.toHaveProperty('sessionId');
+  });
+
+  it('should take the session from the X-Session-Id header', async () => {
+    const { sessionId: _sessionId, ...body } = report('unused');
+    const response = await request(app).post('/api/incidents').set('X-Session-Id', 'reporter-2').send(body).expect(201);
+    expect(response.body.status).toBe('pending');
+  });
+
+  it('should validate reports', async () => {
+    const { sessionId: _sessionId, ...anonymous } = report('unused');
+    const missing = await request(app).post('/api/incidents').send(anonymous).expect(400);
+    expect(missing.body).toMatchObject({ error: 'INVALID_INCIDENT', message: 'sessionId is required' });
+    expect(missing.body).toHaveProperty('timestamp');
+    expect(missing.body).toHaveProperty('requestId');
+
+    const type = await request(app).post('/api/incidents').send(report('reporter-3', { type: 'alien_abduction' })).expect(400);
+    expect(type.body.error).toBe('INVALID_INCIDENT');
+
+    const severity = await request(app).post('/api/incidents').send(report('reporter-3', { severity: 11 })).expect(400);
+    expect(severity.body.error).toBe('INVALID_INCIDENT');
+
+    const outside = await request(app)
+      .post('/api/incidents')
+      .send(report('reporter-3', { location: { latitude: -26.2, longitude: 28.04 } }))
+      .expect(400);
+    expect(outside.body.error).toBe('INVALID_LOCATION');
+  });
+
+  it('should return 404 for unknown reports', async () => {
+    const response = await request(app).get('/api/incidents/incident_missing').expect(404);
+    expect(response.body.error).toBe('INCIDENT_NOT_FOUND');
+  });
+
+  it('should rate limit each session with a Retry-After header', async () => {
+    for (let i = 0; i < 5; i++) {
+      await request(app).post('/api/incidents').send(report('reporter-4', { type: 'vandalism' })).expect(201);
+    }
+
+    const limited = await request(app).post('/api/incidents').send(report('reporter-4')).expect(429);
+    expect(limited.body.error).toBe('RATE_LIMITED');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should leave reports from new sessions for moderators however many agree', async () => {
+    const responses = [];
+    for (const sessionId of ['new-1', 'new-2', 'new-3']) {
+      responses.push(await request(app).post('/api/incidents').send(report(sessionId, { type: 'bag_snatching' })).expect(201));
+    }
+
+    expect(responses.map(response => response.body.status)).toEqual(['pending', 'pending', 'pending']);
+  });
+});
@@ -0,0 +1,123 @@
+// Contract Test: /api/moderation incident moderation endpoints
+// Reports are submitted through POST /api/incidents; the admin key is set per test through the environment
+
+import request from 'supertest';
+import app from '../../src/index';
+
+describe('/api/moderation', () => {
+  const adminKey = 'contract-admin-key';
+  const originalEnv = { ADMIN_API_KEY: process.env.ADMIN_API_KEY, ADMIN_AUTH_DISABLED: process.env.ADMIN_AUTH_DISABLED };
+
+  let reportCount = 0;
+  const submitReport = async (type: string = 'mugging') => {
+    const response = await request(app)
+      .post('/api/incidents')
+      .send({
+        sessionId: `moderation-reporter-${reportCount++}`,
+        type,
+        description: 'Phone taken at knifepoint near the taxi rank',
+        location: { latitude: -33.9249, longitude: 18.4241 }
+      })
+      .expect(201);
+    return response.body.id as string;
+  };
+
+  const asAdmin = (req: request.Test) => req.set('Authorization', `Bearer ${adminKey}`).set('X-Moderator-Id', 'mod-contract');
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = adminKey;
+    delete process.env.ADMIN_AUTH_DISABLED;
+  });
+
+  afterAll(() => {
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('should require the admin API key', async () => {
+    const missing = await request(app).get('/api/moderation/incidents').expect(401);
+    expect(missing.body).toMatchObject({ error: 'UNAUTHORIZED' });
+    expect(missing.body).toHaveProperty('timestamp');
+    expect(missing.body).toHaveProperty('requestId');
+
+    await request(app).get('/api/moderation/incidents').set('Authorization', 'Bearer wrong-key').expect(401);
+    await asAdmin(request(app).get('/api/moderation/incidents')).expect(200);
+  });
+
+  it('should close the admin API without a key unless auth is explicitly disabled', async () => {
+    delete process.env.ADMIN_API_KEY;
+    const closed = await request(app).get('/api/moderation/decisions').expect(403);
+    expect(closed.body.error).toBe('UNAUTHORIZED');
+
+    process.env.ADMIN_AUTH_DISABLED = 'true';
+    await request(app).get('/api/moderation/decisions').expect(200);
+  });
+
+  it('should list the queue and validate its filters', async () => {
+    const id = await submitReport();
+
+    const queue = await asAdmin(request(app).get('/api/moderation/incidents?limit=500')).expect(200);
+    expect(queue.body.pagination).toEqual({ limit: 100, offset: 0 });
+    const item = queue.body.items.find((entry: { report: { id: string } }) => entry.report.id === id);
+    expect(item).toMatchObject({ report: { status: 'pending' }, reputation: 0.5 });
+    expect(Array.isArray(item.possibleDuplicates)).toBe(true);
+
+    const invalid = await asAdmin(request(app).get('/api/moderation/incidents?status=archived')).expect(400);
+    expect(invalid.body.error).toBe('INVALID_STATUS');
+  });
+
+  it('should approve, reject and flag reports and record the audit trail', async () => {
+    const id = await submitReport('robbery');
+
+    const approved = await asAdmin(request(app).post(`/api/moderation/incidents/${id}/approve`))
+      .send({ reason: 'Matches a SAPS report' })
+      .expect(200);
+    expect(approved.body).toMatchObject({ id, status: 'approved', verified: true });
+
+    const again = await asAdmin(request(app).post(`/api/moderation/incidents/${id}/approve`)).expect(409);
+    expect(again.body.error).toBe('INVALID_DECISION');
+
+    const noReason = await asAdmin(request(app).post(`/api/moderation/incidents/${id}/reject`)).send({}).expect(400);
+    expect(noReason.body.error).toBe('INVALID_REASON');
+    const longReason = await asAdmin(request(app).post(`/api/moderation/incidents/${id}/spam`))
+      .send({ reason: 'x'.repeat(501) })
+      .expect(400);
+    expect(longReason.body.error).toBe('INVALID_REASON');
+
+    const rejected = await asAdmin(request(app).post(`/api/moderation/incidents/${id}/reject`))
+      .send({ reason: 'Duplicate of a police report' })
+      .expect(200);
+    expect(rejected.body).toMatchObject({ status: 'rejected', verified: false });
+
+    const spam = await asAdmin(request(app).post(`/api/moderation/incidents/${id}/spam`)).expect(200);
+    expect(spam.body.status).toBe('spam');
+
+    const audit = await asAdmin(request(app).get(`/api/moderation/incidents/${id}/audit`)).expect(200);
+    expect(audit.body.reportId).toBe(id);
+    expect(audit.body.decisions.map((decision: { action: string }) => decision.action)).toEqual(['approve', 'reject', 'spam']);
+
+    const decisions = await asAdmin(request(app).get('/api/moderation/decisions?moderatorId=mod-contract')).expect(200);
+    expect(decisions.body.decisions.every((decision: { moderatorId: string }) => decision.moderatorId === 'mod-contract')).toBe(true);
+    expect(decisions.body.decisions.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should merge duplicate reports', async () => {
+    const primary = await submitReport('assault');
+    const duplicate = await submitReport('assault');
+
+    const invalid = await asAdmin(request(app).post(`/api/moderation/incidents/${primary}/merge`)).send({ duplicateIds: [] }).expect(400);
+    expect(invalid.body.error).toBe('INVALID_DUPLICATES');
+
+    const merged = await asAdmin(request(app).post(`/api/moderation/incidents/${primary}/merge`))
+      .send({ duplicateIds: [duplicate] })
+      .expect(200);
+    expect(merged.body.mergedReportIds).toEqual([duplicate]);
+  });
+
+  it('should return 404 for unknown reports', async () => {
+    const response = await asAdmin(request(app).post('/api/moderation/incidents/incident_missing/approve')).expect(404);
+    expect(response.body.error).toBe('INCIDENT_NOT_FOUND');
+  });
+});
@@ -205,4 +205,14 @@ describe('GET /api/routes/:routeId/safety', () => {
     expect(response.body).toHaveProperty('overall');
     expect(response.body.explanation).toMatch(/evening|night/i); // Should recognize it's evening in Cape Town
   });
-});
\ No newline at end of file
+
+  it('should return 400 for an unknown scoring model version', async () => {
+    const response = await request(app)
+      .get(`/api/routes/${validRouteId}/safety`)
+      .query({ currentTime, modelVersion: '0.0.0' })
+      .expect(400);
+
+    expect(response.body.error).toBe('UNKNOWN_SCORING_MODEL');
+    expect(response.body.details.availableVersions).toContain('1.0.0');
+  });
+});
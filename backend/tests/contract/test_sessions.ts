@@ -0,0 +1,165 @@
+// Contract Test: /api/sessions navigation session endpoints
+// Sessions run on a route calculated through POST /api/routes/calculate, for a user created by saving a place
+
+import request from 'supertest';
+import app from '../../src/index';
+
+describe('/api/sessions', () => {
+  const origin = { latitude: -33.9249, longitude: 18.4241, address: 'Cape Town City Centre' };
+  const destination = { latitude: -33.9036, longitude: 18.4208, address: 'V&A Waterfront' };
+
+  let routeId: string;
+  let userSessionId: string;
+
+  beforeAll(async () => {
+    const response = await request(app)
+      .post('/api/routes/calculate')
+      .send({ origin, destination, preferences: { maxAlternatives: 1 } })
+      .expect(200);
+    routeId = response.body.routes[0].id;
+
+    const place = await request(app)
+      .post('/api/users/contract-user/places')
+      .send({ name: 'Home', geofence: { type: 'circle', center: origin, radius: 300 } })
+      .expect(201);
+    userSessionId = place.headers['x-session-id'];
+  });
+
+  const startSession = (body: Record<string, unknown> = {}) => request(app)
+    .post('/api/sessions')
+    .set('X-Session-Id', userSessionId)
+    .send({ routeId, userId: 'contract-user', ...body });
+
+  it('should start an active session with progress fields', async () => {
+    const response = await startSession().expect(201);
+
+    expect(response.body).toHaveProperty('id');
+    expect(response.body).toHaveProperty('status', 'active');
+    expect(response.body).toHaveProperty('userId', 'contract-user');
+    expect(response.body.selectedRoute).toHaveProperty('id', routeId);
+    expect(new Date(response.body.estimatedArrival).getTime()).toBeGreaterThan(new Date(response.body.startTime).getTime());
+    expect(Array.isArray(response.body.alerts)).toBe(true);
+
+    const fetched = await request(app).get(`/api/sessions/${response.body.id}`).expect(200);
+    expect(fetched.body.id).toBe(response.body.id);
+  });
+
+  it('should validate session creation', async () => {
+    const missing = await request(app).post('/api/sessions').send({}).expect(400);
+    expect(missing.body).toMatchObject({ error: 'MISSING_REQUIRED_FIELDS' });
+    expect(missing.body).toHaveProperty('timestamp');
+    expect(missing.body).toHaveProperty('requestId');
+
+    const outside = await startSession({ currentLocation: { latitude: -26.2, longitude: 28.04 } }).expect(400);
+    expect(outside.body.error).toBe('INVALID_LOCATION');
+
+    const travelMode = await startSession({ routeOptions: { travelMode: 'teleport' } }).expect(400);
+    expect(travelMode.body.error).toBe('INVALID_TRAVEL_MODE');
+
+    const optimizeFor = await startSession({ routeOptions: { optimizeFor: 'scenery' } }).expect(400);
+    expect(optimizeFor.body.error).toBe('INVALID_ROUTE_OPTIONS');
+
+    const modelVersion = await startSession({ routeOptions: { modelVersion: '0.0.0' } }).expect(400);
+    expect(modelVersion.body.error).toBe('INVALID_ROUTE_OPTIONS');
+
+    const riskTolerance = await startSession({ preferences: { riskTolerance: 'reckless' } }).expect(400);
+    expect(riskTolerance.body.error).toBe('INVALID_PREFERENCES');
+
+    const threshold = await startSession({ deviationThreshold: -5 }).expect(400);
+    expect(threshold.body.error).toBe('INVALID_DEVIATION_THRESHOLD');
+
+    const unknownRoute = await startSession({ routeId: 'route_missing' }).expect(404);
+    expect(unknownRoute.body.error).toBe('ROUTE_NOT_FOUND');
+  });
+
+  it('should require the user\'s own session to navigate as them', async () => {
+    const anonymous = await request(app).post('/api/sessions').send({ routeId }).expect(201);
+    expect(anonymous.body.userId).toBe('anonymous');
+
+    const missing = await request(app).post('/api/sessions').send({ routeId, userId: 'contract-user' }).expect(401);
+    expect(missing.body.error).toBe('USER_SESSION_REQUIRED');
+
+    const other = await request(app)
+      .post('/api/sessions')
+      .set('X-Session-Id', 'someone-else')
+      .send({ routeId, userId: 'contract-user' })
+      .expect(403);
+    expect(other.body.error).toBe('FORBIDDEN');
+
+    const unknown = await startSession({ userId: 'nobody' }).expect(404);
+    expect(unknown.body.error).toBe('USER_NOT_FOUND');
+
+    const invalid = await startSession({ userId: 42 }).expect(400);
+    expect(invalid.body.error).toBe('INVALID_USER_ID');
+  });
+
+  it('should accept location updates and reject invalid ones', async () => {
+    const { body: session } = await startSession().expect(201);
+
+    const response = await request(app)
+      .post(`/api/sessions/${session.id}/location`)
+      .send({ location: origin, timestamp: '2025-03-14T12:00:00Z' })
+      .expect(200);
+    expect(response.body).toMatchObject({ sessionId: session.id, status: 'active' });
+    expect(response.body.progress).toHaveProperty('distanceRemaining');
+    expect(Array.isArray(response.body.alerts)).toBe(true);
+
+    await request(app).post(`/api/sessions/${session.id}/location`).send({}).expect(400);
+    const badTime = await request(app)
+      .post(`/api/sessions/${session.id}/location`)
+      .send({ location: origin, timestamp: 'yesterday' })
+      .expect(400);
+    expect(badTime.body.error).toBe('INVALID_TIMESTAMP');
+  });
+
+  it('should apply status actions and reject invalid transitions', async () => {
+    const { body: session } = await startSession().expect(201);
+
+    const paused = await request(app).post(`/api/sessions/${session.id}/pause`).expect(200);
+    expect(paused.body.status).toBe('paused');
+
+    const location = await request(app).post(`/api/sessions/${session.id}/location`).send({ location: origin }).expect(409);
+    expect(location.body.error).toBe('SESSION_NOT_ACTIVE');
+
+    const badFeedback = await request(app)
+      .post(`/api/sessions/${session.id}/complete`)
+      .send({ feedback: { safetyRating: 9, routeQuality: 3, wouldRecommend: true, reportedIncidents: [] } })
+      .expect(400);
+    expect(badFeedback.body.error).toBe('INVALID_FEEDBACK');
+
+    const completed = await request(app)
+      .post(`/api/sessions/${session.id}/complete`)
+      .send({ feedback: { safetyRating: 4, routeQuality: 5, wouldRecommend: true, reportedIncidents: [] } })
+      .expect(200);
+    expect(completed.body.status).toBe('completed');
+    expect(completed.body).toHaveProperty('actualArrival');
+
+    const final = await request(app).post(`/api/sessions/${session.id}/resume`).expect(409);
+    expect(final.body.error).toBe('INVALID_STATUS_TRANSITION');
+
+    await request(app).post(`/api/sessions/${session.id}/teleport`).expect(404);
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    for (const path of ['', '/alerts', '/deviations']) {
+      const response = await request(app).get(`/api/sessions/session_missing${path}`).expect(404);
+      expect(response.body.error).toBe('SESSION_NOT_FOUND');
+    }
+
+    const reroute = await request(app).post('/api/sessions/session_missing/reroute').expect(404);
+    expect(reroute.body.error).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('should return alert and deviation logs, and 409 without a re-route offer', async () => {
+    const { body: session } = await startSession().expect(201);
+
+    const alerts = await request(app).get(`/api/sessions/${session.id}/alerts`).expect(200);
+    expect(alerts.body.count).toBe(alerts.body.alerts.length);
+
+    const deviations = await request(app).get(`/api/sessions/${session.id}/deviations`).expect(200);
+    expect(deviations.body).toMatchObject({ deviations: [], count: 0 });
+
+    const reroute = await request(app).post(`/api/sessions/${session.id}/reroute`).expect(409);
+    expect(reroute.body.error).toBe('NO_REROUTE_OFFER');
+  });
+});
@@ -0,0 +1,100 @@
+// Contract Test: /api/users saved places and notifications
+// A user's first saved place creates the user and issues the session every later request must present
+
+import request from 'supertest';
+import app from '../../src/index';
+
+describe('/api/users', () => {
+  const home = {
+    name: 'Home',
+    geofence: { type: 'circle', center: { latitude: -33.9249, longitude: 18.4241 }, radius: 300 },
+    minSeverity: 'warning'
+  };
+
+  let userCount = 0;
+  const newUserId = () => `places-user-${userCount++}`;
+
+  it('should create the user on their first place and return their session', async () => {
+    const userId = newUserId();
+    const response = await request(app).post(`/api/users/${userId}/places`).send(home).expect(201);
+
+    expect(response.body).toMatchObject({ name: 'Home', minSeverity: 'warning', geofence: home.geofence });
+    expect(response.body).toHaveProperty('id');
+    expect(response.body).toHaveProperty('createdAt');
+
+    const sessionId = response.headers['x-session-id'];
+    expect(typeof sessionId).toBe('string');
+    expect(sessionId).not.toBe(userId);
+
+    const places = await request(app).get(`/api/users/${userId}/places`).set('X-Session-Id', sessionId).expect(200);
+    expect(places.body.places.map((place: { id: string }) => place.id)).toEqual([response.body.id]);
+
+    const notifications = await request(app)
+      .get(`/api/users/${userId}/notifications?limit=500`)
+      .set('X-Session-Id', sessionId)
+      .expect(200);
+    expect(Array.isArray(notifications.body.notifications)).toBe(true);
+    expect(notifications.body.pagination).toEqual({ limit: 100, offset: 0 });
+  });
+
+  it('should require the user\'s own session', async () => {
+    const userId = newUserId();
+    const created = await request(app).post(`/api/users/${userId}/places`).send(home).expect(201);
+    const other = await request(app).post(`/api/users/${newUserId()}/places`).send(home).expect(201);
+
+    const missing = await request(app).get(`/api/users/${userId}/places`).expect(401);
+    expect(missing.body).toMatchObject({ error: 'SESSION_REQUIRED' });
+    expect(missing.body).toHaveProperty('timestamp');
+    expect(missing.body).toHaveProperty('requestId');
+
+    const otherSession = other.headers['x-session-id'];
+    for (const response of [
+      await request(app).get(`/api/users/${userId}/places`).set('X-Session-Id', otherSession),
+      await request(app).get(`/api/users/${userId}/notifications`).set('X-Session-Id', otherSession),
+      await request(app).post(`/api/users/${userId}/places`).set('X-Session-Id', otherSession).send(home),
+      await request(app).delete(`/api/users/${userId}/places/${created.body.id}`).set('X-Session-Id', otherSession)
+    ]) {
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('FORBIDDEN');
+    }
+
+    await request(app).post(`/api/users/${userId}/places`).send(home).expect(401);
+  });
+
+  it('should validate places', async () => {
+    const userId = newUserId();
+
+    const unnamed = await request(app).post(`/api/users/${userId}/places`).send({ ...home, name: '' }).expect(400);
+    expect(unnamed.body.error).toBe('INVALID_PLACE');
+
+    const severity = await request(app).post(`/api/users/${userId}/places`).send({ ...home, minSeverity: 'panic' }).expect(400);
+    expect(severity.body.error).toBe('INVALID_PLACE');
+
+    const outside = await request(app)
+      .post(`/api/users/${userId}/places`)
+      .send({ ...home, geofence: { ...home.geofence, center: { latitude: -26.2, longitude: 28.04 } } })
+      .expect(400);
+    expect(outside.body.error).toBe('INVALID_LOCATION');
+
+    await request(app).get(`/api/users/${userId}/places`).set('X-Session-Id', 'any').expect(404);
+  });
+
+  it('should remove places and limit how many a user saves', async () => {
+    const userId = newUserId();
+    const created = await request(app).post(`/api/users/${userId}/places`).send(home).expect(201);
+    const sessionId = created.headers['x-session-id'];
+
+    await request(app).delete(`/api/users/${userId}/places/${created.body.id}`).set('X-Session-Id', sessionId).expect(204);
+    const missing = await request(app)
+      .delete(`/api/users/${userId}/places/${created.body.id}`)
+      .set('X-Session-Id', sessionId)
+      .expect(404);
+    expect(missing.body.error).toBe('PLACE_NOT_FOUND');
+
+    for (let i = 0; i < 10; i++) {
+      await request(app).post(`/api/users/${userId}/places`).set('X-Session-Id', sessionId).send(home).expect(201);
+    }
+    const tooMany = await request(app).post(`/api/users/${userId}/places`).set('X-Session-Id', sessionId).send(home).expect(409);
+    expect(tooMany.body.error).toBe('TOO_MANY_PLACES');
+  });
+});
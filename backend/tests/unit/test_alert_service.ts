@@ -0,0 +1,59 @@
+// Unit Test: AlertService alert identity, deduplication and acknowledgement
+// Night-time alerts depend only on the clock, so they are checked at fixed local times
+
+import { AlertService } from '../../src/services/alertService';
+import { MemoryStorage } from '../../src/storage';
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { Location } from '../../src/types';
+
+describe('AlertService', () => {
+  const here: Location = { latitude: -33.92, longitude: 18.42 };
+
+  let storage: MemoryStorage;
+  let service: AlertService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    service = new AlertService(new CrimeDataService(), storage);
+  });
+
+  const lightingAlerts = async (now: Date) =>
+    (await service.getActiveAlerts(here, 500, now)).filter(alert => alert.type === 'poor_lighting');
+
+  it('should keep alert IDs stable within their time window and expire them at its end', async () => {
+    const evening = await lightingAlerts(new Date('2025-03-14T21:00:00'));
+    const earlyMorning = await lightingAlerts(new Date('2025-03-15T04:30:00'));
+    const nextNight = await lightingAlerts(new Date('2025-03-15T21:00:00'));
+
+    expect(evening).toHaveLength(1);
+    expect(earlyMorning[0].id).toBe(evening[0].id);
+    expect(evening[0].expiresAt).toEqual(new Date('2025-03-15T07:00:00'));
+    expect(nextNight[0].id).not.toBe(evening[0].id);
+    expect(await lightingAlerts(new Date('2025-03-15T12:00:00'))).toHaveLength(0);
+  });
+
+  it('should suppress city-wide alerts duplicated by location alerts', async () => {
+    const lateNight = new Date('2025-03-14T23:00:00');
+
+    const cityWide = await service.getActiveAlerts(undefined, 500, lateNight);
+    const local = await lightingAlerts(lateNight);
+
+    expect(cityWide.map(alert => alert.severity)).toEqual(['info']);
+    expect(local).toHaveLength(1);
+    expect(local[0].severity).toBe('warning');
+    expect(service.deduplicate([local[0], local[0]], cityWide)).toHaveLength(1);
+  });
+
+  it('should carry acknowledgements over to regenerated alerts', async () => {
+    const now = new Date('2025-03-14T21:00:00');
+    const [alert] = await lightingAlerts(now);
+
+    const acknowledged = await service.acknowledge(alert.id, 'Waiting for a lift', now);
+    const [regenerated] = await lightingAlerts(new Date('2025-03-14T23:00:00'));
+
+    expect(acknowledged).toMatchObject({ acknowledged: true, acknowledgedAt: now, actionTaken: 'Waiting for a lift' });
+    expect(regenerated).toMatchObject({ id: alert.id, acknowledged: true, actionTaken: 'Waiting for a lift' });
+    expect(await service.acknowledge('alert_unknown')).toBeUndefined();
+    expect(await service.acknowledge(alert.id, undefined, new Date('2025-03-15T08:00:00'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+// Unit Test: alert WebSocket message handling
+// The socket is attached to a local HTTP server on a free port and driven with a ws client
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { ALERT_SOCKET_PATH, attachAlertSocket } from '../../src/api/alertSocket';
+import { alertStreamService } from '../../src/services/alertStreamService';
+
+describe('Alert WebSocket', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(done => {
+    server = http.createServer();
+    attachAlertSocket(server);
+    server.listen(0, () => {
+      url = `ws://localhost:${(server.address() as AddressInfo).port}${ALERT_SOCKET_PATH}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(() => done());
+  });
+
+  const connect = (): Promise<{ socket: WebSocket; messages: any[] }> => new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const messages: any[] = [];
+    socket.on('message', data => messages.push(JSON.parse(data.toString())));
+    socket.on('open', () => resolve({ socket, messages }));
+    socket.on('error', reject);
+  });
+
+  const waitFor = async (condition: () => boolean, timeout = 5000) => {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  it('should answer non-object JSON messages with INVALID_MESSAGE and stay open', async () => {
+    const { socket, messages } = await connect();
+
+    socket.send('null');
+    socket.send('1');
+    socket.send('[]');
+    socket.send('{"type":"unsubscribe"}');
+    await waitFor(() => messages.length === 4);
+
+    expect(messages.map(message => message.error)).toEqual(['INVALID_MESSAGE', 'INVALID_MESSAGE', 'INVALID_MESSAGE', 'INVALID_MESSAGE']);
+    expect(socket.readyState).toBe(WebSocket.OPEN);
+    socket.close();
+  });
+
+  it('should keep one subscription when subscribes arrive back to back', async () => {
+    const { socket } = await connect();
+
+    socket.send(JSON.stringify({ type: 'subscribe', location: '-33.9249,18.4241', radius: 2000 }));
+    socket.send(JSON.stringify({ type: 'subscribe', location: '-33.9036,18.4208', radius: 2000 }));
+    await waitFor(() => alertStreamService.getSubscriberCount() > 0);
+    // Let both subscriptions finish setting up
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    expect(alertStreamService.getSubscriberCount()).toBe(1);
+    socket.close();
+    await waitFor(() => alertStreamService.getSubscriberCount() === 0);
+  });
+});
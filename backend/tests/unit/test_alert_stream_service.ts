@@ -0,0 +1,120 @@
+// Unit Test: AlertStreamService change detection and resume
+// A scripted AlertService stands in for time- and crime-data-driven alert generation
+
+import { AlertService } from '../../src/services/alertService';
+import { AlertStreamService, parseAlertSubscription } from '../../src/services/alertStreamService';
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { MemoryStorage } from '../../src/storage';
+import { AlertStreamEvent, AlertSubscriptionFilter, Location, SafetyAlert } from '../../src/types';
+
+class ScriptedAlertService extends AlertService {
+  alerts: SafetyAlert[] = [];
+
+  async generateLocationBasedAlerts(): Promise<SafetyAlert[]> {
+    return this.alerts.map(alert => ({ ...alert }));
+  }
+
+  async generateCityWideAlerts(): Promise<SafetyAlert[]> {
+    return [];
+  }
+}
+
+describe('AlertStreamService', () => {
+  const here: Location = { latitude: -33.92, longitude: 18.42 };
+  const filter: AlertSubscriptionFilter = { location: here, radius: 2000, minSeverity: 'info' };
+
+  const alert = (id: string, location: Location, severity: SafetyAlert['severity'] = 'warning'): SafetyAlert => ({
+    id,
+    type: 'high_crime_area',
+    severity,
+    message: `Alert ${id} (${severity})`,
+    location,
+    timestamp: new Date(),
+    acknowledged: false
+  });
+
+  let alerts: ScriptedAlertService;
+  let stream: AlertStreamService;
+
+  beforeEach(() => {
+    alerts = new ScriptedAlertService(new CrimeDataService(), new MemoryStorage());
+    stream = new AlertStreamService(alerts, 60000);
+  });
+
+  it('should push new, updated and expired alerts with stable IDs', async () => {
+    const events: AlertStreamEvent[] = [];
+    alerts.alerts = [alert('a', { latitude: -33.921, longitude: 18.421 })];
+    const subscription = await stream.subscribe(filter, event => events.push(event));
+
+    alerts.alerts = [alert('a', { latitude: -33.921, longitude: 18.421 }, 'critical')];
+    await stream.refresh();
+    alerts.alerts = [];
+    await stream.refresh();
+    subscription.unsubscribe();
+
+    expect(events.map(event => event.type)).toEqual(['new', 'updated', 'expired']);
+    expect(new Set(events.map(event => event.alert.id)).size).toBe(1);
+    expect(events.map(event => event.id)).toEqual([1, 2, 3]);
+    expect(stream.getSubscriberCount()).toBe(0);
+  });
+
+  it('should announce acknowledgements as updates', async () => {
+    const events: AlertStreamEvent[] = [];
+    alerts.alerts = [alert('a', { latitude: -33.921, longitude: 18.421 })];
+    const subscription = await stream.subscribe(filter, event => events.push(event));
+
+    await alerts.acknowledge('a', 'Took a different street');
+    await stream.refresh();
+    subscription.unsubscribe();
+
+    expect(events.map(event => event.type)).toEqual(['new', 'updated']);
+    expect(events[1].alert).toMatchObject({ id: 'a', acknowledged: true, actionTaken: 'Took a different street' });
+  });
+
+  it('should filter by radius and minimum severity', async () => {
+    const events: AlertStreamEvent[] = [];
+    alerts.alerts = [
+      alert('near', { latitude: -33.921, longitude: 18.421 }, 'info'),
+      alert('urgent', { latitude: -33.922, longitude: 18.422 }, 'critical'),
+      alert('far', { latitude: -34.05, longitude: 18.60 }, 'critical')
+    ];
+    await stream.subscribe({ ...filter, minSeverity: 'warning' }, event => events.push(event));
+
+    expect(events.map(event => event.alert.message)).toEqual(['Alert urgent (critical)']);
+  });
+
+  it('should replay missed events after Last-Event-ID, or send a snapshot when the ID is unknown', async () => {
+    alerts.alerts = [alert('a', { latitude: -33.921, longitude: 18.421 })];
+    const first = await stream.subscribe(filter, () => undefined);
+    alerts.alerts = [alert('b', { latitude: -33.925, longitude: 18.425 })];
+    await stream.refresh(); // new b (2), expired a (3)
+    first.unsubscribe();
+
+    const resumed: AlertStreamEvent[] = [];
+    (await stream.subscribe(filter, event => resumed.push(event), 1)).unsubscribe();
+    expect(resumed.map(event => `${event.id}:${event.type}`)).toEqual(['2:new', '3:expired']);
+
+    const restarted: AlertStreamEvent[] = [];
+    (await stream.subscribe(filter, event => restarted.push(event), 999)).unsubscribe();
+    expect(restarted.map(event => `${event.id}:${event.type}`)).toEqual(['2:new']);
+  });
+
+  it('should drop the subscriber when the initial refresh fails', async () => {
+    jest.spyOn(alerts, 'generateCityWideAlerts').mockRejectedValueOnce(new Error('crime data unavailable'));
+
+    await expect(stream.subscribe(filter, () => undefined)).rejects.toThrow('crime data unavailable');
+    expect(stream.getSubscriberCount()).toBe(0);
+  });
+
+  it('should validate subscription parameters', () => {
+    expect(parseAlertSubscription({ location: '-33.92,18.42', radius: '1500', minSeverity: 'critical' })).toEqual({
+      filter: { location: here, radius: 1500, minSeverity: 'critical' }
+    });
+    expect(parseAlertSubscription({})).toEqual({ filter: { location: undefined, radius: 5000, minSeverity: 'info' } });
+    expect(parseAlertSubscription({ location: 'nowhere' })).toHaveProperty('error');
+    expect(parseAlertSubscription({ radius: '-5' })).toHaveProperty('error');
+    expect(parseAlertSubscription({ minSeverity: 'panic' })).toHaveProperty('error');
+    expect(parseAlertSubscription({ minSeverity: 'toString' })).toHaveProperty('error');
+    expect(parseAlertSubscription({ minSeverity: ['critical'] })).toHaveProperty('error');
+  });
+});
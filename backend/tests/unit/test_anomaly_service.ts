@@ -0,0 +1,103 @@
+// Unit Test: AnomalyService spike detection in verified incident reports
+// Reports are stored in memory; expected rates come from the deterministic synthetic dataset
+
+import { AlertService } from '../../src/services/alertService';
+import { AnomalyService } from '../../src/services/anomalyService';
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { gridService } from '../../src/services/gridService';
+import { MemoryStorage } from '../../src/storage';
+import { IncidentReport, Location } from '../../src/types';
+
+describe('AnomalyService', () => {
+  const campsBay: Location = { latitude: -33.9588, longitude: 18.4718, neighborhood: 'Camps Bay' };
+  const cityBowl: Location = { latitude: -33.9258, longitude: 18.4232, neighborhood: 'City Bowl' };
+  const now = new Date('2025-03-15T05:00:00');
+
+  let storage: MemoryStorage;
+  let alerts: AlertService;
+  let service: AnomalyService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    const crimeData = new CrimeDataService(storage);
+    alerts = new AlertService(crimeData, storage);
+    service = new AnomalyService(storage, crimeData, alerts);
+  });
+
+  const addReports = async (location: Location, timestamp: string, count: number, verified = true) => {
+    for (let index = 0; index < count; index++) {
+      const id = `${location.neighborhood}_${timestamp}_${index}_${verified}`;
+      const report: IncidentReport = {
+        id,
+        type: 'robbery',
+        crimeType: 'violent',
+        location,
+        gridCell: gridService.pointToCell(location.latitude, location.longitude),
+        timestamp: new Date(new Date(timestamp).getTime() + index * 60 * 1000),
+        reportedAt: now,
+        sessionId: id,
+        description: 'Robbed on the beachfront',
+        severity: 8,
+        status: verified ? 'approved' : 'pending',
+        verified
+      };
+      await storage.incidents.put(id, report);
+    }
+  };
+
+  it('should flag an hour with far more reports than usual for that hour of the week', async () => {
+    await addReports(campsBay, '2025-03-15T03:10:00', 4);
+
+    const [anomaly] = await service.detect(now);
+
+    expect(anomaly).toMatchObject({
+      id: `anomaly_${gridService.pointToCell(campsBay.latitude, campsBay.longitude)}_2025031503`,
+      hourStart: new Date('2025-03-15T03:00:00'),
+      hourOfWeek: 6 * 24 + 3,
+      observedIncidents: 4,
+      incidentsByType: { violent: 4, property: 0, petty: 0, vehicular: 0 },
+      severity: 'critical',
+      expiresAt: new Date('2025-03-15T10:00:00')
+    });
+    expect(anomaly.expectedIncidents).toBeLessThan(0.5);
+    expect(anomaly.pValue).toBeLessThan(0.001);
+    expect(anomaly.expectedIncidents).toBeCloseTo(await service.getExpectedIncidents(anomaly.gridCell, anomaly.hourStart), 3);
+
+    const [alert] = (await alerts.getActiveAlerts(campsBay, 1000, now)).filter(active => active.type === 'high_crime_area');
+    expect(alert).toMatchObject({ id: `alert_${anomaly.id}`, type: 'high_crime_area', severity: 'critical', expiresAt: anomaly.expiresAt });
+    expect(alert.message).toContain('4 incidents in the hour from 03:00');
+    expect(await storage.alerts.get(alert.id)).toBeDefined();
+  });
+
+  it('should ignore counts that are usual for a busy area and unverified reports', async () => {
+    await addReports(cityBowl, '2025-03-14T20:05:00', 3);
+    await addReports(campsBay, '2025-03-15T03:10:00', 4, false);
+
+    expect(await service.detect(now)).toEqual([]);
+    expect(await service.getAnomalies({ includeExpired: true }, now)).toEqual([]);
+  });
+
+  it('should update an anomaly as more reports arrive without raising it again', async () => {
+    await addReports(campsBay, '2025-03-15T03:10:00', 4);
+    const [first] = await service.detect(now);
+
+    expect(await service.detect(now)).toEqual([]);
+
+    await addReports(campsBay, '2025-03-15T03:40:00', 1);
+    const [updated] = await service.detect(new Date('2025-03-15T06:00:00'));
+    expect(updated).toMatchObject({ id: first.id, observedIncidents: 5, detectedAt: first.detectedAt });
+  });
+
+  it('should list anomalies by area until their alerts end', async () => {
+    await addReports(campsBay, '2025-03-15T03:10:00', 4);
+    await service.detect(now);
+
+    expect(await service.getAnomalies({ location: campsBay, radius: 1000 }, now)).toHaveLength(1);
+    expect(await service.getAnomalies({ location: cityBowl, radius: 1000 }, now)).toHaveLength(0);
+
+    const later = new Date('2025-03-15T11:00:00');
+    expect(await service.getAnomalies({}, later)).toHaveLength(0);
+    expect(await service.getAnomalies({ includeExpired: true }, later)).toHaveLength(1);
+    expect(await alerts.getActiveAlerts(campsBay, 1000, later)).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+// Unit Test: CrimeDataGenerator dated incident series
+// Daily counts are seeded by area and day, so every window of the same days sums to the same totals
+
+import { crimeDataGenerator } from '../../src/data/crime-generator';
+import { CrimeData, DateRange } from '../../src/types';
+
+describe('CrimeDataGenerator', () => {
+  const now = new Date('2025-03-14T20:00:00');
+
+  const total = (data: CrimeData) => data.crimeStats.reduce((sum, stat) => sum + stat.incidentCount, 0);
+  const allAreas = crimeDataGenerator.generateCrimeData(now).map(data => data.id);
+  const countIncidents = (range: DateRange, ids: string[] = allAreas) =>
+    crimeDataGenerator.getIncidentSeries(ids, range).reduce((sum, bucket) => sum + bucket.incidentCount, 0);
+
+  it('should count each timeframe over its own days up to the reference day', () => {
+    const month = crimeDataGenerator.generateCrimeData(now, '1month');
+    const halfYear = crimeDataGenerator.generateCrimeData(now, '6months');
+
+    expect(month[0].timeframe).toEqual({ start: new Date(2025, 1, 12), end: new Date(2025, 2, 14) });
+    expect(month.map(total)).toEqual(month.map(data => countIncidents(data.timeframe, [data.id])));
+    // A month is a window of its own, not a fixed share of six months
+    expect(month.some((data, index) => total(data) !== Math.round(total(halfYear[index]) / 6))).toBe(true);
+    expect(crimeDataGenerator.generateCrimeData(now, '1month').map(total)).toEqual(month.map(total));
+  });
+
+  it('should bucket days into weeks that sum to the same incidents', () => {
+    const range = { start: new Date(2025, 0, 1), end: new Date(2025, 0, 20) };
+    const weeks = crimeDataGenerator.getIncidentSeries(['crime_city_bowl'], range, 'week');
+
+    expect(weeks.map(bucket => [bucket.start, bucket.end])).toEqual([
+      [new Date(2025, 0, 1), new Date(2025, 0, 8)],
+      [new Date(2025, 0, 8), new Date(2025, 0, 15)],
+      [new Date(2025, 0, 15), new Date(2025, 0, 20)]
+    ]);
+    expect(weeks.reduce((sum, bucket) => sum + bucket.incidentCount, 0)).toBe(countIncidents(range, ['crime_city_bowl']));
+
+    const violent = crimeDataGenerator.getIncidentSeries(['crime_city_bowl'], range, 'week', 'violent');
+    expect(violent.every(bucket => bucket.incidentCount === bucket.incidentsByType.violent)).toBe(true);
+    expect(violent.map(bucket => bucket.incidentsByType.violent)).toEqual(weeks.map(bucket => bucket.incidentsByType.violent));
+  });
+
+  it('should peak over the December holidays and month-end paydays', () => {
+    const december = countIncidents({ start: new Date(2024, 11, 15), end: new Date(2025, 0, 6) });
+    const spring = countIncidents({ start: new Date(2024, 9, 15), end: new Date(2024, 10, 6) });
+    expect(december).toBeGreaterThan(spring * 1.15);
+
+    const year = crimeDataGenerator.getIncidentSeries(allAreas, { start: new Date(2024, 1, 1), end: new Date(2024, 10, 1) });
+    const average = (days: typeof year) => days.reduce((sum, bucket) => sum + bucket.incidentCount, 0) / days.length;
+    const payday = average(year.filter(bucket => bucket.start.getDate() >= 25 || bucket.start.getDate() === 1));
+    const midMonth = average(year.filter(bucket => bucket.start.getDate() >= 8 && bucket.start.getDate() <= 18));
+    expect(payday).toBeGreaterThan(midMonth * 1.05);
+
+    expect(crimeDataGenerator.getSeasonalFactor(new Date(2024, 11, 27), 'violent'))
+      .toBeGreaterThan(crimeDataGenerator.getSeasonalFactor(new Date(2024, 10, 12), 'violent'));
+  });
+
+  it('should give the period of the same number of days before a timeframe', () => {
+    const quarter = crimeDataGenerator.createTimeframeRange('3months', now);
+
+    expect(quarter).toEqual({ start: new Date(2024, 11, 14), end: new Date(2025, 2, 14) });
+    expect(crimeDataGenerator.getPreviousPeriod(quarter)).toEqual({ start: new Date(2024, 8, 15), end: new Date(2024, 11, 14) });
+  });
+});
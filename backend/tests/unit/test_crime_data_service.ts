@@ -0,0 +1,148 @@
+// Unit Test: CrimeDataService crime data queries
+// The synthetic dataset is deterministic; crowdsourced reports are stored in memory
+
+import { crimeDataGenerator } from '../../src/data/crime-generator';
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { gridService } from '../../src/services/gridService';
+import { MemoryStorage } from '../../src/storage';
+import { CrimeData, IncidentReport } from '../../src/types';
+
+describe('CrimeDataService', () => {
+  const now = new Date('2025-03-14T20:00:00');
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const report = (id: string, ageDays: number): IncidentReport => ({
+    id,
+    type: 'robbery',
+    crimeType: 'violent',
+    location: { latitude: -33.9249, longitude: 18.4241, neighborhood: 'City Bowl' },
+    gridCell: gridService.pointToCell(-33.9249, 18.4241),
+    timestamp: new Date(now.getTime() - ageDays * DAY_MS),
+    reportedAt: now,
+    sessionId: id,
+    description: 'Robbed at the taxi rank',
+    severity: 8,
+    status: 'approved',
+    verified: true
+  });
+
+  let storage: MemoryStorage;
+  let service: CrimeDataService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    service = new CrimeDataService(storage);
+  });
+
+  it('should return every dataset area for the default timeframe', async () => {
+    const crimeData = await service.queryCrimeData({}, now);
+
+    expect(crimeData.length).toBeGreaterThan(0);
+    expect(crimeData.every(data => data.dataSource === 'synthetic')).toBe(true);
+  });
+
+  it('should filter by area and crime type', async () => {
+    const crimeData = await service.queryCrimeData({ area: 'camps bay', crimeType: 'vehicular' }, now);
+
+    expect(crimeData).toHaveLength(1);
+    expect(crimeData[0].location.neighborhood).toBe('Camps Bay');
+    expect(crimeData[0].crimeStats.length).toBeGreaterThan(0);
+    expect(crimeData[0].crimeStats.every(stat => stat.type === 'vehicular')).toBe(true);
+  });
+
+  it('should count dataset incidents and crowdsourced reports within the timeframe', async () => {
+    await storage.incidents.put('recent', report('recent', 5));
+    await storage.incidents.put('older', report('older', 60));
+
+    const total = (stats: Array<{ incidentCount: number }>) => stats.reduce((sum, stat) => sum + stat.incidentCount, 0);
+    const month = await service.queryCrimeData({ area: 'City Bowl', timeframe: '1month' }, now);
+    const halfYear = await service.queryCrimeData({ area: 'City Bowl', timeframe: '6months' }, now);
+
+    const synthetic = (data: typeof month) => data.find(entry => entry.dataSource === 'synthetic')!;
+    expect(total(synthetic(month).crimeStats)).toBeLessThan(total(synthetic(halfYear).crimeStats));
+
+    const crowdsourced = (data: typeof month) => data.find(entry => entry.dataSource === 'crowdsourced')!;
+    expect(crowdsourced(month).crimeStats[0].incidentCount).toBeLessThan(crowdsourced(halfYear).crimeStats[0].incidentCount);
+    expect(crowdsourced(month).timeframe.start).toEqual(new Date(now.getTime() - 5 * DAY_MS));
+  });
+
+  it('should add verified reports to the dataset incident series of their cell', async () => {
+    await storage.incidents.put('recent', report('recent', 5));
+    await storage.incidents.put('older', report('older', 60));
+
+    const cell = gridService.pointToCell(-33.9249, 18.4241);
+    const range = { start: new Date(2025, 2, 1), end: new Date(2025, 2, 14) };
+    const series = await service.getIncidentSeries(cell, range, 'day', 'violent');
+    const reportDay = series.find(bucket => bucket.start.getDate() === 9)!;
+    const withoutReports = await new CrimeDataService(new MemoryStorage()).getIncidentSeries(cell, range, 'day', 'violent');
+
+    expect(series).toHaveLength(13);
+    expect(reportDay.incidentsByType.violent).toBe(withoutReports[8].incidentsByType.violent + 1);
+    expect(series.filter(bucket => bucket !== reportDay)).toEqual(withoutReports.filter((_, index) => index !== 8));
+  });
+
+  it('should compare crowdsourced reports with the period before the timeframe', async () => {
+    await storage.incidents.put('recent', report('recent', 5));
+    await storage.incidents.put('older', { ...report('older', 40), weight: 2 });
+    await storage.incidents.put('oldest', report('oldest', 45));
+
+    const crowdsourced = (await service.queryCrimeData({ area: 'City Bowl', timeframe: '1month' }, now))
+      .find(data => data.dataSource === 'crowdsourced')!;
+    const trend = await service.calculateTrend(crowdsourced, '1month', now);
+
+    // One report against three isn't enough to call a decrease
+    expect(trend).toMatchObject({ significant: false, currentIncidents: 1, previousIncidents: 3, changePercent: -66.7 });
+    expect(trend!.direction).toBeUndefined();
+  });
+
+  it('should compare dataset incidents with the days before the timeframe', async () => {
+    const [area] = await service.queryCrimeData({ area: 'Khayelitsha', timeframe: '3months' }, now);
+    const trend = (await service.calculateTrend(area, '3months', now))!;
+    const previous = await service.queryCrimeData({ area: 'Khayelitsha', timeframe: '3months' }, trend.previousPeriod.end);
+
+    expect(trend.currentPeriod).toEqual(area.timeframe);
+    expect(trend.currentIncidents).toBe(area.crimeStats.reduce((sum, stat) => sum + stat.incidentCount, 0));
+    expect(trend.previousIncidents).toBe(previous[0].crimeStats.reduce((sum, stat) => sum + stat.incidentCount, 0));
+
+    const cellTrend = await service.calculateAreaTrend(area.gridCell, '3months', now);
+    expect(cellTrend.currentIncidents).toBe(trend.currentIncidents);
+
+    const weekTrend = await service.calculateAreaTrend(area.gridCell, 7, now);
+    expect(weekTrend.currentPeriod).toEqual(crimeDataGenerator.createDayRange(7, now));
+    expect(weekTrend.previousPeriod.end).toEqual(weekTrend.currentPeriod.start);
+  });
+
+  it('should compare imported data with the previous import of the same kind', async () => {
+    const cell = gridService.pointToCell(-33.9249, 18.4241);
+    const imported = (id: string, start: Date, end: Date, incidentCount: number, importFormat?: CrimeData['importFormat']): CrimeData => ({
+      id,
+      location: { latitude: -33.9249, longitude: 18.4241 },
+      gridCell: cell,
+      timeframe: { start, end },
+      crimeStats: [{ type: 'violent', subtype: 'robbery', incidentCount, severity: 7, timePattern: {}, confidence: 80 }],
+      riskLevel: 'medium',
+      populationDensity: 0,
+      economicIndicators: { averageIncome: 0, unemploymentRate: 0, businessDensity: 0, lightingInfrastructure: 0 },
+      lastUpdated: now,
+      dataSource: 'saps',
+      importFormat
+    });
+    const precinct = imported('saps_precinct_2023', new Date(2023, 3, 1), new Date(2024, 2, 31), 400, 'saps');
+    const legacy = imported('saps_legacy', new Date(2024, 11, 1), new Date(2024, 11, 31), 5);
+    const january = imported('open_january', new Date(2025, 0, 1), new Date(2025, 0, 31), 10, 'csv');
+    const february = imported('open_february', new Date(2025, 1, 1), new Date(2025, 1, 28), 20, 'geojson');
+    for (const data of [precinct, legacy, january, february]) {
+      await storage.crimeData.put(data.id, data);
+    }
+
+    expect(await service.calculateTrend(february, '1month', now)).toMatchObject({ currentIncidents: 20, previousIncidents: 10 });
+    expect(await service.calculateTrend(precinct, '1month', now)).toBeUndefined();
+
+    // Records imported before the format was recorded still compare with earlier imports
+    expect(await service.calculateTrend(legacy, '1month', now)).toMatchObject({ currentIncidents: 5, previousIncidents: 400 });
+  });
+
+  it('should return nothing for an unknown area', async () => {
+    expect(await service.queryCrimeData({ area: 'Atlantis' }, now)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,166 @@
+// Unit Test: CrimeImportService bulk crime data import
+// Datasets are small inline fixtures imported into memory storage
+
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { CrimeImportService } from '../../src/services/crimeImportService';
+import { gridService } from '../../src/services/gridService';
+import { MemoryStorage } from '../../src/storage';
+
+describe('CrimeImportService', () => {
+  const now = new Date('2025-03-14T20:00:00');
+
+  let storage: MemoryStorage;
+  let crimeData: CrimeDataService;
+  let importer: CrimeImportService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    crimeData = new CrimeDataService(storage);
+    importer = new CrimeImportService(storage, crimeData);
+  });
+
+  const sapsStatistics = [
+    'Precinct,Crime Category,2022/2023,2023/2024',
+    'Cape Town Central,Murder,12,15',
+    'Cape Town Central,Common robbery,"1,204",1 100',
+    'Cape Town Central,Contact crimes (Crimes against the person),5000,5100',
+    'Cape Town Central SAPS,Theft out of or from motor vehicle,900,950',
+    'Atlantis Central,Murder,30,31',
+    'Sea Point,Illegal gambling,4,5',
+    'Sea Point,Burglary at non-residential premises,80,n/a'
+  ].join('\n');
+
+  it('should import SAPS precinct statistics as one record per precinct and financial year', async () => {
+    const result = await importer.importData(sapsStatistics, 'saps', {}, now);
+
+    expect(result).toMatchObject({ rowsRead: 7, rowsImported: 4, rowsSkipped: 1 });
+    expect(result.recordIds.sort()).toEqual([
+      'saps_cape_town_central_2022', 'saps_cape_town_central_2023', 'saps_sea_point_2022'
+    ]);
+    expect(result.errors).toEqual([
+      { row: 6, field: 'Precinct', message: 'Unknown precinct: Atlantis Central' },
+      { row: 7, field: 'Crime Category', message: 'Unknown crime category: Illegal gambling' },
+      { row: 8, field: '2023/2024', message: 'Count must be a non-negative number, got n/a' }
+    ]);
+
+    const record = (await storage.crimeData.get('saps_cape_town_central_2023'))!;
+    expect(record).toMatchObject({ dataSource: 'saps', importFormat: 'saps', location: { neighborhood: 'Cape Town Central' } });
+    expect(record.gridCell).toBe(gridService.pointToCell(record.location.latitude, record.location.longitude));
+    expect(record.timeframe).toEqual({ start: new Date(2023, 3, 1), end: new Date(2024, 2, 31, 23, 59, 59, 999) });
+    expect(record.crimeStats.map(stat => [stat.type, stat.subtype, stat.incidentCount])).toEqual([
+      ['violent', 'murder', 15],
+      ['violent', 'robbery', 1100],
+      ['vehicular', 'car_breaking', 950]
+    ]);
+  });
+
+  it('should serve the latest imported period of a cell alongside the dataset', async () => {
+    await importer.importData(sapsStatistics, 'saps', {}, now);
+
+    const imported = (await crimeData.getAllCrimeData()).filter(data => data.dataSource === 'saps');
+    expect(imported.map(data => data.id).sort()).toEqual(['saps_cape_town_central_2023', 'saps_sea_point_2022']);
+
+    const lastYear = await crimeData.queryCrimeData({ area: 'Cape Town Central', timeframe: '1year' }, new Date('2024-01-15'));
+    expect(lastYear.filter(data => data.dataSource === 'saps').map(data => data.id)).toEqual(['saps_cape_town_central_2023']);
+  });
+
+  it('should group CSV incidents by grid cell with hourly patterns from incident times', async () => {
+    const csv = [
+      'category,date,time,latitude,longitude,suburb',
+      'Common robbery,2025-02-01,21:15,-33.9249,18.4241,City Bowl',
+      '"Robbery",2025-02-03,22:40,-33.9251,18.4243,City Bowl',
+      'Pickpocketing,01/03/2025,,-33.9249,18.4241,City Bowl',
+      'Burglary,2025-02-10,,,,',
+      'Murder,2025-02-30,10:00,-33.95,18.47,',
+      'Carjacking,2025-02-11,08:00,-26.2,28.04,Johannesburg',
+      'Shoplifting,2025-02-12,11:00,-33.9249,18.4241,'
+    ].join('\r\n');
+
+    const result = await importer.importData(csv, 'csv', {}, now);
+
+    expect(result.rowsImported).toBe(4);
+    expect(result.errors.map(error => [error.row, error.field])).toEqual([[5, 'latitude'], [6, 'date'], [7, 'latitude']]);
+    expect(result.period).toEqual({ start: new Date(2025, 1, 1), end: new Date(2025, 2, 1, 23, 59, 59, 999) });
+
+    const [record] = await storage.crimeData.list();
+    expect(record.id).toBe(`open_${gridService.pointToCell(-33.9249, 18.4241)}_20250201_20250301`);
+    expect(record).toMatchObject({ dataSource: 'saps', importFormat: 'csv', location: { neighborhood: 'City Bowl' } });
+
+    const robbery = record.crimeStats.find(stat => stat.subtype === 'robbery')!;
+    expect(robbery.incidentCount).toBe(2);
+    expect(robbery.timePattern['21']).toBe(0.5);
+    expect(robbery.timePattern['22']).toBe(0.5);
+    // Without incident times the crime type's usual pattern is used
+    const pickpocketing = record.crimeStats.find(stat => stat.subtype === 'pickpocketing')!;
+    expect(Object.values(pickpocketing.timePattern).filter(share => share > 0).length).toBe(24);
+  });
+
+  it('should import GeoJSON points and polygons and report unusable features', async () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [18.4241, -33.9249] }, properties: { category: 'Assault', date: '2025-02-01T19:00:00Z' } },
+        {
+          type: 'Feature',
+          geometry: { type: 'Polygon', coordinates: [[[18.46, -33.96], [18.48, -33.96], [18.48, -33.98], [18.46, -33.98], [18.46, -33.96]]] },
+          properties: { Category: 'Burglary', Date: '2025-02-02', Count: 3 }
+        },
+        { type: 'Feature', geometry: null, properties: { category: 'Theft', date: '2025-02-03', precinct: 'Woodstock' } },
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [[18.4, -33.9], [18.5, -33.9]] }, properties: { category: 'Theft', date: '2025-02-03' } }
+      ]
+    });
+
+    const result = await importer.importData(geojson, 'geojson', {}, now);
+
+    expect(result).toMatchObject({ rowsRead: 4, rowsImported: 3 });
+    expect(result.errors).toEqual([{ row: 4, field: 'geometry', message: 'Geometry must be a Point, Polygon or MultiPolygon' }]);
+    expect(result.recordIds).toContain(`open_${gridService.pointToCell(-33.97, 18.47)}_20250201_20250203`);
+    const records = await storage.crimeData.list();
+    expect(records.every(record => record.dataSource === 'saps' && record.importFormat === 'geojson')).toBe(true);
+  });
+
+  it('should report malformed features without failing the import', async () => {
+    const point = { type: 'Point', coordinates: [18.4241, -33.9249] };
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        null,
+        'Feature',
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: 5 }, properties: { category: 'Theft', date: '2025-02-03' } },
+        { type: 'Feature', geometry: { type: 'MultiPolygon', coordinates: [5] }, properties: { category: 'Theft', date: '2025-02-03' } },
+        { type: 'Feature', geometry: point, properties: 'Assault' },
+        { type: 'Feature', geometry: point, properties: { category: 'Assault', date: '2025-02-01' } }
+      ]
+    });
+
+    const result = await importer.importData(geojson, 'geojson', {}, now);
+
+    expect(result).toMatchObject({ rowsRead: 6, rowsImported: 1 });
+    expect(result.errors.map(error => [error.row, error.field])).toEqual([
+      [1, 'category'], [2, 'category'], [3, 'geometry'], [4, 'geometry'], [5, 'category']
+    ]);
+  });
+
+  it('should import more incidents than fit in a function call\'s arguments', async () => {
+    const rows = Array.from({ length: 150000 }, (_, index) => `Theft,2025-02-${String(index % 28 + 1).padStart(2, '0')},-33.9249,18.4241`);
+    const result = await importer.importData(['category,date,latitude,longitude', ...rows].join('\n'), 'csv', { dryRun: true }, now);
+
+    expect(result.rowsImported).toBe(150000);
+    expect(result.period).toEqual({ start: new Date(2025, 1, 1), end: new Date(2025, 1, 28, 23, 59, 59, 999) });
+  });
+
+  it('should validate without storing on a dry run and reject unreadable files', async () => {
+    const result = await importer.importData(sapsStatistics, 'saps', { dryRun: true }, now);
+
+    expect(result.dryRun).toBe(true);
+    expect(result.recordIds).toHaveLength(3);
+    expect(await storage.crimeData.count()).toBe(0);
+
+    expect(importer.detectFormat(sapsStatistics)).toBe('saps');
+    expect(importer.detectFormat('category,date,latitude,longitude')).toBe('csv');
+    expect(importer.detectFormat('', 'incidents.geojson')).toBe('geojson');
+
+    await expect(importer.importData('name,value\nx,1', 'csv', {}, now)).rejects.toMatchObject({ code: 'INVALID_FILE' });
+    await expect(importer.importData('[]', 'geojson', {}, now)).rejects.toMatchObject({ code: 'INVALID_FILE' });
+  });
+});
@@ -0,0 +1,63 @@
+// Unit Test: DepartureTimeService ranking of departure times
+// Routes over a small hand-built network so each departure's path is predictable
+
+import { RoutingService } from '../../src/services/routingService';
+import { DepartureTimeService } from '../../src/services/departureTimeService';
+import { RoadNetworkCollection } from '../../src/data/road-network';
+import { DepartureTimeRequest } from '../../src/types';
+
+describe('DepartureTimeService', () => {
+  const network: RoadNetworkCollection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [[18.40, -33.92], [18.42, -33.93], [18.44, -33.92]] },
+        properties: { highway: 'residential', lit: 'no' }
+      }
+    ]
+  };
+
+  const request: DepartureTimeRequest = {
+    origin: { latitude: -33.92, longitude: 18.40, address: 'Start' },
+    destination: { latitude: -33.92, longitude: 18.44, address: 'End' },
+    window: { start: '2025-03-14T12:00:00', end: '2025-03-14T23:00:00' },
+    intervalMinutes: 180,
+    preferences: {
+      safetyPriority: 100,
+      riskTolerance: 'medium',
+      avoidAreas: [],
+      preferredTravelModes: ['driving'],
+      notificationSettings: { safetyAlerts: true, routeUpdates: true, arrivalNotifications: true, emergencyContacts: [] },
+      accessibilityNeeds: []
+    }
+  };
+
+  it('should sample departures across the window inclusively', () => {
+    const service = new DepartureTimeService(new RoutingService(network));
+    const times = service.getDepartureTimes({ ...request, window: { start: '2025-03-14T17:00:00', end: '2025-03-14T18:30:00' }, intervalMinutes: 30 });
+
+    expect(times.map(time => time.getHours() * 60 + time.getMinutes())).toEqual([1020, 1050, 1080, 1110]);
+  });
+
+  it('should rank departures by safety and recommend the best against the preferred time', async () => {
+    const service = new DepartureTimeService(new RoutingService(network));
+    const { departures, routes, recommendation } = await service.optimizeDepartureTime({
+      ...request,
+      preferredDepartureTime: '2025-03-14T21:00:00'
+    });
+
+    expect(departures).toHaveLength(4);
+    expect(routes).toHaveLength(4);
+    expect(departures.map(option => option.rank)).toEqual([1, 2, 3, 4]);
+
+    const scores = departures.map(option => option.safetyScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+
+    // Unlit roads after dark score worse than the same roads by day
+    const best = departures[0];
+    expect(new Date(best.departureTime).getHours()).toBeLessThan(18);
+    expect(new Date(best.arrivalTime).getTime() - new Date(best.departureTime).getTime()).toBe(best.estimatedDuration * 1000);
+    expect(recommendation).toMatch(/^Leave at \d{2}:\d{2} instead of 21:00/);
+  });
+});
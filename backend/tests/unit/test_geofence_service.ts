@@ -0,0 +1,124 @@
+// Unit Test: GeofenceService saved-place alert subscriptions
+// Night-time lighting alerts give a predictable alert at any location; delivery is recorded by a test notifier
+
+import { AlertService } from '../../src/services/alertService';
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { GeofenceService, MAX_SAVED_PLACES } from '../../src/services/geofenceService';
+import { Notifier } from '../../src/notifications';
+import { MemoryStorage } from '../../src/storage';
+import { AlertNotification, GeoJSONPolygon } from '../../src/types';
+
+class RecordingNotifier implements Notifier {
+  readonly channel = 'test';
+  delivered: AlertNotification[] = [];
+  failing = false;
+
+  async notify(notification: AlertNotification): Promise<void> {
+    if (this.failing) throw new Error('Gateway unavailable');
+    this.delivered.push(notification);
+  }
+}
+
+describe('GeofenceService', () => {
+  const night = new Date('2025-03-14T21:00:00');
+  const home = { name: 'Home', geofence: { type: 'circle' as const, center: { latitude: -33.92, longitude: 18.42 }, radius: 300 } };
+  const school: GeoJSONPolygon = {
+    type: 'Polygon',
+    coordinates: [[[18.46, -33.96], [18.47, -33.96], [18.47, -33.95], [18.46, -33.95], [18.46, -33.96]]]
+  };
+
+  let storage: MemoryStorage;
+  let notifier: RecordingNotifier;
+  let service: GeofenceService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    notifier = new RecordingNotifier();
+    service = new GeofenceService(storage, new AlertService(new CrimeDataService(), storage), notifier, 60000);
+  });
+
+  it('should deliver each matching alert once per saved place', async () => {
+    const { place, sessionId } = await service.savePlace('u1', { ...home, minSeverity: 'info' });
+
+    const first = await service.checkAll(night);
+    const second = await service.checkAll(new Date('2025-03-14T22:00:00'));
+
+    expect(first.filter(notification => notification.alert.type === 'poor_lighting')).toHaveLength(1);
+    expect(first[0]).toMatchObject({ userId: 'u1', placeId: place.id, placeName: 'Home', channel: 'test' });
+    expect(second).toHaveLength(0);
+    expect(await service.getNotifications('u1', sessionId)).toHaveLength(first.length);
+  });
+
+  it('should honour the safetyAlerts preference and minimum severity', async () => {
+    await service.savePlace('u1', { ...home, minSeverity: 'critical' });
+    await service.savePlace('u2', { ...home, minSeverity: 'info' });
+    const user = (await storage.users.get('u2'))!;
+    await storage.users.put('u2', {
+      ...user,
+      preferences: { ...user.preferences, notificationSettings: { ...user.preferences.notificationSettings, safetyAlerts: false } }
+    });
+
+    expect(await service.checkAll(night)).toHaveLength(0);
+    expect(notifier.delivered).toHaveLength(0);
+  });
+
+  it('should retry deliveries that failed', async () => {
+    await service.savePlace('u1', { ...home, minSeverity: 'warning' });
+
+    notifier.failing = true;
+    expect(await service.checkAll(night)).toHaveLength(0);
+    notifier.failing = false;
+    expect((await service.checkAll(night)).length).toBeGreaterThan(0);
+  });
+
+  it('should test polygon geofences and validate places', () => {
+    const parsed = service.parsePlace({ name: 'School', geofence: { type: 'polygon', polygon: school } });
+    expect(parsed).toEqual({ place: { name: 'School', minSeverity: 'info', geofence: { type: 'polygon', polygon: school } } });
+
+    const geofence = { type: 'polygon' as const, polygon: school };
+    expect(service.contains(geofence, { latitude: -33.955, longitude: 18.465 })).toBe(true);
+    expect(service.contains(geofence, { latitude: -33.92, longitude: 18.42 })).toBe(false);
+    expect(service.getBoundingCircle(geofence).center).toEqual({ latitude: -33.955, longitude: 18.465 });
+
+    expect(service.parsePlace({ name: '', geofence: home.geofence })).toHaveProperty('error');
+    expect(service.parsePlace({ name: 'Work', geofence: { ...home.geofence, radius: 50000 } })).toHaveProperty('error');
+    expect(service.parsePlace({ name: 'Work', geofence: { type: 'polygon', polygon: { type: 'Polygon', coordinates: [] } } })).toHaveProperty('error');
+    expect(service.parsePlace({ name: 'Work', geofence: home.geofence, minSeverity: 'panic' })).toHaveProperty('error');
+    expect(service.parsePlace({ name: 'Work', geofence: home.geofence, minSeverity: 'constructor' })).toHaveProperty('error');
+  });
+
+  it('should manage saved places', async () => {
+    const { place, sessionId } = await service.savePlace('u1', { ...home, minSeverity: 'info' });
+
+    expect(await service.getPlaces('u1', sessionId)).toHaveLength(1);
+    await service.removePlace('u1', place.id, sessionId);
+    expect(await service.getPlaces('u1', sessionId)).toHaveLength(0);
+    await expect(service.removePlace('u1', place.id, sessionId)).rejects.toMatchObject({ code: 'PLACE_NOT_FOUND' });
+    await expect(service.getPlaces('nobody', sessionId)).rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+  });
+
+  it('should only give a user\'s own session access to their places', async () => {
+    const { place, sessionId } = await service.savePlace('u1', { ...home, minSeverity: 'info' });
+    const other = await service.savePlace('u2', { ...home, minSeverity: 'info' });
+
+    expect(sessionId).not.toBe('u1');
+    expect(other.sessionId).not.toBe(sessionId);
+    await expect(service.getPlaces('u1', undefined)).rejects.toMatchObject({ code: 'SESSION_REQUIRED' });
+    await expect(service.getPlaces('u1', other.sessionId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(service.getNotifications('u1', other.sessionId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(service.removePlace('u1', place.id, other.sessionId)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(service.savePlace('u1', { ...home, minSeverity: 'info' })).rejects.toMatchObject({ code: 'SESSION_REQUIRED' });
+    expect(await service.getPlaces('u1', sessionId)).toHaveLength(1);
+  });
+
+  it('should apply concurrent saves one at a time, up to the place limit', async () => {
+    const { sessionId } = await service.savePlace('u1', { ...home, minSeverity: 'info' });
+    const saves = Array.from({ length: MAX_SAVED_PLACES + 2 }, (_, index) =>
+      service.savePlace('u1', { ...home, name: `Place ${index}`, minSeverity: 'info' }, sessionId));
+
+    const results = await Promise.allSettled(saves);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(MAX_SAVED_PLACES - 1);
+    expect(await service.getPlaces('u1', sessionId)).toHaveLength(MAX_SAVED_PLACES);
+  });
+});
@@ -0,0 +1,81 @@
+// Unit Test: GridService hierarchical hex grid
+// Pure geometry; points are spread over the Cape Town metro with a fixed pattern
+
+import { DEFAULT_GRID_RESOLUTION, GridService, MAX_GRID_RESOLUTION } from '../../src/services/gridService';
+
+describe('GridService', () => {
+  const grid = new GridService();
+  const waterfront = { latitude: -33.9249, longitude: 18.4241 };
+
+  const samplePoints = Array.from({ length: 50 }, (_, i) => ({
+    latitude: -34.4 + ((i * 37) % 50) / 50 * 0.9,
+    longitude: 18.1 + ((i * 23) % 50) / 50 * 0.8,
+    resolution: i % (MAX_GRID_RESOLUTION + 1)
+  }));
+
+  it('should map points to cells whose centre is in the same cell', () => {
+    for (const { latitude, longitude, resolution } of samplePoints) {
+      const cell = grid.pointToCell(latitude, longitude, resolution);
+      const center = grid.cellToCenter(cell);
+
+      expect(grid.getResolution(cell)).toBe(resolution);
+      expect(grid.pointToCell(center.latitude, center.longitude, resolution)).toBe(cell);
+    }
+  });
+
+  it('should use 1 km cells by default', () => {
+    const cell = grid.pointToCell(waterfront.latitude, waterfront.longitude);
+
+    expect(grid.getResolution(cell)).toBe(DEFAULT_GRID_RESOLUTION);
+    expect(grid.getCellSpacing()).toBeCloseTo(1000);
+    expect(grid.getCellSpacing(DEFAULT_GRID_RESOLUTION + 1)).toBeCloseTo(1000 / Math.sqrt(7));
+  });
+
+  it('should give each cell seven children that share it as parent', () => {
+    for (const { latitude, longitude, resolution } of samplePoints.filter(point => point.resolution < MAX_GRID_RESOLUTION)) {
+      const cell = grid.pointToCell(latitude, longitude, resolution);
+      const children = grid.cellToChildren(cell);
+
+      expect(new Set(children).size).toBe(7);
+      expect(children.every(child => grid.cellToParent(child) === cell)).toBe(true);
+    }
+
+    expect(grid.cellToChildren(grid.pointToCell(waterfront.latitude, waterfront.longitude), 8)).toHaveLength(49);
+    const fine = grid.pointToCell(waterfront.latitude, waterfront.longitude, 9);
+    expect(grid.cellToParent(fine, 6)).toBe(grid.cellToParent(grid.cellToParent(grid.cellToParent(fine))));
+  });
+
+  it('should list k-ring neighbours nearest first', () => {
+    const cell = grid.pointToCell(waterfront.latitude, waterfront.longitude);
+    const ring = grid.kRing(cell, 2);
+
+    expect(ring).toHaveLength(19);
+    expect(ring[0]).toBe(cell);
+    expect(ring.slice(1, 7).every(neighbor => grid.gridDistance(cell, neighbor) === 1)).toBe(true);
+    expect(ring.slice(7).every(neighbor => grid.gridDistance(cell, neighbor) === 2)).toBe(true);
+  });
+
+  it('should give a hexagonal boundary around the cell centre', () => {
+    const cell = grid.pointToCell(waterfront.latitude, waterfront.longitude);
+    const center = grid.cellToCenter(cell);
+    const boundary = grid.cellToBoundary(cell);
+    const polygon = grid.cellToPolygon(cell);
+
+    expect(boundary).toHaveLength(6);
+    // Corners are a circumradius (spacing / √3) from the centre; 1° of latitude is about 110.6 km
+    for (const corner of boundary) {
+      const dy = (corner.latitude - center.latitude) * 110574;
+      const dx = (corner.longitude - center.longitude) * 111320 * Math.cos(-34 * Math.PI / 180);
+      expect(Math.hypot(dx, dy)).toBeCloseTo(1000 / Math.sqrt(3), 0);
+    }
+    expect(polygon.coordinates[0]).toHaveLength(7);
+  });
+
+  it('should validate cell IDs', () => {
+    expect(grid.isValidCell('HX6_1_-11')).toBe(true);
+    expect(grid.isValidCell('HX11_1_-11')).toBe(false);
+    expect(grid.isValidCell('CT_33_18_001')).toBe(false);
+    expect(() => grid.cellToCenter('CT_57_42')).toThrow(expect.objectContaining({ code: 'INVALID_CELL' }));
+    expect(() => grid.cellToChildren('HX6_1_-11', 5)).toThrow(expect.objectContaining({ code: 'INVALID_RESOLUTION' }));
+  });
+});
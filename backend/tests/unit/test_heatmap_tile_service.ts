@@ -0,0 +1,87 @@
+// Unit Test: HeatmapTileService crime heatmap tiles
+// Tiles are rendered from fixture crime data and decoded back to pixels
+
+import { inflateSync } from 'zlib';
+import { HeatmapTileService, TILE_SIZE } from '../../src/services/heatmapTileService';
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { MemoryStorage } from '../../src/storage';
+import { CrimeData } from '../../src/types';
+
+describe('HeatmapTileService', () => {
+  const now = new Date('2025-03-14T20:00:00');
+  const service = new HeatmapTileService(new CrimeDataService(new MemoryStorage()));
+  const zoom = 12;
+  const waterfront = { latitude: -33.9249, longitude: 18.4241 };
+
+  const nightPattern = Object.fromEntries(Array.from({ length: 24 }, (_, hour) => [hour.toString(), hour >= 18 ? 1 / 6 : 0]));
+  const crimeData: CrimeData[] = [{
+    id: 'crime_waterfront',
+    location: { ...waterfront, neighborhood: 'V&A Waterfront' },
+    gridCell: 'HX6_1_-11',
+    timeframe: { start: new Date('2025-02-14'), end: now },
+    crimeStats: [{ type: 'petty', subtype: 'pickpocketing', incidentCount: 40, severity: 5, timePattern: nightPattern, confidence: 90 }],
+    riskLevel: 'high',
+    populationDensity: 80,
+    economicIndicators: { averageIncome: 30000, unemploymentRate: 10, businessDensity: 80, lightingInfrastructure: 80 },
+    lastUpdated: now,
+    dataSource: 'synthetic'
+  }];
+
+  // Tile and pixel containing a point at a zoom level (Web Mercator)
+  const locate = (latitude: number, longitude: number) => {
+    const scale = Math.pow(2, zoom);
+    const sinLat = Math.sin(latitude * Math.PI / 180);
+    const tx = (longitude + 180) / 360 * scale;
+    const ty = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale;
+    return { x: Math.floor(tx), y: Math.floor(ty), px: Math.floor((tx % 1) * TILE_SIZE), py: Math.floor((ty % 1) * TILE_SIZE) };
+  };
+
+  // Alpha of a pixel, read from the unfiltered IDAT rows
+  const alphaAt = (png: Buffer, px: number, py: number) => {
+    const idatLength = png.readUInt32BE(33);
+    const raw = inflateSync(png.subarray(41, 41 + idatLength));
+    return raw[py * (TILE_SIZE * 4 + 1) + 1 + px * 4 + 3];
+  };
+
+  it('should render a 256×256 PNG that is opaque over crime and clear away from it', () => {
+    const { x, y, px, py } = locate(waterfront.latitude, waterfront.longitude);
+    const png = service.renderTile(crimeData, zoom, x, y);
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(TILE_SIZE);
+    expect(png.readUInt32BE(20)).toBe(TILE_SIZE);
+    expect(alphaAt(png, px, py)).toBeGreaterThan(150);
+
+    // The farthest corner is over 5 km (3 kernel bandwidths) away at this zoom
+    expect(alphaAt(png, px < TILE_SIZE / 2 ? TILE_SIZE - 1 : 0, py < TILE_SIZE / 2 ? TILE_SIZE - 1 : 0)).toBe(0);
+  });
+
+  it('should return the same empty tile outside the metro', () => {
+    const far = locate(-26.2, 28.04);
+    const farther = locate(-29.85, 31.02);
+
+    expect(service.renderTile(crimeData, zoom, far.x, far.y)).toBe(service.renderTile(crimeData, zoom, farther.x, farther.y));
+  });
+
+  it('should weight incidents by their hourly pattern', () => {
+    const { x, y, px, py } = locate(waterfront.latitude, waterfront.longitude);
+
+    const night = service.renderTile(crimeData, zoom, x, y, 22);
+    const morning = service.renderTile(crimeData, zoom, x, y, 9);
+    const allDay = service.renderTile(crimeData, zoom, x, y);
+
+    expect(alphaAt(night, px, py)).toBeGreaterThanOrEqual(alphaAt(allDay, px, py));
+    expect(alphaAt(morning, px, py)).toBe(0);
+  });
+
+  it('should cache tiles and reject invalid coordinates', async () => {
+    const { x, y } = locate(waterfront.latitude, waterfront.longitude);
+    const tile = await service.getTile(zoom, x, y, { hour: 21 }, now);
+
+    expect(await service.getTile(zoom, x, y, { hour: 21 }, new Date(now.getTime() + 60000))).toBe(tile);
+    expect((await service.getTile(zoom, x, y, { hour: 21, crimeType: 'vehicular' }, now)).etag).not.toBe(tile.etag);
+    await expect(service.getTile(zoom, 1 << zoom, y)).rejects.toMatchObject({ code: 'INVALID_TILE' });
+    await expect(service.getTile(19, 0, 0)).rejects.toMatchObject({ code: 'INVALID_TILE' });
+    await expect(service.getTile(zoom, x, y, { hour: 24 })).rejects.toMatchObject({ code: 'INVALID_HOUR' });
+  });
+});
@@ -0,0 +1,153 @@
+// Unit Test: IncidentService crowdsourced reporting
+// Reports are stored in memory; verified ones are read back through CrimeDataService
+
+import { CrimeDataService, INCIDENT_DECAY_HALF_LIFE, INCIDENT_MAX_AGE } from '../../src/services/crimeDataService';
+import { gridService } from '../../src/services/gridService';
+import {
+  INCIDENT_IP_RATE_LIMIT,
+  INCIDENT_RATE_LIMIT,
+  INCIDENT_RATE_WINDOW,
+  IncidentService,
+  IncidentSubmission
+} from '../../src/services/incidentService';
+import { ESTABLISHED_REPORTER_APPROVALS } from '../../src/services/moderationService';
+import { MemoryStorage } from '../../src/storage';
+import { IncidentReport } from '../../src/types';
+
+describe('IncidentService', () => {
+  const now = new Date('2025-03-14T20:00:00');
+  const submission = (sessionId: string, type: string = 'mugging', clientIp: string = `client-${sessionId}`): IncidentSubmission => ({
+    sessionId,
+    clientIp,
+    type,
+    location: { latitude: -33.9249, longitude: 18.4241, neighborhood: 'City Bowl' },
+    description: 'Phone taken at knifepoint near the taxi rank'
+  });
+
+  let storage: MemoryStorage;
+  let crimeData: CrimeDataService;
+  let service: IncidentService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    crimeData = new CrimeDataService(storage);
+    service = new IncidentService(storage);
+  });
+
+  // Sessions with a history of approved reports
+  const establish = async (...sessionIds: string[]) => {
+    for (const sessionId of sessionIds) {
+      await storage.reporters.put(sessionId, { sessionId, approved: ESTABLISHED_REPORTER_APPROVALS, rejected: 0, spam: 0, updatedAt: now });
+    }
+  };
+
+  it('should rate limit reports per session', async () => {
+    for (let i = 0; i < INCIDENT_RATE_LIMIT; i++) {
+      await service.submitReport(submission('s1', 'vandalism'), new Date(now.getTime() + i * 1000));
+    }
+
+    await expect(service.submitReport(submission('s1'), now)).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+      retryAfter: INCIDENT_RATE_WINDOW
+    });
+    await expect(service.submitReport(submission('s2'), now)).resolves.toMatchObject({ verified: false });
+
+    const later = new Date(now.getTime() + INCIDENT_RATE_WINDOW * 1000 + 1000);
+    await expect(service.submitReport(submission('s1'), later)).resolves.toBeDefined();
+  });
+
+  it('should rate limit reports per client address across sessions', async () => {
+    for (let i = 0; i < INCIDENT_IP_RATE_LIMIT; i++) {
+      await service.submitReport(submission(`s${i}`, 'vandalism', '10.1.1.1'), new Date(now.getTime() + i * 1000));
+    }
+
+    await expect(service.submitReport(submission('fresh', 'vandalism', '10.1.1.1'), now))
+      .rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    await expect(service.submitReport(submission('fresh', 'vandalism', '10.2.2.2'), now)).resolves.toBeDefined();
+  });
+
+  it('should hold parallel submissions to the limits', async () => {
+    const burst = (count: number, sessionId: (i: number) => string, clientIp: string) => Promise.allSettled(
+      Array.from({ length: count }, (_, i) => service.submitReport(submission(sessionId(i), 'vandalism', clientIp), now))
+    );
+    const accepted = (results: PromiseSettledResult<IncidentReport>[]) => results.filter(result => result.status === 'fulfilled').length;
+
+    expect(accepted(await burst(INCIDENT_RATE_LIMIT * 2, () => 's1', '10.1.1.1'))).toBe(INCIDENT_RATE_LIMIT);
+    expect(accepted(await burst(INCIDENT_IP_RATE_LIMIT * 2, i => `s${i + 2}`, '10.2.2.2'))).toBe(INCIDENT_IP_RATE_LIMIT);
+  });
+
+  it('should verify reports once different sessions corroborate them', async () => {
+    await establish('s1', 's2', 's3');
+    const today = new Date(); // crime data decays reports against the current time
+    const first = await service.submitReport(submission('s1'), today);
+    const repeat = await service.submitReport(submission('s1', 'assault'), today);
+    const second = await service.submitReport(submission('s2', 'robbery'), today);
+    expect([first, repeat, second].every(report => !report.verified)).toBe(true);
+    const crowdsourced = async () => (await crimeData.getCrimeDataByLocation(first.location))
+      .filter(data => data.dataSource === 'crowdsourced');
+    expect(await crowdsourced()).toHaveLength(0);
+
+    const third = await service.submitReport(submission('s3'), today);
+
+    expect(third.verified).toBe(true);
+    expect((await service.getReport(first.id)).verified).toBe(true);
+    const [cell] = await crowdsourced();
+    expect(cell).toMatchObject({ gridCell: first.gridCell });
+    expect(cell.crimeStats.map(stat => stat.subtype).sort()).toEqual(['assault', 'mugging', 'robbery']);
+    expect(cell.crimeStats.every(stat => stat.type === 'violent')).toBe(true);
+  });
+
+  it('should leave reports from new sessions and shared addresses for moderators', async () => {
+    await establish('s1', 's2', 's3', 's4', 's5');
+    await service.submitReport(submission('new1'), now);
+    await service.submitReport(submission('new2'), now);
+    await service.submitReport(submission('s1', 'mugging', '10.9.9.9'), now);
+    await service.submitReport(submission('s2', 'mugging', '10.9.9.9'), now);
+    const sharedAddress = await service.submitReport(submission('s3', 'mugging', '10.9.9.9'), now);
+    const secondAddress = await service.submitReport(submission('s4', 'mugging', '10.8.8.8'), now);
+    expect([sharedAddress, secondAddress].every(report => !report.verified)).toBe(true);
+
+    const thirdAddress = await service.submitReport(submission('s5', 'mugging', '10.7.7.7'), now);
+    expect(thirdAddress.verified).toBe(true);
+    expect((await service.getReport(sharedAddress.id)).verified).toBe(true);
+    expect((await storage.incidents.findBy('sessionId', 'new1'))[0].status).toBe('pending');
+  });
+
+  it('should decay verified reports with age', () => {
+    const report = (id: string, ageDays: number): IncidentReport => ({
+      id,
+      type: 'car_breaking',
+      crimeType: 'vehicular',
+      location: { latitude: -33.9249, longitude: 18.4241 },
+      gridCell: gridService.pointToCell(-33.9249, 18.4241),
+      timestamp: new Date(now.getTime() - ageDays * 24 * 60 * 60 * 1000),
+      reportedAt: now,
+      sessionId: id,
+      description: 'Window smashed',
+      severity: 6,
+      status: 'approved',
+      verified: true
+    });
+
+    const [fresh] = crimeData.buildCrowdsourcedCrimeData([report('a', 0)], now);
+    const [halfLife] = crimeData.buildCrowdsourcedCrimeData([report('a', INCIDENT_DECAY_HALF_LIFE)], now);
+
+    expect(fresh.crimeStats[0].incidentCount).toBe(1);
+    expect(halfLife.crimeStats[0].incidentCount).toBe(0.5);
+    expect(crimeData.buildCrowdsourcedCrimeData([report('a', INCIDENT_MAX_AGE + 1)], now)).toHaveLength(0);
+    expect(crimeData.buildCrowdsourcedCrimeData([{ ...report('a', 0), verified: false }], now)).toHaveLength(0);
+  });
+
+  it('should validate submissions', () => {
+    const valid = { sessionId: 's1', type: 'theft', description: 'Bag taken from car' };
+
+    expect(service.parseSubmission(valid, now)).toEqual({
+      submission: { ...valid, severity: undefined, timestamp: undefined }
+    });
+    expect(service.parseSubmission({ ...valid, sessionId: '' }, now)).toHaveProperty('error');
+    expect(service.parseSubmission({ ...valid, type: 'alien_abduction' }, now)).toHaveProperty('error');
+    expect(service.parseSubmission({ ...valid, severity: 11 }, now)).toHaveProperty('error');
+    expect(service.parseSubmission({ ...valid, timestamp: '2025-03-15T20:00:00' }, now)).toHaveProperty('error');
+    expect(service.parseSubmission({ ...valid, description: 'x'.repeat(1001) }, now)).toHaveProperty('error');
+  });
+});
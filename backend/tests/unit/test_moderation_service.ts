@@ -0,0 +1,106 @@
+// Unit Test: ModerationService incident moderation queue
+// Reports are submitted through IncidentService into memory storage and read back through CrimeDataService
+
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { IncidentService, IncidentSubmission } from '../../src/services/incidentService';
+import { ESTABLISHED_REPORTER_APPROVALS, ModerationService } from '../../src/services/moderationService';
+import { MemoryStorage } from '../../src/storage';
+
+describe('ModerationService', () => {
+  const now = new Date(); // crime data decays reports against the current time
+  const submission = (sessionId: string, longitude: number = 18.4241): IncidentSubmission => ({
+    sessionId,
+    type: 'mugging',
+    location: { latitude: -33.9249, longitude },
+    description: 'Phone taken at knifepoint near the taxi rank'
+  });
+
+  let storage: MemoryStorage;
+  let crimeData: CrimeDataService;
+  let moderation: ModerationService;
+  let incidents: IncidentService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    crimeData = new CrimeDataService(storage);
+    moderation = new ModerationService(storage);
+    incidents = new IncidentService(storage, moderation);
+  });
+
+  it('should queue pending reports and record decisions in the audit trail', async () => {
+    const first = await incidents.submitReport(submission('s1'), now);
+    const second = await incidents.submitReport(submission('s2'), new Date(now.getTime() + 1000));
+
+    const queue = await moderation.getQueue();
+    expect(queue.map(item => item.report.id)).toEqual([first.id, second.id]);
+    expect(queue[0]).toMatchObject({ reputation: 0.5, possibleDuplicates: [second.id] });
+
+    const approved = await moderation.approve(first.id, 'mod1', 'Matches a SAPS report', now);
+    expect(approved).toMatchObject({ status: 'approved', verified: true, weight: 1 });
+    await moderation.reject(second.id, 'mod1', 'Not enough detail', now);
+    await expect(moderation.reject(second.id, 'mod1', 'Again', now)).rejects.toMatchObject({ code: 'INVALID_DECISION' });
+
+    await moderation.reject(first.id, 'mod2', 'Reporter retracted', new Date(now.getTime() + 2000));
+    const trail = await moderation.getAuditTrail(first.id);
+    expect(trail.map(decision => [decision.action, decision.previousStatus, decision.newStatus, decision.moderatorId])).toEqual([
+      ['approve', 'pending', 'approved', 'mod1'],
+      ['reject', 'approved', 'rejected', 'mod2']
+    ]);
+    expect(await moderation.getDecisions('mod1')).toHaveLength(2);
+    expect(await moderation.getQueue()).toHaveLength(0);
+  });
+
+  it('should merge duplicates into one report that counts once', async () => {
+    const primary = await incidents.submitReport(submission('s1'), now);
+    const duplicate = await incidents.submitReport(submission('s2', 18.4243), now);
+    const distant = await incidents.submitReport(submission('s3', 18.44), now);
+
+    await expect(moderation.merge(primary.id, [distant.id], 'mod1', undefined, now)).rejects.toMatchObject({ code: 'NOT_DUPLICATE' });
+
+    const merged = await moderation.merge(primary.id, [duplicate.id], 'mod1', 'Same mugging', now);
+    expect(merged.mergedReportIds).toEqual([duplicate.id]);
+    expect(await storage.incidents.get(duplicate.id)).toMatchObject({ status: 'merged', mergedInto: primary.id });
+
+    await moderation.approve(primary.id, 'mod1', undefined, now);
+    const [cell] = (await crimeData.getCrimeDataByLocation(primary.location)).filter(data => data.dataSource === 'crowdsourced');
+    expect(cell.crimeStats[0].incidentCount).toBe(1);
+    expect(cell.crimeStats[0].confidence).toBe(60);
+  });
+
+  it('should weight reports by reporter reputation and flag likely spammers', async () => {
+    for (let i = 0; i < 2; i++) {
+      const report = await incidents.submitReport(submission('spammer'), new Date(now.getTime() + i));
+      await moderation.flagSpam(report.id, 'mod1', 'Advertising', now);
+    }
+    for (let i = 0; i < 3; i++) {
+      const report = await incidents.submitReport(submission('reliable'), new Date(now.getTime() + i));
+      await moderation.approve(report.id, 'mod1', undefined, now);
+    }
+
+    expect(await moderation.getReportWeight('reliable')).toBeGreaterThan(1);
+    expect(await moderation.getReportWeight('spammer')).toBeLessThan(1);
+    expect(await moderation.isSuspectedSpammer('spammer')).toBe(true);
+
+    const suspect = await incidents.submitReport(submission('spammer'), now);
+    expect(suspect.suspectedSpam).toBe(true);
+    expect(await moderation.getQueue('pending', { suspectedSpam: true })).toHaveLength(1);
+
+    const approved = await moderation.approve(suspect.id, 'mod1', 'Confirmed by CCTV', now);
+    expect(approved.weight).toBeLessThan(1);
+  });
+
+  it('should auto-approve reports corroborated by different established sessions', async () => {
+    for (const sessionId of ['s1', 's2', 's3']) {
+      await storage.reporters.put(sessionId, { sessionId, approved: ESTABLISHED_REPORTER_APPROVALS, rejected: 0, spam: 0, updatedAt: now });
+    }
+    await incidents.submitReport(submission('s1'), now);
+    await incidents.submitReport(submission('s2'), now);
+    const third = await incidents.submitReport(submission('s3'), now);
+
+    expect(third).toMatchObject({ status: 'approved', verified: true });
+    expect(await moderation.getQueue()).toHaveLength(0);
+    const decisions = await moderation.getDecisions('system');
+    expect(decisions).toHaveLength(3);
+    expect(decisions[0].reason).toBe('Corroborated by reports from 3 sessions');
+  });
+});
@@ -0,0 +1,285 @@
+// Unit Test: NavigationService session lifecycle
+// Sessions run on a route over a small hand-built network, stored in memory
+
+import { RoutingService } from '../../src/services/routingService';
+import { NavigationError, NavigationService } from '../../src/services/navigationService';
+import { GeofenceService } from '../../src/services/geofenceService';
+import { SafetyScoringService } from '../../src/services/safetyScoringService';
+import { MemoryStorage } from '../../src/storage';
+import { RoadNetworkCollection } from '../../src/data/road-network';
+import { Route, User } from '../../src/types';
+
+describe('NavigationService', () => {
+  // Straight residential road A -- B -- C, 0.04 degrees of longitude (~3.7 km)
+  const network: RoadNetworkCollection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [[18.40, -33.92], [18.42, -33.92], [18.44, -33.92]] },
+        properties: { highway: 'residential', lit: 'yes', name: 'Main Road' }
+      }
+    ]
+  };
+
+  let storage: MemoryStorage;
+  let service: NavigationService;
+  let route: Route;
+
+  const storeUser = (id: string, overrides: Partial<User> = {}) => storage.users.put(id, {
+    id,
+    sessionId: `${id}-session`,
+    preferences: {
+      safetyPriority: 50,
+      riskTolerance: 'medium',
+      avoidAreas: [],
+      preferredTravelModes: ['driving'],
+      notificationSettings: { safetyAlerts: true, routeUpdates: true, arrivalNotifications: true, emergencyContacts: [] },
+      accessibilityNeeds: []
+    },
+    usageHistory: [],
+    location: route.origin,
+    createdAt: new Date('2025-03-14T12:00:00'),
+    lastActive: new Date('2025-03-14T12:00:00'),
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    const { routes } = await new RoutingService(network).generateRouteAlternatives({
+      origin: { latitude: -33.92, longitude: 18.40 },
+      destination: { latitude: -33.92, longitude: 18.44 },
+      options: { maxRoutes: 1 }
+    });
+    route = routes[0];
+  });
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    service = new NavigationService(storage);
+    await storage.routes.put(route.id, route);
+  });
+
+  it('should start an active session with an ETA from the route duration', async () => {
+    await storeUser('u1');
+    const session = await service.startSession({ routeId: route.id, userId: 'u1', userSessionId: 'u1-session' });
+
+    expect(session.status).toBe('active');
+    expect(session.estimatedArrival.getTime() - session.startTime.getTime()).toBe(route.estimatedDuration * 1000);
+    expect(await service.getUserSessions('u1')).toHaveLength(1);
+    await expect(service.startSession({ routeId: 'missing' })).rejects.toMatchObject({ code: 'ROUTE_NOT_FOUND' });
+  });
+
+  it('should only start sessions for a user with their own session', async () => {
+    await storeUser('u1');
+
+    await expect(service.startSession({ routeId: route.id, userId: 'u2', userSessionId: 'u1-session' }))
+      .rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+    await expect(service.startSession({ routeId: route.id, userId: 'u1' })).rejects.toMatchObject({ code: 'USER_SESSION_REQUIRED' });
+    await expect(service.startSession({ routeId: route.id, userId: 'u1', userSessionId: 'other-session' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(await service.getUserSessions('u1')).toHaveLength(0);
+  });
+
+  it('should prorate remaining distance and ETA from location updates', async () => {
+    const session = await service.startSession({ routeId: route.id });
+    const timestamp = new Date('2025-03-14T12:00:00');
+    const updated = await service.updateLocation(session.id, { latitude: -33.9201, longitude: 18.42 }, timestamp);
+
+    expect(updated.progress!.distanceFromRoute).toBeLessThan(20);
+    expect(updated.progress!.distanceRemaining).toBeCloseTo(route.totalDistance / 2, -2);
+    expect(updated.progress!.durationRemaining).toBeCloseTo(route.estimatedDuration / 2, -1);
+    expect(updated.estimatedArrival.getTime()).toBe(timestamp.getTime() + updated.progress!.durationRemaining * 1000);
+  });
+
+  it('should validate status transitions and record their history', async () => {
+    const session = await service.startSession({ routeId: route.id, startNavigation: false });
+
+    await expect(service.transition(session.id, 'resume')).rejects.toBeInstanceOf(NavigationError);
+    await service.transition(session.id, 'start');
+    await service.transition(session.id, 'pause');
+    await expect(service.updateLocation(session.id, route.origin)).rejects.toMatchObject({ code: 'SESSION_NOT_ACTIVE' });
+    await service.transition(session.id, 'resume');
+    const completed = await service.transition(session.id, 'complete', {
+      safetyRating: 4, routeQuality: 5, wouldRecommend: true, reportedIncidents: []
+    });
+
+    expect(completed.status).toBe('completed');
+    expect(completed.actualArrival).toBeDefined();
+    expect(completed.statusHistory!.map(change => change.to)).toEqual(['planning', 'active', 'paused', 'active', 'completed']);
+    await expect(service.transition(session.id, 'cancel')).rejects.toMatchObject({ code: 'INVALID_STATUS_TRANSITION' });
+  });
+
+  it('should keep a capped summary of completed sessions on the user', async () => {
+    const now = new Date('2025-03-14T12:00:00');
+    await storeUser('u1', {
+      usageHistory: Array.from({ length: 50 }, (_, index) => ({
+        sessionId: `old-${index}`, routeId: route.id, startTime: now, completedAt: now, distance: 1000, safetyScore: 80, deviations: 0
+      }))
+    });
+
+    const session = await service.startSession({ routeId: route.id, userId: 'u1', userSessionId: 'u1-session' });
+    await service.transition(session.id, 'complete', { safetyRating: 4, routeQuality: 5, wouldRecommend: true, reportedIncidents: [] });
+
+    const { usageHistory } = (await storage.users.get('u1'))!;
+    expect(usageHistory).toHaveLength(50);
+    expect(usageHistory[0].sessionId).toBe('old-1');
+    expect(usageHistory[49]).toEqual({
+      sessionId: session.id,
+      routeId: route.id,
+      travelMode: route.travelMode,
+      startTime: session.startTime,
+      completedAt: expect.any(Date),
+      distance: route.totalDistance,
+      safetyScore: route.safetyScore.overall,
+      deviations: 0,
+      safetyRating: 4
+    });
+    expect(usageHistory[49]).not.toHaveProperty('selectedRoute');
+  });
+
+  it('should keep saved places written while a completed session is summarised', async () => {
+    await storeUser('u1');
+    const places = new GeofenceService(storage);
+    const session = await service.startSession({ routeId: route.id, userId: 'u1', userSessionId: 'u1-session' });
+    // Slow reads leave room for the other write between each read and its write
+    const getUser = storage.users.get.bind(storage.users);
+    jest.spyOn(storage.users, 'get').mockImplementation(async id => {
+      const user = await getUser(id);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return user;
+    });
+
+    await Promise.all([
+      service.transition(session.id, 'complete'),
+      places.savePlace('u1', {
+        name: 'Home',
+        geofence: { type: 'circle', center: route.origin, radius: 200 },
+        minSeverity: 'warning'
+      }, 'u1-session')
+    ]);
+
+    const user = (await storage.users.get('u1'))!;
+    expect(user.usageHistory.map(summary => summary.sessionId)).toEqual([session.id]);
+    expect(user.savedPlaces!.map(place => place.name)).toEqual(['Home']);
+  });
+
+  it('should apply overlapping updates of a session one at a time', async () => {
+    const session = await service.startSession({ routeId: route.id });
+    const along = (longitude: number) => ({ latitude: -33.92, longitude });
+
+    const [, , paused] = await Promise.all([
+      service.updateLocation(session.id, along(18.41), new Date('2025-03-14T12:00:00')),
+      service.updateLocation(session.id, along(18.42), new Date('2025-03-14T12:00:10')),
+      service.transition(session.id, 'pause'),
+      expect(service.updateLocation(session.id, along(18.43))).rejects.toMatchObject({ code: 'SESSION_NOT_ACTIVE' })
+    ]);
+
+    const stored = await service.getSession(session.id);
+    expect(paused.status).toBe('paused');
+    expect(stored.status).toBe('paused');
+    expect(stored.currentLocation).toEqual(along(18.42));
+    expect(stored.progress!.distanceRemaining).toBeCloseTo(route.totalDistance / 2, -2);
+  });
+
+  it('should log one alert per risky segment', async () => {
+    const riskyRoute: Route = {
+      ...route,
+      id: 'risky',
+      segments: route.segments.map(segment => ({ ...segment, safetyScore: { ...segment.safetyScore, overall: 25 } }))
+    };
+    await storage.routes.put(riskyRoute.id, riskyRoute);
+    const session = await service.startSession({ routeId: riskyRoute.id });
+
+    await service.updateLocation(session.id, { latitude: -33.92, longitude: 18.401 }, new Date('2025-03-14T12:00:00'));
+    await service.updateLocation(session.id, { latitude: -33.92, longitude: 18.402 }, new Date('2025-03-14T12:00:10'));
+    const alerts = await service.getAlerts(session.id);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ type: 'high_crime_area', severity: 'critical', acknowledged: false });
+  });
+
+  describe('Route deviations', () => {
+    // Main Road plus a parallel street ~550m north, linked at both ends
+    const gridNetwork: RoadNetworkCollection = {
+      type: 'FeatureCollection',
+      features: [
+        ...network.features,
+        {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: [[18.40, -33.915], [18.42, -33.915], [18.44, -33.915]] },
+          properties: { highway: 'residential', lit: 'yes', name: 'Upper Road' }
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: [[18.40, -33.92], [18.40, -33.915]] },
+          properties: { highway: 'residential', lit: 'yes' }
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: [[18.44, -33.92], [18.44, -33.915]] },
+          properties: { highway: 'residential', lit: 'yes' }
+        }
+      ]
+    };
+    const offRoute = { latitude: -33.915, longitude: 18.42 };
+
+    let deviationService: NavigationService;
+
+    beforeEach(() => {
+      deviationService = new NavigationService(storage, new RoutingService(gridNetwork));
+    });
+
+    it('should record deviations beyond the threshold with their safety impact', async () => {
+      const session = await deviationService.startSession({ routeId: route.id, deviationThreshold: 100 });
+
+      await deviationService.updateLocation(session.id, { latitude: -33.9203, longitude: 18.42 });
+      const updated = await deviationService.updateLocation(session.id, offRoute);
+
+      expect(updated.routeDeviations).toHaveLength(1);
+      expect(updated.routeDeviations[0].distanceFromRoute).toBeGreaterThan(500);
+      expect(updated.routeDeviations[0].originalLocation.latitude).toBeCloseTo(-33.92, 4);
+      expect(typeof updated.routeDeviations[0].safetyImpact).toBe('number');
+      expect(updated.progress!.offRouteUpdates).toBe(1);
+      expect(updated.rerouteOffer).toBeUndefined();
+    });
+
+    it('should record one deviation per excursion and score it once', async () => {
+      const session = await deviationService.startSession({ routeId: route.id, deviationThreshold: 100 });
+      const scoring = jest.spyOn(SafetyScoringService.prototype, 'calculateLocationSafety');
+
+      await deviationService.updateLocation(session.id, offRoute);
+      const further = { latitude: -33.915, longitude: 18.425 };
+      const extended = await deviationService.updateLocation(session.id, further);
+
+      expect(extended.routeDeviations).toHaveLength(1);
+      expect(extended.routeDeviations[0].actualLocation).toEqual(further);
+      expect(scoring).toHaveBeenCalledTimes(1);
+
+      await deviationService.updateLocation(session.id, { latitude: -33.92, longitude: 18.43 });
+      const again = await deviationService.updateLocation(session.id, offRoute);
+      expect(again.routeDeviations).toHaveLength(2);
+      scoring.mockRestore();
+    });
+
+    it('should offer a re-route with the original profile once a deviation persists', async () => {
+      const session = await deviationService.startSession({ routeId: route.id, routeOptions: { optimizeFor: 'safety' } });
+
+      await deviationService.updateLocation(session.id, offRoute);
+      await deviationService.updateLocation(session.id, offRoute);
+      const deviated = await deviationService.updateLocation(session.id, offRoute);
+
+      expect(deviated.rerouteOffer!.optimizeFor).toBe('safety');
+      expect(deviated.rerouteOffer!.route.origin).toMatchObject(offRoute);
+      expect(deviated.rerouteOffer!.route.optimizedFor).toContain('safety');
+      expect(await storage.routes.get(deviated.rerouteOffer!.route.id)).toBeDefined();
+      expect(deviated.alerts.filter(alert => alert.type === 'route_deviation')).toHaveLength(1);
+      expect(deviated.routeDeviations).toHaveLength(1);
+
+      const rerouted = await deviationService.acceptReroute(session.id);
+      expect(rerouted.selectedRoute.id).toBe(deviated.rerouteOffer!.route.id);
+      expect(rerouted.rerouteOffer).toBeUndefined();
+      expect(rerouted.progress!.offRouteUpdates).toBe(0);
+      await expect(deviationService.acceptReroute(session.id)).rejects.toMatchObject({ code: 'NO_REROUTE_OFFER' });
+    });
+  });
+});
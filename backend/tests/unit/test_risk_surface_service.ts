@@ -0,0 +1,82 @@
+// Unit Test: RiskSurfaceService interpolated crime risk
+// Estimates are computed from fixture crime data; no storage is involved
+
+import { RISK_LEVEL_COSTS, RiskSurfaceService } from '../../src/services/riskSurfaceService';
+import { CrimeData } from '../../src/types';
+
+describe('RiskSurfaceService', () => {
+  const now = new Date('2025-03-14T20:00:00');
+  const service = new RiskSurfaceService();
+
+  const area = (id: string, longitude: number, riskLevel: CrimeData['riskLevel'], incidentCount: number): CrimeData => ({
+    id,
+    location: { latitude: -33.95, longitude, neighborhood: id },
+    gridCell: 'HX6_0_0',
+    timeframe: { start: new Date('2025-02-14'), end: now },
+    crimeStats: [{
+      type: 'petty',
+      subtype: 'pickpocketing',
+      incidentCount,
+      severity: riskLevel === 'critical' ? 8 : 3,
+      timePattern: { '20': 0.1 },
+      confidence: 90
+    }],
+    riskLevel,
+    populationDensity: 60,
+    economicIndicators: { averageIncome: 20000, unemploymentRate: 20, businessDensity: 50, lightingInfrastructure: 60 },
+    lastUpdated: now,
+    dataSource: 'synthetic'
+  });
+
+  // Two areas 4 km apart (0.0433° of longitude at this latitude)
+  const quiet = area('Quiet', 18.45, 'low', 10);
+  const rough = area('Rough', 18.4933, 'critical', 40);
+  const crimeData = [quiet, rough];
+  const at = (longitude: number) => service.estimate(crimeData, { latitude: -33.95, longitude }, now);
+
+  it('should follow the risk level at a data point with low uncertainty', () => {
+    const estimate = at(rough.location.longitude);
+
+    expect(estimate.risk).toBeGreaterThan(RISK_LEVEL_COSTS.high);
+    expect(estimate.risk).toBeLessThanOrEqual(RISK_LEVEL_COSTS.critical);
+    expect(estimate.uncertainty).toBeLessThan(0.25);
+    expect(estimate.support).toBeGreaterThan(0.8);
+    expect(estimate.sources).toEqual(['synthetic']);
+    expect(estimate.profile.riskLevel).toBe('critical');
+  });
+
+  it('should fall back to the baseline with high uncertainty far from any data', () => {
+    const estimate = service.estimate(crimeData, { latitude: -34.2, longitude: 18.85 }, now);
+
+    expect(estimate.risk).toBeCloseTo(0.3);
+    expect(estimate.uncertainty).toBeGreaterThanOrEqual(0.5);
+    expect(estimate.support).toBe(0);
+    expect(estimate.sources).toEqual([]);
+    expect(estimate.profile.crimeStats).toHaveLength(0);
+  });
+
+  it('should change risk smoothly between neighbouring areas', () => {
+    // 100 m steps from one area to the other
+    const steps = Array.from({ length: 41 }, (_, i) => at(quiet.location.longitude + (rough.location.longitude - quiet.location.longitude) * i / 40));
+
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].risk).toBeGreaterThanOrEqual(steps[i - 1].risk);
+      expect(steps[i].risk - steps[i - 1].risk).toBeLessThan(0.1);
+    }
+    // Uncertainty peaks between the areas, where they disagree
+    expect(steps[20].uncertainty).toBeGreaterThan(steps[0].uncertainty);
+    expect(steps[20].uncertainty).toBeGreaterThan(steps[40].uncertainty);
+  });
+
+  it('should blend nearby statistics into the profile', () => {
+    const profile = at(18.47165).profile;
+    const [stat] = profile.crimeStats;
+
+    expect(profile.crimeStats).toHaveLength(1);
+    expect(stat.incidentCount).toBeGreaterThan(0);
+    expect(stat.incidentCount).toBeLessThan(10 + 40);
+    expect(stat.severity).toBeGreaterThanOrEqual(3);
+    expect(stat.severity).toBeLessThanOrEqual(8);
+    expect(profile.populationDensity).toBe(60);
+  });
+});
@@ -0,0 +1,293 @@
+// Unit Test: RoutingService road graph search
+// Uses a small hand-built GeoJSON network so paths and edge tags are predictable
+
+import { RoutingService } from '../../src/services/routingService';
+import { SafetyScoringService } from '../../src/services/safetyScoringService';
+import { markImportedDataChanged } from '../../src/services/crimeDataService';
+import { RoadNetworkCollection } from '../../src/data/road-network';
+import { GtfsFeed } from '../../src/data/gtfs';
+import { GeoJSONPolygon, RouteRequest, UserPreferences } from '../../src/types';
+
+describe('RoutingService', () => {
+  // A -- B -- C along a lit motorway, with a slow unlit residential detour A -- D -- C
+  const network: RoadNetworkCollection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [[18.40, -33.92], [18.42, -33.92], [18.44, -33.92]] },
+        properties: { highway: 'motorway', lit: 'yes', maxspeed: 100, name: 'N1' }
+      },
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [[18.40, -33.92], [18.42, -33.93], [18.44, -33.92]] },
+        properties: { highway: 'residential', lit: 'no' }
+      }
+    ]
+  };
+
+  const request: RouteRequest = {
+    origin: { latitude: -33.92, longitude: 18.40, address: 'Start' },
+    destination: { latitude: -33.92, longitude: 18.44, address: 'End' },
+    options: { maxRoutes: 2 }
+  };
+
+  it('should follow the fastest road and take segment tags from edges', () => {
+    const service = new RoutingService(network);
+    const path = service.findPath(request.origin, request.destination);
+
+    expect(path).not.toBeNull();
+    expect(path!.edges).toHaveLength(2);
+    expect(path!.edges.every(edge => edge.roadType === 'highway')).toBe(true);
+    expect(path!.edges.every(edge => edge.lightingLevel === 'high')).toBe(true);
+  });
+
+  it('should exclude edges with infinite cost', () => {
+    const service = new RoutingService(network);
+    const path = service.findPath(request.origin, request.destination, edge =>
+      edge.highway === 'motorway' ? Infinity : service.getTravelTime(edge)
+    );
+
+    expect(path).not.toBeNull();
+    expect(path!.edges.every(edge => edge.roadType === 'residential')).toBe(true);
+    expect(path!.edges.every(edge => edge.lightingLevel === 'none')).toBe(true);
+  });
+
+  it('should generate distinct road-following alternatives', async () => {
+    const service = new RoutingService(network);
+    const { routes } = await service.generateRouteAlternatives(request);
+
+    expect(routes).toHaveLength(2);
+    expect(routes[0].segments[0].roadType).toBe('highway');
+    expect(routes[1].segments[0].roadType).toBe('residential');
+    expect(routes[0].estimatedDuration).toBeLessThan(routes[1].estimatedDuration);
+    expect(routes[0].segments[0].startLocation.address).toBe('Start');
+  });
+
+  it('should share one route between profiles with the same optimal path', async () => {
+    const service = new RoutingService(network);
+    const { routes } = await service.generateRouteAlternatives({ ...request, options: { maxRoutes: 3, optimizeFor: 'safety' } });
+
+    expect(routes[0].optimizedFor).toEqual(['safety', 'time', 'balanced']);
+    expect(routes[0].id).toMatch(/^route_safest_/);
+    expect(routes[1].optimizedFor).toEqual([]);
+  });
+
+  it('should weight edge risk by optimisation profile', async () => {
+    const service = new RoutingService(network);
+    const risks = await service.getEdgeRisks({ currentTime: '2025-03-14T23:00:00' });
+    const path = service.findPath(request.origin, request.destination)!;
+    const edge = path.edges[0];
+
+    expect(risks[edge.id]).toBeGreaterThan(0);
+    expect(risks[edge.id]).toBeLessThanOrEqual(1);
+    expect(service.createCostFunction('time', risks)(edge)).toBeCloseTo(service.getTravelTime(edge));
+    expect(service.createCostFunction('safety', risks)(edge))
+      .toBeGreaterThan(service.createCostFunction('balanced', risks)(edge));
+  });
+
+  it('should cache edge risk per scoring model until crime data changes', async () => {
+    const service = new RoutingService(network);
+    const riskCost = jest.spyOn(SafetyScoringService.prototype, 'calculateRiskCost');
+    const timeContext = { currentTime: '2025-03-14T23:00:00' };
+
+    try {
+      const defaults = await service.getEdgeRisks(timeContext);
+      const calls = riskCost.mock.calls.length;
+      expect(riskCost.mock.calls[0][4]).toBe('1.0.0');
+      expect(await service.getEdgeRisks(timeContext, 'driving', '1.0.0')).toBe(defaults);
+      expect(riskCost).toHaveBeenCalledTimes(calls);
+
+      const other = await service.getEdgeRisks(timeContext, 'driving', '1.1.0');
+      expect(other).not.toBe(defaults);
+      expect(riskCost).toHaveBeenCalledTimes(calls * 2);
+      expect(riskCost.mock.calls[calls][4]).toBe('1.1.0');
+
+      markImportedDataChanged();
+      expect(await service.getEdgeRisks(timeContext)).not.toBe(defaults);
+      expect(riskCost).toHaveBeenCalledTimes(calls * 3);
+    } finally {
+      riskCost.mockRestore();
+    }
+  });
+
+  it('should exclude highways and report the road type breakdown', async () => {
+    const service = new RoutingService(network);
+    const { routes, relaxedOptions } = await service.generateRouteAlternatives({
+      ...request,
+      options: { maxRoutes: 1, avoidHighways: true }
+    });
+
+    expect(relaxedOptions).toEqual([]);
+    expect(routes[0].roadTypeBreakdown).toMatchObject({ highway: 0, toll: 0 });
+    expect(routes[0].roadTypeBreakdown!.residential).toBe(routes[0].totalDistance);
+  });
+
+  it('should relax avoidTolls when only toll roads connect the endpoints', async () => {
+    const tollNetwork: RoadNetworkCollection = {
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [[18.36, -34.06], [18.36, -34.08]] },
+        properties: { highway: 'secondary', toll: 'yes', name: "Chapman's Peak Drive" }
+      }]
+    };
+    const service = new RoutingService(tollNetwork);
+    const { routes, relaxedOptions } = await service.generateRouteAlternatives({
+      origin: { latitude: -34.06, longitude: 18.36 },
+      destination: { latitude: -34.08, longitude: 18.36 },
+      options: { maxRoutes: 1, avoidTolls: true }
+    });
+
+    expect(relaxedOptions).toEqual(['avoidTolls']);
+    expect(routes[0].roadTypeBreakdown!.toll).toBeGreaterThan(2000);
+  });
+
+  describe('waypoints', () => {
+    const b = { latitude: -33.92, longitude: 18.42, address: 'B' };
+    const c = { latitude: -33.92, longitude: 18.44, address: 'C' };
+    const d = { latitude: -33.93, longitude: 18.42, address: 'D' };
+
+    it('should pass through every waypoint in order with one leg per stop', async () => {
+      const service = new RoutingService(network);
+      const { routes } = await service.generateRouteAlternatives({ ...request, waypoints: [d], options: { maxRoutes: 1 } });
+      const route = routes[0];
+
+      expect(route.segments.some(segment => segment.roadType === 'residential')).toBe(true);
+      expect(route.legs!.map(leg => leg.end.address)).toEqual(['D', 'End']);
+      expect(route.legs!.flatMap(leg => leg.segmentIds)).toEqual(route.segments.map(segment => segment.id));
+      expect(route.waypointOrder).toEqual([0]);
+    });
+
+    it('should reorder waypoints only when asked', async () => {
+      const service = new RoutingService(network);
+      const base: RouteRequest = { ...request, destination: d, waypoints: [c, b] };
+
+      const fixed = await service.generateRouteAlternatives({ ...base, options: { maxRoutes: 1 } });
+      const reordered = await service.generateRouteAlternatives({ ...base, options: { maxRoutes: 1, optimizeWaypointOrder: true } });
+
+      expect(fixed.routes[0].waypointOrder).toEqual([0, 1]);
+      expect(reordered.routes[0].waypointOrder).toEqual([1, 0]);
+      expect(reordered.routes[0].waypoints!.map(waypoint => waypoint.address)).toEqual(['B', 'C']);
+      expect(reordered.routes[0].estimatedDuration).toBeLessThan(fixed.routes[0].estimatedDuration);
+    });
+
+    it('should summarise safety per leg and flag the riskiest leg', async () => {
+      const service = new RoutingService(network);
+      const { routes } = await service.generateRouteAlternatives({ ...request, waypoints: [d], options: { maxRoutes: 1 } });
+      const scored = await new SafetyScoringService().calculateRouteSafety(routes[0], { currentTime: '2025-03-14T23:00:00' });
+
+      expect(scored.legs!.every(leg => leg.safety!.explanation.startsWith(`Leg ${leg.index + 1}`))).toBe(true);
+      expect(scored.legs!.filter(leg => leg.safety!.isRiskiestLeg)).toHaveLength(1);
+    });
+  });
+
+  describe('travel modes', () => {
+    // One bus trip running alongside the motorway, from near A to near C
+    const feed: GtfsFeed = {
+      stops: [
+        { id: 'S1', name: 'Stop A', latitude: -33.9205, longitude: 18.401 },
+        { id: 'S2', name: 'Stop C', latitude: -33.9205, longitude: 18.439 }
+      ],
+      routes: [{ id: 'R1', agency: 'MyCiTi', shortName: 'T99', longName: 'Test Line', vehicle: 'bus' }],
+      trips: [{ id: 'T1', routeId: 'R1', serviceId: 'WEEKDAY', headsign: 'Stop C' }],
+      stopTimes: [
+        { tripId: 'T1', stopId: 'S1', sequence: 0, arrival: 8 * 3600 + 600, departure: 8 * 3600 + 600 },
+        { tripId: 'T1', stopId: 'S2', sequence: 1, arrival: 8 * 3600 + 900, departure: 8 * 3600 + 900 }
+      ],
+      services: [{ id: 'WEEKDAY', days: [false, true, true, true, true, true, false] }]
+    };
+
+    it('should keep pedestrians off motorways at walking speed', async () => {
+      const service = new RoutingService(network, feed);
+      const { routes } = await service.generateRouteAlternatives({ ...request, options: { maxRoutes: 1, travelMode: 'walking' } });
+
+      expect(routes[0].travelMode).toBe('walking');
+      expect(routes[0].segments.every(segment => segment.roadType === 'residential' && segment.travelMode === 'walking')).toBe(true);
+      expect(routes[0].estimatedDuration).toBeCloseTo(routes[0].totalDistance / (5 / 3.6), -1);
+    });
+
+    it('should combine walking and timetabled transit', async () => {
+      const service = new RoutingService(network, feed);
+      const { routes } = await service.generateRouteAlternatives(
+        { ...request, options: { maxRoutes: 1, travelMode: 'transit' } },
+        { currentTime: '2025-03-14T08:00:00' } // Friday
+      );
+
+      expect(routes[0].travelMode).toBe('transit');
+      expect(routes[0].segments.map(segment => segment.travelMode)).toEqual(['walking', 'transit', 'walking']);
+
+      const ride = routes[0].segments[1];
+      expect(ride.transit).toMatchObject({ agency: 'MyCiTi', line: 'T99', departureTime: '08:10:00', arrivalTime: '08:15:00', stopCount: 1 });
+      expect(ride.transit!.waitTime).toBeGreaterThan(0);
+      expect(ride.duration).toBe(ride.transit!.waitTime + 300);
+      expect(routes[0].roadTypeBreakdown!.arterial).toBe(0);
+    });
+
+    it('should walk when no transit service runs', async () => {
+      const service = new RoutingService(network, feed);
+      const { routes } = await service.generateRouteAlternatives(
+        { ...request, options: { maxRoutes: 1, travelMode: 'transit' } },
+        { currentTime: '2025-03-16T08:00:00' } // Sunday
+      );
+
+      expect(routes[0].travelMode).toBe('walking');
+      expect(routes[0].segments.every(segment => segment.transit === undefined)).toBe(true);
+    });
+  });
+
+  describe('avoid areas', () => {
+    // Square around the motorway midpoint B
+    const aroundB: GeoJSONPolygon = {
+      type: 'Polygon',
+      coordinates: [[[18.415, -33.925], [18.425, -33.925], [18.425, -33.915], [18.415, -33.915], [18.415, -33.925]]]
+    };
+
+    const withAvoidAreas = (avoidAreas: UserPreferences['avoidAreas']): RouteRequest => ({
+      ...request,
+      options: { maxRoutes: 1 },
+      preferences: {
+        safetyPriority: 50,
+        riskTolerance: 'medium',
+        avoidAreas,
+        preferredTravelModes: ['driving'],
+        notificationSettings: { safetyAlerts: true, routeUpdates: true, arrivalNotifications: true, emergencyContacts: [] },
+        accessibilityNeeds: []
+      }
+    });
+
+    it('should exclude hard avoid-areas from the path', async () => {
+      const service = new RoutingService(network);
+      const { routes, avoidAreas } = await service.generateRouteAlternatives(withAvoidAreas([{ area: aroundB, mode: 'hard' }]));
+
+      expect(routes[0].segments[0].roadType).toBe('residential');
+      expect(avoidAreas).toEqual([{ area: 'Polygon polygon', mode: 'hard', avoided: true, routeIds: [] }]);
+    });
+
+    it('should accept JSON-encoded polygons as soft penalties', async () => {
+      const service = new RoutingService(network);
+      const { routes, avoidAreas } = await service.generateRouteAlternatives(
+        withAvoidAreas([{ area: JSON.stringify(aroundB), mode: 'soft', penalty: 1.5 }])
+      );
+
+      // A small penalty is cheaper than the slow residential detour
+      expect(routes[0].segments[0].roadType).toBe('highway');
+      expect(avoidAreas[0].avoided).toBe(false);
+      expect(avoidAreas[0].reason).toBe('detour_too_costly');
+      expect(avoidAreas[0].routeIds).toEqual([routes[0].id]);
+    });
+
+    it('should report areas that contain the origin or are unrecognized', async () => {
+      const service = new RoutingService(network);
+      const aroundOrigin: GeoJSONPolygon = {
+        type: 'Polygon',
+        coordinates: [[[18.39, -33.93], [18.41, -33.93], [18.41, -33.91], [18.39, -33.91], [18.39, -33.93]]]
+      };
+      const { routes, avoidAreas } = await service.generateRouteAlternatives(withAvoidAreas([{ area: aroundOrigin }, 'Atlantis']));
+
+      expect(routes).toHaveLength(1);
+      expect(avoidAreas[0]).toMatchObject({ mode: 'hard', avoided: false, reason: 'origin_inside_area' });
+      expect(avoidAreas.find(a => a.area === 'Atlantis')?.reason).toBe('unrecognized_area');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// Unit Test: SafetyScoringService personalised scoring
+// Scores use synthetic crime data in memory storage and the built-in scoring models
+
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { RiskSurfaceService } from '../../src/services/riskSurfaceService';
+import { SafetyScoringService } from '../../src/services/safetyScoringService';
+import { ScoringModelService } from '../../src/services/scoringModelService';
+import { SafetyScoreRequest } from '../../src/types';
+import { MemoryStorage } from '../../src/storage';
+
+describe('SafetyScoringService', () => {
+  const models = new ScoringModelService(undefined, '1.0.0');
+  const scoring = new SafetyScoringService(new RiskSurfaceService(new CrimeDataService(new MemoryStorage())), models);
+
+  const at = (currentTime: string, userContext?: SafetyScoreRequest['userContext']): SafetyScoreRequest => ({
+    location: { latitude: -33.9249, longitude: 18.4241 },
+    timeContext: { currentTime },
+    userContext
+  });
+
+  it('should lower the crime score for declared vulnerabilities and name them in the explanation', async () => {
+    const night = '2025-03-12T23:00:00';
+    const standard = await scoring.calculateLocationSafety(at(night, { travelMode: 'walking' }));
+    const personal = await scoring.calculateLocationSafety(at(night, {
+      travelMode: 'walking',
+      vulnerabilityFactors: ['tourist', 'alone', 'left_handed']
+    }));
+
+    expect(personal.safetyScore.crimeRisk).toBeLessThan(standard.safetyScore.crimeRisk);
+    expect(personal.safetyScore.overall).toBeLessThanOrEqual(standard.safetyScore.overall);
+    expect(personal.safetyScore.explanation).toContain('Your score is lower for visiting as a tourist, travelling alone at night.');
+    expect(standard.safetyScore.explanation).not.toContain('Your score');
+
+    expect(personal.metadata.personalization).toMatchObject({
+      vulnerabilityFactors: ['tourist', 'alone_at_night'],
+      unrecognizedFactors: ['left_handed'],
+      riskTolerance: 'medium',
+      thresholdShift: 0
+    });
+    expect(personal.metadata.personalization!.crimeRiskMultiplier).toBeGreaterThan(1);
+    expect(standard.metadata.personalization).toBeUndefined();
+  });
+
+  it('should only apply night-time factors after dark', async () => {
+    const response = await scoring.calculateLocationSafety(at('2025-03-12T11:00:00', {
+      vulnerabilityFactors: ['alone_at_night', 'carrying_valuables']
+    }));
+
+    expect(response.metadata.personalization!.vulnerabilityFactors).toEqual(['carrying_valuables']);
+    expect(response.safetyScore.explanation).toContain('Your score is lower for carrying valuables.');
+    expect(response.safetyScore.explanation).not.toContain('alone');
+  });
+
+  it('should shift alert and recommendation thresholds with risk tolerance', async () => {
+    const model = models.getModel();
+
+    expect(scoring.getThresholds(model, 'medium')).toEqual(model.thresholds);
+    expect(scoring.getThresholds(model, 'low')).toMatchObject({ routeChange: 60, timeChange: 70, highCrimeAlert: 40, positiveFactor: 70 });
+    expect(scoring.getThresholds(model, 'high')).toMatchObject({ routeChange: 40, poorLighting: 30, poorLightingAlert: 20, neutralFactor: 40 });
+
+    // Weekday nights score 50 for time: below the usual threshold of 60, not below 50 for a risk-tolerant traveller
+    const night = '2025-03-12T23:00:00';
+    const cautious = await scoring.calculateLocationSafety(at(night, { riskTolerance: 'low' }));
+    const relaxed = await scoring.calculateLocationSafety(at(night, { riskTolerance: 'high' }));
+
+    expect(relaxed.safetyScore).toMatchObject({ timeFactor: 50, overall: cautious.safetyScore.overall });
+    expect(cautious.recommendations!.map(recommendation => recommendation.type)).toContain('time_change');
+    expect(relaxed.recommendations!.map(recommendation => recommendation.type)).not.toContain('time_change');
+    expect(cautious.metadata.personalization).toMatchObject({ riskTolerance: 'low', thresholdShift: 10, vulnerabilityFactors: [] });
+  });
+});
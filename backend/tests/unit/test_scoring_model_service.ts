@@ -0,0 +1,96 @@
+// Unit Test: ScoringModelService versioned scoring models
+// Model files are written to a temporary directory; scores use synthetic crime data in memory storage
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BUILT_IN_SCORING_MODELS, ScoringModel } from '../../src/data/scoring-models';
+import { CrimeDataService } from '../../src/services/crimeDataService';
+import { RiskSurfaceService } from '../../src/services/riskSurfaceService';
+import { SafetyScoringService } from '../../src/services/safetyScoringService';
+import { ScoringModelService } from '../../src/services/scoringModelService';
+import { MemoryStorage } from '../../src/storage';
+
+describe('ScoringModelService', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoring-models-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeModels = (name: string, models: unknown): string => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, JSON.stringify(models));
+    return filePath;
+  };
+
+  // Scores with nothing but lighting
+  const lightingOnly: ScoringModel = {
+    ...BUILT_IN_SCORING_MODELS[0],
+    version: '2.0.0-test',
+    name: 'lighting-only',
+    weights: { crime: 0, time: 0, population: 0, lighting: 1 },
+    thresholds: { ...BUILT_IN_SCORING_MODELS[0].thresholds, positiveFactor: 95 }
+  };
+
+  it('should serve the built-in models with the research.md model as default', () => {
+    const service = new ScoringModelService(undefined, '1.0.0');
+
+    expect(service.listModels().map(model => model.version)).toEqual(['1.0.0', '1.1.0']);
+    expect(service.getModel().weights).toEqual({ crime: 0.4, time: 0.3, population: 0.2, lighting: 0.1 });
+    expect(service.getModel('1.1.0').name).toBe('street-exposure');
+    expect(() => service.getModel('9.9.9')).toThrow(expect.objectContaining({ code: 'UNKNOWN_MODEL_VERSION' }));
+  });
+
+  it('should add models from a file, replacing built-ins of the same version', () => {
+    const replaced = { ...BUILT_IN_SCORING_MODELS[1], description: 'Tuned for the CBD' };
+    const service = new ScoringModelService(writeModels('models.json', [lightingOnly, replaced]), lightingOnly.version);
+
+    expect(service.listModels().map(model => model.version)).toEqual(['1.0.0', '1.1.0', '2.0.0-test']);
+    expect(service.getModel().name).toBe('lighting-only');
+    expect(service.getModel('1.1.0').description).toBe('Tuned for the CBD');
+  });
+
+  it('should reject invalid model files and an undefined default version', () => {
+    const unbalanced = { ...lightingOnly, weights: { crime: 0.5, time: 0.3, population: 0.2, lighting: 0.1 } };
+    expect(() => new ScoringModelService(writeModels('unbalanced.json', [unbalanced])).load())
+      .toThrow('Scoring model 2.0.0-test in');
+    expect(() => new ScoringModelService(writeModels('unbalanced.json', [unbalanced])).load())
+      .toThrow('weights must sum to 1, got 1.1');
+
+    const noLighting = { ...lightingOnly, riskMultipliers: { ...lightingOnly.riskMultipliers, walking: { footTrafficWeight: 1 } } };
+    expect(() => new ScoringModelService(writeModels('lighting.json', [noLighting])).load())
+      .toThrow('riskMultipliers.walking.nightLighting');
+
+    expect(() => new ScoringModelService(writeModels('object.json', { models: [] })).load()).toThrow('JSON array');
+    expect(() => new ScoringModelService(undefined, '3.0.0').load()).toThrow('Default scoring model 3.0.0 is not defined');
+  });
+
+  it('should score with the weights and thresholds of the requested model and report its version', async () => {
+    const models = new ScoringModelService(writeModels('scoring.json', [lightingOnly]), '1.0.0');
+    const scoring = new SafetyScoringService(new RiskSurfaceService(new CrimeDataService(new MemoryStorage())), models);
+    const request = {
+      location: { latitude: -33.9249, longitude: 18.4241 },
+      timeContext: { currentTime: '2025-03-14T23:00:00' }
+    };
+
+    const standard = await scoring.calculateLocationSafety(request);
+    const custom = await scoring.calculateLocationSafety({ ...request, modelVersion: lightingOnly.version });
+
+    expect(standard.metadata.aiModelVersion).toBe('1.0.0');
+    expect(custom.metadata.aiModelVersion).toBe('2.0.0-test');
+    expect(custom.safetyScore.overall).toBe(custom.safetyScore.lightingLevel);
+    expect(custom.safetyScore.factors.map(factor => factor.weight)).toEqual([0, 0, 0, 1]);
+
+    // Night lighting is capped at 95, below this model's positive threshold
+    const lighting = custom.safetyScore.factors.find(factor => factor.type === 'lighting')!;
+    expect(lighting.impact).toBe('neutral');
+
+    await expect(scoring.calculateLocationSafety({ ...request, modelVersion: '9.9.9' }))
+      .rejects.toMatchObject({ code: 'UNKNOWN_MODEL_VERSION' });
+  });
+});
@@ -0,0 +1,127 @@
+// Unit Test: storage repositories
+// The same behaviour is checked against the in-memory and SQLite drivers
+
+import Database from 'better-sqlite3';
+import { MemoryStorage, SqliteStorage, Storage } from '../../src/storage';
+import { hexCellV7, MIGRATIONS } from '../../src/storage/migrations';
+import { gridService } from '../../src/services/gridService';
+import { NavigationSession, Route } from '../../src/types';
+
+const route = (id: string): Route => ({
+  id,
+  origin: { latitude: -33.92, longitude: 18.42 },
+  destination: { latitude: -33.93, longitude: 18.44 },
+  totalDistance: 2500,
+  estimatedDuration: 300,
+  safetyScore: {
+    overall: 72,
+    crimeRisk: 30,
+    timeFactor: 80,
+    populationDensity: 60,
+    lightingLevel: 70,
+    historicalIncidents: 20,
+    confidenceLevel: 85,
+    explanation: 'Moderate risk',
+    lastCalculated: new Date('2025-03-14T12:00:00.000Z'),
+    factors: []
+  },
+  segments: [],
+  alternativeRank: 1,
+  createdAt: new Date('2025-03-14T12:00:00.000Z'),
+  lastUpdated: new Date('2025-03-14T12:00:00.000Z')
+});
+
+const drivers: Array<[string, () => Storage]> = [
+  ['memory', () => new MemoryStorage()],
+  ['sqlite', () => new SqliteStorage(':memory:')]
+];
+
+describe.each(drivers)('%s storage', (_name, createStorage) => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await storage.close();
+  });
+
+  it('should round-trip records and restore dates', async () => {
+    await storage.routes.put('r1', route('r1'));
+    const stored = await storage.routes.get('r1');
+
+    expect(stored).toEqual(route('r1'));
+    expect(stored!.createdAt).toBeInstanceOf(Date);
+    expect(await storage.routes.get('missing')).toBeUndefined();
+  });
+
+  it('should overwrite and delete records', async () => {
+    await storage.routes.put('r1', route('r1'));
+    await storage.routes.put('r1', { ...route('r1'), estimatedDuration: 420 });
+
+    expect((await storage.routes.get('r1'))!.estimatedDuration).toBe(420);
+    expect(await storage.routes.count()).toBe(1);
+    expect(await storage.routes.delete('r1')).toBe(true);
+    expect(await storage.routes.delete('r1')).toBe(false);
+  });
+
+  it('should hide and purge expired records', async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-14T12:00:00Z') });
+    await storage.routes.put('short', route('short'), { ttlSeconds: 60 });
+    await storage.routes.put('kept', route('kept'), { ttlSeconds: 0 });
+
+    jest.setSystemTime(new Date('2025-03-14T12:02:00Z'));
+    expect(await storage.routes.get('short')).toBeUndefined();
+    expect(await storage.routes.get('kept')).toBeDefined();
+    expect(await storage.routes.count()).toBe(1);
+    expect(await storage.purgeExpired()).toBe(1);
+  });
+
+  it('should find records by field, newest first, with pagination', async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-14T12:00:00Z') });
+    const session = (id: string, userId: string) => ({ id, userId, status: 'active' } as unknown as NavigationSession);
+
+    await storage.sessions.put('s1', session('s1', 'u1'));
+    jest.advanceTimersByTime(1000);
+    await storage.sessions.put('s2', session('s2', 'u2'));
+    jest.advanceTimersByTime(1000);
+    await storage.sessions.put('s3', session('s3', 'u1'));
+
+    expect((await storage.sessions.findBy('userId', 'u1')).map(s => s.id)).toEqual(['s3', 's1']);
+    expect((await storage.sessions.findBy('userId', 'u1', { limit: 1, offset: 1 })).map(s => s.id)).toEqual(['s1']);
+    expect((await storage.sessions.list({ limit: 2 })).map(s => s.id)).toEqual(['s3', 's2']);
+  });
+});
+
+describe('SqliteStorage migrations', () => {
+  it('should apply each migration once', async () => {
+    const storage = new SqliteStorage(':memory:');
+
+    expect(storage.migrate()).toEqual([]);
+    await storage.close();
+  });
+
+  it('should move incident reports onto the hexagonal grid', () => {
+    const db = new Database(':memory:');
+    const apply = (version: number) => {
+      const { up } = MIGRATIONS.find(migration => migration.version === version)!;
+      if (typeof up === 'string') db.exec(up);
+      else up(db);
+    };
+    [1, 2, 3, 4, 5, 6].forEach(apply);
+
+    const points = [[-33.9249, 18.4241], [-34.0, 18.5], [-33.8688, 18.5123], [-34.1, 18.83]];
+    const insert = db.prepare('INSERT INTO incident_reports (id, data, created_at, updated_at) VALUES (?, ?, 0, 0)');
+    points.forEach(([latitude, longitude], index) =>
+      insert.run(`r${index}`, JSON.stringify({ location: { latitude, longitude }, gridCell: 'CT_-33.92_18.42' })));
+    apply(7);
+
+    const rows = db.prepare(`SELECT json_extract(data, '$.gridCell') AS cell FROM incident_reports ORDER BY id`).all();
+    const cells = (rows as Array<{ cell: string }>).map(row => row.cell);
+    expect(cells).toEqual(points.map(([latitude, longitude]) => gridService.pointToCell(latitude, longitude, 6)));
+    expect(hexCellV7(-33.9249, 18.4241)).toBe('HX6_1_-11');
+    db.close();
+  });
+});
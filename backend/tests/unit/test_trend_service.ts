@@ -0,0 +1,62 @@
+// Unit Test: TrendService period-over-period incident rate comparison
+// Expected p-values are from the exact binomial test of the current period's share of incidents
+
+import { TrendService } from '../../src/services/trendService';
+
+describe('TrendService', () => {
+  const service = new TrendService();
+  const previousPeriod = { start: new Date(2025, 0, 1), end: new Date(2025, 0, 31) };
+  const currentPeriod = { start: new Date(2025, 0, 31), end: new Date(2025, 2, 2) };
+
+  it('should report a significant increase with its confidence interval', () => {
+    const trend = service.comparePeriods({ count: 30, period: currentPeriod }, { count: 10, period: previousPeriod });
+
+    expect(trend).toMatchObject({
+      direction: 'increasing',
+      significant: true,
+      changePercent: 200,
+      rateRatio: 3,
+      currentIncidents: 30,
+      previousIncidents: 10,
+      confidenceLevel: 0.95
+    });
+    expect(trend.pValue).toBeCloseTo(0.0022, 4);
+    expect(trend.confidenceInterval.lower).toBeGreaterThan(0);
+    expect(trend.confidenceInterval.lower).toBeLessThan(200);
+    expect(trend.confidenceInterval.upper).toBeGreaterThan(200);
+  });
+
+  it('should leave out the direction when the change could be chance', () => {
+    const trend = service.comparePeriods({ count: 12, period: currentPeriod }, { count: 10, period: previousPeriod });
+
+    expect(trend.direction).toBeUndefined();
+    expect(trend.significant).toBe(false);
+    expect(trend.changePercent).toBe(20);
+    expect(trend.pValue).toBeCloseTo(0.8318, 4);
+    expect(trend.confidenceInterval.lower).toBeLessThan(0);
+    expect(trend.confidenceInterval.upper).toBeGreaterThan(0);
+  });
+
+  it('should compare daily rates of periods of different lengths', () => {
+    const year = { start: new Date(2023, 3, 1), end: new Date(2024, 2, 31) };
+    const halfYear = { start: new Date(2024, 3, 1), end: new Date(2024, 8, 28) };
+    const trend = service.comparePeriods({ count: 500, period: halfYear }, { count: 1000, period: year });
+
+    expect(trend.rateRatio).toBeCloseTo(1, 1);
+    expect(trend.significant).toBe(false);
+
+    const decrease = service.comparePeriods({ count: 300, period: halfYear }, { count: 1000, period: year });
+    expect(decrease.direction).toBe('decreasing');
+    expect(decrease.confidenceInterval.upper).toBeLessThan(0);
+  });
+
+  it('should keep estimates finite when a period has no incidents', () => {
+    const fromNothing = service.comparePeriods({ count: 8, period: currentPeriod }, { count: 0, period: previousPeriod });
+    expect(fromNothing.direction).toBe('increasing');
+    expect(Number.isFinite(fromNothing.changePercent)).toBe(true);
+    expect(Number.isFinite(fromNothing.confidenceInterval.upper)).toBe(true);
+
+    const none = service.comparePeriods({ count: 0, period: currentPeriod }, { count: 0, period: previousPeriod });
+    expect(none).toMatchObject({ significant: false, pValue: 1, changePercent: 0 });
+  });
+});
@@ -72,7 +72,7 @@ function App() {
         origin,
         destination,
         preferences,
-        options: { maxRoutes: 3 },
+        options: { maxRoutes: 3, travelMode: preferences.travelMode },
       };
 
       const response = await RoutingService.calculateRoutes(request);
@@ -1,6 +1,8 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { GoogleMap, LoadScript, Marker, DirectionsRenderer } from '@react-google-maps/api';
+import { FormControlLabel, Switch } from '@mui/material';
 import { Location, Route, RouteSegment } from '../types';
+import SafetyService from '../services/safetyService';
 
 const containerStyle = {
   width: '100%',
@@ -13,6 +15,9 @@ const center = {
   lng: 18.4241
 };
 
+const HEATMAP_TILE_SIZE = 256;
+const HEATMAP_OPACITY = 0.7;
+
 const mapOptions = {
   zoom: 12,
   center: center,
@@ -36,12 +41,17 @@ interface MapViewProps {
   route?: Route;
   onMapLoad?: (map: google.maps.Map) => void;
   onMarkerClick?: (location: Location) => void;
+  heatmapHour?: number; // Hour of day (0-23) for the crime heatmap, all day when omitted
+  heatmapCrimeType?: string;
 }
 
-const MapView: React.FC<MapViewProps> = ({ origin, destination, route, onMapLoad, onMarkerClick }) => {
+const MapView: React.FC<MapViewProps> = ({ origin, destination, route, onMapLoad, onMarkerClick, heatmapHour, heatmapCrimeType }) => {
   const mapRef = useRef<google.maps.Map | null>(null);
   const directionsServiceRef = useRef<google.maps.DirectionsService | null>(null);
   const directionsRendererRef = useRef<google.maps.DirectionsRenderer | null>(null);
+  const heatmapLayerRef = useRef<google.maps.ImageMapType | null>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
 
   const getSafetyColor = (score: number): string => {
     if (score >= 80) return '#28a745'; // Green
@@ -86,8 +96,36 @@ const MapView: React.FC<MapViewProps> = ({ origin, destination, route, onMapLoad
     }
   }, [route, getSafetyColor]);
 
+  // Crime heatmap overlay from backend tiles, rebuilt when the hour or crime type changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (heatmapLayerRef.current) {
+      const index = map.overlayMapTypes.getArray().indexOf(heatmapLayerRef.current);
+      if (index >= 0) map.overlayMapTypes.removeAt(index);
+      heatmapLayerRef.current = null;
+    }
+
+    if (showHeatmap) {
+      heatmapLayerRef.current = new google.maps.ImageMapType({
+        name: 'Crime heatmap',
+        tileSize: new google.maps.Size(HEATMAP_TILE_SIZE, HEATMAP_TILE_SIZE),
+        opacity: HEATMAP_OPACITY,
+        getTileUrl: (coord, zoom) => {
+          const tiles = 1 << zoom;
+          if (coord.y < 0 || coord.y >= tiles) return null;
+          const x = ((coord.x % tiles) + tiles) % tiles; // Wrap around the antimeridian
+          return SafetyService.getHeatmapTileUrl(zoom, x, coord.y, { hour: heatmapHour, crimeType: heatmapCrimeType });
+        }
+      });
+      map.overlayMapTypes.push(heatmapLayerRef.current);
+    }
+  }, [mapLoaded, showHeatmap, heatmapHour, heatmapCrimeType]);
+
   const handleMapLoad = (map: google.maps.Map) => {
     mapRef.current = map;
+    setMapLoaded(true);
     if (onMapLoad) onMapLoad(map);
   };
 
@@ -99,38 +137,44 @@ const MapView: React.FC<MapViewProps> = ({ origin, destination, route, onMapLoad
   const destinationPosition = destination ? { lat: destination.latitude, lng: destination.longitude } : null;
 
   return (
-    <LoadScript googleMapsApiKey={process.env.REACT_APP_GOOGLE_MAPS_API_KEY || ''} libraries={["places"]}>
-      <GoogleMap
-        mapContainerStyle={containerStyle}
-        center={center}
-        zoom={12}
-        options={mapOptions}
-        onLoad={handleMapLoad}
-      >
-        {originPosition && (
-          <Marker
-            position={originPosition}
-            title="Origin"
-            icon={{
-              url: 'https://maps.google.com/mapfiles/ms/icons/green-dot.png',
-              scaledSize: new google.maps.Size(32, 32)
-            }}
-            onClick={() => handleMarkerClick(origin!)}
-          />
-        )}
-        {destinationPosition && (
-          <Marker
-            position={destinationPosition}
-            title="Destination"
-            icon={{
-              url: 'https://maps.google.com/mapfiles/ms/icons/red-dot.png',
-              scaledSize: new google.maps.Size(32, 32)
-            }}
-            onClick={() => handleMarkerClick(destination!)}
-          />
-        )}
-      </GoogleMap>
-    </LoadScript>
+    <>
+      <FormControlLabel
+        control={<Switch checked={showHeatmap} onChange={event => setShowHeatmap(event.target.checked)} size="small" />}
+        label="Crime heatmap"
+      />
+      <LoadScript googleMapsApiKey={process.env.REACT_APP_GOOGLE_MAPS_API_KEY || ''} libraries={["places"]}>
+        <GoogleMap
+          mapContainerStyle={containerStyle}
+          center={center}
+          zoom={12}
+          options={mapOptions}
+          onLoad={handleMapLoad}
+        >
+          {originPosition && (
+            <Marker
+              position={originPosition}
+              title="Origin"
+              icon={{
+                url: 'https://maps.google.com/mapfiles/ms/icons/green-dot.png',
+                scaledSize: new google.maps.Size(32, 32)
+              }}
+              onClick={() => handleMarkerClick(origin!)}
+            />
+          )}
+          {destinationPosition && (
+            <Marker
+              position={destinationPosition}
+              title="Destination"
+              icon={{
+                url: 'https://maps.google.com/mapfiles/ms/icons/red-dot.png',
+                scaledSize: new google.maps.Size(32, 32)
+              }}
+              onClick={() => handleMarkerClick(destination!)}
+            />
+          )}
+        </GoogleMap>
+      </LoadScript>
+    </>
   );
 };
 
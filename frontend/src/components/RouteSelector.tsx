@@ -88,6 +88,21 @@ const RouteSelector: React.FC<RouteSelectorProps> = ({ routes, selectedRouteId,
                     Duration: {formatDuration(route.estimatedDuration)}
                   </Typography>
 
+                  {route.roadTypeBreakdown && (
+                    <Typography variant="caption" color="textSecondary" sx={{ display: 'block' }}>
+                      Highway: {formatDistance(route.roadTypeBreakdown.highway)} · Toll: {formatDistance(route.roadTypeBreakdown.toll)}
+                    </Typography>
+                  )}
+
+                  {route.segments.some(segment => segment.transit) && (
+                    <Typography variant="caption" color="textSecondary" sx={{ display: 'block' }}>
+                      {route.segments
+                        .filter(segment => segment.transit)
+                        .map(segment => `${segment.transit!.agency} ${segment.transit!.line} ${segment.transit!.departureTime.slice(0, 5)} from ${segment.transit!.departureStop}`)
+                        .join(' → ')}
+                    </Typography>
+                  )}
+
                   {safetyScore.explanation && (
                     <Typography variant="caption" sx={{ mt: 1, display: 'block', color: 'text.primary' }}>
                       {safetyScore.explanation.substring(0, 100)}...
@@ -40,6 +40,17 @@ class SafetyService {
     }
   }
 
+  // Acknowledge an active safety alert
+  static async acknowledgeAlert(alertId: string, actionTaken?: string): Promise<SafetyAlert> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/safety/alerts/${encodeURIComponent(alertId)}/acknowledge`, { actionTaken });
+      return response.data;
+    } catch (error) {
+      console.error('Error acknowledging safety alert:', error);
+      throw new Error('Failed to acknowledge safety alert');
+    }
+  }
+
   // Get crime data for Cape Town areas
   static async getCrimeData(area?: string, crimeType?: string, timeframe: string = '6months'): Promise<CrimeDataResponse> {
     try {
@@ -52,6 +63,15 @@ class SafetyService {
     }
   }
 
+  // URL of a crime heatmap tile (PNG) for the map overlay
+  static getHeatmapTileUrl(zoom: number, x: number, y: number, options: { hour?: number; crimeType?: string } = {}): string {
+    const params = new URLSearchParams();
+    if (options.hour !== undefined) params.set('hour', options.hour.toString());
+    if (options.crimeType) params.set('crimeType', options.crimeType);
+    const query = params.toString();
+    return `${API_BASE_URL}/safety/tiles/${zoom}/${x}/${y}.png${query ? `?${query}` : ''}`;
+  }
+
   // Client-side safety score computation (fallback or for real-time updates)
   static computeLocalSafetyScore(location: { latitude: number; longitude: number }, time: Date): SafetyScore {
     // Simple placeholder algorithm - in production, use more sophisticated logic
@@ -38,11 +38,39 @@ export interface Route {
   safetyScore: SafetyScore;
   segments: RouteSegment[];
   alternativeRank: number;
+  waypointOrder?: number[];
+  legs?: RouteLeg[];
+  travelMode?: UserPreferences['travelMode'];
+  roadTypeBreakdown?: RoadTypeBreakdown;
   googleRouteId?: string;
   createdAt: Date;
   lastUpdated: Date;
 }
 
+export interface RouteLeg {
+  index: number;
+  start: Location;
+  end: Location;
+  distance: number;
+  duration: number;
+  segmentIds: string[];
+  safety?: {
+    overall: number;
+    lowestSegmentScore: number;
+    riskiestSegmentId: string;
+    isRiskiestLeg: boolean;
+    explanation: string;
+  };
+}
+
+export interface RoadTypeBreakdown {
+  highway: number;
+  arterial: number;
+  local: number;
+  residential: number;
+  toll: number;
+}
+
 export interface RouteSegment {
   id: string;
   startLocation: Location;
@@ -52,6 +80,24 @@ export interface RouteSegment {
   safetyScore: SafetyScore;
   roadType: 'highway' | 'arterial' | 'local' | 'residential';
   lightingLevel: 'high' | 'medium' | 'low' | 'none';
+  travelMode?: UserPreferences['travelMode'];
+  transit?: TransitDetails;
+  geometry?: Array<[number, number]>; // [longitude, latitude] polyline from start to end
+}
+
+export interface TransitDetails {
+  agency: string;
+  line: string;
+  lineName: string;
+  vehicle: 'bus' | 'rail' | 'tram' | 'ferry';
+  headsign?: string;
+  tripId: string;
+  departureStop: string;
+  arrivalStop: string;
+  departureTime: string;
+  arrivalTime: string;
+  stopCount: number;
+  waitTime: number;
 }
 
 export interface UserPreferences {
@@ -74,6 +120,10 @@ export interface RouteOptions {
   avoidTolls?: boolean;
   avoidHighways?: boolean;
   optimizeFor?: 'time' | 'safety' | 'balanced';
+  travelMode?: UserPreferences['travelMode'];
+  departureTime?: string;
+  optimizeWaypointOrder?: boolean;
+  modelVersion?: string;
 }
 
 export interface RouteResponse {
@@ -99,6 +149,7 @@ export interface SafetyScoreRequest {
   timeContext: TimeContext;
   factors?: ScoringFactors;
   userContext?: UserContext;
+  modelVersion?: string;
 }
 
 export interface TimeContext {
@@ -145,6 +196,8 @@ export interface SafetyAlert {
   location: Location;
   timestamp: string;
   expiresAt?: string;
+  acknowledged?: boolean;
+  actionTaken?: string;
   source?: string;
   verified?: boolean;
 }